@@ -0,0 +1,75 @@
+/**
+ * BUS-Tickets - expo-sqlite Test Double
+ * Runs the async expo-sqlite API on sql.js, a real SQLite compiled to JS,
+ * so the SQLite engine can be tested without a device
+ * Copyright (c) 2024-2026 IT Enterprise
+ */
+
+import initSqlJs, { Database, SqlValue } from 'sql.js';
+
+type Params = Array<string | number | null>;
+
+const sqlJs = initSqlJs();
+
+// Databases outlive closing, as files on a device do
+const files = new Map<string, Database>();
+
+function queryAll<T>(db: Database, sql: string, params: Params = []): T[] {
+  const statement = db.prepare(sql, params as SqlValue[]);
+  const rows: T[] = [];
+  try {
+    while (statement.step()) {
+      rows.push(statement.getAsObject() as T);
+    }
+  } finally {
+    statement.free();
+  }
+  return rows;
+}
+
+function wrap(db: Database) {
+  return {
+    async execAsync(sql: string): Promise<void> {
+      db.exec(sql);
+    },
+    async runAsync(sql: string, params: Params = []) {
+      db.run(sql, params as SqlValue[]);
+      const changes = db.getRowsModified();
+      const [{ id }] = queryAll<{ id: number }>(db, 'SELECT last_insert_rowid() AS id');
+      return { lastInsertRowId: id, changes };
+    },
+    async getAllAsync<T>(sql: string, params: Params = []): Promise<T[]> {
+      return queryAll<T>(db, sql, params);
+    },
+    async getFirstAsync<T>(sql: string, params: Params = []): Promise<T | null> {
+      return queryAll<T>(db, sql, params)[0] ?? null;
+    },
+    async withTransactionAsync(task: () => Promise<void>): Promise<void> {
+      db.exec('BEGIN');
+      try {
+        await task();
+        db.exec('COMMIT');
+      } catch (error) {
+        db.exec('ROLLBACK');
+        throw error;
+      }
+    },
+    async closeAsync(): Promise<void> {
+      // Kept open so a reopened database sees the same data
+    },
+  };
+}
+
+export async function openDatabaseAsync(name: string) {
+  let db = files.get(name);
+  if (!db) {
+    db = new (await sqlJs).Database();
+    files.set(name, db);
+  }
+  return wrap(db);
+}
+
+export async function deleteDatabaseAsync(name: string): Promise<void> {
+  files.get(name)?.close();
+  files.delete(name);
+}
@@ -20,13 +20,14 @@ import { Ionicons } from '@expo/vector-icons';
 import { useTheme } from '@/contexts/ThemeContext';
 import { useConfig } from '@/contexts/ConfigContext';
 import { useLocale } from '@/contexts/LocaleContext';
+import { httpClient } from '@/services/HttpClient';
+import { decodeLocations, decodeTripList } from '@/services/decoders';
+import { PriceCalendar } from '@/components/PriceCalendar';
+import { usePriceCalendar } from '@/hooks/usePriceCalendar';
+import { fromDateKey, toDateKey, CalendarMode } from '@/utils/priceCalendar';
+import type { Location } from '@/types';
 
-interface Location {
-  id: number;
-  name: string;
-  country?: string;
-  countryName?: string;
-}
+const startOfDay = (d: Date): number => new Date(d).setHours(0, 0, 0, 0);
 
 interface PopularRoute {
   from: string;
@@ -52,12 +53,27 @@ export default function SearchScreen() {
   const [origin, setOrigin] = useState('');
   const [destination, setDestination] = useState('');
   const [date, setDate] = useState(new Date());
+  // Null for a one-way search
+  const [returnDate, setReturnDate] = useState<Date | null>(null);
   const [passengers, setPassengers] = useState(1);
 
   // Modal state
   const [showOriginPicker, setShowOriginPicker] = useState(false);
   const [showDestinationPicker, setShowDestinationPicker] = useState(false);
   const [showDatePicker, setShowDatePicker] = useState(false);
+  const [showReturnDatePicker, setShowReturnDatePicker] = useState(false);
+
+  // Flexible dates: compare prices around the date or across a month
+  const [dateMode, setDateMode] = useState<'exact' | CalendarMode>('exact');
+  const [calendarMonth, setCalendarMonth] = useState(() => new Date());
+  const priceCalendar = usePriceCalendar({
+    origin,
+    destination,
+    passengers,
+    mode: dateMode === 'month' ? 'month' : 'around',
+    date: dateMode === 'month' ? calendarMonth : date,
+    enabled: showDatePicker && dateMode !== 'exact',
+  });
 
   // Popular routes
   const [popularRoutes, setPopularRoutes] = useState<PopularRoute[]>([]);
@@ -71,11 +87,8 @@ export default function SearchScreen() {
   const loadLocations = async () => {
     setIsLoadingLocations(true);
     try {
-      const response = await fetch(`${config.backend.url}/api/v1/locations`);
-      const data = await response.json();
-      if (data.success && data.data) {
-        setLocations(data.data);
-      }
+      const data = await httpClient.get('/api/v1/locations', { auth: false });
+      setLocations(decodeLocations(data));
     } catch (error) {
       console.error('Error loading locations:', error);
     } finally {
@@ -85,25 +98,24 @@ export default function SearchScreen() {
 
   const loadPopularRoutes = async () => {
     try {
-      const response = await fetch(`${config.backend.url}/api/v1/trips/popular`);
-      const data = await response.json();
-      if (data.success && data.data?.trips) {
-        // Extract unique routes from popular trips
-        const routeMap = new Map<string, PopularRoute>();
-        data.data.trips.forEach((trip: any) => {
-          const key = `${trip.route?.origin?.id}-${trip.route?.destination?.id}`;
-          if (!routeMap.has(key) && trip.route?.origin && trip.route?.destination) {
-            routeMap.set(key, {
-              from: trip.route.origin.name,
-              to: trip.route.destination.name,
-              fromId: trip.route.origin.id,
-              toId: trip.route.destination.id,
-              price: `${trip.price?.amount || 0} ${trip.price?.currency || 'CZK'}`,
-            });
-          }
-        });
-        setPopularRoutes(Array.from(routeMap.values()).slice(0, 5));
-      }
+      const data = await httpClient.get<unknown>('/api/v1/trips/popular', { auth: false });
+      const trips = decodeTripList(data);
+
+      // Extract unique routes from popular trips
+      const routeMap = new Map<string, PopularRoute>();
+      trips.forEach((trip) => {
+        const key = `${trip.route.origin.id}-${trip.route.destination.id}`;
+        if (!routeMap.has(key)) {
+          routeMap.set(key, {
+            from: trip.route.origin.name,
+            to: trip.route.destination.name,
+            fromId: trip.route.origin.id,
+            toId: trip.route.destination.id,
+            price: `${trip.price.amount} ${trip.price.currency}`,
+          });
+        }
+      });
+      setPopularRoutes(Array.from(routeMap.values()).slice(0, 5));
     } catch (error) {
       console.error('Error loading popular routes:', error);
     }
@@ -135,22 +147,60 @@ export default function SearchScreen() {
     setDestination(tempName);
   };
 
-  const handleSearch = () => {
+  const handleSelectDate = (selected: Date) => {
+    setDate(selected);
+    // The return can't be before the outbound trip
+    if (returnDate && startOfDay(returnDate) < startOfDay(selected)) {
+      setReturnDate(selected);
+    }
+  };
+
+  const handleToggleRoundTrip = (roundTrip: boolean) => {
+    if (!roundTrip) {
+      setReturnDate(null);
+      return;
+    }
+    const defaultReturn = new Date(date);
+    defaultReturn.setDate(defaultReturn.getDate() + 7);
+    setReturnDate(defaultReturn);
+  };
+
+  const handleSearch = (outboundDate: Date = date) => {
     if (!origin || !destination) {
       return;
     }
 
+    const inboundDate =
+      returnDate && startOfDay(returnDate) < startOfDay(outboundDate) ? outboundDate : returnDate;
     router.push({
       pathname: '/search/results',
       params: {
         origin,
         destination,
-        date: date.toISOString().split('T')[0], // YYYY-MM-DD format
+        date: toDateKey(outboundDate), // YYYY-MM-DD format
         passengers: passengers.toString(),
+        ...(inboundDate && { returnDate: toDateKey(inboundDate) }),
       },
     });
   };
 
+  /**
+   * A day picked on the price calendar goes straight to its results
+   */
+  const handleSelectCalendarDay = (key: string) => {
+    const selected = fromDateKey(key);
+    handleSelectDate(selected);
+    setShowDatePicker(false);
+    handleSearch(selected);
+  };
+
+  const handleChangeCalendarMonth = (offset: number) => {
+    const next = new Date(calendarMonth.getFullYear(), calendarMonth.getMonth() + offset, 1);
+    // Nothing to search before the current month
+    if (next < new Date(new Date().getFullYear(), new Date().getMonth(), 1)) return;
+    setCalendarMonth(next);
+  };
+
   const handleSelectPopularRoute = (route: PopularRoute) => {
     setOriginId(route.fromId);
     setOrigin(route.from);
@@ -240,41 +290,109 @@ export default function SearchScreen() {
   );
 
   // Date Picker Modal
-  const DatePickerModal = () => (
-    <Modal visible={showDatePicker} animationType="slide" transparent>
+  const DatePickerModal = ({
+    visible,
+    onClose,
+    onSelect,
+    title,
+    selected,
+    minDate,
+    flexible = false,
+  }: {
+    visible: boolean;
+    onClose: () => void;
+    onSelect: (d: Date) => void;
+    title: string;
+    selected: Date;
+    minDate?: Date;
+    /**
+     * Offer the price calendar modes
+     */
+    flexible?: boolean;
+  }) => (
+    <Modal visible={visible} animationType="slide" transparent>
       <View style={styles.modalOverlay}>
         <View style={styles.modalContent}>
           <View style={styles.modalHeader}>
-            <Text style={styles.modalTitle}>{t.search.selectDate}</Text>
-            <TouchableOpacity onPress={() => setShowDatePicker(false)}>
+            <Text style={styles.modalTitle}>{title}</Text>
+            <TouchableOpacity onPress={onClose}>
               <Ionicons name="close" size={24} color={colors.text} />
             </TouchableOpacity>
           </View>
-          <FlatList
-            data={dateOptions}
-            keyExtractor={(item) => item.toISOString()}
-            renderItem={({ item }) => {
-              const isSelected = item.toDateString() === date.toDateString();
-              const isToday = item.toDateString() === new Date().toDateString();
-              return (
+          {flexible && (
+            <View style={styles.dateModeRow}>
+              {(['exact', 'around', 'month'] as const).map((mode) => (
                 <TouchableOpacity
-                  style={[styles.dateItem, isSelected && styles.dateItemSelected]}
+                  key={mode}
+                  style={[styles.tripTypeOption, dateMode === mode && styles.tripTypeOptionSelected]}
                   onPress={() => {
-                    setDate(item);
-                    setShowDatePicker(false);
+                    setDateMode(mode);
+                    if (mode === 'month') setCalendarMonth(selected);
                   }}
                 >
-                  <View>
-                    <Text style={[styles.dateText, isSelected && styles.dateTextSelected]}>
-                      {formatDateLocal(item)}
-                    </Text>
-                    {isToday && <Text style={styles.todayBadge}>{t.common.today}</Text>}
-                  </View>
-                  {isSelected && <Ionicons name="checkmark" size={20} color={colors.primary} />}
+                  <Text
+                    style={[styles.tripTypeText, dateMode === mode && styles.tripTypeTextSelected]}
+                  >
+                    {mode === 'exact'
+                      ? t.priceCalendar.exactDate
+                      : mode === 'around'
+                      ? t.priceCalendar.flexibleDays
+                      : t.priceCalendar.wholeMonth}
+                  </Text>
                 </TouchableOpacity>
-              );
-            }}
-          />
+              ))}
+            </View>
+          )}
+          {flexible && dateMode !== 'exact' ? (
+            !origin || !destination ? (
+              <Text style={styles.calendarHint}>{t.priceCalendar.chooseRouteFirst}</Text>
+            ) : (
+              <View>
+                <PriceCalendar
+                  mode={dateMode}
+                  days={priceCalendar.days}
+                  levels={priceCalendar.levels}
+                  month={calendarMonth}
+                  selectedDate={toDateKey(selected)}
+                  onSelectDay={handleSelectCalendarDay}
+                  onChangeMonth={handleChangeCalendarMonth}
+                  isLoading={priceCalendar.isLoading}
+                  error={priceCalendar.error}
+                />
+                <Text style={styles.calendarHint}>{t.priceCalendar.tapToSearch}</Text>
+              </View>
+            )
+          ) : (
+            <FlatList
+              data={
+                minDate
+                  ? dateOptions.filter((d) => startOfDay(d) >= startOfDay(minDate))
+                  : dateOptions
+              }
+              keyExtractor={(item) => item.toISOString()}
+              renderItem={({ item }) => {
+                const isSelected = item.toDateString() === selected.toDateString();
+                const isToday = item.toDateString() === new Date().toDateString();
+                return (
+                  <TouchableOpacity
+                    style={[styles.dateItem, isSelected && styles.dateItemSelected]}
+                    onPress={() => {
+                      onSelect(item);
+                      onClose();
+                    }}
+                  >
+                    <View>
+                      <Text style={[styles.dateText, isSelected && styles.dateTextSelected]}>
+                        {formatDateLocal(item)}
+                      </Text>
+                      {isToday && <Text style={styles.todayBadge}>{t.common.today}</Text>}
+                    </View>
+                    {isSelected && <Ionicons name="checkmark" size={20} color={colors.primary} />}
+                  </TouchableOpacity>
+                );
+              }}
+            />
+          )}
         </View>
       </View>
     </Modal>
@@ -327,6 +445,24 @@ export default function SearchScreen() {
         {/* Divider */}
         <View style={styles.divider} />
 
+        {/* Trip type */}
+        <View style={styles.tripTypeRow}>
+          {[false, true].map((roundTrip) => {
+            const isSelected = (returnDate !== null) === roundTrip;
+            return (
+              <TouchableOpacity
+                key={roundTrip ? 'return' : 'one-way'}
+                style={[styles.tripTypeOption, isSelected && styles.tripTypeOptionSelected]}
+                onPress={() => handleToggleRoundTrip(roundTrip)}
+              >
+                <Text style={[styles.tripTypeText, isSelected && styles.tripTypeTextSelected]}>
+                  {roundTrip ? t.roundTrip.roundTrip : t.roundTrip.oneWay}
+                </Text>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+
         {/* Date */}
         <TouchableOpacity style={styles.inputContainer} onPress={() => setShowDatePicker(true)}>
           <Ionicons name="calendar" size={20} color={colors.primary} />
@@ -334,6 +470,20 @@ export default function SearchScreen() {
           <Ionicons name="chevron-down" size={20} color={colors.textSecondary} />
         </TouchableOpacity>
 
+        {/* Return date */}
+        {returnDate && (
+          <TouchableOpacity
+            style={styles.inputContainer}
+            onPress={() => setShowReturnDatePicker(true)}
+          >
+            <Ionicons name="calendar-outline" size={20} color={colors.primary} />
+            <Text style={styles.inputText}>
+              {t.roundTrip.returnDate}: {formatDateLocal(returnDate)}
+            </Text>
+            <Ionicons name="chevron-down" size={20} color={colors.textSecondary} />
+          </TouchableOpacity>
+        )}
+
         {/* Passengers */}
         <View style={styles.inputContainer}>
           <Ionicons name="people" size={20} color={colors.primary} />
@@ -358,7 +508,7 @@ export default function SearchScreen() {
         {/* Search Button */}
         <TouchableOpacity
           style={[styles.searchButton, (!origin || !destination) && styles.searchButtonDisabled]}
-          onPress={handleSearch}
+          onPress={() => handleSearch()}
           disabled={!origin || !destination}
         >
           <Ionicons name="search" size={20} color="#fff" />
@@ -406,7 +556,25 @@ export default function SearchScreen() {
         selectedId={destinationId}
       />
 
-      <DatePickerModal />
+      <DatePickerModal
+        visible={showDatePicker}
+        onClose={() => setShowDatePicker(false)}
+        onSelect={handleSelectDate}
+        title={t.search.selectDate}
+        selected={date}
+        flexible
+      />
+
+      {returnDate && (
+        <DatePickerModal
+          visible={showReturnDatePicker}
+          onClose={() => setShowReturnDatePicker(false)}
+          onSelect={setReturnDate}
+          title={t.roundTrip.returnDate}
+          selected={returnDate}
+          minDate={date}
+        />
+      )}
     </ScrollView>
   );
 }
@@ -480,6 +648,45 @@ const createStyles = (colors: any) =>
     divider: {
       height: 16,
     },
+    tripTypeRow: {
+      flexDirection: 'row',
+      backgroundColor: colors.background,
+      borderRadius: 10,
+      padding: 4,
+      gap: 4,
+    },
+    tripTypeOption: {
+      flex: 1,
+      alignItems: 'center',
+      paddingVertical: 8,
+      borderRadius: 8,
+    },
+    tripTypeOptionSelected: {
+      backgroundColor: colors.card,
+    },
+    tripTypeText: {
+      fontSize: 14,
+      color: colors.textSecondary,
+    },
+    tripTypeTextSelected: {
+      fontWeight: '600',
+      color: colors.primary,
+    },
+    dateModeRow: {
+      flexDirection: 'row',
+      backgroundColor: colors.background,
+      borderRadius: 10,
+      padding: 4,
+      gap: 4,
+      margin: 12,
+    },
+    calendarHint: {
+      fontSize: 13,
+      color: colors.textSecondary,
+      textAlign: 'center',
+      paddingHorizontal: 16,
+      paddingVertical: 12,
+    },
     passengerControls: {
       flexDirection: 'row',
       alignItems: 'center',
@@ -81,12 +81,39 @@ export default function ProfileScreen() {
           <Ionicons name="chevron-forward" size={20} color={colors.textSecondary} />
         </TouchableOpacity>
 
+        <TouchableOpacity
+          style={styles.menuItem}
+          onPress={() => router.push('/settings/travellers')}
+        >
+          <Ionicons name="people-outline" size={24} color={colors.text} />
+          <Text style={styles.menuItemText}>Saved Travellers</Text>
+          <Ionicons name="chevron-forward" size={20} color={colors.textSecondary} />
+        </TouchableOpacity>
+
         <TouchableOpacity style={styles.menuItem}>
           <Ionicons name="card-outline" size={24} color={colors.text} />
           <Text style={styles.menuItemText}>Payment Methods</Text>
           <Ionicons name="chevron-forward" size={20} color={colors.textSecondary} />
         </TouchableOpacity>
 
+        <TouchableOpacity
+          style={styles.menuItem}
+          onPress={() => router.push('/settings/payment-history')}
+        >
+          <Ionicons name="receipt-outline" size={24} color={colors.text} />
+          <Text style={styles.menuItemText}>Payment History</Text>
+          <Ionicons name="chevron-forward" size={20} color={colors.textSecondary} />
+        </TouchableOpacity>
+
+        <TouchableOpacity
+          style={styles.menuItem}
+          onPress={() => router.push('/settings/billing')}
+        >
+          <Ionicons name="business-outline" size={24} color={colors.text} />
+          <Text style={styles.menuItemText}>Billing Details</Text>
+          <Ionicons name="chevron-forward" size={20} color={colors.textSecondary} />
+        </TouchableOpacity>
+
         <TouchableOpacity style={styles.menuItem}>
           <Ionicons name="notifications-outline" size={24} color={colors.text} />
           <Text style={styles.menuItemText}>Notifications</Text>
@@ -21,6 +21,7 @@ import { useTheme } from '@/contexts/ThemeContext';
 import { useConfig } from '@/contexts/ConfigContext';
 import { useNetwork } from '@/contexts/NetworkContext';
 import { useLocale } from '@/contexts/LocaleContext';
+import { useCurrency } from '@/contexts/CurrencyContext';
 import { SyncIndicator } from '@/components/SyncIndicator';
 
 export default function SettingsScreen() {
@@ -28,7 +29,8 @@ export default function SettingsScreen() {
   const { colors, isDark, toggleTheme, setTheme, themeMode } = useTheme();
   const { config, loadConfigFromUrl, resetToDefault } = useConfig();
   const { isOnline, syncState, forceSync } = useNetwork();
-  const { locale, setLocale, t, availableLanguages, getLanguageName, getLanguageFlag } = useLocale();
+  const { locale, setLocale, t, availableLanguages, getLanguageName, getLanguageFlag, formatDate, formatTime } = useLocale();
+  const { displayCurrency, setDisplayCurrency, availableCurrencies, rates, isStale } = useCurrency();
 
   const [showBackendInput, setShowBackendInput] = useState(false);
   const [backendUrl, setBackendUrl] = useState(config.backend.apiUrl);
@@ -154,6 +156,31 @@ export default function SettingsScreen() {
             <SyncIndicator />
           </View>
 
+          {(syncState.pendingActions > 0 || syncState.failedActions > 0) && (
+            <>
+              <View style={styles.divider} />
+              <TouchableOpacity
+                style={styles.settingRow}
+                onPress={() => router.push('/settings/offline-queue')}
+              >
+                <Ionicons
+                  name={syncState.failedActions > 0 ? 'alert-circle-outline' : 'time-outline'}
+                  size={24}
+                  color={syncState.failedActions > 0 ? colors.error : colors.text}
+                />
+                <View style={styles.settingInfo}>
+                  <Text style={styles.settingText}>{t.offlineQueue.title}</Text>
+                  <Text style={styles.settingValue}>
+                    {syncState.failedActions > 0
+                      ? `${syncState.failedActions} ${t.offlineQueue.failedSection.toLowerCase()}`
+                      : `${syncState.pendingActions} ${t.settings.pending}`}
+                  </Text>
+                </View>
+                <Ionicons name="chevron-forward" size={20} color={colors.textSecondary} />
+              </TouchableOpacity>
+            </>
+          )}
+
           {isOnline && (
             <>
               <View style={styles.divider} />
@@ -259,6 +286,46 @@ export default function SettingsScreen() {
         </View>
       </View>
 
+      {/* Display Currency */}
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>{t.currency.displayCurrency}</Text>
+
+        <View style={styles.settingCard}>
+          {availableCurrencies.map((currency, index) => (
+            <View key={currency}>
+              {index > 0 && <View style={styles.divider} />}
+              <TouchableOpacity
+                style={styles.languageOption}
+                onPress={() => setDisplayCurrency(currency)}
+              >
+                <Text style={[
+                  styles.languageText,
+                  displayCurrency === currency && styles.languageTextActive
+                ]}>
+                  {currency}
+                </Text>
+                {displayCurrency === currency && (
+                  <Ionicons name="checkmark-circle" size={22} color={colors.primary} />
+                )}
+              </TouchableOpacity>
+            </View>
+          ))}
+        </View>
+        <Text style={styles.currencyHint}>
+          {rates
+            ? `${t.currency.ratesUpdated} ${formatDate(new Date(rates.updatedAt))} ${formatTime(
+                new Date(rates.updatedAt)
+              )}`
+            : t.currency.noRates}
+        </Text>
+        {isStale && (
+          <Text style={[styles.currencyHint, { color: colors.warning }]}>
+            {t.currency.staleRates}
+          </Text>
+        )}
+        <Text style={styles.currencyHint}>{t.currency.chargedInTripCurrency}</Text>
+      </View>
+
       {/* Legal */}
       <View style={styles.section}>
         <Text style={styles.sectionTitle}>{t.settings.legal}</Text>
@@ -446,6 +513,12 @@ const createStyles = (colors: any) =>
       fontWeight: '600',
       color: colors.primary,
     },
+    currencyHint: {
+      fontSize: 12,
+      color: colors.textSecondary,
+      marginTop: 8,
+      paddingHorizontal: 4,
+    },
     legalItem: {
       flexDirection: 'row',
       alignItems: 'center',
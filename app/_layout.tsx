@@ -4,8 +4,8 @@
  */
 
 import { useEffect } from 'react';
-import { View } from 'react-native';
-import { Stack } from 'expo-router';
+import { View, Alert } from 'react-native';
+import { Stack, useRouter, usePathname } from 'expo-router';
 import { StatusBar } from 'expo-status-bar';
 import { useColorScheme } from 'react-native';
 import * as SplashScreen from 'expo-splash-screen';
@@ -19,8 +19,11 @@ import { ApiProvider } from '@/contexts/ApiContext';
 import { NetworkProvider } from '@/contexts/NetworkContext';
 import { LocaleProvider, useLocale } from '@/contexts/LocaleContext';
 import { ProvidersProvider } from '@/contexts/ProvidersContext';
+import { CurrencyProvider } from '@/contexts/CurrencyContext';
 import { OfflineBanner } from '@/components/OfflineBanner';
+import { SyncConflictNotice } from '@/components/SyncConflictNotice';
 import { useNotifications } from '@/hooks/useNotifications';
+import { usePayment } from '@/hooks/usePayment';
 import { notificationService } from '@/services/NotificationService';
 
 // Prevent splash screen from auto-hiding
@@ -45,6 +48,32 @@ function NotificationInitializer() {
   return null;
 }
 
+/**
+ * Picks up a payment the OS interrupted, e.g. by killing the app during
+ * 3-D Secure, and tells the user once it's confirmed
+ */
+function PaymentSessionResumer() {
+  const router = useRouter();
+  const pathname = usePathname();
+  const { t } = useLocale();
+
+  usePayment({
+    resume: true,
+    onSuccess: () => {
+      // The return screen reports it itself
+      if (pathname.startsWith('/payment')) return;
+      Alert.alert(t.payment.success, t.booking.successMessage, [
+        {
+          text: t.tickets.title,
+          onPress: () => router.push('/tickets'),
+        },
+      ]);
+    },
+  });
+
+  return null;
+}
+
 function RootLayoutNav() {
   const { colors, isDark } = useTheme();
 
@@ -52,6 +81,7 @@ function RootLayoutNav() {
     <View style={{ flex: 1, backgroundColor: colors.background }}>
       <StatusBar style={isDark ? 'light' : 'dark'} />
       <OfflineBanner />
+      <SyncConflictNotice />
       <Stack
         screenOptions={{
           headerStyle: {
@@ -116,6 +146,36 @@ function RootLayoutNav() {
             title: 'Bus Operators',
           }}
         />
+        <Stack.Screen
+          name="settings/offline-queue"
+          options={{
+            title: 'Offline Actions',
+          }}
+        />
+        <Stack.Screen
+          name="settings/travellers"
+          options={{
+            title: 'Saved Travellers',
+          }}
+        />
+        <Stack.Screen
+          name="settings/payment-history"
+          options={{
+            title: 'Payment History',
+          }}
+        />
+        <Stack.Screen
+          name="settings/billing"
+          options={{
+            title: 'Billing Details',
+          }}
+        />
+        <Stack.Screen
+          name="payment/bank-transfer"
+          options={{
+            title: 'Bank Transfer',
+          }}
+        />
         <Stack.Screen
           name="payment/return"
           options={{
@@ -136,6 +196,7 @@ function AppContent() {
   return (
     <NetworkProvider apiUrl={apiUrl}>
       <NotificationInitializer />
+      <PaymentSessionResumer />
       <RootLayoutNav />
     </NetworkProvider>
   );
@@ -167,15 +228,17 @@ export default function RootLayout() {
     <GestureHandlerRootView style={{ flex: 1 }}>
       <ConfigProvider>
         <LocaleProvider>
-          <ProvidersProvider>
-            <ApiProvider>
-              <AuthProvider>
-                <ThemeProvider>
-                  <AppContent />
-                </ThemeProvider>
-              </AuthProvider>
-            </ApiProvider>
-          </ProvidersProvider>
+          <CurrencyProvider>
+            <ProvidersProvider>
+              <ApiProvider>
+                <AuthProvider>
+                  <ThemeProvider>
+                    <AppContent />
+                  </ThemeProvider>
+                </AuthProvider>
+              </ApiProvider>
+            </ProvidersProvider>
+          </CurrencyProvider>
         </LocaleProvider>
       </ConfigProvider>
     </GestureHandlerRootView>
@@ -8,7 +8,7 @@ import {
   View,
   Text,
   ScrollView,
-  TextInput,
+  Switch,
   TouchableOpacity,
   StyleSheet,
   Alert,
@@ -18,34 +18,59 @@ import { useRouter, useLocalSearchParams } from 'expo-router';
 import { Ionicons } from '@expo/vector-icons';
 import { useTheme } from '@/contexts/ThemeContext';
 import { useAuth } from '@/contexts/AuthContext';
-import { useConfig } from '@/contexts/ConfigContext';
 import { useLocale } from '@/contexts/LocaleContext';
-import { useProviders } from '@/contexts/ProvidersContext';
+import { useCurrency } from '@/contexts/CurrencyContext';
+import { useProviders, providerRequestOptions } from '@/contexts/ProvidersContext';
+import { useApi } from '@/contexts/ApiContext';
+import { SeatMap } from '@/components/SeatMap';
+import { SeatHoldTimer } from '@/components/SeatHoldTimer';
+import { PassengerForm } from '@/components/PassengerForm';
+import { PromoCodeInput } from '@/components/PromoCodeInput';
+import { getBlockedSeats } from '@/utils/seatMap';
+import {
+  PassengerFormError,
+  emptyPassenger,
+  hasOwnContact,
+  toBookingPassengers,
+  validatePassengers,
+} from '@/utils/passengers';
+import {
+  combinePriceBreakdowns,
+  getFareRules,
+  getPriceBreakdown,
+  validateFares,
+} from '@/utils/fares';
 import { usePayment, PaymentStatus } from '@/hooks/usePayment';
-import type { Trip, Passenger, PaymentConfig } from '@/types';
-
-// Helper functions (avoid import issues)
-const formatPrice = (price: { amount: number; currency: string }) => {
-  return `${price.amount} ${price.currency}`;
-};
-
-const formatTime = (dateStr: string) => {
-  const date = new Date(dateStr);
-  return date.toLocaleTimeString('cs-CZ', { hour: '2-digit', minute: '2-digit' });
-};
-
-const formatShortDate = (dateStr: string) => {
-  const date = new Date(dateStr);
-  return date.toLocaleDateString('cs-CZ', { day: 'numeric', month: 'short' });
-};
+import { useTravellers } from '@/hooks/useTravellers';
+import { useSeatHold, isSeatHoldActive } from '@/hooks/useSeatHold';
+import type { RequestOptions } from '@/services/HttpClient';
+import {
+  HttpError,
+  PaymentInProgressError,
+  PromoCodeError,
+  PromoCodeRejection,
+  SeatHoldExpiredError,
+  getErrorMessage,
+} from '@/services/errors';
+import type {
+  Trip,
+  PassengerInfo,
+  PaymentConfig,
+  PromoCodeRedemption,
+  SeatAvailability,
+  SeatHold,
+} from '@/types';
 
-const formatDuration = (minutes: number) => {
+const formatDuration = (minutes: number, units: { hours: string; minutes: string }) => {
   const hours = Math.floor(minutes / 60);
   const mins = Math.round(minutes % 60);
-  return `${hours}h ${mins}m`;
+  return `${hours} ${units.hours} ${mins} ${units.minutes}`;
 };
 
-type BookingStep = 'seats' | 'passenger' | 'payment';
+type BookingStep = 'seats' | 'secondSeats' | 'passenger' | 'payment';
+
+// Seat selection step of each leg: first (0), then the return or connecting leg (1)
+const seatStepOf = (leg: number): BookingStep => (leg === 0 ? 'seats' : 'secondSeats');
 
 // Helper functions for payment providers
 const getProviderIcon = (provider: string): string => {
@@ -78,24 +103,90 @@ const getProviderColor = (provider: string): string => {
 
 export default function BookingScreen() {
   const router = useRouter();
-  const params = useLocalSearchParams<{ tripId: string; passengers: string; providerId?: string }>();
+  const params = useLocalSearchParams<{
+    tripId: string;
+    passengers: string;
+    providerId?: string;
+    returnTripId?: string;
+    returnProviderId?: string;
+    connectingTripId?: string;
+    connectingProviderId?: string;
+  }>();
   const { colors } = useTheme();
   const { isAuthenticated, user } = useAuth();
-  const { config } = useConfig();
-  const { t, formatCurrency, formatDate, locale } = useLocale();
-  const { getProvider, activeProviders } = useProviders();
+  const { t, formatCurrency, formatDate, formatTime, locale } = useLocale();
+  const { convertPrice, convertAmount } = useCurrency();
+  const { getProvider, isLoading: isLoadingProviders } = useProviders();
+  const api = useApi();
 
   const [trip, setTrip] = useState<Trip | null>(null);
+  // Return leg of a round trip or second leg of a connection, reserved
+  // and paid together with `trip`
+  const [secondTrip, setSecondTrip] = useState<Trip | null>(null);
+  const secondTripId = params.returnTripId ?? params.connectingTripId;
+  const isConnection = !!params.connectingTripId;
+  // Each leg is booked with the provider selling it; a leg without one
+  // (an older link) with the app's own backend
+  const legProviderIds = [params.providerId, params.returnProviderId ?? params.connectingProviderId];
+  // Null: unknown provider
+  const legRequestOptions: Array<RequestOptions | null> = legProviderIds.map((providerId) => {
+    if (!providerId) return {};
+    const provider = getProvider(providerId);
+    return provider ? providerRequestOptions(provider) : null;
+  });
   const [isLoading, setIsLoading] = useState(true);
   const [step, setStep] = useState<BookingStep>('seats');
-  const [selectedSeats, setSelectedSeats] = useState<number[]>([]);
-  const [passenger, setPassenger] = useState<Passenger>({
-    name: user?.name || '',
-    email: user?.email || '',
-    phone: user?.phone || '',
-  });
+  // Per leg, indexed like `bookedTrips`
+  const [selectedSeats, setSelectedSeats] = useState<number[][]>([[], []]);
+  const [seatAvailability, setSeatAvailability] = useState<Array<SeatAvailability | null>>([
+    null,
+    null,
+  ]);
+  const [isCheckingSeats, setIsCheckingSeats] = useState(false);
+  const passengerCount = parseInt(params.passengers || '1', 10);
+
+  // One form per seat; the first is the lead passenger
+  const [passengers, setPassengers] = useState<PassengerInfo[]>(() =>
+    Array.from({ length: passengerCount }, (_, index) =>
+      index === 0
+        ? { name: user?.name || '', email: user?.email || '', phone: user?.phone || '' }
+        : emptyPassenger()
+    )
+  );
+  const [sameContactAsLead, setSameContactAsLead] = useState(true);
+  const [passengerError, setPassengerError] = useState<PassengerFormError | null>(null);
+  const { travellers } = useTravellers();
   const [selectedProvider, setSelectedProvider] = useState<PaymentConfig | null>(null);
   const [reservationIds, setReservationIds] = useState<number[]>([]);
+  const [appliedPromo, setAppliedPromo] = useState<PromoCodeRedemption | null>(null);
+  const [promoError, setPromoError] = useState<string | null>(null);
+  const [isCheckingPromo, setIsCheckingPromo] = useState(false);
+
+  // A promo code is priced for the passengers' fare categories
+  const fareCategories = passengers.map((value) => value.fareCategory ?? 'adult');
+  const fareCategoriesKey = fareCategories.join(',');
+  useEffect(() => {
+    setAppliedPromo(null);
+  }, [fareCategoriesKey]);
+
+  const bookedTrips = [trip, secondTrip].filter((legTrip): legTrip is Trip => legTrip !== null);
+  const seatLeg = step === 'secondSeats' ? 1 : 0;
+
+  // Seats stay blocked for others while the user checks out, one hold per leg
+  const handleHoldExpired = (leg: number) => (expired: SeatHold) => {
+    setStep(seatStepOf(leg));
+    Alert.alert(t.seatHold.expiredTitle, t.seatHold.expiredMessage);
+    loadSeatAvailability(leg, expired.tripId).catch((error) => {
+      console.error('Error loading seat availability:', error);
+    });
+  };
+  const seatHolds = [
+    useSeatHold({ onExpire: handleHoldExpired(0), requestOptions: legRequestOptions[0] ?? {} }),
+    useSeatHold({ onExpire: handleHoldExpired(1), requestOptions: legRequestOptions[1] ?? {} }),
+  ];
+  const activeHolds = seatHolds.filter((seatHold) => seatHold.hold);
+  const holdSecondsLeft = Math.min(...activeHolds.map((seatHold) => seatHold.secondsLeft));
+  const isHoldBusy = seatHolds.some((seatHold) => seatHold.isBusy);
 
   // Payment hook with callbacks
   const {
@@ -105,7 +196,7 @@ export default function BookingScreen() {
     availableProviders,
     isPolling,
     initiatePayment,
-    openPaymentPage,
+    launchPayment,
     startPolling,
     reset: resetPayment,
   } = usePayment({
@@ -123,103 +214,244 @@ export default function BookingScreen() {
     onCancelled: () => {
       Alert.alert(t.payment.cancelled, t.payment.cancelled);
     },
+    requireSeatHold: true,
+    seatHolds: bookedTrips.map((_, leg) => seatHolds[leg].hold),
   });
 
   const isProcessing = paymentStatus === 'initiating' || paymentStatus === 'processing';
 
-  const passengerCount = parseInt(params.passengers || '1', 10);
-
+  // Providers are restored from storage; a deep link may get here first
   useEffect(() => {
-    loadTrip();
-  }, [params.tripId]);
+    if (!isLoadingProviders) loadTrip();
+  }, [params.tripId, secondTripId, isLoadingProviders]);
+
+  /**
+   * Request options for the provider selling `leg`
+   */
+  const legOptions = (leg: number): RequestOptions => {
+    const options = legRequestOptions[leg];
+    if (!options) throw new Error(t.errors.providerUnavailable);
+    return options;
+  };
 
   const loadTrip = async () => {
     setIsLoading(true);
     try {
-      const apiUrl = config.backend.url;
-      const response = await fetch(`${apiUrl}/api/v1/trip/${params.tripId}`);
-      const data = await response.json();
-
-      if (data.success && data.data) {
-        const t = data.data;
-        const loadedTrip: Trip = {
-          id: t.id,
-          route: {
-            id: t.route?.id || 0,
-            name: t.route?.name || '',
-            origin: {
-              id: t.route?.origin?.id || 0,
-              name: t.route?.origin?.name || '',
-              city: t.route?.origin?.city || t.route?.origin?.name || '',
-              country: 'CZ',
-            },
-            destination: {
-              id: t.route?.destination?.id || 0,
-              name: t.route?.destination?.name || '',
-              city: t.route?.destination?.city || t.route?.destination?.name || '',
-              country: 'UA',
-            },
-          },
-          departureTime: t.departureTime || t.tripDate,
-          arrivalTime: t.arrivalTime || t.tripDate,
-          bus: {
-            id: t.bus?.id || 0,
-            name: t.bus?.name || 'Bus',
-            plateNumber: t.bus?.plateNumber || '',
-            capacity: t.bus?.capacity || t.totalSeats || 50,
-            amenities: ['wifi', 'ac'],
-          },
-          availableSeats: t.availableSeats || 0,
-          totalSeats: t.totalSeats || t.bus?.capacity || 50,
-          price: {
-            amount: t.price?.amount || 0,
-            currency: t.price?.currency || 'CZK',
-          },
-          status: t.status || 'scheduled',
-        };
-        setTrip(loadedTrip);
-      } else {
-        throw new Error('Trip not found');
-      }
+      const tripIds = [params.tripId, ...(secondTripId ? [secondTripId] : [])];
+      const loadedTrips = await Promise.all(
+        tripIds.map((id, leg) => api.getBookableTrip(parseInt(id, 10), legOptions(leg)))
+      );
+
+      setTrip(loadedTrips[0]);
+      setSecondTrip(loadedTrips[1] ?? null);
+
+      // The map still shows the layout's own blocked seats if this fails;
+      // availability is checked again before continuing
+      loadedTrips.forEach((loadedTrip, leg) => {
+        loadSeatAvailability(leg, loadedTrip.id).catch((error) => {
+          console.error('Error loading seat availability:', error);
+        });
+      });
     } catch (error) {
       console.error('Error loading trip:', error);
-      Alert.alert('Error', 'Could not load trip details');
+      Alert.alert(t.common.error, getErrorMessage(error, t.errors.generic));
       router.back();
     } finally {
       setIsLoading(false);
     }
   };
 
+  const loadSeatAvailability = async (leg: number, tripId: number): Promise<Set<number>> => {
+    const availability = await api.getTripSeats(tripId, legOptions(leg));
+    setSeatAvailability((current) => current.map((value, i) => (i === leg ? availability : value)));
+    return getBlockedSeats(bookedTrips[leg]?.bus?.seatLayout, availability);
+  };
+
+  const setLegSeats = (leg: number, seats: number[]) => {
+    setSelectedSeats((current) => current.map((value, i) => (i === leg ? seats : value)));
+  };
+
+  /**
+   * Re-fetch occupied seats and drop any selected seat that was sold in the
+   * meantime. Returns false (and sends the user back to the leg's seat map)
+   * if the selection is no longer valid or availability couldn't be checked.
+   */
+  const confirmSelectedSeats = async (leg: number): Promise<boolean> => {
+    const legTrip = bookedTrips[leg];
+    if (!legTrip) return false;
+
+    setIsCheckingSeats(true);
+    try {
+      const blocked = await loadSeatAvailability(leg, legTrip.id);
+      const taken = selectedSeats[leg].filter((seat) => blocked.has(seat));
+      if (taken.length === 0) return true;
+
+      setLegSeats(leg, selectedSeats[leg].filter((seat) => !blocked.has(seat)));
+      setStep(seatStepOf(leg));
+      Alert.alert(t.booking.selectSeat, `${t.seatMap.seatsTaken}\n${taken.join(', ')}`);
+      return false;
+    } catch (error) {
+      console.error('Error refreshing seat availability:', error);
+      Alert.alert(t.common.error, t.seatMap.refreshFailed);
+      return false;
+    } finally {
+      setIsCheckingSeats(false);
+    }
+  };
+
+  /**
+   * Hold the selected seats for the rest of checkout. A conflict means some
+   * of them were just taken, so availability is refreshed the same way as
+   * when confirming the selection.
+   */
+  const holdSelectedSeats = async (leg: number): Promise<boolean> => {
+    const legTrip = bookedTrips[leg];
+    if (!legTrip) return false;
+
+    try {
+      await seatHolds[leg].holdSeats(legTrip.id, selectedSeats[leg]);
+      return true;
+    } catch (error) {
+      if (error instanceof HttpError && error.status === 409) {
+        await confirmSelectedSeats(leg);
+        return false;
+      }
+      console.error('Error holding seats:', error);
+      Alert.alert(t.common.error, getErrorMessage(error, t.seatHold.holdFailed));
+      return false;
+    }
+  };
+
+  const handleExtendHold = async () => {
+    try {
+      await Promise.all(activeHolds.map((seatHold) => seatHold.extendHold()));
+    } catch (error) {
+      console.error('Error extending seat hold:', error);
+      Alert.alert(t.common.error, getErrorMessage(error, t.seatHold.extendFailed));
+    }
+  };
+
+  const getPassengerErrorMessage = ({ field }: PassengerFormError): string => {
+    switch (field) {
+      case 'name':
+        return t.booking.invalidName;
+      case 'email':
+        return t.booking.invalidEmail;
+      case 'phone':
+        return t.booking.invalidPhone;
+      case 'documentNumber':
+        return t.booking.documentTypeRequired;
+      case 'dateOfBirth':
+        return t.fares.dateOfBirthRequired;
+      case 'fareCategory':
+        return t.fares.notEligible;
+    }
+  };
+
+  const promoRejectionMessages: Record<PromoCodeRejection, string> = {
+    invalid: t.promoCode.invalid,
+    expired: t.promoCode.expired,
+    already_used: t.promoCode.alreadyUsed,
+    not_applicable: t.promoCode.notApplicable,
+  };
+
+  const handleApplyPromo = async (code: string) => {
+    if (!trip) return;
+
+    setIsCheckingPromo(true);
+    setPromoError(null);
+    try {
+      setAppliedPromo(
+        await api.validatePromoCode({
+          code,
+          tripId: trip.id,
+          providerId: legProviderIds[0],
+          ...(secondTrip &&
+            (isConnection
+              ? { connectingTripId: secondTrip.id, connectingProviderId: legProviderIds[1] }
+              : { returnTripId: secondTrip.id, returnProviderId: legProviderIds[1] })),
+          fareCategories,
+        })
+      );
+    } catch (error) {
+      if (error instanceof PromoCodeError) {
+        setPromoError(promoRejectionMessages[error.reason]);
+      } else {
+        console.error('Error validating promo code:', error);
+        setPromoError(t.promoCode.checkFailed);
+      }
+    } finally {
+      setIsCheckingPromo(false);
+    }
+  };
+
+  const handleRemovePromo = () => {
+    setAppliedPromo(null);
+    setPromoError(null);
+  };
+
+  const updatePassenger = (index: number, value: PassengerInfo) => {
+    setPassengers(passengers.map((current, i) => (i === index ? value : current)));
+    if (passengerError?.index === index) setPassengerError(null);
+  };
+
   const handleSeatSelect = (seatNumber: number) => {
-    if (selectedSeats.includes(seatNumber)) {
-      setSelectedSeats(selectedSeats.filter((s) => s !== seatNumber));
-    } else if (selectedSeats.length < passengerCount) {
-      setSelectedSeats([...selectedSeats, seatNumber]);
+    const seats = selectedSeats[seatLeg];
+    if (seats.includes(seatNumber)) {
+      setLegSeats(seatLeg, seats.filter((s) => s !== seatNumber));
+    } else if (seats.length < passengerCount) {
+      setLegSeats(seatLeg, [...seats, seatNumber]);
     }
   };
 
-  const handleContinue = () => {
-    if (step === 'seats') {
-      if (selectedSeats.length !== passengerCount) {
+  const handleContinue = async () => {
+    if (step === 'seats' || step === 'secondSeats') {
+      if (selectedSeats[seatLeg].length !== passengerCount) {
         Alert.alert(t.booking.selectSeat, `${t.booking.selectSeat}: ${passengerCount}`);
         return;
       }
-      setStep('passenger');
+      if (!(await holdSelectedSeats(seatLeg))) return;
+      setStep(seatLeg + 1 < bookedTrips.length ? seatStepOf(seatLeg + 1) : 'passenger');
     } else if (step === 'passenger') {
-      if (!passenger.name || !passenger.email || !passenger.phone) {
-        Alert.alert(t.booking.passengerDetails, t.errors.invalidInput);
+      // Fares are checked against each leg, e.g. a child may turn too old by the return
+      const invalid =
+        validatePassengers(passengers, sameContactAsLead) ??
+        bookedTrips
+          .map((legTrip) =>
+            validateFares(passengers, getFareRules(legTrip), legTrip.departureTime)
+          )
+          .find((error) => error !== null) ??
+        null;
+      setPassengerError(invalid);
+      if (invalid) {
+        Alert.alert(
+          `${t.booking.passenger} ${invalid.index + 1}`,
+          getPassengerErrorMessage(invalid)
+        );
         return;
       }
       setStep('payment');
     }
   };
 
+  const findExpiredHoldLeg = () =>
+    bookedTrips.findIndex((_, leg) => !isSeatHoldActive(seatHolds[leg].hold));
+
   const handlePayment = async () => {
     if (!selectedProvider) {
       Alert.alert(t.payment.selectMethod, t.payment.selectMethod);
       return;
     }
 
+    // The held seats can't be sold to anyone else; only the hold itself
+    // may have run out while the passenger filled in details
+    const expiredLeg = findExpiredHoldLeg();
+    if (expiredLeg !== -1) {
+      setStep(seatStepOf(expiredLeg));
+      Alert.alert(t.seatHold.expiredTitle, t.seatHold.expiredMessage);
+      return;
+    }
+
     try {
       // First create reservation via API
       const reservations = await createReservations();
@@ -229,30 +461,27 @@ export default function BookingScreen() {
 
       setReservationIds(reservations);
 
-      // Initiate payment with selected provider
-      const result = await initiatePayment(
-        reservations,
-        selectedProvider.id as number,
-      );
+      // Initiate payment with selected provider; the promo code covers every leg
+      const result = await initiatePayment(reservations, selectedProvider.id as number, {
+        promoCode: appliedPromo?.code,
+        method: selectedProvider.provider,
+      });
 
-      // Handle different payment flows based on provider
-      if (result.paymentUrl) {
-        // For PayPal, Monobank, Stripe - open payment page
-        await openPaymentPage(result.paymentUrl);
+      // The reservations own the seats now; don't release them on leaving
+      seatHolds.forEach((seatHold) => seatHold.consumeHold());
 
+      // The provider's payment adapter decides how the user pays
+      const launch = await launchPayment(result);
+      if (launch.kind === 'redirect' || launch.kind === 'form_post') {
         // Start polling for status updates
         startPolling(result.transactionId);
-      } else if (result.bankDetails) {
-        // Bank transfer - show bank details
-        Alert.alert(
-          t.payment.card,
-          `IBAN: ${result.bankDetails.iban}\n` +
-          `SWIFT: ${result.bankDetails.swift}\n` +
-          `VS: ${result.bankDetails.variableSymbol}\n` +
-          `${t.common.total}: ${result.bankDetails.amount} ${result.bankDetails.currency}`,
-          [{ text: 'OK' }]
-        );
-      } else if (selectedProvider.provider === 'cash') {
+      } else if (launch.kind === 'bank_transfer') {
+        // Bank transfer - payment details and QR code, watched until it arrives
+        router.replace({
+          pathname: '/payment/bank-transfer',
+          params: { transactionId: String(result.transactionId) },
+        });
+      } else {
         // Cash payment - just confirm booking
         Alert.alert(t.payment.confirmCash, t.payment.cashNote, [
           {
@@ -262,43 +491,58 @@ export default function BookingScreen() {
         ]);
       }
     } catch (error) {
+      if (error instanceof SeatHoldExpiredError) {
+        setStep(seatStepOf(Math.max(findExpiredHoldLeg(), 0)));
+        Alert.alert(t.seatHold.expiredTitle, t.seatHold.expiredMessage);
+        return;
+      }
+      if (error instanceof PaymentInProgressError) {
+        Alert.alert(t.common.error, t.payment.inProgress);
+        return;
+      }
       const message = error instanceof Error ? error.message : t.errors.paymentFailed;
       Alert.alert(t.common.error, message);
     }
   };
 
+  /**
+   * Reserve every leg; a round trip's reservations are paid in one payment,
+   * taken by the backend
+   */
   const createReservations = async (): Promise<number[]> => {
-    try {
-      const response = await fetch(`${config.backend.url}/api/v1/reservations`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          tripId: parseInt(params.tripId!, 10),
-          passengers: passengerCount,
-          seats: selectedSeats,
-          passenger: {
-            name: passenger.name,
-            email: passenger.email,
-            phone: passenger.phone,
-          },
-          paymentMethod: selectedProvider?.provider || 'cash',
-        }),
-      });
-
-      const data = await response.json();
-
-      if (!data.success) {
-        throw new Error(data.error?.message || 'Rezervace selhala');
+    const ids: number[] = [];
+    for (const [leg, legTrip] of bookedTrips.entries()) {
+      try {
+        ids.push(...(await createLegReservations(leg, legTrip)));
+      } catch (error) {
+        console.error('Create reservations error:', error);
+        // Unpaid outbound reservations lapse on their own
+        if (leg > 0) {
+          throw new Error(
+            isConnection ? t.connections.partialReservation : t.roundTrip.partialReservation
+          );
+        }
+        throw error;
       }
-
-      // Return array of reservation IDs
-      return data.data?.reservationId ? [data.data.reservationId] : [];
-    } catch (error) {
-      console.error('Create reservations error:', error);
-      throw error;
     }
+    return ids;
+  };
+
+  const createLegReservations = async (leg: number, legTrip: Trip): Promise<number[]> => {
+    const ids = await api.createReservations(
+      {
+        tripId: legTrip.id,
+        seats: selectedSeats[leg],
+        holdId: seatHolds[leg].hold?.id,
+        passengers: toBookingPassengers(passengers, selectedSeats[leg], sameContactAsLead),
+        paymentMethod: selectedProvider?.provider || 'cash',
+      },
+      legOptions(leg)
+    );
+
+    // A provider's reservations are paid through the backend under its own IDs
+    const providerId = legProviderIds[leg];
+    return providerId ? api.registerProviderReservations(providerId, ids) : ids;
   };
 
   const styles = createStyles(colors);
@@ -306,184 +550,181 @@ export default function BookingScreen() {
   if (isLoading || !trip) {
     return (
       <View style={styles.loadingContainer}>
-        <Text style={styles.loadingText}>Loading trip...</Text>
+        <Text style={styles.loadingText}>{t.common.loading}</Text>
       </View>
     );
   }
 
-  const duration =
-    (new Date(trip.arrivalTime).getTime() - new Date(trip.departureTime).getTime()) /
+  const getDuration = (legTrip: Trip) =>
+    (new Date(legTrip.arrivalTime).getTime() - new Date(legTrip.departureTime).getTime()) /
     1000 /
     60;
-  const totalPrice = trip.price.amount * passengerCount;
+  const fareRules = getFareRules(trip);
+  const legBreakdowns = bookedTrips.map((legTrip) =>
+    getPriceBreakdown(legTrip.price, fareCategories, getFareRules(legTrip))
+  );
+  // In the first leg's currency; null while a leg sold in another can't be
+  // converted, and each leg's total is shown instead
+  const priceBreakdown = combinePriceBreakdowns(legBreakdowns, convertAmount);
+  const promoDiscount =
+    appliedPromo && priceBreakdown
+      ? Math.round((priceBreakdown.total - appliedPromo.price.amount) * 100) / 100
+      : 0;
+  const totalPrice = appliedPromo ? appliedPromo.price.amount : priceBreakdown?.total;
+  const formattedTotal =
+    totalPrice !== undefined
+      ? formatCurrency(totalPrice, trip.price.currency)
+      : legBreakdowns
+          .map((breakdown) => formatCurrency(breakdown.total, breakdown.currency))
+          .join(' + ');
+  // Shown for reference only; the booking is charged in the trip's currency
+  const convertedTotal =
+    totalPrice !== undefined
+      ? convertPrice({ amount: totalPrice, currency: trip.price.currency })
+      : null;
+  const showConvertedTotal = !!convertedTotal && convertedTotal.currency !== trip.price.currency;
 
-  // Generate seat grid
-  const seatRows = Math.ceil(trip.totalSeats / 4);
-  const occupiedSeats = [3, 7, 12, 15, 22, 28, 33, 41]; // Mock occupied seats
+  const seatTrip = bookedTrips[seatLeg] ?? trip;
+  const blockedSeats = getBlockedSeats(seatTrip.bus?.seatLayout, seatAvailability[seatLeg]);
+  const sortedSeats = selectedSeats.map((seats) => [...seats].sort((a, b) => a - b));
+  const legLabel = (leg: number) =>
+    isConnection
+      ? `${t.connections.leg} ${leg + 1}`
+      : leg === 0
+      ? t.roundTrip.outbound
+      : t.roundTrip.inbound;
+  const steps: BookingStep[] = secondTrip
+    ? ['seats', 'secondSeats', 'passenger', 'payment']
+    : ['seats', 'passenger', 'payment'];
 
   return (
     <View style={styles.container}>
       <ScrollView style={styles.scrollView} contentContainerStyle={styles.content}>
         {/* Trip Summary */}
         <View style={styles.tripSummary}>
-          <View style={styles.routeRow}>
-            <Text style={styles.cityText}>{trip.route.origin.city}</Text>
-            <Ionicons name="arrow-forward" size={20} color={colors.primary} />
-            <Text style={styles.cityText}>{trip.route.destination.city}</Text>
-          </View>
-          <View style={styles.detailsRow}>
-            <Text style={styles.detailText}>
-              {formatShortDate(trip.departureTime)} • {formatTime(trip.departureTime)} •{' '}
-              {formatDuration(duration)}
-            </Text>
-          </View>
+          {bookedTrips.map((legTrip, leg) => (
+            <View key={legTrip.id} style={leg > 0 && styles.returnLeg}>
+              {secondTrip && <Text style={styles.legLabel}>{legLabel(leg)}</Text>}
+              <View style={styles.routeRow}>
+                <Text style={styles.cityText}>
+                  {legTrip.route.origin.city ?? legTrip.route.origin.name}
+                </Text>
+                <Ionicons name="arrow-forward" size={20} color={colors.primary} />
+                <Text style={styles.cityText}>
+                  {legTrip.route.destination.city ?? legTrip.route.destination.name}
+                </Text>
+              </View>
+              <View style={styles.detailsRow}>
+                <Text style={styles.detailText}>
+                  {formatDate(new Date(legTrip.departureTime), 'long')} •{' '}
+                  {formatTime(new Date(legTrip.departureTime))} •{' '}
+                  {formatDuration(getDuration(legTrip), t.datetime)}
+                </Text>
+              </View>
+            </View>
+          ))}
         </View>
 
         {/* Step indicator */}
         <View style={styles.stepIndicator}>
-          {(['seats', 'passenger', 'payment'] as BookingStep[]).map((s, index) => (
+          {steps.map((s, index) => (
             <View key={s} style={styles.stepItem}>
               <View
                 style={[
                   styles.stepCircle,
-                  (step === s || index < ['seats', 'passenger', 'payment'].indexOf(step)) &&
-                    styles.stepCircleActive,
+                  (step === s || index < steps.indexOf(step)) && styles.stepCircleActive,
                 ]}
               >
                 <Text
                   style={[
                     styles.stepNumber,
-                    (step === s || index < ['seats', 'passenger', 'payment'].indexOf(step)) &&
-                      styles.stepNumberActive,
+                    (step === s || index < steps.indexOf(step)) && styles.stepNumberActive,
                   ]}
                 >
                   {index + 1}
                 </Text>
               </View>
               <Text style={styles.stepLabel}>
-                {s === 'seats' ? 'Seats' : s === 'passenger' ? 'Details' : 'Payment'}
+                {s === 'seats'
+                  ? t.booking.stepSeats
+                  : s === 'secondSeats'
+                  ? isConnection
+                    ? legLabel(1)
+                    : t.roundTrip.returnSeats
+                  : s === 'passenger'
+                  ? t.booking.stepDetails
+                  : t.booking.stepPayment}
               </Text>
             </View>
           ))}
         </View>
 
+        {step !== 'seats' && activeHolds.length > 0 && (
+          <SeatHoldTimer
+            secondsLeft={holdSecondsLeft}
+            onExtend={handleExtendHold}
+            isExtending={isHoldBusy}
+          />
+        )}
+
         {/* Step Content */}
-        {step === 'seats' && (
+        {(step === 'seats' || step === 'secondSeats') && (
           <View style={styles.stepContent}>
-            <Text style={styles.sectionTitle}>Select Your Seats</Text>
+            <Text style={styles.sectionTitle}>
+              {secondTrip ? `${legLabel(seatLeg)}: ` : ''}
+              {t.booking.selectYourSeats}
+            </Text>
             <Text style={styles.sectionSubtitle}>
-              Select {passengerCount} seat(s) • {selectedSeats.length} selected
+              {t.booking.seatsToSelect}: {passengerCount} • {t.booking.selectedSeats}:{' '}
+              {selectedSeats[seatLeg].length}
             </Text>
 
-            {/* Seat legend */}
-            <View style={styles.seatLegend}>
-              <View style={styles.legendItem}>
-                <View style={[styles.seatSmall, styles.seatAvailable]} />
-                <Text style={styles.legendText}>Available</Text>
-              </View>
-              <View style={styles.legendItem}>
-                <View style={[styles.seatSmall, styles.seatSelected]} />
-                <Text style={styles.legendText}>Selected</Text>
-              </View>
-              <View style={styles.legendItem}>
-                <View style={[styles.seatSmall, styles.seatOccupied]} />
-                <Text style={styles.legendText}>Occupied</Text>
-              </View>
-            </View>
-
-            {/* Seat grid */}
-            <View style={styles.busLayout}>
-              <View style={styles.driverArea}>
-                <Ionicons name="car" size={24} color={colors.textSecondary} />
-              </View>
-
-              <View style={styles.seatsContainer}>
-                {Array.from({ length: seatRows }, (_, rowIndex) => (
-                  <View key={rowIndex} style={styles.seatRow}>
-                    {Array.from({ length: 4 }, (_, colIndex) => {
-                      const seatNumber = rowIndex * 4 + colIndex + 1;
-                      if (seatNumber > trip.totalSeats) return null;
-
-                      const isOccupied = occupiedSeats.includes(seatNumber);
-                      const isSelected = selectedSeats.includes(seatNumber);
-
-                      return (
-                        <TouchableOpacity
-                          key={seatNumber}
-                          style={[
-                            styles.seat,
-                            isOccupied && styles.seatOccupied,
-                            isSelected && styles.seatSelected,
-                            colIndex === 1 && styles.seatAisle,
-                          ]}
-                          onPress={() => !isOccupied && handleSeatSelect(seatNumber)}
-                          disabled={isOccupied}
-                        >
-                          <Text
-                            style={[
-                              styles.seatText,
-                              isOccupied && styles.seatTextOccupied,
-                              isSelected && styles.seatTextSelected,
-                            ]}
-                          >
-                            {seatNumber}
-                          </Text>
-                        </TouchableOpacity>
-                      );
-                    })}
-                  </View>
-                ))}
-              </View>
-            </View>
+            <SeatMap
+              key={seatLeg}
+              layout={seatTrip.bus?.seatLayout}
+              totalSeats={seatTrip.totalSeats}
+              blockedSeats={blockedSeats}
+              selectedSeats={selectedSeats[seatLeg]}
+              onSeatPress={handleSeatSelect}
+              disabled={isCheckingSeats || isHoldBusy}
+            />
           </View>
         )}
 
         {step === 'passenger' && (
           <View style={styles.stepContent}>
-            <Text style={styles.sectionTitle}>Passenger Details</Text>
-
-            <View style={styles.formGroup}>
-              <Text style={styles.inputLabel}>Full Name</Text>
-              <TextInput
-                style={styles.input}
-                placeholder="Enter full name"
-                placeholderTextColor={colors.textSecondary}
-                value={passenger.name}
-                onChangeText={(text) => setPassenger({ ...passenger, name: text })}
-              />
-            </View>
+            <Text style={styles.sectionTitle}>{t.booking.passengerDetails}</Text>
 
-            <View style={styles.formGroup}>
-              <Text style={styles.inputLabel}>Email</Text>
-              <TextInput
-                style={styles.input}
-                placeholder="Enter email"
-                placeholderTextColor={colors.textSecondary}
-                value={passenger.email}
-                onChangeText={(text) => setPassenger({ ...passenger, email: text })}
-                keyboardType="email-address"
-                autoCapitalize="none"
-              />
-            </View>
+            {passengerCount > 1 && (
+              <View style={styles.sameContactRow}>
+                <View style={styles.sameContactInfo}>
+                  <Text style={styles.sameContactLabel}>{t.booking.sameContactAsLead}</Text>
+                  {sameContactAsLead && (
+                    <Text style={styles.sameContactHint}>{t.booking.sameContactHint}</Text>
+                  )}
+                </View>
+                <Switch
+                  value={sameContactAsLead}
+                  onValueChange={setSameContactAsLead}
+                  trackColor={{ true: colors.primary, false: colors.border }}
+                />
+              </View>
+            )}
 
-            <View style={styles.formGroup}>
-              <Text style={styles.inputLabel}>Phone</Text>
-              <TextInput
-                style={styles.input}
-                placeholder="Enter phone number"
-                placeholderTextColor={colors.textSecondary}
-                value={passenger.phone}
-                onChangeText={(text) => setPassenger({ ...passenger, phone: text })}
-                keyboardType="phone-pad"
+            {passengers.map((value, index) => (
+              <PassengerForm
+                key={index}
+                index={index}
+                seat={sortedSeats[0][index]}
+                value={value}
+                onChange={(next) => updatePassenger(index, next)}
+                showContact={hasOwnContact(index, sameContactAsLead)}
+                invalidField={passengerError?.index === index ? passengerError.field : null}
+                travellers={travellers}
+                fareRules={fareRules}
+                price={trip.price}
               />
-            </View>
-
-            <View style={styles.selectedSeatsInfo}>
-              <Text style={styles.selectedSeatsLabel}>Selected seats:</Text>
-              <Text style={styles.selectedSeatsValue}>
-                {selectedSeats.sort((a, b) => a - b).join(', ')}
-              </Text>
-            </View>
+            ))}
           </View>
         )}
 
@@ -568,37 +809,114 @@ export default function BookingScreen() {
               );
             })}
 
+            {/* Promo code */}
+            <View style={styles.promoSection}>
+              <Text style={styles.summaryTitle}>{t.promoCode.title}</Text>
+              <PromoCodeInput
+                applied={appliedPromo}
+                onApply={handleApplyPromo}
+                onRemove={handleRemovePromo}
+                error={promoError}
+                isChecking={isCheckingPromo}
+                disabled={isProcessing}
+              />
+            </View>
+
             {/* Order summary */}
             <View style={styles.orderSummary}>
               <Text style={styles.summaryTitle}>Order Summary</Text>
+              {bookedTrips.map((legTrip, leg) => (
+                <View key={legTrip.id}>
+                  {secondTrip && <Text style={styles.legLabel}>{legLabel(leg)}</Text>}
+                  <View style={styles.summaryRow}>
+                    <Text style={styles.summaryLabel}>Route</Text>
+                    <Text style={styles.summaryValue}>
+                      {legTrip.route.origin.city ?? legTrip.route.origin.name} →{' '}
+                      {legTrip.route.destination.city ?? legTrip.route.destination.name}
+                    </Text>
+                  </View>
+                  <View style={styles.summaryRow}>
+                    <Text style={styles.summaryLabel}>Date</Text>
+                    <Text style={styles.summaryValue}>
+                      {formatDate(new Date(legTrip.departureTime), 'long')}
+                    </Text>
+                  </View>
+                  <View style={styles.summaryRow}>
+                    <Text style={styles.summaryLabel}>Seats</Text>
+                    <Text style={styles.summaryValue}>
+                      {sortedSeats[leg].join(', ')}
+                    </Text>
+                  </View>
+                </View>
+              ))}
               <View style={styles.summaryRow}>
-                <Text style={styles.summaryLabel}>Route</Text>
-                <Text style={styles.summaryValue}>
-                  {trip.route.origin.city} → {trip.route.destination.city}
-                </Text>
-              </View>
-              <View style={styles.summaryRow}>
-                <Text style={styles.summaryLabel}>Date</Text>
-                <Text style={styles.summaryValue}>
-                  {formatShortDate(trip.departureTime)}
-                </Text>
-              </View>
-              <View style={styles.summaryRow}>
-                <Text style={styles.summaryLabel}>Seats</Text>
+                <Text style={styles.summaryLabel}>{t.booking.passengers}</Text>
                 <Text style={styles.summaryValue}>
-                  {selectedSeats.sort((a, b) => a - b).join(', ')}
+                  {passengers.map((value) => value.name).join(', ')}
                 </Text>
               </View>
-              <View style={styles.summaryRow}>
-                <Text style={styles.summaryLabel}>Passenger</Text>
-                <Text style={styles.summaryValue}>{passenger.name}</Text>
-              </View>
+              {/* Price breakdown */}
+              {priceBreakdown && (
+                <>
+                  <View style={styles.summaryRow}>
+                    <Text style={styles.summaryLabel}>
+                      {t.fares.baseFare} ({passengerCount}×)
+                    </Text>
+                    <Text style={styles.summaryValue}>
+                      {formatCurrency(priceBreakdown.baseAmount, trip.price.currency)}
+                    </Text>
+                  </View>
+                  {priceBreakdown.tripDiscount > 0 && (
+                    <View style={styles.summaryRow}>
+                      <Text style={styles.summaryLabel}>
+                        {trip.price.discount?.description ?? t.fares.tripDiscount}
+                      </Text>
+                      <Text style={styles.discountValue}>
+                        −{formatCurrency(priceBreakdown.tripDiscount, trip.price.currency)}
+                      </Text>
+                    </View>
+                  )}
+                  {priceBreakdown.fareDiscount > 0 && (
+                    <View style={styles.summaryRow}>
+                      <Text style={styles.summaryLabel}>{t.fares.fareDiscount}</Text>
+                      <Text style={styles.discountValue}>
+                        −{formatCurrency(priceBreakdown.fareDiscount, trip.price.currency)}
+                      </Text>
+                    </View>
+                  )}
+                  {priceBreakdown.lines.length > 1 &&
+                    priceBreakdown.lines.map((line) => (
+                      <View key={line.category} style={styles.summaryRow}>
+                        <Text style={styles.summaryLabel}>
+                          {line.count}× {t.fares[line.category]}
+                        </Text>
+                        <Text style={styles.summaryValue}>
+                          {formatCurrency(line.amount, trip.price.currency)}
+                        </Text>
+                      </View>
+                    ))}
+                </>
+              )}
+              {appliedPromo && promoDiscount > 0 && (
+                <View style={styles.summaryRow}>
+                  <Text style={styles.summaryLabel}>
+                    {t.promoCode.discount} {appliedPromo.code}
+                  </Text>
+                  <Text style={styles.discountValue}>
+                    −{formatCurrency(promoDiscount, trip.price.currency)}
+                  </Text>
+                </View>
+              )}
               <View style={[styles.summaryRow, styles.summaryTotal]}>
                 <Text style={styles.totalLabel}>Total</Text>
-                <Text style={styles.totalValue}>
-                  {formatPrice({ amount: totalPrice, currency: trip.price.currency })}
-                </Text>
+                <Text style={styles.totalValue}>{formattedTotal}</Text>
               </View>
+              {showConvertedTotal && (
+                <Text style={styles.convertedNote}>
+                  ≈ {formatCurrency(convertedTotal!.amount, convertedTotal!.currency)} ·{' '}
+                  {t.currency.chargedIn} {trip.price.currency}
+                </Text>
+              )}
             </View>
           </View>
         )}
@@ -608,9 +926,12 @@ export default function BookingScreen() {
       <View style={styles.bottomBar}>
         <View style={styles.priceContainer}>
           <Text style={styles.priceLabel}>Total</Text>
-          <Text style={styles.priceValue}>
-            {formatPrice({ amount: totalPrice, currency: trip.price.currency })}
-          </Text>
+          <Text style={styles.priceValue}>{formattedTotal}</Text>
+          {showConvertedTotal && (
+            <Text style={styles.priceLabel}>
+              ≈ {formatCurrency(convertedTotal!.amount, convertedTotal!.currency)}
+            </Text>
+          )}
         </View>
 
         {step === 'payment' ? (
@@ -637,8 +958,16 @@ export default function BookingScreen() {
             )}
           </TouchableOpacity>
         ) : (
-          <TouchableOpacity style={styles.continueButton} onPress={handleContinue}>
-            <Text style={styles.continueButtonText}>Continue</Text>
+          <TouchableOpacity
+            style={styles.continueButton}
+            onPress={handleContinue}
+            disabled={isCheckingSeats || isHoldBusy}
+          >
+            {isCheckingSeats || isHoldBusy ? (
+              <ActivityIndicator color="#fff" />
+            ) : (
+              <Text style={styles.continueButtonText}>Continue</Text>
+            )}
           </TouchableOpacity>
         )}
       </View>
@@ -691,6 +1020,19 @@ const createStyles = (colors: any) =>
       fontSize: 14,
       color: colors.textSecondary,
     },
+    returnLeg: {
+      marginTop: 12,
+      paddingTop: 12,
+      borderTopWidth: 1,
+      borderTopColor: colors.border,
+    },
+    legLabel: {
+      fontSize: 12,
+      fontWeight: '600',
+      color: colors.primary,
+      textTransform: 'uppercase',
+      marginBottom: 4,
+    },
     stepIndicator: {
       flexDirection: 'row',
       justifyContent: 'center',
@@ -743,114 +1085,24 @@ const createStyles = (colors: any) =>
       color: colors.textSecondary,
       marginBottom: 16,
     },
-    seatLegend: {
-      flexDirection: 'row',
-      justifyContent: 'center',
-      gap: 24,
-      marginBottom: 16,
-    },
-    legendItem: {
+    sameContactRow: {
       flexDirection: 'row',
       alignItems: 'center',
-      gap: 6,
-    },
-    seatSmall: {
-      width: 16,
-      height: 16,
-      borderRadius: 4,
-    },
-    seatAvailable: {
-      backgroundColor: colors.background,
-      borderWidth: 1,
-      borderColor: colors.border,
-    },
-    seatSelected: {
-      backgroundColor: colors.primary,
-    },
-    seatOccupied: {
-      backgroundColor: colors.textSecondary,
-    },
-    legendText: {
-      fontSize: 12,
-      color: colors.textSecondary,
-    },
-    busLayout: {
-      alignItems: 'center',
-    },
-    driverArea: {
-      width: 40,
-      height: 40,
-      borderRadius: 8,
-      backgroundColor: colors.background,
-      justifyContent: 'center',
-      alignItems: 'center',
+      gap: 12,
       marginBottom: 16,
     },
-    seatsContainer: {
-      gap: 8,
-    },
-    seatRow: {
-      flexDirection: 'row',
-      gap: 8,
-    },
-    seat: {
-      width: 40,
-      height: 40,
-      borderRadius: 8,
-      backgroundColor: colors.background,
-      justifyContent: 'center',
-      alignItems: 'center',
-      borderWidth: 1,
-      borderColor: colors.border,
-    },
-    seatAisle: {
-      marginRight: 16,
-    },
-    seatText: {
-      fontSize: 12,
-      fontWeight: '500',
-      color: colors.text,
-    },
-    seatTextOccupied: {
-      color: '#fff',
-    },
-    seatTextSelected: {
-      color: '#fff',
-    },
-    formGroup: {
-      marginBottom: 16,
+    sameContactInfo: {
+      flex: 1,
     },
-    inputLabel: {
+    sameContactLabel: {
       fontSize: 14,
       fontWeight: '500',
       color: colors.text,
-      marginBottom: 8,
-    },
-    input: {
-      backgroundColor: colors.background,
-      borderRadius: 8,
-      padding: 12,
-      fontSize: 16,
-      color: colors.text,
-      borderWidth: 1,
-      borderColor: colors.border,
     },
-    selectedSeatsInfo: {
-      flexDirection: 'row',
-      marginTop: 16,
-      padding: 12,
-      backgroundColor: colors.background,
-      borderRadius: 8,
-    },
-    selectedSeatsLabel: {
-      fontSize: 14,
+    sameContactHint: {
+      fontSize: 12,
       color: colors.textSecondary,
-    },
-    selectedSeatsValue: {
-      fontSize: 14,
-      fontWeight: '600',
-      color: colors.text,
-      marginLeft: 8,
+      marginTop: 2,
     },
     paymentStatusBar: {
       flexDirection: 'row',
@@ -972,6 +1224,13 @@ const createStyles = (colors: any) =>
       fontSize: 14,
       color: colors.text,
     },
+    discountValue: {
+      fontSize: 14,
+      color: colors.success,
+    },
+    promoSection: {
+      marginTop: 16,
+    },
     summaryTotal: {
       marginTop: 8,
       paddingTop: 12,
@@ -1006,6 +1265,12 @@ const createStyles = (colors: any) =>
       fontSize: 12,
       color: colors.textSecondary,
     },
+    convertedNote: {
+      fontSize: 12,
+      color: colors.textSecondary,
+      textAlign: 'right',
+      marginTop: 4,
+    },
     priceValue: {
       fontSize: 20,
       fontWeight: '700',
@@ -0,0 +1,441 @@
+/**
+ * BUS-Tickets - Bank Transfer Screen
+ * Payment details with a QR code for banking apps, watched until the
+ * transfer is matched
+ * Copyright (c) 2024-2026 IT Enterprise
+ */
+
+import { useEffect, useRef, useState } from 'react';
+import {
+  View,
+  Text,
+  ScrollView,
+  TouchableOpacity,
+  StyleSheet,
+  ActivityIndicator,
+} from 'react-native';
+import { useRouter, useLocalSearchParams } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import * as Clipboard from 'expo-clipboard';
+import QRCode from 'react-native-qrcode-svg';
+import { useTheme } from '@/contexts/ThemeContext';
+import { useLocale } from '@/contexts/LocaleContext';
+import { usePayment } from '@/hooks/usePayment';
+import { getPaymentQrCodes, paymentMessage, PaymentQrFormat } from '@/utils/paymentQr';
+
+/**
+ * Transfers take hours to days, so there's no point checking more often
+ */
+const BANK_TRANSFER_POLL_INTERVAL = 30000;
+
+/**
+ * Four hours of checks; a transfer arriving later is picked up when the
+ * payment session is resumed
+ */
+const BANK_TRANSFER_MAX_POLL_ATTEMPTS = 480;
+
+const COPIED_FEEDBACK_MS = 2000;
+
+const QR_FORMAT_LABELS: Record<PaymentQrFormat, string> = {
+  spayd: 'QR Platba',
+  epc: 'EPC QR (SEPA)',
+};
+
+function formatTimeLeft(ms: number, daysShort: string): string {
+  const totalSeconds = Math.max(0, Math.floor(ms / 1000));
+  const days = Math.floor(totalSeconds / 86400);
+  const hours = Math.floor((totalSeconds % 86400) / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  const clock = [hours, minutes, seconds].map((part) => String(part).padStart(2, '0')).join(':');
+  return days > 0 ? `${days} ${daysShort} ${clock}` : clock;
+}
+
+export default function BankTransferScreen() {
+  const router = useRouter();
+  const params = useLocalSearchParams<{ transactionId?: string }>();
+  const { colors } = useTheme();
+  const { t, formatCurrency, formatDate, formatTime } = useLocale();
+  const styles = createStyles(colors);
+
+  // Watch while the screen is open, until the due date at the latest
+  const { transaction, startPolling, stopPolling, checkPaymentStatus } = usePayment({
+    resume: true,
+    pollInterval: BANK_TRANSFER_POLL_INTERVAL,
+    maxPollAttempts: BANK_TRANSFER_MAX_POLL_ATTEMPTS,
+  });
+
+  const [isLoading, setIsLoading] = useState(true);
+  const [copiedField, setCopiedField] = useState<string | null>(null);
+  const [now, setNow] = useState(Date.now());
+  const copiedTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const transactionId = Number(params.transactionId);
+  const details = transaction?.bankDetails;
+  const isPaid = transaction?.status === 'done';
+  const isFailed =
+    transaction?.status === 'cancel' ||
+    transaction?.status === 'error' ||
+    transaction?.status === 'refunded';
+  const isSettled = isPaid || isFailed;
+
+  useEffect(() => {
+    if (!transactionId) {
+      setIsLoading(false);
+      return;
+    }
+    checkPaymentStatus(transactionId)
+      .catch(() => undefined)
+      .finally(() => setIsLoading(false));
+  }, [transactionId]);
+
+  useEffect(() => {
+    if (transaction?.transactionId === transactionId && !isSettled) {
+      startPolling(transactionId);
+    }
+  }, [transaction?.transactionId, isSettled]);
+
+  // Due date countdown
+  const dueAt = details?.dueDate ? Date.parse(details.dueDate) : NaN;
+  const hasDueDate = !Number.isNaN(dueAt);
+  const isOverdue = hasDueDate && now >= dueAt;
+  useEffect(() => {
+    if (!hasDueDate || isSettled) return;
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [hasDueDate, isSettled]);
+
+  // The backend cancels the reservation once the due date passes; one last
+  // check picks that up, then there's nothing more to wait for
+  useEffect(() => {
+    if (!isOverdue || isSettled) return;
+    stopPolling();
+    checkPaymentStatus(transactionId).catch(() => undefined);
+  }, [isOverdue]);
+
+  useEffect(() => {
+    return () => {
+      if (copiedTimeoutRef.current) clearTimeout(copiedTimeoutRef.current);
+    };
+  }, []);
+
+  const copy = async (field: string, value: string) => {
+    try {
+      await Clipboard.setStringAsync(value);
+      setCopiedField(field);
+      if (copiedTimeoutRef.current) clearTimeout(copiedTimeoutRef.current);
+      copiedTimeoutRef.current = setTimeout(() => setCopiedField(null), COPIED_FEEDBACK_MS);
+    } catch (error) {
+      console.error('Error copying to clipboard:', error);
+    }
+  };
+
+  if (isLoading && !details) {
+    return (
+      <View style={styles.centered}>
+        <ActivityIndicator size="large" color={colors.primary} />
+      </View>
+    );
+  }
+
+  if (isSettled) {
+    return (
+      <View style={styles.centered}>
+        <Ionicons
+          name={isPaid ? 'checkmark-circle' : 'close-circle'}
+          size={80}
+          color={isPaid ? colors.success : colors.error}
+        />
+        <Text style={styles.resultTitle}>
+          {isPaid ? t.bankTransfer.received : t.payment.cancelled}
+        </Text>
+        <Text style={styles.resultText}>
+          {isPaid ? t.bankTransfer.receivedNote : t.bankTransfer.notReceived}
+        </Text>
+        <TouchableOpacity
+          style={styles.primaryButton}
+          onPress={() => router.replace(isPaid ? '/tickets' : '/')}
+        >
+          <Text style={styles.primaryButtonText}>
+            {isPaid ? t.bankTransfer.viewTickets : t.common.back}
+          </Text>
+        </TouchableOpacity>
+      </View>
+    );
+  }
+
+  if (!details) {
+    return (
+      <View style={styles.centered}>
+        <Ionicons name="document-text-outline" size={64} color={colors.textSecondary} />
+        <Text style={styles.resultText}>{t.bankTransfer.notFound}</Text>
+        <TouchableOpacity style={styles.primaryButton} onPress={() => router.replace('/')}>
+          <Text style={styles.primaryButtonText}>{t.common.back}</Text>
+        </TouchableOpacity>
+      </View>
+    );
+  }
+
+  // EPC payments need the account holder's name; the QR is left out without it
+  const recipientName = details.recipientName;
+  const qrCodes = getPaymentQrCodes(details, recipientName);
+  const timeLeft = hasDueDate ? dueAt - now : null;
+
+  const fields: Array<{ key: string; label: string; value: string; copyValue?: string }> = [
+    ...(recipientName
+      ? [{ key: 'recipient', label: t.bankTransfer.recipient, value: recipientName }]
+      : []),
+    {
+      key: 'account',
+      label: t.bankTransfer.accountNumber,
+      value: `${details.accountNumber}/${details.bankCode}`,
+    },
+    { key: 'iban', label: t.bankTransfer.iban, value: details.iban },
+    { key: 'swift', label: t.bankTransfer.swift, value: details.swift },
+    { key: 'vs', label: t.bankTransfer.variableSymbol, value: details.variableSymbol },
+    {
+      key: 'amount',
+      label: t.bankTransfer.amount,
+      value: formatCurrency(details.amount, details.currency),
+      copyValue: details.amount.toFixed(2),
+    },
+    { key: 'message', label: t.bankTransfer.message, value: paymentMessage(details) },
+  ];
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.content}>
+      {/* Due date */}
+      {timeLeft !== null && (
+        <View
+          style={[
+            styles.dueCard,
+            { backgroundColor: (isOverdue ? colors.error : colors.warning) + '15' },
+          ]}
+        >
+          <Ionicons
+            name="time-outline"
+            size={22}
+            color={isOverdue ? colors.error : colors.warning}
+          />
+          <View style={styles.dueInfo}>
+            {isOverdue ? (
+              <Text style={[styles.dueCountdown, { color: colors.error }]}>
+                {t.bankTransfer.overdue}
+              </Text>
+            ) : (
+              <>
+                <Text style={styles.dueLabel}>{t.bankTransfer.payWithin}</Text>
+                <Text style={[styles.dueCountdown, { color: colors.warning }]}>
+                  {formatTimeLeft(timeLeft, t.bankTransfer.daysShort)}
+                </Text>
+              </>
+            )}
+            <Text style={styles.dueLabel}>
+              {t.bankTransfer.dueBy}: {formatDate(new Date(dueAt))} {formatTime(new Date(dueAt))}
+            </Text>
+          </View>
+        </View>
+      )}
+
+      {/* QR code */}
+      <View style={styles.card}>
+        {qrCodes.length > 0 ? (
+          <>
+            <Text style={styles.cardHint}>{t.bankTransfer.scanToPay}</Text>
+            {qrCodes.map((qrCode) => (
+              <View key={qrCode.format} style={styles.qrContainer}>
+                <View style={styles.qrBackground}>
+                  <QRCode value={qrCode.payload} size={200} ecl="M" />
+                </View>
+                <Text style={styles.qrLabel}>{QR_FORMAT_LABELS[qrCode.format]}</Text>
+              </View>
+            ))}
+          </>
+        ) : (
+          <Text style={styles.cardHint}>{t.bankTransfer.enterManually}</Text>
+        )}
+      </View>
+
+      {/* Payment details */}
+      <View style={styles.card}>
+        {fields.map((field, index) => (
+          <TouchableOpacity
+            key={field.key}
+            style={[styles.fieldRow, index > 0 && styles.fieldRowBorder]}
+            onPress={() => copy(field.key, field.copyValue ?? field.value)}
+          >
+            <View style={styles.fieldInfo}>
+              <Text style={styles.fieldLabel}>{field.label}</Text>
+              <Text style={styles.fieldValue} selectable>
+                {field.value}
+              </Text>
+            </View>
+            {copiedField === field.key ? (
+              <Text style={styles.copiedText}>{t.bankTransfer.copied}</Text>
+            ) : (
+              <Ionicons name="copy-outline" size={20} color={colors.primary} />
+            )}
+          </TouchableOpacity>
+        ))}
+        <Text style={styles.symbolNote}>{t.bankTransfer.includeSymbol}</Text>
+      </View>
+
+      {/* Status watch */}
+      <View style={styles.waitingRow}>
+        <ActivityIndicator size="small" color={colors.primary} />
+        <Text style={styles.waitingText}>{t.bankTransfer.waiting}</Text>
+      </View>
+
+      <TouchableOpacity style={styles.secondaryButton} onPress={() => router.replace('/tickets')}>
+        <Text style={styles.secondaryButtonText}>{t.bankTransfer.payLater}</Text>
+      </TouchableOpacity>
+    </ScrollView>
+  );
+}
+
+const createStyles = (colors: any) =>
+  StyleSheet.create({
+    container: {
+      flex: 1,
+      backgroundColor: colors.background,
+    },
+    content: {
+      padding: 16,
+      paddingBottom: 32,
+    },
+    centered: {
+      flex: 1,
+      justifyContent: 'center',
+      alignItems: 'center',
+      padding: 32,
+      backgroundColor: colors.background,
+    },
+    resultTitle: {
+      fontSize: 24,
+      fontWeight: '700',
+      color: colors.text,
+      marginTop: 24,
+      marginBottom: 8,
+    },
+    resultText: {
+      fontSize: 16,
+      color: colors.textSecondary,
+      textAlign: 'center',
+      marginTop: 12,
+    },
+    dueCard: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 12,
+      borderRadius: 12,
+      padding: 12,
+      marginBottom: 16,
+    },
+    dueInfo: {
+      flex: 1,
+    },
+    dueLabel: {
+      fontSize: 13,
+      color: colors.textSecondary,
+    },
+    dueCountdown: {
+      fontSize: 18,
+      fontWeight: '700',
+      fontVariant: ['tabular-nums'],
+    },
+    card: {
+      backgroundColor: colors.card,
+      borderRadius: 12,
+      padding: 16,
+      marginBottom: 16,
+    },
+    cardHint: {
+      fontSize: 14,
+      color: colors.textSecondary,
+      textAlign: 'center',
+    },
+    qrContainer: {
+      alignItems: 'center',
+      marginTop: 16,
+    },
+    qrBackground: {
+      // Scanners need a light quiet zone, also in dark mode
+      backgroundColor: '#ffffff',
+      padding: 12,
+      borderRadius: 8,
+    },
+    qrLabel: {
+      fontSize: 12,
+      color: colors.textSecondary,
+      marginTop: 8,
+    },
+    fieldRow: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      paddingVertical: 10,
+      gap: 12,
+    },
+    fieldRowBorder: {
+      borderTopWidth: 1,
+      borderTopColor: colors.border,
+    },
+    fieldInfo: {
+      flex: 1,
+    },
+    fieldLabel: {
+      fontSize: 12,
+      color: colors.textSecondary,
+    },
+    fieldValue: {
+      fontSize: 16,
+      fontWeight: '500',
+      color: colors.text,
+      marginTop: 2,
+    },
+    copiedText: {
+      fontSize: 13,
+      fontWeight: '600',
+      color: colors.success,
+    },
+    symbolNote: {
+      fontSize: 12,
+      color: colors.warning,
+      marginTop: 8,
+    },
+    waitingRow: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 12,
+      paddingHorizontal: 4,
+      marginBottom: 16,
+    },
+    waitingText: {
+      flex: 1,
+      fontSize: 13,
+      color: colors.textSecondary,
+    },
+    primaryButton: {
+      backgroundColor: colors.primary,
+      borderRadius: 12,
+      paddingVertical: 14,
+      paddingHorizontal: 32,
+      marginTop: 24,
+    },
+    primaryButtonText: {
+      color: '#ffffff',
+      fontSize: 16,
+      fontWeight: '600',
+    },
+    secondaryButton: {
+      borderRadius: 12,
+      borderWidth: 1,
+      borderColor: colors.border,
+      paddingVertical: 14,
+      alignItems: 'center',
+    },
+    secondaryButtonText: {
+      fontSize: 16,
+      fontWeight: '500',
+      color: colors.text,
+    },
+  });
@@ -7,6 +7,10 @@
  * - bus-tickets://payment/success?ref=xxx
  * - bus-tickets://payment/cancelled
  * - bus-tickets://payment/error
+ *
+ * The stored payment session (see services/PaymentSessionStore) is
+ * reconciled first, so a paid booking never shows as failed because of
+ * the redirect it came back with.
  */
 
 import { useEffect, useState } from 'react';
@@ -16,10 +20,13 @@ import {
   StyleSheet,
   ActivityIndicator,
 } from 'react-native';
-import { useRouter, useLocalSearchParams } from 'expo-router';
+import { useRouter, useLocalSearchParams, usePathname } from 'expo-router';
 import { Ionicons } from '@expo/vector-icons';
 import { useTheme } from '@/contexts/ThemeContext';
-import { useConfig } from '@/contexts/ConfigContext';
+import { httpClient } from '@/services/HttpClient';
+import { decodePaymentResult } from '@/services/decoders';
+import { paymentSessionStore, PaymentSession } from '@/services/PaymentSessionStore';
+import { getPaymentAdapter } from '@/services/payments';
 
 type PaymentResultStatus = 'loading' | 'success' | 'error' | 'cancelled';
 
@@ -34,8 +41,8 @@ export default function PaymentReturnScreen() {
     cancelled?: string;
     error?: string;
   }>();
+  const pathname = usePathname();
   const { colors } = useTheme();
-  const { config } = useConfig();
 
   const [status, setStatus] = useState<PaymentResultStatus>('loading');
   const [message, setMessage] = useState('Ověřuji platbu...');
@@ -45,65 +52,117 @@ export default function PaymentReturnScreen() {
   }, []);
 
   const checkPaymentResult = async () => {
+    // Get reference from various possible params
+    const reference = params.ref || params.reference || params.session_id || params.token;
+
+    // The stored session is only used for its own redirect, one carrying
+    // the transaction's reference as its gateway words it; a redirect
+    // without any could belong to another payment
+    const session = await paymentSessionStore.load();
+    const transaction = session?.transaction;
+    if (transaction) {
+      const query = Object.entries(params).filter(
+        (entry): entry is [string, string] => typeof entry[1] === 'string'
+      );
+      const gatewayReturn = getPaymentAdapter(session.method).parseReturnUrl(
+        `${pathname}?${new URLSearchParams(query)}`
+      );
+      if ([reference, gatewayReturn?.reference].includes(transaction.reference)) {
+        await checkSession(transaction.transactionId);
+        return;
+      }
+    }
+
     // Check for cancellation
     if (params.cancelled === 'true' || params.error) {
-      setStatus(params.error ? 'error' : 'cancelled');
-      setMessage(params.error ? 'Platba selhala' : 'Platba byla zrušena');
-      redirectAfterDelay();
+      showResult(
+        params.error ? 'error' : 'cancelled',
+        params.error ? 'Platba selhala' : 'Platba byla zrušena'
+      );
       return;
     }
 
-    // Get reference from various possible params
-    const reference = params.ref || params.reference || params.session_id || params.token;
-
     if (!reference) {
-      setStatus('error');
-      setMessage('Chybí reference platby');
-      redirectAfterDelay();
+      showResult('error', 'Chybí reference platby');
       return;
     }
 
     try {
       // Check payment status via API
-      const response = await fetch(
-        `${config.backend.url}/api/v1/payments/status?reference=${reference}`,
-        {
-          method: 'GET',
-          headers: {
-            'Content-Type': 'application/json',
-          },
-        }
-      );
-
-      const data = await response.json();
-
-      if (data.success && data.data.status === 'done') {
-        setStatus('success');
-        setMessage('Platba úspěšná!');
-      } else if (data.data?.status === 'pending' || data.data?.status === 'processing') {
+      const data = await httpClient.get('/api/v1/payments/status', {
+        query: { reference },
+      });
+      const payment = decodePaymentResult(data);
+
+      if (payment.status === 'done') {
+        showResult('success', 'Platba úspěšná!');
+      } else if (payment.status === 'draft' || payment.status === 'pending') {
         setMessage('Čekám na potvrzení platby...');
         // Poll again after delay
         setTimeout(checkPaymentResult, 2000);
-        return;
-      } else if (data.data?.status === 'cancel') {
-        setStatus('cancelled');
-        setMessage('Platba byla zrušena');
+      } else if (payment.status === 'cancel') {
+        showResult('cancelled', 'Platba byla zrušena');
       } else {
-        setStatus('error');
-        setMessage(data.data?.errorMessage || 'Platba selhala');
+        showResult('error', payment.errorMessage || 'Platba selhala');
+      }
+    } catch (error) {
+      console.error('Payment status check error:', error);
+      showResult('error', 'Nepodařilo se ověřit platbu');
+    }
+  };
+
+  /**
+   * Reconcile the stored session with the backend and show where it ended up
+   */
+  const checkSession = async (transactionId: number) => {
+    let updated: PaymentSession | null = null;
+    try {
+      const data = await httpClient.get(`/api/v1/payments/${transactionId}/status`);
+      const result = decodePaymentResult(data);
+      const adapter = getPaymentAdapter(paymentSessionStore.getSession()?.method);
+      updated = await paymentSessionStore.reconcile(result, adapter.mapStatus(result));
+
+      // Not settled yet: a cancel or error redirect means the user gave up
+      if (
+        updated?.status === 'processing' &&
+        (params.cancelled === 'true' || params.error)
+      ) {
+        updated = await paymentSessionStore.transition(params.error ? 'error' : 'cancelled', {
+          error: 'Platba selhala',
+        });
       }
     } catch (error) {
+      // Offline: the session is checked again on the next start
       console.error('Payment status check error:', error);
-      setStatus('error');
-      setMessage('Nepodařilo se ověřit platbu');
+      updated = paymentSessionStore.getSession();
     }
 
-    redirectAfterDelay();
+    switch (updated?.status) {
+      case 'success':
+        showResult('success', 'Platba úspěšná!');
+        break;
+      case 'cancelled':
+        showResult('cancelled', 'Platba byla zrušena');
+        break;
+      case 'error':
+      case 'refunded':
+        showResult('error', updated.error || 'Platba selhala');
+        break;
+      default:
+        setMessage('Čekám na potvrzení platby...');
+        setTimeout(() => checkSession(transactionId), 2000);
+    }
+  };
+
+  const showResult = (result: PaymentResultStatus, text: string) => {
+    setStatus(result);
+    setMessage(text);
+    redirectAfterDelay(result);
   };
 
-  const redirectAfterDelay = () => {
+  const redirectAfterDelay = (result: PaymentResultStatus) => {
     setTimeout(() => {
-      if (status === 'success') {
+      if (result === 'success') {
         router.replace('/tickets');
       } else {
         router.replace('/');
@@ -4,7 +4,7 @@
  * Copyright (c) 2024-2026 IT Enterprise
  */
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
 import {
   View,
   Text,
@@ -13,24 +13,29 @@ import {
   StyleSheet,
   RefreshControl,
   Image,
-  Platform,
+  ScrollView,
 } from 'react-native';
 import { useRouter, useLocalSearchParams } from 'expo-router';
 import { Ionicons } from '@expo/vector-icons';
 import { useTheme } from '@/contexts/ThemeContext';
-import { useConfig } from '@/contexts/ConfigContext';
 import { useLocale } from '@/contexts/LocaleContext';
-import { useProviders, TripWithProvider } from '@/contexts/ProvidersContext';
-import type { Trip } from '@/types';
-
-// Ensure HTTPS for web
-function ensureHttps(url: string): string {
-  if (!url) return url;
-  if (Platform.OS === 'web' && url.startsWith('http://')) {
-    return url.replace('http://', 'https://');
-  }
-  return url;
-}
+import { useCurrency } from '@/contexts/CurrencyContext';
+import {
+  useProviders,
+  ProviderSearchStatus,
+  TripWithProvider,
+} from '@/contexts/ProvidersContext';
+import { TripFiltersSheet } from '@/components/TripFiltersSheet';
+import { ProviderSearchStatusList } from '@/components/ProviderSearchStatusList';
+import { useResultFilters } from '@/hooks/useResultFilters';
+import type { Connection } from '@/utils/connections';
+import {
+  countActiveFilters,
+  filterTrips,
+  getFacets,
+  sortTrips,
+  TripSort,
+} from '@/utils/tripFilters';
 
 export default function SearchResultsScreen() {
   const router = useRouter();
@@ -41,15 +46,55 @@ export default function SearchResultsScreen() {
     destinationId?: string;
     date: string;
     passengers: string;
+    /**
+     * Round trip: the outbound leg is chosen first, then this screen is
+     * opened again for the way back with the chosen outbound trip
+     */
+    returnDate?: string;
+    outboundTripId?: string;
+    outboundProviderId?: string;
+    outboundArrival?: string;
+    outboundCurrency?: string;
   }>();
   const { colors } = useTheme();
-  const { config } = useConfig();
   const { t, formatTime: formatTimeLocale, formatCurrency, locale } = useLocale();
-  const { providers, activeProviders } = useProviders();
+  const { providers, searchTrips, searchConnections } = useProviders();
+  const { displayCurrency, convertPrice, formatDisplayPrice, isStale } = useCurrency();
 
   const [trips, setTrips] = useState<TripWithProvider[]>([]);
+  // How each operator answered; results may be partial
+  const [providerStatuses, setProviderStatuses] = useState<ProviderSearchStatus[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
+  // Offered when no direct trip exists
+  const [connections, setConnections] = useState<Connection[]>([]);
+  const [isLoadingConnections, setIsLoadingConnections] = useState(false);
+
+  // Sort and filters are remembered per route
+  const { sort, filters, setSort, setFilters, resetFilters } = useResultFilters(
+    params.origin || '',
+    params.destination || ''
+  );
+  const [showFilters, setShowFilters] = useState(false);
+
+  // Providers sell in different currencies; compare them in the display one
+  const pricedTrips = useMemo(
+    () => trips.map((trip) => ({ ...trip, displayPrice: convertPrice(trip.price) ?? undefined })),
+    [trips, convertPrice]
+  );
+  const isConverted = pricedTrips.some(
+    (trip) => trip.displayPrice && trip.displayPrice.currency !== trip.price.currency
+  );
+  const visibleTrips = sortTrips(filterTrips(pricedTrips, filters), sort);
+  const facets = getFacets(pricedTrips, filters);
+  const activeFilterCount = countActiveFilters(filters);
+
+  const providersFailed = providerStatuses.some(
+    (status) => status.state === 'error' || status.state === 'timeout'
+  );
+
+  const isInbound = !!params.outboundTripId;
+  const isRoundTrip = !!params.returnDate || isInbound;
 
   useEffect(() => {
     loadTrips();
@@ -57,90 +102,38 @@ export default function SearchResultsScreen() {
 
   const loadTrips = async () => {
     setIsLoading(true);
-    const allTrips: TripWithProvider[] = [];
 
     try {
-      // Search all active providers in parallel
-      const searchPromises = activeProviders.map(async (provider) => {
-        try {
-          const apiUrl = ensureHttps(provider.apiUrl);
-          const searchParams = new URLSearchParams();
-
-          if (params.origin) searchParams.append('origin', params.origin);
-          if (params.destination) searchParams.append('destination', params.destination);
-          if (params.date) searchParams.append('date', params.date);
-          if (params.passengers) searchParams.append('passengers', params.passengers);
-
-          const fullUrl = `${apiUrl}/api/v1/trips/search?${searchParams.toString()}`;
-          console.log(`Searching ${provider.displayName}:`, fullUrl);
-
-          const response = await fetch(fullUrl, {
-            headers: {
-              'Content-Type': 'application/json',
-              ...(provider.apiKey ? { 'X-API-Key': provider.apiKey } : {}),
-            },
-          });
-          const data = await response.json();
-
-          if (data.success && data.data?.trips) {
-            return data.data.trips.map((t: any) => ({
-              id: t.id,
-              providerId: provider.id,
-              providerName: provider.displayName,
-              providerLogo: provider.logoUrl,
-              providerColor: provider.primaryColor || '#e94560',
-              route: {
-                id: t.route?.id || 0,
-                name: t.route?.name || '',
-                origin: {
-                  id: t.route?.origin?.id || 0,
-                  name: t.route?.origin?.name || '',
-                  city: t.route?.origin?.city || t.route?.origin?.name || '',
-                },
-                destination: {
-                  id: t.route?.destination?.id || 0,
-                  name: t.route?.destination?.name || '',
-                  city: t.route?.destination?.city || t.route?.destination?.name || '',
-                },
-              },
-              departure: t.departureTime || t.tripDate,
-              arrival: t.arrivalTime || t.tripDate,
-              duration: getDurationMinutes(
-                t.departureTime || t.tripDate,
-                t.arrivalTime || t.tripDate
-              ),
-              bus: {
-                id: t.bus?.id || 0,
-                name: t.bus?.name || 'Bus',
-                plateNumber: t.bus?.plateNumber || '',
-                capacity: t.bus?.capacity || t.totalSeats || 50,
-                amenities: t.bus?.amenities || ['wifi', 'ac'],
-              },
-              availableSeats: t.availableSeats || 0,
-              price: {
-                amount: t.price?.amount || 0,
-                currency: t.price?.currency || 'CZK',
-              },
-            }));
-          }
-          return [];
-        } catch (error) {
-          console.error(`Error searching ${provider.displayName}:`, error);
-          return [];
-        }
-      });
-
-      const results = await Promise.all(searchPromises);
-      results.forEach((providerTrips) => {
-        allTrips.push(...providerTrips);
+      const result = await searchTrips({
+        origin: params.origin || '',
+        destination: params.destination || '',
+        date: params.date || '',
+        passengers: parseInt(params.passengers || '1', 10),
       });
-
-      // Sort by departure time
-      allTrips.sort(
-        (a, b) => new Date(a.departure).getTime() - new Date(b.departure).getTime()
+      const allTrips = result.trips.map((trip) => ({
+        ...trip,
+        providerColor: trip.providerColor || '#e94560',
+      }));
+      setProviderStatuses(result.statuses);
+
+      // The way back has to leave after the outbound trip arrives, and is
+      // paid together with it, so in the same currency
+      const outboundArrival = params.outboundArrival
+        ? new Date(params.outboundArrival).getTime()
+        : null;
+      const directTrips = allTrips.filter(
+        (trip) =>
+          (outboundArrival === null || new Date(trip.departure).getTime() > outboundArrival) &&
+          (!params.outboundCurrency || trip.price.currency === params.outboundCurrency)
       );
-
-      setTrips(allTrips);
+      setTrips(directTrips);
+
+      // Connections are booked as their own two-leg journey, so only
+      // one-way searches offer them
+      setConnections([]);
+      if (directTrips.length === 0 && !isRoundTrip) {
+        loadConnections();
+      }
     } catch (error) {
       console.error('Error loading trips:', error);
       setTrips([]);
@@ -149,18 +142,32 @@ export default function SearchResultsScreen() {
     }
   };
 
+  const loadConnections = async () => {
+    if (!params.origin || !params.destination || !params.date) return;
+
+    setIsLoadingConnections(true);
+    try {
+      setConnections(
+        await searchConnections({
+          origin: params.origin,
+          destination: params.destination,
+          date: params.date,
+          passengers: parseInt(params.passengers || '1', 10),
+        })
+      );
+    } catch (error) {
+      console.error('Error searching connections:', error);
+    } finally {
+      setIsLoadingConnections(false);
+    }
+  };
+
   const onRefresh = async () => {
     setRefreshing(true);
     await loadTrips();
     setRefreshing(false);
   };
 
-  const getDurationMinutes = (departure: string, arrival: string): number => {
-    return Math.round(
-      (new Date(arrival).getTime() - new Date(departure).getTime()) / 1000 / 60
-    );
-  };
-
   const formatDuration = (minutes: number) => {
     const hours = Math.floor(minutes / 60);
     const mins = minutes % 60;
@@ -186,24 +193,147 @@ export default function SearchResultsScreen() {
     return icons[amenity] || 'ellipse';
   };
 
+  const handleSelectTrip = (trip: TripWithProvider) => {
+    if (params.returnDate && !isInbound) {
+      router.push({
+        pathname: '/search/results',
+        params: {
+          origin: params.destination,
+          destination: params.origin,
+          date: params.returnDate,
+          passengers: params.passengers || '1',
+          outboundTripId: trip.id.toString(),
+          outboundProviderId: trip.providerId,
+          outboundArrival: trip.arrival,
+          outboundCurrency: trip.price.currency,
+        },
+      });
+      return;
+    }
+
+    router.push({
+      pathname: '/booking/[tripId]',
+      params: isInbound
+        ? {
+            tripId: params.outboundTripId!,
+            passengers: params.passengers || '1',
+            providerId: params.outboundProviderId,
+            returnTripId: trip.id.toString(),
+            returnProviderId: trip.providerId,
+          }
+        : {
+            tripId: trip.id.toString(),
+            passengers: params.passengers || '1',
+            providerId: trip.providerId,
+          },
+    });
+  };
+
+  const handleSelectConnection = (connection: Connection) => {
+    const [first, second] = connection.legs;
+    router.push({
+      pathname: '/booking/[tripId]',
+      params: {
+        tripId: first.id.toString(),
+        passengers: params.passengers || '1',
+        providerId: first.providerId,
+        connectingTripId: second.id.toString(),
+        connectingProviderId: second.providerId,
+      },
+    });
+  };
+
+  const sortOptions: Array<{ value: TripSort; label: string }> = [
+    { value: 'departure', label: t.results.earliest },
+    { value: 'price', label: t.results.cheapest },
+    { value: 'duration', label: t.results.fastest },
+    { value: 'arrival', label: t.resultFilters.earliestArrival },
+  ];
+
   const styles = createStyles(colors);
 
+  const renderConnection = ({ item: connection }: { item: Connection }) => (
+    <TouchableOpacity style={styles.tripCard} onPress={() => handleSelectConnection(connection)}>
+      {/* Overall times */}
+      <View style={styles.tripMain}>
+        <View style={styles.timeColumn}>
+          <Text style={styles.timeText}>{formatTime(connection.departure)}</Text>
+          <Text style={styles.cityText}>{params.origin}</Text>
+        </View>
+
+        <View style={styles.durationColumn}>
+          <View style={styles.durationLine}>
+            <View style={styles.dot} />
+            <View style={styles.line} />
+            <View style={styles.dot} />
+            <View style={styles.line} />
+            <View style={styles.dot} />
+          </View>
+          <Text style={styles.durationText}>{formatDuration(connection.duration)}</Text>
+        </View>
+
+        <View style={[styles.timeColumn, styles.timeColumnRight]}>
+          <Text style={styles.timeText}>{formatTime(connection.arrival)}</Text>
+          <Text style={styles.cityText}>{params.destination}</Text>
+        </View>
+      </View>
+
+      <View style={styles.divider} />
+
+      {/* Legs */}
+      {connection.legs.map((leg, index) => (
+        <View key={`${leg.providerId}-${leg.id}`}>
+          {index > 0 && (
+            <View style={styles.transferRow}>
+              <Ionicons name="swap-horizontal" size={16} color={colors.primary} />
+              <Text style={styles.transferText}>
+                {t.connections.changeIn}{' '}
+                {connection.transferStation.city ?? connection.transferStation.name} •{' '}
+                {formatDuration(connection.transferMinutes)} {t.connections.transferTime}
+              </Text>
+            </View>
+          )}
+          <View style={styles.legRowItem}>
+            <View
+              style={[styles.dot, { backgroundColor: leg.providerColor || colors.primary }]}
+            />
+            <Text style={styles.legTimes}>
+              {formatTime(leg.departure)} – {formatTime(leg.arrival)}
+            </Text>
+            <Text style={styles.legRoute} numberOfLines={1}>
+              {leg.route.origin.city || leg.route.origin.name} →{' '}
+              {leg.route.destination.city || leg.route.destination.name}
+            </Text>
+            <Text style={[styles.legProvider, { color: leg.providerColor || colors.primary }]}>
+              {leg.providerName}
+            </Text>
+          </View>
+        </View>
+      ))}
+
+      {/* Footer */}
+      <View style={styles.tripFooter}>
+        <Text style={styles.seatsText}>
+          {Math.min(...connection.legs.map((leg) => leg.availableSeats))}{' '}
+          {t.results.seatsAvailable}
+        </Text>
+        <View style={styles.priceContainer}>
+          <Text style={[styles.priceText, { color: colors.primary }]}>
+            {formatDisplayPrice(connection.price)}
+          </Text>
+          <Ionicons name="chevron-forward" size={20} color={colors.primary} />
+        </View>
+      </View>
+    </TouchableOpacity>
+  );
+
   const renderTrip = ({ item: trip }: { item: TripWithProvider }) => {
     const seatsLow = trip.availableSeats <= 5;
 
     return (
       <TouchableOpacity
         style={styles.tripCard}
-        onPress={() =>
-          router.push({
-            pathname: '/booking/[tripId]',
-            params: {
-              tripId: trip.id.toString(),
-              passengers: params.passengers || '1',
-              providerId: trip.providerId,
-            },
-          })
-        }
+        onPress={() => handleSelectTrip(trip)}
       >
         {/* Provider badge */}
         <View style={[styles.providerBadge, { backgroundColor: trip.providerColor + '20' }]}>
@@ -260,6 +390,15 @@ export default function SearchResultsScreen() {
             <Ionicons name="bus-outline" size={16} color={colors.textSecondary} />
             <Text style={styles.detailText}>{trip.bus?.name || 'Bus'}</Text>
           </View>
+          {trip.alsoSoldBy && (
+            <View style={styles.detailRow}>
+              <Ionicons name="copy-outline" size={16} color={colors.textSecondary} />
+              <Text style={styles.detailText} numberOfLines={1}>
+                {t.providerStatus.alsoSoldBy}{' '}
+                {trip.alsoSoldBy.map((offer) => offer.providerName).join(', ')}
+              </Text>
+            </View>
+          )}
 
           {/* Amenities */}
           {trip.bus?.amenities && (
@@ -285,9 +424,16 @@ export default function SearchResultsScreen() {
             </Text>
           </View>
           <View style={styles.priceContainer}>
-            <Text style={[styles.priceText, { color: trip.providerColor }]}>
-              {formatCurrency(trip.price.amount, trip.price.currency)}
-            </Text>
+            <View style={styles.priceColumn}>
+              <Text style={[styles.priceText, { color: trip.providerColor }]}>
+                {formatDisplayPrice(trip.price)}
+              </Text>
+              {trip.displayPrice && trip.displayPrice.currency !== trip.price.currency && (
+                <Text style={styles.nativePriceText}>
+                  {formatCurrency(trip.price.amount, trip.price.currency)}
+                </Text>
+              )}
+            </View>
             <Ionicons name="chevron-forward" size={20} color={trip.providerColor} />
           </View>
         </View>
@@ -299,6 +445,18 @@ export default function SearchResultsScreen() {
     <View style={styles.container}>
       {/* Header info */}
       <View style={styles.headerInfo}>
+        {isRoundTrip && (
+          <View style={styles.legRow}>
+            <View style={styles.legBadge}>
+              <Text style={styles.legBadgeText}>
+                {isInbound ? t.roundTrip.inbound : t.roundTrip.outbound}
+              </Text>
+            </View>
+            <Text style={styles.legText}>
+              {isInbound ? t.roundTrip.selectInbound : t.roundTrip.selectOutbound}
+            </Text>
+          </View>
+        )}
         <Text style={styles.routeText}>
           {params.origin || t.common.from} → {params.destination || t.common.to}
         </Text>
@@ -311,27 +469,103 @@ export default function SearchResultsScreen() {
             : t.search.selectDate}{' '}
           • {params.passengers || 1} {t.search.passengers.toLowerCase()}
         </Text>
-        {activeProviders.length > 1 && (
-          <Text style={styles.providersInfo}>
-            {t.common.search} across {activeProviders.length} operators
-          </Text>
+        {!isLoading && (providerStatuses.length > 1 || providersFailed) && (
+          <ProviderSearchStatusList statuses={providerStatuses} />
         )}
       </View>
 
+      {isConverted && isStale && (
+        <View style={styles.staleRatesBanner}>
+          <Ionicons name="warning-outline" size={16} color={colors.warning} />
+          <Text style={styles.staleRatesText}>{t.currency.staleRates}</Text>
+        </View>
+      )}
+
+      {/* Sort and filters */}
+      {trips.length > 1 && (
+        <View style={styles.toolbar}>
+          <ScrollView
+            horizontal
+            showsHorizontalScrollIndicator={false}
+            style={styles.sortScroll}
+            contentContainerStyle={styles.sortRow}
+          >
+            {sortOptions.map(({ value, label }) => (
+              <TouchableOpacity
+                key={value}
+                style={[styles.sortChip, sort === value && styles.sortChipSelected]}
+                onPress={() => setSort(value)}
+              >
+                <Text style={[styles.sortChipText, sort === value && styles.sortChipTextSelected]}>
+                  {label}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </ScrollView>
+          <TouchableOpacity style={styles.filterButton} onPress={() => setShowFilters(true)}>
+            <Ionicons name="options-outline" size={18} color={colors.primary} />
+            <Text style={styles.filterButtonText}>
+              {t.results.filters}
+              {activeFilterCount > 0 ? ` (${activeFilterCount})` : ''}
+            </Text>
+          </TouchableOpacity>
+        </View>
+      )}
+      {activeFilterCount > 0 && trips.length > 0 && (
+        <Text style={styles.shownCount}>
+          {visibleTrips.length} {t.resultFilters.shownOf} {trips.length}
+        </Text>
+      )}
+
       {/* Results */}
       {isLoading ? (
         <View style={styles.loadingContainer}>
           <Text style={styles.loadingText}>{t.common.loading}</Text>
         </View>
+      ) : trips.length === 0 && connections.length > 0 ? (
+        <FlatList
+          data={connections}
+          renderItem={renderConnection}
+          keyExtractor={(item) => item.id}
+          contentContainerStyle={styles.listContent}
+          refreshControl={
+            <RefreshControl refreshing={refreshing} onRefresh={onRefresh} />
+          }
+          ListHeaderComponent={
+            <View style={styles.connectionsHeader}>
+              <Text style={styles.connectionsTitle}>{t.connections.title}</Text>
+              <Text style={styles.connectionsHint}>{t.connections.noDirectTrips}</Text>
+            </View>
+          }
+          ItemSeparatorComponent={() => <View style={{ height: 12 }} />}
+        />
+      ) : trips.length === 0 && isLoadingConnections ? (
+        <View style={styles.loadingContainer}>
+          <Text style={styles.loadingText}>{t.connections.searching}</Text>
+        </View>
       ) : trips.length === 0 ? (
         <View style={styles.emptyContainer}>
           <Ionicons name="bus-outline" size={64} color={colors.textSecondary} />
           <Text style={styles.emptyTitle}>{t.results.noTrips}</Text>
-          <Text style={styles.emptyText}>{t.results.tryDifferentCriteria}</Text>
+          <Text style={styles.emptyText}>
+            {isInbound
+              ? t.roundTrip.noInboundAfterOutbound
+              : providersFailed
+              ? t.providerStatus.someUnavailable
+              : t.results.tryDifferentCriteria}
+          </Text>
+        </View>
+      ) : visibleTrips.length === 0 ? (
+        <View style={styles.emptyContainer}>
+          <Ionicons name="funnel-outline" size={64} color={colors.textSecondary} />
+          <Text style={styles.emptyTitle}>{t.resultFilters.noMatches}</Text>
+          <TouchableOpacity style={styles.clearFiltersButton} onPress={resetFilters}>
+            <Text style={styles.clearFiltersText}>{t.resultFilters.reset}</Text>
+          </TouchableOpacity>
         </View>
       ) : (
         <FlatList
-          data={trips}
+          data={visibleTrips}
           renderItem={renderTrip}
           keyExtractor={(item) => `${item.providerId}-${item.id}`}
           contentContainerStyle={styles.listContent}
@@ -341,6 +575,17 @@ export default function SearchResultsScreen() {
           ItemSeparatorComponent={() => <View style={{ height: 12 }} />}
         />
       )}
+
+      <TripFiltersSheet
+        visible={showFilters}
+        onClose={() => setShowFilters(false)}
+        filters={filters}
+        facets={facets}
+        onChange={setFilters}
+        onReset={resetFilters}
+        resultCount={visibleTrips.length}
+        currency={isConverted ? displayCurrency : trips[0]?.price.currency}
+      />
     </View>
   );
 }
@@ -357,6 +602,27 @@ const createStyles = (colors: any) =>
       borderBottomWidth: 1,
       borderBottomColor: colors.border,
     },
+    legRow: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 8,
+      marginBottom: 8,
+    },
+    legBadge: {
+      backgroundColor: colors.primary,
+      borderRadius: 12,
+      paddingHorizontal: 10,
+      paddingVertical: 3,
+    },
+    legBadgeText: {
+      color: '#fff',
+      fontSize: 12,
+      fontWeight: '600',
+    },
+    legText: {
+      fontSize: 14,
+      color: colors.textSecondary,
+    },
     routeText: {
       fontSize: 18,
       fontWeight: '600',
@@ -367,11 +633,82 @@ const createStyles = (colors: any) =>
       color: colors.textSecondary,
       marginTop: 4,
     },
-    providersInfo: {
-      fontSize: 12,
+    toolbar: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      backgroundColor: colors.card,
+      borderBottomWidth: 1,
+      borderBottomColor: colors.border,
+      paddingVertical: 8,
+      paddingRight: 12,
+    },
+    sortScroll: {
+      flex: 1,
+    },
+    sortRow: {
+      paddingHorizontal: 12,
+      gap: 8,
+    },
+    sortChip: {
+      paddingHorizontal: 12,
+      paddingVertical: 6,
+      borderRadius: 16,
+      backgroundColor: colors.background,
+    },
+    sortChipSelected: {
+      backgroundColor: colors.primary,
+    },
+    sortChipText: {
+      fontSize: 13,
+      color: colors.text,
+    },
+    sortChipTextSelected: {
+      color: '#fff',
+      fontWeight: '600',
+    },
+    filterButton: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 4,
+      paddingLeft: 8,
+    },
+    filterButtonText: {
+      fontSize: 14,
+      fontWeight: '600',
       color: colors.primary,
-      marginTop: 4,
-      fontWeight: '500',
+    },
+    shownCount: {
+      fontSize: 12,
+      color: colors.textSecondary,
+      paddingHorizontal: 16,
+      paddingTop: 8,
+    },
+    staleRatesBanner: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 8,
+      marginHorizontal: 16,
+      marginTop: 8,
+      padding: 10,
+      borderRadius: 8,
+      backgroundColor: colors.warning + '20',
+    },
+    staleRatesText: {
+      flex: 1,
+      fontSize: 12,
+      color: colors.text,
+    },
+    clearFiltersButton: {
+      marginTop: 16,
+      paddingHorizontal: 20,
+      paddingVertical: 10,
+      borderRadius: 20,
+      backgroundColor: colors.primary,
+    },
+    clearFiltersText: {
+      color: '#fff',
+      fontSize: 15,
+      fontWeight: '600',
     },
     loadingContainer: {
       flex: 1,
@@ -489,6 +826,50 @@ const createStyles = (colors: any) =>
       backgroundColor: colors.border,
       marginVertical: 12,
     },
+    connectionsHeader: {
+      marginBottom: 12,
+    },
+    connectionsTitle: {
+      fontSize: 18,
+      fontWeight: '600',
+      color: colors.text,
+    },
+    connectionsHint: {
+      fontSize: 14,
+      color: colors.textSecondary,
+      marginTop: 4,
+    },
+    legRowItem: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 8,
+      paddingVertical: 4,
+    },
+    legTimes: {
+      fontSize: 14,
+      fontWeight: '600',
+      color: colors.text,
+    },
+    legRoute: {
+      flex: 1,
+      fontSize: 14,
+      color: colors.textSecondary,
+    },
+    legProvider: {
+      fontSize: 12,
+      fontWeight: '600',
+    },
+    transferRow: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 6,
+      paddingVertical: 6,
+      paddingLeft: 16,
+    },
+    transferText: {
+      fontSize: 13,
+      color: colors.primary,
+    },
     tripDetails: {
       flexDirection: 'row',
       justifyContent: 'space-between',
@@ -534,8 +915,15 @@ const createStyles = (colors: any) =>
       alignItems: 'center',
       gap: 4,
     },
+    priceColumn: {
+      alignItems: 'flex-end',
+    },
     priceText: {
       fontSize: 20,
       fontWeight: '700',
     },
+    nativePriceText: {
+      fontSize: 12,
+      color: colors.textSecondary,
+    },
   });
@@ -0,0 +1,243 @@
+/**
+ * BUS-Tickets - Billing Details Screen
+ * The user's company details, printed on VAT invoices
+ * Copyright (c) 2024-2026 IT Enterprise
+ */
+
+import { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  ScrollView,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  Alert,
+  ActivityIndicator,
+  TextInputProps,
+} from 'react-native';
+import { useRouter } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import { useTheme } from '@/contexts/ThemeContext';
+import { useLocale } from '@/contexts/LocaleContext';
+import { useAuth } from '@/contexts/AuthContext';
+import { useApi } from '@/contexts/ApiContext';
+import { useNetwork } from '@/contexts/NetworkContext';
+import { getErrorMessage } from '@/services/errors';
+import type { BillingDetails } from '@/types';
+
+const EMPTY_BILLING: BillingDetails = { companyName: '' };
+
+/**
+ * Drop blank optional fields so they're cleared rather than saved as ''
+ */
+function cleanBilling(input: BillingDetails): BillingDetails {
+  const trim = (value?: string) => value?.trim() || undefined;
+
+  return {
+    companyName: input.companyName.trim(),
+    companyId: trim(input.companyId),
+    vatId: trim(input.vatId)?.toUpperCase(),
+    street: trim(input.street),
+    city: trim(input.city),
+    postalCode: trim(input.postalCode),
+    country: trim(input.country),
+  };
+}
+
+export default function BillingDetailsScreen() {
+  const router = useRouter();
+  const { colors } = useTheme();
+  const { t } = useLocale();
+  const { user, isAuthenticated, refreshUser } = useAuth();
+  const api = useApi();
+  const { isOnline } = useNetwork();
+
+  const [draft, setDraft] = useState<BillingDetails>(user?.billing ?? EMPTY_BILLING);
+  const [isInvalid, setIsInvalid] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (user?.billing) setDraft(user.billing);
+  }, [user?.billing]);
+
+  const updateDraft = (changes: Partial<BillingDetails>) => {
+    setDraft({ ...draft, ...changes });
+  };
+
+  const handleSave = async () => {
+    const billing = cleanBilling(draft);
+    setIsInvalid(!billing.companyName);
+    if (!billing.companyName) {
+      Alert.alert(t.common.error, t.billing.companyNameRequired);
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await api.updateProfile({ billing });
+      await refreshUser();
+      Alert.alert(t.billing.title, t.billing.saved, [{ text: 'OK', onPress: () => router.back() }]);
+    } catch (error) {
+      Alert.alert(t.common.error, getErrorMessage(error, t.errors.generic));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const styles = createStyles(colors);
+
+  if (!isAuthenticated) {
+    return (
+      <View style={[styles.container, styles.centered]}>
+        <Ionicons name="business-outline" size={48} color={colors.textSecondary} />
+        <Text style={styles.emptyText}>{t.travellers.signInRequired}</Text>
+      </View>
+    );
+  }
+
+  const renderInput = (
+    field: keyof BillingDetails,
+    label: string,
+    options: TextInputProps = {}
+  ) => (
+    <View style={styles.formGroup}>
+      <Text style={styles.inputLabel}>{label}</Text>
+      <TextInput
+        style={[styles.input, field === 'companyName' && isInvalid && styles.inputInvalid]}
+        placeholderTextColor={colors.textSecondary}
+        value={draft[field] ?? ''}
+        onChangeText={(text) => updateDraft({ [field]: text })}
+        editable={isOnline}
+        {...options}
+      />
+    </View>
+  );
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.content}>
+      <View style={styles.infoCard}>
+        <Ionicons
+          name={isOnline ? 'information-circle-outline' : 'cloud-offline-outline'}
+          size={20}
+          color={isOnline ? colors.primary : colors.error}
+        />
+        <Text style={styles.infoText}>{isOnline ? t.billing.hint : t.billing.offline}</Text>
+      </View>
+
+      <View style={styles.card}>
+        {renderInput('companyName', t.billing.companyName)}
+        {renderInput('companyId', t.billing.companyId, { keyboardType: 'number-pad' })}
+        {renderInput('vatId', t.billing.vatId, { autoCapitalize: 'characters' })}
+        {renderInput('street', t.billing.street)}
+        <View style={styles.row}>
+          <View style={styles.rowItemSmall}>
+            {renderInput('postalCode', t.billing.postalCode)}
+          </View>
+          <View style={styles.rowItem}>{renderInput('city', t.billing.city)}</View>
+        </View>
+        {renderInput('country', t.billing.country)}
+
+        <TouchableOpacity
+          style={[styles.primaryButton, (isSaving || !isOnline) && styles.buttonDisabled]}
+          onPress={handleSave}
+          disabled={isSaving || !isOnline}
+        >
+          {isSaving ? (
+            <ActivityIndicator size="small" color="#fff" />
+          ) : (
+            <Text style={styles.primaryButtonText}>{t.common.save}</Text>
+          )}
+        </TouchableOpacity>
+      </View>
+    </ScrollView>
+  );
+}
+
+const createStyles = (colors: any) =>
+  StyleSheet.create({
+    container: {
+      flex: 1,
+      backgroundColor: colors.background,
+    },
+    centered: {
+      justifyContent: 'center',
+      alignItems: 'center',
+      padding: 32,
+    },
+    content: {
+      padding: 16,
+    },
+    emptyText: {
+      fontSize: 15,
+      color: colors.textSecondary,
+      textAlign: 'center',
+      marginTop: 12,
+    },
+    infoCard: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 10,
+      backgroundColor: colors.card,
+      borderRadius: 12,
+      padding: 12,
+      marginBottom: 16,
+    },
+    infoText: {
+      flex: 1,
+      fontSize: 13,
+      color: colors.textSecondary,
+    },
+    card: {
+      backgroundColor: colors.card,
+      borderRadius: 12,
+      padding: 16,
+    },
+    formGroup: {
+      marginBottom: 12,
+    },
+    inputLabel: {
+      fontSize: 13,
+      fontWeight: '500',
+      color: colors.textSecondary,
+      marginBottom: 6,
+    },
+    input: {
+      borderWidth: 1,
+      borderColor: colors.border,
+      borderRadius: 8,
+      paddingHorizontal: 12,
+      paddingVertical: 10,
+      fontSize: 15,
+      color: colors.text,
+      backgroundColor: colors.background,
+    },
+    inputInvalid: {
+      borderColor: colors.error,
+    },
+    row: {
+      flexDirection: 'row',
+      gap: 12,
+    },
+    rowItem: {
+      flex: 2,
+    },
+    rowItemSmall: {
+      flex: 1,
+    },
+    primaryButton: {
+      backgroundColor: colors.primary,
+      borderRadius: 8,
+      paddingVertical: 12,
+      alignItems: 'center',
+      marginTop: 4,
+    },
+    buttonDisabled: {
+      opacity: 0.5,
+    },
+    primaryButtonText: {
+      color: '#fff',
+      fontSize: 15,
+      fontWeight: '600',
+    },
+  });
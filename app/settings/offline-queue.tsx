@@ -0,0 +1,392 @@
+/**
+ * BUS-Tickets - Offline Queue Screen
+ * Lists queued offline actions and lets the user retry or discard failed ones
+ * Copyright (c) 2024-2026 IT Enterprise
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import {
+  View,
+  Text,
+  ScrollView,
+  TouchableOpacity,
+  StyleSheet,
+  Alert,
+  ActivityIndicator,
+  RefreshControl,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useTheme } from '@/contexts/ThemeContext';
+import { useLocale } from '@/contexts/LocaleContext';
+import { useOffline } from '@/hooks/useOffline';
+import type { QueuedAction, ActionType } from '@/db/OfflineQueue';
+
+const ACTION_ICONS: Record<ActionType, keyof typeof Ionicons.glyphMap> = {
+  CREATE_BOOKING: 'ticket-outline',
+  CANCEL_TICKET: 'close-circle-outline',
+  UPDATE_PROFILE: 'person-outline',
+  CHECK_IN: 'checkmark-circle-outline',
+};
+
+export default function OfflineQueueScreen() {
+  const { colors } = useTheme();
+  const { t, formatDate, formatTime } = useLocale();
+  const {
+    syncState,
+    getPendingActions,
+    retryFailedAction,
+    discardFailedAction,
+    clearFailedActions,
+  } = useOffline();
+
+  const [actions, setActions] = useState<QueuedAction[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [busyId, setBusyId] = useState<number | null>(null);
+
+  const loadActions = useCallback(async () => {
+    try {
+      setActions(await getPendingActions());
+    } catch (error) {
+      console.error('Error loading offline actions:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [getPendingActions]);
+
+  // Reload whenever a sync changes the queue
+  useEffect(() => {
+    loadActions();
+  }, [loadActions, syncState.pendingActions, syncState.failedActions, syncState.lastSyncTime]);
+
+  const pending = actions.filter((action) => action.status === 'pending');
+  const failed = actions.filter((action) => action.status === 'dead');
+
+  const actionLabels: Record<ActionType, string> = {
+    CREATE_BOOKING: t.offlineQueue.createBooking,
+    CANCEL_TICKET: t.offlineQueue.cancelTicket,
+    UPDATE_PROFILE: t.offlineQueue.updateProfile,
+    CHECK_IN: t.offlineQueue.checkIn,
+  };
+
+  const formatTimestamp = (timestamp: number) => {
+    const date = new Date(timestamp);
+    return `${formatDate(date, 'short')} ${formatTime(date)}`;
+  };
+
+  const handleRetry = async (action: QueuedAction) => {
+    setBusyId(action.id);
+    try {
+      await retryFailedAction(action.id);
+      await loadActions();
+    } catch (error) {
+      Alert.alert(t.common.error, t.errors.generic);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleDiscard = (action: QueuedAction) => {
+    Alert.alert(t.offlineQueue.discard, t.offlineQueue.discardConfirm, [
+      { text: t.common.cancel, style: 'cancel' },
+      {
+        text: t.offlineQueue.discard,
+        style: 'destructive',
+        onPress: async () => {
+          await discardFailedAction(action.id);
+          await loadActions();
+        },
+      },
+    ]);
+  };
+
+  const handleDiscardAll = () => {
+    Alert.alert(t.offlineQueue.discardAll, t.offlineQueue.discardConfirm, [
+      { text: t.common.cancel, style: 'cancel' },
+      {
+        text: t.offlineQueue.discardAll,
+        style: 'destructive',
+        onPress: async () => {
+          await clearFailedActions();
+          await loadActions();
+        },
+      },
+    ]);
+  };
+
+  const styles = createStyles(colors);
+
+  const ActionCard = ({ action }: { action: QueuedAction }) => {
+    const isFailed = action.status === 'dead';
+
+    return (
+      <View style={styles.actionCard}>
+        <View style={styles.actionHeader}>
+          <Ionicons
+            name={ACTION_ICONS[action.action_type]}
+            size={24}
+            color={isFailed ? colors.error : colors.primary}
+          />
+          <View style={styles.actionInfo}>
+            <Text style={styles.actionTitle}>
+              {actionLabels[action.action_type]}
+              {action.entity_id !== null ? ` #${action.entity_id}` : ''}
+            </Text>
+            <Text style={styles.actionMeta}>{formatTimestamp(action.created_at)}</Text>
+          </View>
+        </View>
+
+        <View style={styles.detailRow}>
+          <Text style={styles.detailLabel}>{t.offlineQueue.attempts}</Text>
+          <Text style={styles.detailValue}>{action.retry_count}</Text>
+        </View>
+
+        {!isFailed && action.next_attempt_at > Date.now() && (
+          <View style={styles.detailRow}>
+            <Text style={styles.detailLabel}>{t.offlineQueue.nextAttempt}</Text>
+            <Text style={styles.detailValue}>{formatTimestamp(action.next_attempt_at)}</Text>
+          </View>
+        )}
+
+        {action.last_error && (
+          <View style={styles.errorBox}>
+            <Text style={styles.errorLabel}>{t.offlineQueue.lastError}</Text>
+            <Text style={styles.errorText}>{action.last_error}</Text>
+          </View>
+        )}
+
+        {isFailed && (
+          <View style={styles.cardActions}>
+            <TouchableOpacity
+              style={styles.actionBtn}
+              onPress={() => handleRetry(action)}
+              disabled={busyId === action.id}
+            >
+              {busyId === action.id ? (
+                <ActivityIndicator size="small" color={colors.primary} />
+              ) : (
+                <>
+                  <Ionicons name="refresh-outline" size={18} color={colors.primary} />
+                  <Text style={styles.actionBtnText}>{t.offlineQueue.retry}</Text>
+                </>
+              )}
+            </TouchableOpacity>
+
+            <TouchableOpacity
+              style={[styles.actionBtn, styles.actionBtnDanger]}
+              onPress={() => handleDiscard(action)}
+            >
+              <Ionicons name="trash-outline" size={18} color={colors.error} />
+              <Text style={[styles.actionBtnText, { color: colors.error }]}>
+                {t.offlineQueue.discard}
+              </Text>
+            </TouchableOpacity>
+          </View>
+        )}
+      </View>
+    );
+  };
+
+  if (isLoading) {
+    return (
+      <View style={[styles.container, styles.centered]}>
+        <ActivityIndicator size="large" color={colors.primary} />
+      </View>
+    );
+  }
+
+  return (
+    <ScrollView
+      style={styles.container}
+      contentContainerStyle={styles.content}
+      refreshControl={<RefreshControl refreshing={false} onRefresh={loadActions} />}
+    >
+      <View style={styles.infoCard}>
+        <Ionicons name="information-circle-outline" size={20} color={colors.primary} />
+        <Text style={styles.infoText}>{t.offlineQueue.description}</Text>
+      </View>
+
+      {failed.length > 0 && (
+        <>
+          <View style={styles.sectionHeader}>
+            <Text style={styles.sectionTitle}>
+              {t.offlineQueue.failedSection} ({failed.length})
+            </Text>
+            <TouchableOpacity onPress={handleDiscardAll}>
+              <Text style={styles.sectionAction}>{t.offlineQueue.discardAll}</Text>
+            </TouchableOpacity>
+          </View>
+          <Text style={styles.sectionDesc}>{t.offlineQueue.failedDesc}</Text>
+          {failed.map((action) => (
+            <ActionCard key={action.id} action={action} />
+          ))}
+        </>
+      )}
+
+      {pending.length > 0 && (
+        <>
+          <Text style={styles.sectionTitle}>
+            {t.offlineQueue.pendingSection} ({pending.length})
+          </Text>
+          {pending.map((action) => (
+            <ActionCard key={action.id} action={action} />
+          ))}
+        </>
+      )}
+
+      {actions.length === 0 && (
+        <View style={styles.emptyState}>
+          <Ionicons name="cloud-done-outline" size={48} color={colors.textSecondary} />
+          <Text style={styles.emptyStateText}>{t.offlineQueue.empty}</Text>
+          <Text style={styles.emptyStateSubtext}>{t.offlineQueue.emptyDesc}</Text>
+        </View>
+      )}
+    </ScrollView>
+  );
+}
+
+const createStyles = (colors: any) =>
+  StyleSheet.create({
+    container: {
+      flex: 1,
+      backgroundColor: colors.background,
+    },
+    centered: {
+      justifyContent: 'center',
+      alignItems: 'center',
+    },
+    content: {
+      padding: 16,
+    },
+    infoCard: {
+      flexDirection: 'row',
+      alignItems: 'flex-start',
+      gap: 12,
+      backgroundColor: colors.primary + '15',
+      borderRadius: 12,
+      padding: 16,
+      marginBottom: 24,
+    },
+    infoText: {
+      flex: 1,
+      fontSize: 13,
+      color: colors.text,
+      lineHeight: 18,
+    },
+    sectionHeader: {
+      flexDirection: 'row',
+      justifyContent: 'space-between',
+      alignItems: 'center',
+    },
+    sectionTitle: {
+      fontSize: 16,
+      fontWeight: '600',
+      color: colors.text,
+      marginBottom: 12,
+    },
+    sectionAction: {
+      fontSize: 14,
+      color: colors.error,
+      fontWeight: '500',
+      marginBottom: 12,
+    },
+    sectionDesc: {
+      fontSize: 13,
+      color: colors.textSecondary,
+      marginBottom: 12,
+    },
+    actionCard: {
+      backgroundColor: colors.card,
+      borderRadius: 12,
+      padding: 16,
+      marginBottom: 12,
+    },
+    actionHeader: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 12,
+      marginBottom: 8,
+    },
+    actionInfo: {
+      flex: 1,
+    },
+    actionTitle: {
+      fontSize: 16,
+      fontWeight: '600',
+      color: colors.text,
+    },
+    actionMeta: {
+      fontSize: 12,
+      color: colors.textSecondary,
+      marginTop: 2,
+    },
+    detailRow: {
+      flexDirection: 'row',
+      justifyContent: 'space-between',
+      paddingVertical: 4,
+    },
+    detailLabel: {
+      fontSize: 13,
+      color: colors.textSecondary,
+    },
+    detailValue: {
+      fontSize: 13,
+      color: colors.text,
+    },
+    errorBox: {
+      backgroundColor: colors.error + '15',
+      borderRadius: 8,
+      padding: 10,
+      marginTop: 8,
+    },
+    errorLabel: {
+      fontSize: 12,
+      fontWeight: '600',
+      color: colors.error,
+      marginBottom: 2,
+    },
+    errorText: {
+      fontSize: 13,
+      color: colors.text,
+    },
+    cardActions: {
+      flexDirection: 'row',
+      gap: 8,
+      marginTop: 12,
+      paddingTop: 12,
+      borderTopWidth: 1,
+      borderTopColor: colors.border,
+    },
+    actionBtn: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 4,
+      paddingHorizontal: 12,
+      paddingVertical: 6,
+      borderRadius: 6,
+      backgroundColor: colors.background,
+    },
+    actionBtnDanger: {
+      backgroundColor: colors.error + '15',
+    },
+    actionBtnText: {
+      fontSize: 12,
+      color: colors.primary,
+      fontWeight: '500',
+    },
+    emptyState: {
+      alignItems: 'center',
+      padding: 48,
+    },
+    emptyStateText: {
+      fontSize: 18,
+      fontWeight: '600',
+      color: colors.text,
+      marginTop: 16,
+    },
+    emptyStateSubtext: {
+      fontSize: 14,
+      color: colors.textSecondary,
+      textAlign: 'center',
+      marginTop: 8,
+    },
+  });
@@ -0,0 +1,347 @@
+/**
+ * BUS-Tickets - Payment History Screen
+ * Past payments with their refunds, and PDF receipts / VAT invoices for them
+ * Copyright (c) 2024-2026 IT Enterprise
+ */
+
+import { useState } from 'react';
+import {
+  View,
+  Text,
+  ScrollView,
+  TouchableOpacity,
+  StyleSheet,
+  Alert,
+  ActivityIndicator,
+  RefreshControl,
+} from 'react-native';
+import { useRouter } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import { useTheme } from '@/contexts/ThemeContext';
+import { useLocale } from '@/contexts/LocaleContext';
+import { useAuth } from '@/contexts/AuthContext';
+import { useConfig } from '@/contexts/ConfigContext';
+import { usePaymentHistory } from '@/hooks/usePaymentHistory';
+import { RefundProgress } from '@/components/RefundProgress';
+import { documentService, DocumentAction } from '@/services/DocumentService';
+import {
+  buildPaymentDocumentHtml,
+  canIssueInvoice,
+  paymentDocumentFileName,
+  PaymentDocumentKind,
+} from '@/utils/paymentDocuments';
+import type { PaymentTransaction, PaymentTransactionStatus } from '@/types';
+
+/**
+ * Only settled payments get documents
+ */
+const DOCUMENT_STATUSES: PaymentTransactionStatus[] = ['done', 'refunded'];
+
+export default function PaymentHistoryScreen() {
+  const router = useRouter();
+  const { colors } = useTheme();
+  const { t, formatCurrency, formatDate, formatTime } = useLocale();
+  const { user, isAuthenticated } = useAuth();
+  const { config } = useConfig();
+  const { transactions, isLoading, error, refresh, refundsFor } = usePaymentHistory();
+
+  // "<transactionId>:<kind>" of the document being generated
+  const [generating, setGenerating] = useState<string | null>(null);
+
+  const statusColors: Record<PaymentTransactionStatus, string> = {
+    done: colors.success,
+    refunded: colors.primary,
+    pending: colors.warning,
+    authorized: colors.warning,
+    draft: colors.textSecondary,
+    cancel: colors.textSecondary,
+    error: colors.error,
+  };
+
+  const exportDocument = async (
+    transaction: PaymentTransaction,
+    kind: PaymentDocumentKind,
+    action: DocumentAction
+  ) => {
+    if (!user) return;
+
+    const html = buildPaymentDocumentHtml({
+      kind,
+      transaction,
+      seller: transaction.seller ?? { companyName: config.instanceName || 'BUS-Tickets' },
+      buyer: kind === 'invoice' && user.billing ? user.billing : { companyName: user.name },
+      labels: t.paymentHistory,
+      formatMoney: formatCurrency,
+      formatDate: (date) => formatDate(date),
+    });
+
+    setGenerating(`${transaction.transactionId}:${kind}`);
+    try {
+      const done = await documentService.exportPdf(
+        html,
+        paymentDocumentFileName(kind, transaction),
+        action
+      );
+      if (done && action === 'save') {
+        Alert.alert(t.paymentHistory.saved);
+      }
+    } catch (err) {
+      console.error('Error exporting payment document:', err);
+      Alert.alert(t.common.error, t.paymentHistory.documentFailed);
+    } finally {
+      setGenerating(null);
+    }
+  };
+
+  const handleDocument = (transaction: PaymentTransaction, kind: PaymentDocumentKind) => {
+    if (kind === 'invoice' && !canIssueInvoice(user?.billing)) {
+      Alert.alert(t.paymentHistory.invoice, t.paymentHistory.billingRequired, [
+        { text: t.common.cancel, style: 'cancel' },
+        {
+          text: t.paymentHistory.addBilling,
+          onPress: () => router.push('/settings/billing'),
+        },
+      ]);
+      return;
+    }
+
+    const title = kind === 'invoice' ? t.paymentHistory.invoice : t.paymentHistory.receipt;
+    Alert.alert(title, transaction.reference, [
+      { text: t.common.cancel, style: 'cancel' },
+      { text: t.paymentHistory.save, onPress: () => exportDocument(transaction, kind, 'save') },
+      { text: t.paymentHistory.share, onPress: () => exportDocument(transaction, kind, 'share') },
+    ]);
+  };
+
+  const styles = createStyles(colors);
+
+  if (!isAuthenticated) {
+    return (
+      <View style={[styles.container, styles.centered]}>
+        <Ionicons name="receipt-outline" size={48} color={colors.textSecondary} />
+        <Text style={styles.emptyText}>{t.travellers.signInRequired}</Text>
+      </View>
+    );
+  }
+
+  const renderDocumentButton = (transaction: PaymentTransaction, kind: PaymentDocumentKind) => {
+    const isGenerating = generating === `${transaction.transactionId}:${kind}`;
+    return (
+      <TouchableOpacity
+        style={styles.documentButton}
+        onPress={() => handleDocument(transaction, kind)}
+        disabled={generating !== null}
+      >
+        {isGenerating ? (
+          <ActivityIndicator size="small" color={colors.primary} />
+        ) : (
+          <Ionicons
+            name={kind === 'invoice' ? 'document-text-outline' : 'receipt-outline'}
+            size={18}
+            color={colors.primary}
+          />
+        )}
+        <Text style={styles.documentButtonText}>
+          {kind === 'invoice' ? t.paymentHistory.invoice : t.paymentHistory.receipt}
+        </Text>
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <ScrollView
+      style={styles.container}
+      contentContainerStyle={styles.content}
+      refreshControl={<RefreshControl refreshing={isLoading} onRefresh={refresh} />}
+    >
+      {error && (
+        <View style={styles.errorCard}>
+          <Ionicons name="alert-circle-outline" size={20} color={colors.error} />
+          <Text style={styles.errorText}>{t.paymentHistory.loadFailed}</Text>
+        </View>
+      )}
+
+      {!isLoading && !error && transactions.length === 0 && (
+        <View style={styles.centered}>
+          <Ionicons name="receipt-outline" size={48} color={colors.textSecondary} />
+          <Text style={styles.emptyTitle}>{t.paymentHistory.empty}</Text>
+          <Text style={styles.emptyText}>{t.paymentHistory.emptyHint}</Text>
+        </View>
+      )}
+
+      {transactions.map((transaction) => {
+        const paidAt = new Date(transaction.confirmedAt ?? transaction.createdAt);
+        const statusColor = statusColors[transaction.status];
+        const refunds = refundsFor(transaction);
+
+        return (
+          <View key={transaction.transactionId} style={styles.card}>
+            <View style={styles.cardHeader}>
+              <View style={styles.cardHeaderInfo}>
+                <Text style={styles.amount}>
+                  {formatCurrency(transaction.amount, transaction.currency)}
+                </Text>
+                <Text style={styles.meta}>
+                  {formatDate(paidAt)} {formatTime(paidAt)}
+                </Text>
+              </View>
+              <View style={[styles.statusBadge, { backgroundColor: `${statusColor}20` }]}>
+                <Text style={[styles.statusText, { color: statusColor }]}>
+                  {t.paymentHistory[transaction.status]}
+                </Text>
+              </View>
+            </View>
+
+            {transaction.description && (
+              <Text style={styles.description}>{transaction.description}</Text>
+            )}
+            <Text style={styles.meta}>
+              {t.paymentHistory.provider}: {transaction.provider}
+            </Text>
+            <Text style={styles.meta} selectable>
+              {t.paymentHistory.reference}: {transaction.reference}
+            </Text>
+            {transaction.ticketNumbers.length > 0 && (
+              <Text style={styles.meta}>
+                {t.paymentHistory.tickets}: {transaction.ticketNumbers.join(', ')}
+              </Text>
+            )}
+
+            {refunds.map((refund) => (
+              <View key={refund.id} style={styles.refund}>
+                <Text style={styles.refundTitle}>
+                  {t.refund.title}
+                  {refund.ticketNumber ? ` · ${refund.ticketNumber}` : ''}
+                </Text>
+                <RefundProgress refund={refund} />
+              </View>
+            ))}
+
+            {DOCUMENT_STATUSES.includes(transaction.status) && (
+              <View style={styles.documentActions}>
+                {renderDocumentButton(transaction, 'receipt')}
+                {renderDocumentButton(transaction, 'invoice')}
+              </View>
+            )}
+          </View>
+        );
+      })}
+    </ScrollView>
+  );
+}
+
+const createStyles = (colors: any) =>
+  StyleSheet.create({
+    container: {
+      flex: 1,
+      backgroundColor: colors.background,
+    },
+    centered: {
+      justifyContent: 'center',
+      alignItems: 'center',
+      padding: 32,
+    },
+    content: {
+      padding: 16,
+      gap: 12,
+    },
+    emptyTitle: {
+      fontSize: 17,
+      fontWeight: '600',
+      color: colors.text,
+      marginTop: 12,
+    },
+    emptyText: {
+      fontSize: 15,
+      color: colors.textSecondary,
+      textAlign: 'center',
+      marginTop: 8,
+    },
+    errorCard: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 10,
+      backgroundColor: colors.error + '15',
+      borderRadius: 12,
+      padding: 12,
+    },
+    errorText: {
+      flex: 1,
+      fontSize: 14,
+      color: colors.error,
+    },
+    card: {
+      backgroundColor: colors.card,
+      borderRadius: 12,
+      padding: 16,
+      gap: 4,
+    },
+    cardHeader: {
+      flexDirection: 'row',
+      alignItems: 'flex-start',
+      marginBottom: 4,
+    },
+    cardHeaderInfo: {
+      flex: 1,
+    },
+    amount: {
+      fontSize: 20,
+      fontWeight: '700',
+      color: colors.text,
+    },
+    statusBadge: {
+      paddingHorizontal: 10,
+      paddingVertical: 4,
+      borderRadius: 12,
+    },
+    statusText: {
+      fontSize: 12,
+      fontWeight: '600',
+      textTransform: 'uppercase',
+    },
+    description: {
+      fontSize: 15,
+      color: colors.text,
+    },
+    meta: {
+      fontSize: 13,
+      color: colors.textSecondary,
+    },
+    refund: {
+      borderTopWidth: 1,
+      borderTopColor: colors.border,
+      paddingTop: 12,
+      marginTop: 8,
+    },
+    refundTitle: {
+      fontSize: 13,
+      fontWeight: '600',
+      color: colors.textSecondary,
+      textTransform: 'uppercase',
+      marginBottom: 8,
+    },
+    documentActions: {
+      flexDirection: 'row',
+      gap: 12,
+      borderTopWidth: 1,
+      borderTopColor: colors.border,
+      paddingTop: 12,
+      marginTop: 8,
+    },
+    documentButton: {
+      flex: 1,
+      flexDirection: 'row',
+      alignItems: 'center',
+      justifyContent: 'center',
+      gap: 6,
+      paddingVertical: 10,
+      borderRadius: 8,
+      borderWidth: 1,
+      borderColor: colors.primary,
+    },
+    documentButtonText: {
+      fontSize: 14,
+      fontWeight: '500',
+      color: colors.primary,
+    },
+  });
@@ -0,0 +1,511 @@
+/**
+ * BUS-Tickets - Saved Travellers Screen
+ * Address book of people the user books for, used to fill passenger details
+ * Copyright (c) 2024-2026 IT Enterprise
+ */
+
+import { useState } from 'react';
+import {
+  View,
+  Text,
+  ScrollView,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  Alert,
+  ActivityIndicator,
+  RefreshControl,
+  TextInputProps,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useTheme } from '@/contexts/ThemeContext';
+import { useLocale } from '@/contexts/LocaleContext';
+import { useAuth } from '@/contexts/AuthContext';
+import { useNetwork } from '@/contexts/NetworkContext';
+import { useTravellers } from '@/hooks/useTravellers';
+import { validateTraveller, TravellerField } from '@/utils/passengers';
+import { getErrorMessage } from '@/services/errors';
+import type { DocumentType, Traveller, TravellerInput } from '@/types';
+
+const DOCUMENT_TYPES: DocumentType[] = ['id_card', 'passport'];
+
+const EMPTY_TRAVELLER: TravellerInput = { name: '' };
+
+/**
+ * Drop blank optional fields so they're cleared rather than saved as ''
+ */
+function cleanTraveller(input: TravellerInput): TravellerInput {
+  const trim = (value?: string) => value?.trim() || undefined;
+  const documentNumber = trim(input.documentNumber);
+
+  return {
+    name: input.name.trim(),
+    email: trim(input.email),
+    phone: trim(input.phone),
+    dateOfBirth: trim(input.dateOfBirth),
+    documentType: documentNumber ? input.documentType : undefined,
+    documentNumber,
+  };
+}
+
+export default function TravellersScreen() {
+  const { colors } = useTheme();
+  const { t } = useLocale();
+  const { isAuthenticated } = useAuth();
+  const { isOnline } = useNetwork();
+  const { travellers, isLoading, isCached, refresh, saveTraveller, deleteTraveller } =
+    useTravellers();
+
+  // null: not editing; undefined id: adding a new traveller
+  const [editing, setEditing] = useState<{ id?: number; data: TravellerInput } | null>(null);
+  const [invalidField, setInvalidField] = useState<TravellerField | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [deletingId, setDeletingId] = useState<number | null>(null);
+
+  const canEdit = isOnline;
+
+  const fieldErrors: Record<TravellerField, string> = {
+    name: t.booking.invalidName,
+    email: t.booking.invalidEmail,
+    dateOfBirth: t.travellers.invalidDateOfBirth,
+    documentNumber: t.booking.documentTypeRequired,
+  };
+
+  const startEdit = (traveller?: Traveller) => {
+    setInvalidField(null);
+    if (!traveller) {
+      setEditing({ data: EMPTY_TRAVELLER });
+      return;
+    }
+    const { id, updatedAt, ...data } = traveller;
+    setEditing({ id, data });
+  };
+
+  const updateDraft = (changes: Partial<TravellerInput>) => {
+    if (!editing) return;
+    setEditing({ ...editing, data: { ...editing.data, ...changes } });
+  };
+
+  const handleSave = async () => {
+    if (!editing) return;
+
+    const data = cleanTraveller(editing.data);
+    const invalid = validateTraveller(data);
+    setInvalidField(invalid);
+    if (invalid) {
+      Alert.alert(t.common.error, fieldErrors[invalid]);
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await saveTraveller(data, editing.id);
+      setEditing(null);
+    } catch (error) {
+      Alert.alert(t.common.error, getErrorMessage(error, t.travellers.saveFailed));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = (traveller: Traveller) => {
+    Alert.alert(traveller.name, t.travellers.deleteConfirm, [
+      { text: t.common.cancel, style: 'cancel' },
+      {
+        text: t.common.delete,
+        style: 'destructive',
+        onPress: async () => {
+          setDeletingId(traveller.id);
+          try {
+            await deleteTraveller(traveller.id);
+          } catch (error) {
+            Alert.alert(t.common.error, getErrorMessage(error, t.travellers.deleteFailed));
+          } finally {
+            setDeletingId(null);
+          }
+        },
+      },
+    ]);
+  };
+
+  const styles = createStyles(colors);
+
+  if (!isAuthenticated) {
+    return (
+      <View style={[styles.container, styles.centered]}>
+        <Ionicons name="people-outline" size={48} color={colors.textSecondary} />
+        <Text style={styles.emptyStateSubtext}>{t.travellers.signInRequired}</Text>
+      </View>
+    );
+  }
+
+  const renderInput = (
+    field: keyof TravellerInput,
+    label: string,
+    options: TextInputProps = {}
+  ) => (
+    <View style={styles.formGroup}>
+      <Text style={styles.inputLabel}>{label}</Text>
+      <TextInput
+        style={[styles.input, invalidField === field && styles.inputInvalid]}
+        placeholderTextColor={colors.textSecondary}
+        value={(editing?.data[field] as string | undefined) ?? ''}
+        onChangeText={(text) => updateDraft({ [field]: text })}
+        {...options}
+      />
+    </View>
+  );
+
+  const renderForm = () => {
+    if (!editing) return null;
+
+    return (
+      <View style={styles.card}>
+        <Text style={styles.sectionTitle}>
+          {editing.id === undefined ? t.travellers.add : t.travellers.editTitle}
+        </Text>
+
+        {renderInput('name', t.booking.fullName)}
+        {renderInput('email', t.booking.email, {
+          keyboardType: 'email-address',
+          autoCapitalize: 'none',
+        })}
+        {renderInput('phone', t.booking.phone, { keyboardType: 'phone-pad' })}
+        {renderInput('dateOfBirth', t.travellers.dateOfBirth, {
+          placeholder: t.travellers.dateOfBirthHint,
+          keyboardType: 'numbers-and-punctuation',
+        })}
+
+        <View style={styles.formGroup}>
+          <Text style={styles.inputLabel}>{t.booking.documentType}</Text>
+          <View style={styles.chips}>
+            {DOCUMENT_TYPES.map((type) => {
+              const isSelected = editing.data.documentType === type;
+              return (
+                <TouchableOpacity
+                  key={type}
+                  style={[styles.chip, isSelected && styles.chipSelected]}
+                  onPress={() => updateDraft({ documentType: isSelected ? undefined : type })}
+                >
+                  <Text style={[styles.chipText, isSelected && styles.chipTextSelected]}>
+                    {type === 'passport' ? t.booking.passport : t.booking.idCard}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+        </View>
+
+        {renderInput('documentNumber', t.booking.documentNumber, {
+          autoCapitalize: 'characters',
+        })}
+
+        <View style={styles.formActions}>
+          <TouchableOpacity
+            style={styles.secondaryButton}
+            onPress={() => setEditing(null)}
+            disabled={isSaving}
+          >
+            <Text style={styles.secondaryButtonText}>{t.common.cancel}</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={[styles.primaryButton, (isSaving || !canEdit) && styles.buttonDisabled]}
+            onPress={handleSave}
+            disabled={isSaving || !canEdit}
+          >
+            {isSaving ? (
+              <ActivityIndicator size="small" color="#fff" />
+            ) : (
+              <Text style={styles.primaryButtonText}>{t.common.save}</Text>
+            )}
+          </TouchableOpacity>
+        </View>
+      </View>
+    );
+  };
+
+  const TravellerCard = ({ traveller }: { traveller: Traveller }) => {
+    const details = [
+      traveller.dateOfBirth,
+      traveller.documentNumber &&
+        `${traveller.documentType === 'passport' ? t.booking.passport : t.booking.idCard} ${
+          traveller.documentNumber
+        }`,
+    ].filter(Boolean);
+    const contact = [traveller.email, traveller.phone].filter(Boolean);
+
+    return (
+      <View style={styles.card}>
+        <View style={styles.travellerHeader}>
+          <Ionicons name="person-circle-outline" size={32} color={colors.primary} />
+          <View style={styles.travellerInfo}>
+            <Text style={styles.travellerName}>{traveller.name}</Text>
+            {details.length > 0 && <Text style={styles.travellerMeta}>{details.join(' • ')}</Text>}
+            {contact.length > 0 && <Text style={styles.travellerMeta}>{contact.join(' • ')}</Text>}
+          </View>
+        </View>
+
+        {canEdit && (
+          <View style={styles.cardActions}>
+            <TouchableOpacity style={styles.actionBtn} onPress={() => startEdit(traveller)}>
+              <Ionicons name="create-outline" size={18} color={colors.primary} />
+              <Text style={styles.actionBtnText}>{t.common.edit}</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.actionBtn, styles.actionBtnDanger]}
+              onPress={() => handleDelete(traveller)}
+              disabled={deletingId === traveller.id}
+            >
+              {deletingId === traveller.id ? (
+                <ActivityIndicator size="small" color={colors.error} />
+              ) : (
+                <>
+                  <Ionicons name="trash-outline" size={18} color={colors.error} />
+                  <Text style={[styles.actionBtnText, { color: colors.error }]}>
+                    {t.common.delete}
+                  </Text>
+                </>
+              )}
+            </TouchableOpacity>
+          </View>
+        )}
+      </View>
+    );
+  };
+
+  return (
+    <ScrollView
+      style={styles.container}
+      contentContainerStyle={styles.content}
+      refreshControl={<RefreshControl refreshing={isLoading} onRefresh={refresh} />}
+    >
+      <View style={styles.infoCard}>
+        <Ionicons
+          name={isCached && !isOnline ? 'cloud-offline-outline' : 'information-circle-outline'}
+          size={20}
+          color={isCached && !isOnline ? colors.error : colors.primary}
+        />
+        <Text style={styles.infoText}>
+          {isCached && !isOnline ? t.travellers.offline : t.travellers.description}
+        </Text>
+      </View>
+
+      {editing ? (
+        renderForm()
+      ) : (
+        canEdit && (
+          <TouchableOpacity style={styles.addButton} onPress={() => startEdit()}>
+            <Ionicons name="add-circle-outline" size={20} color={colors.primary} />
+            <Text style={styles.addButtonText}>{t.travellers.add}</Text>
+          </TouchableOpacity>
+        )
+      )}
+
+      {travellers.map((traveller) => (
+        <TravellerCard key={traveller.id} traveller={traveller} />
+      ))}
+
+      {travellers.length === 0 && !isLoading && !editing && (
+        <View style={styles.emptyState}>
+          <Ionicons name="people-outline" size={48} color={colors.textSecondary} />
+          <Text style={styles.emptyStateText}>{t.travellers.empty}</Text>
+          <Text style={styles.emptyStateSubtext}>{t.travellers.emptyDesc}</Text>
+        </View>
+      )}
+    </ScrollView>
+  );
+}
+
+const createStyles = (colors: any) =>
+  StyleSheet.create({
+    container: {
+      flex: 1,
+      backgroundColor: colors.background,
+    },
+    centered: {
+      justifyContent: 'center',
+      alignItems: 'center',
+      padding: 32,
+    },
+    content: {
+      padding: 16,
+    },
+    infoCard: {
+      flexDirection: 'row',
+      alignItems: 'flex-start',
+      gap: 12,
+      backgroundColor: colors.primary + '15',
+      borderRadius: 12,
+      padding: 16,
+      marginBottom: 16,
+    },
+    infoText: {
+      flex: 1,
+      fontSize: 13,
+      color: colors.text,
+      lineHeight: 18,
+    },
+    sectionTitle: {
+      fontSize: 16,
+      fontWeight: '600',
+      color: colors.text,
+      marginBottom: 12,
+    },
+    card: {
+      backgroundColor: colors.card,
+      borderRadius: 12,
+      padding: 16,
+      marginBottom: 12,
+    },
+    addButton: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      justifyContent: 'center',
+      gap: 8,
+      borderWidth: 1,
+      borderStyle: 'dashed',
+      borderColor: colors.primary,
+      borderRadius: 12,
+      padding: 14,
+      marginBottom: 16,
+    },
+    addButtonText: {
+      fontSize: 15,
+      fontWeight: '500',
+      color: colors.primary,
+    },
+    formGroup: {
+      marginBottom: 12,
+    },
+    inputLabel: {
+      fontSize: 14,
+      fontWeight: '500',
+      color: colors.text,
+      marginBottom: 6,
+    },
+    input: {
+      backgroundColor: colors.background,
+      borderRadius: 8,
+      padding: 12,
+      fontSize: 16,
+      color: colors.text,
+      borderWidth: 1,
+      borderColor: colors.border,
+    },
+    inputInvalid: {
+      borderColor: colors.error,
+    },
+    chips: {
+      flexDirection: 'row',
+      gap: 8,
+    },
+    chip: {
+      paddingHorizontal: 14,
+      paddingVertical: 8,
+      borderRadius: 16,
+      borderWidth: 1,
+      borderColor: colors.border,
+    },
+    chipSelected: {
+      backgroundColor: colors.primary,
+      borderColor: colors.primary,
+    },
+    chipText: {
+      fontSize: 14,
+      color: colors.text,
+    },
+    chipTextSelected: {
+      color: '#fff',
+    },
+    formActions: {
+      flexDirection: 'row',
+      justifyContent: 'flex-end',
+      gap: 12,
+      marginTop: 4,
+    },
+    primaryButton: {
+      backgroundColor: colors.primary,
+      borderRadius: 8,
+      paddingHorizontal: 20,
+      paddingVertical: 10,
+      minWidth: 96,
+      alignItems: 'center',
+    },
+    primaryButtonText: {
+      color: '#fff',
+      fontSize: 15,
+      fontWeight: '600',
+    },
+    secondaryButton: {
+      borderRadius: 8,
+      paddingHorizontal: 20,
+      paddingVertical: 10,
+    },
+    secondaryButtonText: {
+      color: colors.textSecondary,
+      fontSize: 15,
+      fontWeight: '500',
+    },
+    buttonDisabled: {
+      opacity: 0.6,
+    },
+    travellerHeader: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 12,
+    },
+    travellerInfo: {
+      flex: 1,
+    },
+    travellerName: {
+      fontSize: 16,
+      fontWeight: '600',
+      color: colors.text,
+    },
+    travellerMeta: {
+      fontSize: 13,
+      color: colors.textSecondary,
+      marginTop: 2,
+    },
+    cardActions: {
+      flexDirection: 'row',
+      gap: 8,
+      marginTop: 12,
+      paddingTop: 12,
+      borderTopWidth: 1,
+      borderTopColor: colors.border,
+    },
+    actionBtn: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 4,
+      paddingHorizontal: 12,
+      paddingVertical: 6,
+      borderRadius: 6,
+      backgroundColor: colors.background,
+    },
+    actionBtnDanger: {
+      backgroundColor: colors.error + '15',
+    },
+    actionBtnText: {
+      fontSize: 12,
+      color: colors.primary,
+      fontWeight: '500',
+    },
+    emptyState: {
+      alignItems: 'center',
+      padding: 48,
+    },
+    emptyStateText: {
+      fontSize: 18,
+      fontWeight: '600',
+      color: colors.text,
+      marginTop: 16,
+    },
+    emptyStateSubtext: {
+      fontSize: 14,
+      color: colors.textSecondary,
+      textAlign: 'center',
+      marginTop: 8,
+    },
+  });
@@ -12,11 +12,18 @@ import {
   StyleSheet,
   Alert,
   Share,
+  ActivityIndicator,
 } from 'react-native';
 import { useRouter, useLocalSearchParams } from 'expo-router';
 import { Ionicons } from '@expo/vector-icons';
 import { useTheme } from '@/contexts/ThemeContext';
-import type { Ticket } from '@/types';
+import { useLocale } from '@/contexts/LocaleContext';
+import { useApi } from '@/contexts/ApiContext';
+import { useProviders } from '@/contexts/ProvidersContext';
+import { useRefund } from '@/hooks/useRefund';
+import { RefundProgress } from '@/components/RefundProgress';
+import { RefundError, getErrorMessage } from '@/services/errors';
+import type { RefundDestination, Ticket } from '@/types';
 import {
   formatPrice,
   formatTime,
@@ -28,63 +35,52 @@ import {
   canCancelTicket,
 } from '@/utils/formatting';
 
-// Mock ticket data
-const MOCK_TICKET: Ticket = {
-  id: 1,
-  ticketNumber: 'BT-2026-00001',
-  trip: {
-    id: 1,
-    route: {
-      id: 1,
-      name: 'Uzhorod - Praha',
-      origin: { id: 1, name: 'Uzhorod', city: 'Uzhorod', country: 'UA' },
-      destination: { id: 2, name: 'Praha', city: 'Praha', country: 'CZ' },
-    },
-    departureTime: '2026-02-10T06:00:00Z',
-    arrivalTime: '2026-02-10T18:00:00Z',
-    bus: {
-      id: 1,
-      name: 'Mercedes Tourismo',
-      plateNumber: 'AA1234BB',
-      capacity: 50,
-      amenities: ['wifi', 'ac', 'usb', 'toilet'],
-    },
-    availableSeats: 20,
-    totalSeats: 50,
-    price: { amount: 1200, currency: 'UAH' },
-    status: 'scheduled',
-  },
-  passenger: {
-    name: 'John Doe',
-    email: 'john@example.com',
-    phone: '+380501234567',
-  },
-  seat: 15,
-  price: { amount: 1200, currency: 'UAH' },
-  status: 'paid',
-  qrCode: 'BT-2026-00001',
-  purchasedAt: '2026-02-03T10:30:00Z',
-};
-
 export default function TicketDetailsScreen() {
   const router = useRouter();
   const params = useLocalSearchParams<{ ticketId: string }>();
   const { colors } = useTheme();
+  const { t, formatCurrency, formatDate, formatTime: formatLocaleTime } = useLocale();
+  const api = useApi();
+  const { getProvider } = useProviders();
 
   const [ticket, setTicket] = useState<Ticket | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [showQR, setShowQR] = useState(true);
+  const [refundDestination, setRefundDestination] = useState<RefundDestination | null>(null);
+  const [isCancelling, setIsCancelling] = useState(false);
+
+  // Tickets are cancelled and refunded through the backend that issued them,
+  // with the user's session, whichever operator sold them; the backend
+  // passes the request on. Some operators take no refunds at all.
+  const provider = ticket?.providerId ? getProvider(ticket.providerId) : undefined;
+  const supportsRefunds = provider?.supportsRefunds ?? true;
+
+  // Unpaid reservations have nothing to refund
+  const {
+    quote,
+    refund,
+    isLoading: isRefundLoading,
+    isSubmitting: isRequestingRefund,
+    requestRefund,
+  } = useRefund(
+    ticket && ticket.status !== 'reserved' && supportsRefunds ? ticket.id : undefined
+  );
 
   useEffect(() => {
     loadTicket();
   }, [params.ticketId]);
 
+  // The ticket is refunded once the money is back
+  useEffect(() => {
+    if (refund?.status === 'completed' && ticket && ticket.status !== 'refunded') {
+      setTicket({ ...ticket, status: 'refunded' });
+    }
+  }, [refund?.status]);
+
   const loadTicket = async () => {
     setIsLoading(true);
     try {
-      // TODO: Replace with API call
-      await new Promise((resolve) => setTimeout(resolve, 300));
-      setTicket(MOCK_TICKET);
+      setTicket(await api.getTicketById(parseInt(params.ticketId, 10)));
     } catch (error) {
       console.error('Error loading ticket:', error);
       Alert.alert('Error', 'Could not load ticket details');
@@ -104,15 +100,50 @@ export default function TicketDetailsScreen() {
           text: 'Yes, Cancel',
           style: 'destructive',
           onPress: async () => {
-            // TODO: Implement cancellation
-            Alert.alert('Success', 'Ticket has been cancelled');
-            router.back();
+            if (!ticket) return;
+
+            setIsCancelling(true);
+            try {
+              await api.cancelTicket(ticket.id);
+              setTicket({ ...ticket, status: 'cancelled' });
+              Alert.alert('Success', 'Ticket has been cancelled');
+            } catch (error) {
+              console.error('Error cancelling ticket:', error);
+              Alert.alert(t.common.error, getErrorMessage(error, t.errors.generic));
+            } finally {
+              setIsCancelling(false);
+            }
           },
         },
       ]
     );
   };
 
+  const handleRequestRefund = (destination: RefundDestination) => {
+    Alert.alert(t.refund.confirmTitle, t.refund.confirmMessage, [
+      { text: t.common.cancel, style: 'cancel' },
+      {
+        text: t.refund.request,
+        style: 'destructive',
+        onPress: async () => {
+          try {
+            await requestRefund(destination);
+            // Requesting the refund cancels the ticket
+            setTicket((current) => (current ? { ...current, status: 'cancelled' } : current));
+          } catch (error) {
+            if (error instanceof RefundError && error.reason === 'amount_changed') {
+              Alert.alert(t.refund.title, t.refund.amountChanged);
+            } else if (error instanceof RefundError && error.reason === 'already_requested') {
+              Alert.alert(t.refund.title, t.refund.alreadyRequested);
+            } else {
+              Alert.alert(t.common.error, getErrorMessage(error, t.errors.generic));
+            }
+          }
+        },
+      },
+    ]);
+  };
+
   const handleShare = async () => {
     if (!ticket) return;
 
@@ -136,7 +167,18 @@ export default function TicketDetailsScreen() {
   }
 
   const isActive = isTicketActive(ticket);
-  const canCancel = canCancelTicket(ticket);
+  const refundOptions = refund && refund.status !== 'rejected' ? [] : quote?.options ?? [];
+  // Paid tickets are cancelled through the refund flow, where they have one
+  const canCancel =
+    canCancelTicket(ticket) && !isRefundLoading && refundOptions.length === 0 && !refund;
+  const selectedRefund =
+    refundOptions.find((option) => option.destination === refundDestination) ?? refundOptions[0];
+  const hoursUntilDeparture =
+    (new Date(ticket.trip.departureTime).getTime() - Date.now()) / 3600000;
+  const policyRules = [...(quote?.rules ?? [])].sort(
+    (a, b) => b.hoursBeforeDeparture - a.hoursBeforeDeparture
+  );
+  const currentRule = policyRules.find((rule) => rule.hoursBeforeDeparture <= hoursUntilDeparture);
   const statusColor = getTicketStatusColor(ticket.status);
   const statusLabel = getTicketStatusLabel(ticket.status);
   const duration =
@@ -291,6 +333,127 @@ export default function TicketDetailsScreen() {
         </View>
       </View>
 
+      {/* Refund */}
+      {(refund || quote || isRefundLoading) && (
+        <View style={styles.refundCard}>
+          <Text style={styles.refundTitle}>{t.refund.title}</Text>
+
+          {isRefundLoading && !refund && !quote ? (
+            <ActivityIndicator color={colors.primary} />
+          ) : refund && refund.status !== 'rejected' ? (
+            <RefundProgress refund={refund} />
+          ) : (
+            quote && (
+              <>
+                {refund && <RefundProgress refund={refund} />}
+
+                <View style={styles.refundRow}>
+                  <Text style={styles.refundLabel}>{t.refund.paid}</Text>
+                  <Text style={styles.refundValue}>
+                    {formatCurrency(quote.paidAmount, quote.currency)}
+                  </Text>
+                </View>
+
+                {selectedRefund ? (
+                  <View style={styles.refundRow}>
+                    <Text style={styles.refundLabel}>
+                      {t.refund.youGetBack} ({quote.refundPercent} %)
+                    </Text>
+                    <Text style={[styles.refundValue, styles.refundAmount]}>
+                      {formatCurrency(selectedRefund.amount, quote.currency)}
+                    </Text>
+                  </View>
+                ) : (
+                  <Text style={styles.refundNote}>{t.refund.notRefundable}</Text>
+                )}
+
+                {/* Cancellation policy */}
+                {policyRules.length > 0 && (
+                  <View style={styles.policySection}>
+                    <Text style={styles.policyTitle}>{t.refund.policy}</Text>
+                    {policyRules.map((rule) => {
+                      const isCurrent = rule === currentRule;
+                      return (
+                        <View key={rule.hoursBeforeDeparture} style={styles.refundRow}>
+                          <Text style={[styles.policyText, isCurrent && styles.policyTextCurrent]}>
+                            {rule.hoursBeforeDeparture > 0
+                              ? `${rule.hoursBeforeDeparture} ${t.refund.hoursBefore}`
+                              : t.refund.untilDeparture}
+                            {isCurrent ? ` · ${t.refund.appliesNow}` : ''}
+                          </Text>
+                          <Text style={[styles.policyText, isCurrent && styles.policyTextCurrent]}>
+                            {rule.refundPercent} %
+                          </Text>
+                        </View>
+                      );
+                    })}
+                    {quote.validUntil && selectedRefund && (
+                      <Text style={styles.refundNote}>
+                        {t.refund.validUntil}: {formatDate(new Date(quote.validUntil))}{' '}
+                        {formatLocaleTime(new Date(quote.validUntil))}
+                      </Text>
+                    )}
+                  </View>
+                )}
+
+                {/* Destination */}
+                {refundOptions.length > 0 && selectedRefund && (
+                  <>
+                    <Text style={styles.policyTitle}>{t.refund.destination}</Text>
+                    {refundOptions.map((option) => {
+                      const isSelected = option.destination === selectedRefund.destination;
+                      return (
+                        <TouchableOpacity
+                          key={option.destination}
+                          style={[
+                            styles.destinationOption,
+                            isSelected && styles.destinationOptionSelected,
+                          ]}
+                          onPress={() => setRefundDestination(option.destination)}
+                        >
+                          <Ionicons
+                            name={isSelected ? 'radio-button-on' : 'radio-button-off'}
+                            size={20}
+                            color={isSelected ? colors.primary : colors.textSecondary}
+                          />
+                          <View style={styles.destinationInfo}>
+                            <Text style={styles.destinationLabel}>
+                              {option.destination === 'voucher'
+                                ? t.refund.voucher
+                                : t.refund.originalPayment}
+                            </Text>
+                            <Text style={styles.destinationHint}>
+                              {option.destination === 'voucher'
+                                ? t.refund.voucherHint
+                                : t.refund.originalPaymentHint}
+                            </Text>
+                          </View>
+                          <Text style={styles.destinationAmount}>
+                            {formatCurrency(option.amount, quote.currency)}
+                          </Text>
+                        </TouchableOpacity>
+                      );
+                    })}
+
+                    <TouchableOpacity
+                      style={styles.refundButton}
+                      onPress={() => handleRequestRefund(selectedRefund.destination)}
+                      disabled={isRequestingRefund}
+                    >
+                      {isRequestingRefund ? (
+                        <ActivityIndicator color="#ffffff" />
+                      ) : (
+                        <Text style={styles.refundButtonText}>{t.refund.request}</Text>
+                      )}
+                    </TouchableOpacity>
+                  </>
+                )}
+              </>
+            )
+          )}
+        </View>
+      )}
+
       {/* Actions */}
       <View style={styles.actionsContainer}>
         <TouchableOpacity style={styles.actionButton} onPress={handleShare}>
@@ -307,8 +470,13 @@ export default function TicketDetailsScreen() {
           <TouchableOpacity
             style={[styles.actionButton, styles.cancelButton]}
             onPress={handleCancelTicket}
+            disabled={isCancelling}
           >
-            <Ionicons name="close-circle-outline" size={24} color={colors.error} />
+            {isCancelling ? (
+              <ActivityIndicator size="small" color={colors.error} />
+            ) : (
+              <Ionicons name="close-circle-outline" size={24} color={colors.error} />
+            )}
             <Text style={[styles.actionButtonText, styles.cancelButtonText]}>
               Cancel
             </Text>
@@ -548,6 +716,107 @@ const createStyles = (colors: any) =>
     cancelButtonText: {
       color: colors.error,
     },
+    refundCard: {
+      backgroundColor: colors.card,
+      borderRadius: 16,
+      padding: 20,
+      marginTop: 16,
+      gap: 8,
+    },
+    refundTitle: {
+      fontSize: 16,
+      fontWeight: '600',
+      color: colors.text,
+      marginBottom: 4,
+    },
+    refundRow: {
+      flexDirection: 'row',
+      justifyContent: 'space-between',
+      alignItems: 'center',
+    },
+    refundLabel: {
+      fontSize: 14,
+      color: colors.textSecondary,
+    },
+    refundValue: {
+      fontSize: 14,
+      fontWeight: '500',
+      color: colors.text,
+    },
+    refundAmount: {
+      fontSize: 18,
+      fontWeight: '700',
+      color: colors.success,
+    },
+    refundNote: {
+      fontSize: 13,
+      color: colors.textSecondary,
+    },
+    policySection: {
+      borderTopWidth: 1,
+      borderTopColor: colors.border,
+      paddingTop: 8,
+      marginTop: 4,
+      gap: 4,
+    },
+    policyTitle: {
+      fontSize: 13,
+      fontWeight: '600',
+      color: colors.textSecondary,
+      textTransform: 'uppercase',
+      marginTop: 4,
+    },
+    policyText: {
+      fontSize: 13,
+      color: colors.textSecondary,
+    },
+    policyTextCurrent: {
+      color: colors.text,
+      fontWeight: '600',
+    },
+    destinationOption: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 12,
+      padding: 12,
+      borderRadius: 12,
+      borderWidth: 1,
+      borderColor: colors.border,
+    },
+    destinationOptionSelected: {
+      borderColor: colors.primary,
+      backgroundColor: colors.primary + '10',
+    },
+    destinationInfo: {
+      flex: 1,
+    },
+    destinationLabel: {
+      fontSize: 15,
+      fontWeight: '500',
+      color: colors.text,
+    },
+    destinationHint: {
+      fontSize: 12,
+      color: colors.textSecondary,
+      marginTop: 2,
+    },
+    destinationAmount: {
+      fontSize: 15,
+      fontWeight: '600',
+      color: colors.text,
+    },
+    refundButton: {
+      backgroundColor: colors.error,
+      borderRadius: 12,
+      paddingVertical: 14,
+      alignItems: 'center',
+      marginTop: 8,
+    },
+    refundButtonText: {
+      color: '#ffffff',
+      fontSize: 16,
+      fontWeight: '600',
+    },
     supportButton: {
       flexDirection: 'row',
       alignItems: 'center',
@@ -0,0 +1,10 @@
+/**
+ * BUS-Tickets - Jest Global Setup
+ * Runs the tests west of Greenwich, where date-only strings parsed as UTC
+ * midnight fall on the previous local day
+ * Copyright (c) 2024-2026 IT Enterprise
+ */
+
+module.exports = () => {
+  process.env.TZ = 'America/New_York';
+};
@@ -0,0 +1,298 @@
+/**
+ * BUS-Tickets - Passenger Form Component
+ * Details of one passenger in a booking: name, contact and travel document
+ * Copyright (c) 2024-2026 IT Enterprise
+ */
+
+import React from 'react';
+import { View, Text, TextInput, TouchableOpacity, StyleSheet, ScrollView } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useTheme } from '../contexts/ThemeContext';
+import { useLocale } from '../contexts/LocaleContext';
+import { passengerFromTraveller, PassengerField } from '../utils/passengers';
+import { getFareAmount, getFareRule, isAgeLimited } from '../utils/fares';
+import type { DocumentType, FareRule, PassengerInfo, Price, Traveller } from '@/types';
+
+interface PassengerFormProps {
+  index: number;
+  seat?: number;
+  value: PassengerInfo;
+  onChange: (value: PassengerInfo) => void;
+  /**
+   * Hide email/phone for companions travelling on the lead's contact
+   */
+  showContact?: boolean;
+  invalidField?: PassengerField | null;
+  /**
+   * Saved travellers offered to fill the form from
+   */
+  travellers?: Traveller[];
+  /**
+   * Fare categories to choose from; hidden when there's only full fare
+   */
+  fareRules?: FareRule[];
+  price?: Price;
+}
+
+const DOCUMENT_TYPES: DocumentType[] = ['id_card', 'passport'];
+
+export function PassengerForm({
+  index,
+  seat,
+  value,
+  onChange,
+  showContact = true,
+  invalidField = null,
+  travellers = [],
+  fareRules = [],
+  price,
+}: PassengerFormProps) {
+  const { colors } = useTheme();
+  const { t, formatCurrency } = useLocale();
+  const styles = createStyles(colors);
+
+  const fareRule = getFareRule(fareRules, value.fareCategory);
+
+  const update = (changes: Partial<PassengerInfo>) => onChange({ ...value, ...changes });
+
+  const inputStyle = (field: PassengerField) => [
+    styles.input,
+    invalidField === field && styles.inputInvalid,
+  ];
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <Text style={styles.title}>
+          {t.booking.passenger} {index + 1}
+          {index === 0 ? ` (${t.booking.leadPassenger})` : ''}
+        </Text>
+        {seat !== undefined && (
+          <Text style={styles.seat}>
+            {t.seatMap.seat} {seat}
+          </Text>
+        )}
+      </View>
+
+      {travellers.length > 0 && (
+        <View style={styles.formGroup}>
+          <Text style={styles.label}>{t.travellers.pickSaved}</Text>
+          <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+            <View style={styles.chips}>
+              {travellers.map((traveller) => (
+                <TouchableOpacity
+                  key={traveller.id}
+                  style={styles.chip}
+                  onPress={() => onChange(passengerFromTraveller(traveller, value))}
+                >
+                  <View style={styles.chipContent}>
+                    <Ionicons name="person-outline" size={14} color={colors.primary} />
+                    <Text style={styles.chipText}>{traveller.name}</Text>
+                  </View>
+                </TouchableOpacity>
+              ))}
+            </View>
+          </ScrollView>
+        </View>
+      )}
+
+      <View style={styles.formGroup}>
+        <Text style={styles.label}>{t.booking.fullName}</Text>
+        <TextInput
+          style={inputStyle('name')}
+          placeholderTextColor={colors.textSecondary}
+          value={value.name}
+          onChangeText={(name) => update({ name })}
+          autoComplete={index === 0 ? 'name' : 'off'}
+        />
+      </View>
+
+      {showContact && (
+        <>
+          <View style={styles.formGroup}>
+            <Text style={styles.label}>{t.booking.email}</Text>
+            <TextInput
+              style={inputStyle('email')}
+              placeholderTextColor={colors.textSecondary}
+              value={value.email}
+              onChangeText={(email) => update({ email })}
+              keyboardType="email-address"
+              autoCapitalize="none"
+            />
+          </View>
+
+          <View style={styles.formGroup}>
+            <Text style={styles.label}>{t.booking.phone}</Text>
+            <TextInput
+              style={inputStyle('phone')}
+              placeholderTextColor={colors.textSecondary}
+              value={value.phone}
+              onChangeText={(phone) => update({ phone })}
+              keyboardType="phone-pad"
+            />
+          </View>
+        </>
+      )}
+
+      {fareRules.length > 1 && (
+        <View style={styles.formGroup}>
+          <Text style={styles.label}>{t.fares.title}</Text>
+          <View style={[styles.chips, styles.wrap]}>
+            {fareRules.map((rule) => {
+              const isSelected = fareRule.category === rule.category;
+              return (
+                <TouchableOpacity
+                  key={rule.category}
+                  style={[
+                    styles.chip,
+                    isSelected && styles.chipSelected,
+                    invalidField === 'fareCategory' && isSelected && styles.chipInvalid,
+                  ]}
+                  onPress={() => update({ fareCategory: rule.category })}
+                >
+                  <Text style={[styles.chipText, isSelected && styles.chipTextSelected]}>
+                    {t.fares[rule.category]}
+                    {price ? ` · ${formatCurrency(getFareAmount(price, rule), price.currency)}` : ''}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+          {fareRule.requiresProof && <Text style={styles.hint}>{t.fares.proofRequired}</Text>}
+        </View>
+      )}
+
+      {(isAgeLimited(fareRule) || value.dateOfBirth) && (
+        <View style={styles.formGroup}>
+          <Text style={styles.label}>{t.travellers.dateOfBirth}</Text>
+          <TextInput
+            style={inputStyle('dateOfBirth')}
+            placeholder={t.travellers.dateOfBirthHint}
+            placeholderTextColor={colors.textSecondary}
+            value={value.dateOfBirth ?? ''}
+            onChangeText={(dateOfBirth) => update({ dateOfBirth })}
+            keyboardType="numbers-and-punctuation"
+          />
+        </View>
+      )}
+
+      <View style={styles.formGroup}>
+        <Text style={styles.label}>{t.booking.documentType}</Text>
+        <View style={styles.chips}>
+          {DOCUMENT_TYPES.map((type) => {
+            const isSelected = value.documentType === type;
+            return (
+              <TouchableOpacity
+                key={type}
+                style={[styles.chip, isSelected && styles.chipSelected]}
+                onPress={() => update({ documentType: isSelected ? undefined : type })}
+              >
+                <Text style={[styles.chipText, isSelected && styles.chipTextSelected]}>
+                  {type === 'passport' ? t.booking.passport : t.booking.idCard}
+                </Text>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+      </View>
+
+      <View style={styles.formGroup}>
+        <Text style={styles.label}>{t.booking.documentNumber}</Text>
+        <TextInput
+          style={inputStyle('documentNumber')}
+          placeholderTextColor={colors.textSecondary}
+          value={value.documentNumber ?? ''}
+          onChangeText={(documentNumber) => update({ documentNumber })}
+          autoCapitalize="characters"
+        />
+      </View>
+    </View>
+  );
+}
+
+const createStyles = (colors: any) =>
+  StyleSheet.create({
+    container: {
+      borderWidth: 1,
+      borderColor: colors.border,
+      borderRadius: 12,
+      padding: 16,
+      marginBottom: 16,
+    },
+    header: {
+      flexDirection: 'row',
+      justifyContent: 'space-between',
+      alignItems: 'center',
+      marginBottom: 12,
+    },
+    title: {
+      fontSize: 16,
+      fontWeight: '600',
+      color: colors.text,
+    },
+    seat: {
+      fontSize: 14,
+      fontWeight: '500',
+      color: colors.primary,
+    },
+    formGroup: {
+      marginBottom: 12,
+    },
+    label: {
+      fontSize: 14,
+      fontWeight: '500',
+      color: colors.text,
+      marginBottom: 6,
+    },
+    input: {
+      backgroundColor: colors.background,
+      borderRadius: 8,
+      padding: 12,
+      fontSize: 16,
+      color: colors.text,
+      borderWidth: 1,
+      borderColor: colors.border,
+    },
+    inputInvalid: {
+      borderColor: colors.error,
+    },
+    chips: {
+      flexDirection: 'row',
+      gap: 8,
+    },
+    chip: {
+      paddingHorizontal: 14,
+      paddingVertical: 8,
+      borderRadius: 16,
+      borderWidth: 1,
+      borderColor: colors.border,
+    },
+    wrap: {
+      flexWrap: 'wrap',
+    },
+    chipInvalid: {
+      backgroundColor: colors.error,
+      borderColor: colors.error,
+    },
+    hint: {
+      fontSize: 12,
+      color: colors.textSecondary,
+      marginTop: 6,
+    },
+    chipContent: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 4,
+    },
+    chipSelected: {
+      backgroundColor: colors.primary,
+      borderColor: colors.primary,
+    },
+    chipText: {
+      fontSize: 14,
+      color: colors.text,
+    },
+    chipTextSelected: {
+      color: '#fff',
+    },
+  });
@@ -0,0 +1,265 @@
+/**
+ * BUS-Tickets - Price Calendar Component
+ * Heatmap of each day's lowest price and availability for flexible-date search
+ * Copyright (c) 2024-2026 IT Enterprise
+ */
+
+import React from 'react';
+import { View, Text, TouchableOpacity, StyleSheet, ActivityIndicator } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useTheme } from '../contexts/ThemeContext';
+import { useLocale } from '../contexts/LocaleContext';
+import {
+  fromDateKey,
+  getMonthWeeks,
+  CalendarDay,
+  CalendarMode,
+  PriceLevel,
+} from '../utils/priceCalendar';
+
+interface PriceCalendarProps {
+  mode: CalendarMode;
+  days: CalendarDay[];
+  levels: Map<string, PriceLevel>;
+  /**
+   * Month shown in `month` mode
+   */
+  month: Date;
+  selectedDate: string;
+  onSelectDay: (date: string) => void;
+  onChangeMonth?: (offset: number) => void;
+  isLoading?: boolean;
+  error?: string | null;
+}
+
+/**
+ * Few enough seats left to point out
+ */
+const FEW_SEATS = 5;
+
+// 1 January 2024 was a Monday
+const MONDAY_FIRST_WEEK = Array.from({ length: 7 }, (_, i) => new Date(2024, 0, 1 + i));
+
+export function PriceCalendar({
+  mode,
+  days,
+  levels,
+  month,
+  selectedDate,
+  onSelectDay,
+  onChangeMonth,
+  isLoading = false,
+  error = null,
+}: PriceCalendarProps) {
+  const { colors } = useTheme();
+  const { t, locale } = useLocale();
+  const styles = createStyles(colors);
+
+  const dateLocale = locale === 'cs' ? 'cs-CZ' : locale === 'uk' ? 'uk-UA' : 'en-GB';
+  const byDate = new Map(days.map((day) => [day.date, day]));
+
+  const levelColors: Record<PriceLevel, string> = {
+    low: colors.success,
+    medium: colors.warning,
+    high: colors.error,
+  };
+
+  const renderDay = (date: string, showWeekday: boolean) => {
+    const day = byDate.get(date);
+    const level = levels.get(date);
+    const isSelected = date === selectedDate;
+    const isBookable = !!day?.lowestPrice;
+    const fewSeats = isBookable && day!.availableSeats <= FEW_SEATS;
+    const value = fromDateKey(date);
+
+    return (
+      <TouchableOpacity
+        key={date}
+        style={[
+          styles.day,
+          level && { backgroundColor: levelColors[level] + '30' },
+          isSelected && styles.daySelected,
+          !isBookable && styles.dayUnavailable,
+        ]}
+        onPress={() => onSelectDay(date)}
+        disabled={!isBookable}
+      >
+        {showWeekday && (
+          <Text style={styles.weekday}>
+            {value.toLocaleDateString(dateLocale, { weekday: 'short' })}
+          </Text>
+        )}
+        <Text style={[styles.dayNumber, isSelected && styles.dayNumberSelected]}>
+          {value.getDate()}
+        </Text>
+        <Text style={styles.price} numberOfLines={1}>
+          {!day ? ' ' : isBookable ? Math.round(day.lowestPrice!.amount) : '—'}
+        </Text>
+        {fewSeats && <View style={[styles.fewSeatsDot, { backgroundColor: colors.error }]} />}
+      </TouchableOpacity>
+    );
+  };
+
+  const currency = days.find((day) => day.lowestPrice)?.lowestPrice?.currency;
+
+  return (
+    <View style={styles.container}>
+      {mode === 'month' && (
+        <View style={styles.monthHeader}>
+          <TouchableOpacity onPress={() => onChangeMonth?.(-1)} style={styles.monthButton}>
+            <Ionicons name="chevron-back" size={20} color={colors.text} />
+          </TouchableOpacity>
+          <Text style={styles.monthTitle}>
+            {month.toLocaleDateString(dateLocale, { month: 'long', year: 'numeric' })}
+          </Text>
+          <TouchableOpacity onPress={() => onChangeMonth?.(1)} style={styles.monthButton}>
+            <Ionicons name="chevron-forward" size={20} color={colors.text} />
+          </TouchableOpacity>
+        </View>
+      )}
+
+      {mode === 'around' ? (
+        <View style={styles.week}>{days.map((day) => renderDay(day.date, true))}</View>
+      ) : (
+        <>
+          <View style={styles.week}>
+            {MONDAY_FIRST_WEEK.map((weekday) => (
+              <Text key={weekday.getDay()} style={[styles.weekday, styles.weekdayHeader]}>
+                {weekday.toLocaleDateString(dateLocale, { weekday: 'narrow' })}
+              </Text>
+            ))}
+          </View>
+          {getMonthWeeks(month).map((week, index) => (
+            <View key={index} style={styles.week}>
+              {week.map((date, cell) =>
+                date ? renderDay(date, false) : <View key={cell} style={styles.day} />
+              )}
+            </View>
+          ))}
+        </>
+      )}
+
+      <View style={styles.footer}>
+        {isLoading ? (
+          <View style={styles.loadingRow}>
+            <ActivityIndicator size="small" color={colors.primary} />
+            <Text style={styles.footerText}>{t.priceCalendar.loading}</Text>
+          </View>
+        ) : error ? (
+          <Text style={[styles.footerText, { color: colors.error }]}>{error}</Text>
+        ) : (
+          <View style={styles.legend}>
+            {(['low', 'medium', 'high'] as PriceLevel[]).map((level) => (
+              <View key={level} style={styles.legendItem}>
+                <View style={[styles.legendSwatch, { backgroundColor: levelColors[level] + '30' }]} />
+                <Text style={styles.footerText}>{t.priceCalendar[level]}</Text>
+              </View>
+            ))}
+            {currency && <Text style={styles.footerText}>{currency}</Text>}
+          </View>
+        )}
+      </View>
+    </View>
+  );
+}
+
+const createStyles = (colors: any) =>
+  StyleSheet.create({
+    container: {
+      padding: 12,
+    },
+    monthHeader: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      justifyContent: 'space-between',
+      marginBottom: 8,
+    },
+    monthButton: {
+      padding: 8,
+    },
+    monthTitle: {
+      fontSize: 16,
+      fontWeight: '600',
+      color: colors.text,
+      textTransform: 'capitalize',
+    },
+    week: {
+      flexDirection: 'row',
+      gap: 4,
+      marginBottom: 4,
+    },
+    day: {
+      flex: 1,
+      alignItems: 'center',
+      paddingVertical: 6,
+      borderRadius: 8,
+      minHeight: 48,
+    },
+    daySelected: {
+      borderWidth: 2,
+      borderColor: colors.primary,
+    },
+    dayUnavailable: {
+      opacity: 0.4,
+    },
+    weekday: {
+      fontSize: 11,
+      color: colors.textSecondary,
+      textTransform: 'capitalize',
+    },
+    weekdayHeader: {
+      flex: 1,
+      textAlign: 'center',
+    },
+    dayNumber: {
+      fontSize: 15,
+      fontWeight: '600',
+      color: colors.text,
+    },
+    dayNumberSelected: {
+      color: colors.primary,
+    },
+    price: {
+      fontSize: 11,
+      color: colors.textSecondary,
+      marginTop: 2,
+    },
+    fewSeatsDot: {
+      position: 'absolute',
+      top: 4,
+      right: 4,
+      width: 6,
+      height: 6,
+      borderRadius: 3,
+    },
+    footer: {
+      marginTop: 8,
+      minHeight: 24,
+      justifyContent: 'center',
+    },
+    loadingRow: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 8,
+    },
+    legend: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      flexWrap: 'wrap',
+      gap: 12,
+    },
+    legendItem: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 4,
+    },
+    legendSwatch: {
+      width: 12,
+      height: 12,
+      borderRadius: 3,
+    },
+    footerText: {
+      fontSize: 12,
+      color: colors.textSecondary,
+    },
+  });
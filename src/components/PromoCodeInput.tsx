@@ -0,0 +1,163 @@
+/**
+ * BUS-Tickets - Promo Code Input Component
+ * Entry for a promo code or voucher, showing the applied discount or why it was refused
+ * Copyright (c) 2024-2026 IT Enterprise
+ */
+
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  ActivityIndicator,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useTheme } from '../contexts/ThemeContext';
+import { useLocale } from '../contexts/LocaleContext';
+import type { PromoCodeRedemption } from '@/types';
+
+interface PromoCodeInputProps {
+  applied: PromoCodeRedemption | null;
+  onApply: (code: string) => void;
+  onRemove: () => void;
+  error?: string | null;
+  isChecking?: boolean;
+  disabled?: boolean;
+}
+
+export function PromoCodeInput({
+  applied,
+  onApply,
+  onRemove,
+  error = null,
+  isChecking = false,
+  disabled = false,
+}: PromoCodeInputProps) {
+  const { colors } = useTheme();
+  const { t } = useLocale();
+  const [code, setCode] = useState('');
+  const styles = createStyles(colors);
+
+  if (applied) {
+    const discount = applied.price.discount;
+    return (
+      <View style={[styles.container, styles.applied]}>
+        <Ionicons name="pricetag" size={20} color={colors.success} />
+        <View style={styles.appliedInfo}>
+          <Text style={styles.appliedCode}>{applied.code}</Text>
+          <Text style={styles.appliedDescription}>
+            {discount?.description ??
+              (discount?.type === 'percentage'
+                ? `−${discount.value} %`
+                : t.promoCode.applied)}
+          </Text>
+        </View>
+        <TouchableOpacity onPress={onRemove} disabled={disabled}>
+          <Text style={styles.removeText}>{t.promoCode.remove}</Text>
+        </TouchableOpacity>
+      </View>
+    );
+  }
+
+  const trimmed = code.trim();
+
+  return (
+    <View>
+      <View style={styles.container}>
+        <TextInput
+          style={[styles.input, !!error && styles.inputInvalid]}
+          placeholder={t.promoCode.placeholder}
+          placeholderTextColor={colors.textSecondary}
+          value={code}
+          onChangeText={setCode}
+          autoCapitalize="characters"
+          autoCorrect={false}
+          editable={!disabled && !isChecking}
+          onSubmitEditing={() => trimmed && onApply(trimmed)}
+        />
+        <TouchableOpacity
+          style={[styles.applyButton, (!trimmed || disabled) && styles.applyButtonDisabled]}
+          onPress={() => onApply(trimmed)}
+          disabled={!trimmed || disabled || isChecking}
+        >
+          {isChecking ? (
+            <ActivityIndicator size="small" color="#fff" />
+          ) : (
+            <Text style={styles.applyText}>{t.promoCode.apply}</Text>
+          )}
+        </TouchableOpacity>
+      </View>
+      {error && <Text style={styles.errorText}>{error}</Text>}
+    </View>
+  );
+}
+
+const createStyles = (colors: any) =>
+  StyleSheet.create({
+    container: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 8,
+    },
+    input: {
+      flex: 1,
+      backgroundColor: colors.background,
+      borderRadius: 8,
+      padding: 12,
+      fontSize: 16,
+      color: colors.text,
+      borderWidth: 1,
+      borderColor: colors.border,
+    },
+    inputInvalid: {
+      borderColor: colors.error,
+    },
+    applyButton: {
+      backgroundColor: colors.primary,
+      borderRadius: 8,
+      paddingHorizontal: 16,
+      paddingVertical: 12,
+      minWidth: 88,
+      alignItems: 'center',
+    },
+    applyButtonDisabled: {
+      opacity: 0.5,
+    },
+    applyText: {
+      color: '#fff',
+      fontSize: 15,
+      fontWeight: '600',
+    },
+    errorText: {
+      fontSize: 13,
+      color: colors.error,
+      marginTop: 6,
+    },
+    applied: {
+      backgroundColor: colors.success + '15',
+      borderRadius: 8,
+      padding: 12,
+      gap: 12,
+    },
+    appliedInfo: {
+      flex: 1,
+    },
+    appliedCode: {
+      fontSize: 15,
+      fontWeight: '700',
+      color: colors.text,
+      letterSpacing: 1,
+    },
+    appliedDescription: {
+      fontSize: 13,
+      color: colors.textSecondary,
+      marginTop: 2,
+    },
+    removeText: {
+      fontSize: 14,
+      fontWeight: '500',
+      color: colors.error,
+    },
+  });
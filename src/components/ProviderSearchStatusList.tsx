@@ -0,0 +1,128 @@
+/**
+ * BUS-Tickets - Provider Search Status Component
+ * How each operator answered a search, collapsed to a one-line summary
+ * Copyright (c) 2024-2026 IT Enterprise
+ */
+
+import React, { useState } from 'react';
+import { View, Text, TouchableOpacity, StyleSheet } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useTheme } from '../contexts/ThemeContext';
+import { useLocale } from '../contexts/LocaleContext';
+import type { ProviderSearchState, ProviderSearchStatus } from '../contexts/ProvidersContext';
+
+interface ProviderSearchStatusListProps {
+  statuses: ProviderSearchStatus[];
+}
+
+const STATE_ICONS: Record<ProviderSearchState, string> = {
+  ok: 'checkmark-circle',
+  timeout: 'time-outline',
+  error: 'alert-circle',
+  skipped: 'remove-circle-outline',
+};
+
+export function ProviderSearchStatusList({ statuses }: ProviderSearchStatusListProps) {
+  const { colors } = useTheme();
+  const { t } = useLocale();
+  const styles = createStyles(colors);
+  const [isExpanded, setIsExpanded] = useState(false);
+
+  const failed = statuses.filter(
+    (status) => status.state === 'error' || status.state === 'timeout'
+  );
+  const answered = statuses.filter((status) => status.state === 'ok');
+
+  const stateColors: Record<ProviderSearchState, string> = {
+    ok: colors.success,
+    timeout: colors.warning,
+    error: colors.error,
+    skipped: colors.textSecondary,
+  };
+
+  const describe = (status: ProviderSearchStatus): string => {
+    switch (status.state) {
+      case 'ok':
+        return `${status.tripCount} ${t.providerStatus.trips} · ${status.latencyMs} ms`;
+      case 'timeout':
+        return `${t.providerStatus.timedOut} (${((status.latencyMs ?? 0) / 1000).toFixed(1)} s)`;
+      case 'error':
+        return status.error ?? t.providerStatus.failed;
+      case 'skipped':
+        return `${t.providerStatus.sameBackendAs} ${status.duplicateOf}`;
+    }
+  };
+
+  return (
+    <View style={styles.container}>
+      <TouchableOpacity style={styles.summary} onPress={() => setIsExpanded(!isExpanded)}>
+        <Ionicons
+          name={failed.length > 0 ? 'warning-outline' : 'server-outline'}
+          size={14}
+          color={failed.length > 0 ? colors.warning : colors.primary}
+        />
+        <Text style={[styles.summaryText, failed.length > 0 && { color: colors.warning }]}>
+          {answered.length}/{answered.length + failed.length} {t.providerStatus.operatorsAnswered}
+          {failed.length > 0 ? ` · ${t.providerStatus.partialResults}` : ''}
+        </Text>
+        <Ionicons
+          name={isExpanded ? 'chevron-up' : 'chevron-down'}
+          size={14}
+          color={colors.textSecondary}
+        />
+      </TouchableOpacity>
+
+      {isExpanded &&
+        statuses.map((status) => (
+          <View key={status.providerId} style={styles.row}>
+            <Ionicons
+              name={STATE_ICONS[status.state] as any}
+              size={16}
+              color={stateColors[status.state]}
+            />
+            <Text style={styles.providerName} numberOfLines={1}>
+              {status.providerName}
+            </Text>
+            <Text style={styles.detail} numberOfLines={1}>
+              {describe(status)}
+            </Text>
+          </View>
+        ))}
+    </View>
+  );
+}
+
+const createStyles = (colors: any) =>
+  StyleSheet.create({
+    container: {
+      marginTop: 6,
+    },
+    summary: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 6,
+    },
+    summaryText: {
+      fontSize: 12,
+      fontWeight: '500',
+      color: colors.primary,
+    },
+    row: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 8,
+      paddingVertical: 4,
+    },
+    providerName: {
+      fontSize: 13,
+      fontWeight: '500',
+      color: colors.text,
+      maxWidth: '40%',
+    },
+    detail: {
+      flex: 1,
+      fontSize: 12,
+      color: colors.textSecondary,
+      textAlign: 'right',
+    },
+  });
@@ -0,0 +1,136 @@
+/**
+ * BUS-Tickets - Refund Progress Component
+ * Where a refund is between the request and the money arriving
+ * Copyright (c) 2024-2026 IT Enterprise
+ */
+
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useTheme } from '../contexts/ThemeContext';
+import { useLocale } from '../contexts/LocaleContext';
+import type { Refund, RefundStatus } from '@/types';
+
+interface RefundProgressProps {
+  refund: Refund;
+}
+
+const REFUND_STEPS: RefundStatus[] = ['requested', 'approved', 'processing', 'completed'];
+
+export function RefundProgress({ refund }: RefundProgressProps) {
+  const { colors } = useTheme();
+  const { t, formatCurrency, formatDate } = useLocale();
+  const styles = createStyles(colors);
+
+  const isRejected = refund.status === 'rejected';
+  // A rejected refund stops right after the request
+  const steps: RefundStatus[] = isRejected ? ['requested', 'rejected'] : REFUND_STEPS;
+  const currentIndex = steps.indexOf(refund.status);
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <Text style={styles.amount}>{formatCurrency(refund.amount, refund.currency)}</Text>
+        <Text style={styles.destination}>
+          {refund.destination === 'voucher' ? t.refund.voucher : t.refund.originalPayment}
+        </Text>
+      </View>
+
+      {steps.map((step, index) => {
+        const isDone = index <= currentIndex;
+        const color = step === 'rejected' ? colors.error : isDone ? colors.success : colors.border;
+        return (
+          <View key={step} style={styles.step}>
+            <View style={styles.stepMarker}>
+              <Ionicons
+                name={
+                  step === 'rejected' ? 'close-circle' : isDone ? 'checkmark-circle' : 'ellipse-outline'
+                }
+                size={18}
+                color={color}
+              />
+              {index < steps.length - 1 && (
+                <View
+                  style={[
+                    styles.stepLine,
+                    { backgroundColor: index < currentIndex ? colors.success : colors.border },
+                  ]}
+                />
+              )}
+            </View>
+            <Text style={[styles.stepLabel, !isDone && styles.stepLabelPending]}>
+              {t.refund[step]}
+            </Text>
+          </View>
+        );
+      })}
+
+      {refund.status !== 'completed' && !isRejected && refund.expectedBy && (
+        <Text style={styles.note}>
+          {t.refund.expectedBy}: {formatDate(new Date(refund.expectedBy))}
+        </Text>
+      )}
+      {refund.voucherCode && (
+        <Text style={styles.note} selectable>
+          {t.refund.voucherCode}: <Text style={styles.voucherCode}>{refund.voucherCode}</Text>
+        </Text>
+      )}
+      {isRejected && refund.rejectionReason && (
+        <Text style={[styles.note, { color: colors.error }]}>{refund.rejectionReason}</Text>
+      )}
+    </View>
+  );
+}
+
+const createStyles = (colors: any) =>
+  StyleSheet.create({
+    container: {
+      gap: 2,
+    },
+    header: {
+      flexDirection: 'row',
+      justifyContent: 'space-between',
+      alignItems: 'baseline',
+      marginBottom: 8,
+    },
+    amount: {
+      fontSize: 18,
+      fontWeight: '700',
+      color: colors.text,
+    },
+    destination: {
+      fontSize: 13,
+      color: colors.textSecondary,
+    },
+    step: {
+      flexDirection: 'row',
+      gap: 10,
+    },
+    stepMarker: {
+      alignItems: 'center',
+    },
+    stepLine: {
+      width: 2,
+      height: 14,
+      marginVertical: 2,
+    },
+    stepLabel: {
+      fontSize: 14,
+      fontWeight: '500',
+      color: colors.text,
+    },
+    stepLabelPending: {
+      color: colors.textSecondary,
+      fontWeight: '400',
+    },
+    note: {
+      fontSize: 13,
+      color: colors.textSecondary,
+      marginTop: 8,
+    },
+    voucherCode: {
+      fontFamily: 'monospace',
+      fontWeight: '600',
+      color: colors.text,
+    },
+  });
@@ -0,0 +1,96 @@
+/**
+ * BUS-Tickets - Seat Hold Timer Component
+ * Countdown for held seats during checkout, with an extend action
+ * Copyright (c) 2024-2026 IT Enterprise
+ */
+
+import React from 'react';
+import { View, Text, TouchableOpacity, StyleSheet, ActivityIndicator } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useTheme } from '../contexts/ThemeContext';
+import { useLocale } from '../contexts/LocaleContext';
+
+interface SeatHoldTimerProps {
+  secondsLeft: number;
+  onExtend: () => void;
+  isExtending?: boolean;
+}
+
+/**
+ * Below this the timer turns red and offers to extend the hold
+ */
+const WARNING_SECONDS = 120;
+
+function formatCountdown(seconds: number): string {
+  const minutes = Math.floor(seconds / 60);
+  const rest = seconds % 60;
+  return `${minutes}:${String(rest).padStart(2, '0')}`;
+}
+
+export function SeatHoldTimer({ secondsLeft, onExtend, isExtending = false }: SeatHoldTimerProps) {
+  const { colors } = useTheme();
+  const { t } = useLocale();
+
+  const isWarning = secondsLeft <= WARNING_SECONDS;
+  const accent = isWarning ? colors.error : colors.primary;
+  const styles = createStyles(colors);
+
+  return (
+    <View style={[styles.container, { backgroundColor: accent + '15' }]}>
+      <Ionicons name="time-outline" size={20} color={accent} />
+      <View style={styles.info}>
+        <Text style={styles.label}>{t.seatHold.heldFor}</Text>
+        <Text style={[styles.countdown, { color: accent }]}>{formatCountdown(secondsLeft)}</Text>
+      </View>
+      {isWarning && (
+        <TouchableOpacity
+          style={[styles.extendButton, { borderColor: accent }]}
+          onPress={onExtend}
+          disabled={isExtending}
+        >
+          {isExtending ? (
+            <ActivityIndicator size="small" color={accent} />
+          ) : (
+            <Text style={[styles.extendText, { color: accent }]}>{t.seatHold.extend}</Text>
+          )}
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+}
+
+const createStyles = (colors: any) =>
+  StyleSheet.create({
+    container: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 12,
+      borderRadius: 12,
+      padding: 12,
+      marginBottom: 16,
+    },
+    info: {
+      flex: 1,
+    },
+    label: {
+      fontSize: 13,
+      color: colors.textSecondary,
+    },
+    countdown: {
+      fontSize: 18,
+      fontWeight: '700',
+      fontVariant: ['tabular-nums'],
+    },
+    extendButton: {
+      paddingHorizontal: 12,
+      paddingVertical: 6,
+      borderRadius: 6,
+      borderWidth: 1,
+      minWidth: 80,
+      alignItems: 'center',
+    },
+    extendText: {
+      fontSize: 13,
+      fontWeight: '600',
+    },
+  });
@@ -0,0 +1,264 @@
+/**
+ * BUS-Tickets - Seat Map Component
+ * Renders a bus seat layout (aisles, doors, driver, decks) for seat selection
+ * Copyright (c) 2024-2026 IT Enterprise
+ */
+
+import React, { useMemo, useState } from 'react';
+import { View, Text, TouchableOpacity, StyleSheet } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useTheme } from '../contexts/ThemeContext';
+import { useLocale } from '../contexts/LocaleContext';
+import { buildSeatMap, SeatCell } from '../utils/seatMap';
+import type { SeatLayout } from '@/types';
+
+interface SeatMapProps {
+  layout?: SeatLayout;
+  /**
+   * Seat count used for the fallback grid when the bus has no layout
+   */
+  totalSeats: number;
+  blockedSeats: Set<number>;
+  selectedSeats: number[];
+  onSeatPress: (seatNumber: number) => void;
+  disabled?: boolean;
+}
+
+export function SeatMap({
+  layout,
+  totalSeats,
+  blockedSeats,
+  selectedSeats,
+  onSeatPress,
+  disabled = false,
+}: SeatMapProps) {
+  const { colors } = useTheme();
+  const { t } = useLocale();
+  const decks = useMemo(() => buildSeatMap(layout, totalSeats), [layout, totalSeats]);
+  const [deckIndex, setDeckIndex] = useState(0);
+
+  const styles = createStyles(colors);
+  const current = decks[Math.min(deckIndex, decks.length - 1)];
+
+  const renderCell = (cell: SeatCell, index: number) => {
+    switch (cell.type) {
+      case 'aisle':
+        return <View key={index} style={styles.aisle} />;
+      case 'empty':
+        return <View key={index} style={styles.cell} />;
+      case 'door':
+        return (
+          <View key={index} style={[styles.cell, styles.door]}>
+            <Ionicons name="exit-outline" size={18} color={colors.textSecondary} />
+          </View>
+        );
+      case 'seat': {
+        const isBlocked = blockedSeats.has(cell.number);
+        const isSelected = selectedSeats.includes(cell.number);
+
+        return (
+          <TouchableOpacity
+            key={index}
+            style={[
+              styles.cell,
+              styles.seat,
+              isBlocked && styles.seatOccupied,
+              isSelected && styles.seatSelected,
+            ]}
+            onPress={() => onSeatPress(cell.number)}
+            disabled={disabled || isBlocked}
+            accessibilityLabel={`${t.seatMap.seat} ${cell.number}`}
+            accessibilityState={{ selected: isSelected, disabled: disabled || isBlocked }}
+          >
+            <Text
+              style={[
+                styles.seatText,
+                (isBlocked || isSelected) && styles.seatTextInverse,
+              ]}
+            >
+              {cell.number}
+            </Text>
+          </TouchableOpacity>
+        );
+      }
+    }
+  };
+
+  return (
+    <View>
+      {/* Legend */}
+      <View style={styles.legend}>
+        <View style={styles.legendItem}>
+          <View style={[styles.legendSwatch, styles.seat]} />
+          <Text style={styles.legendText}>{t.seatMap.available}</Text>
+        </View>
+        <View style={styles.legendItem}>
+          <View style={[styles.legendSwatch, styles.seatSelected]} />
+          <Text style={styles.legendText}>{t.seatMap.selected}</Text>
+        </View>
+        <View style={styles.legendItem}>
+          <View style={[styles.legendSwatch, styles.seatOccupied]} />
+          <Text style={styles.legendText}>{t.seatMap.occupied}</Text>
+        </View>
+      </View>
+
+      {/* Deck switcher for double-deckers */}
+      {decks.length > 1 && (
+        <View style={styles.deckTabs}>
+          {decks.map((deck, index) => (
+            <TouchableOpacity
+              key={deck.deck}
+              style={[styles.deckTab, index === deckIndex && styles.deckTabActive]}
+              onPress={() => setDeckIndex(index)}
+            >
+              <Text style={[styles.deckTabText, index === deckIndex && styles.deckTabTextActive]}>
+                {deck.deck === 'lower' ? t.seatMap.lowerDeck : t.seatMap.upperDeck}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      )}
+
+      <View style={styles.bus}>
+        {current.driverSide && (
+          <View
+            style={[
+              styles.front,
+              current.driverSide === 'right' && styles.frontRight,
+            ]}
+          >
+            <View style={styles.driver}>
+              <Ionicons name="car" size={20} color={colors.textSecondary} />
+              <Text style={styles.driverText}>{t.seatMap.driver}</Text>
+            </View>
+          </View>
+        )}
+
+        <View style={styles.rows}>
+          {current.rows.map((row, rowIndex) => (
+            <View key={rowIndex} style={styles.row}>
+              {row.map(renderCell)}
+            </View>
+          ))}
+        </View>
+      </View>
+    </View>
+  );
+}
+
+const createStyles = (colors: any) =>
+  StyleSheet.create({
+    legend: {
+      flexDirection: 'row',
+      justifyContent: 'center',
+      gap: 24,
+      marginBottom: 16,
+    },
+    legendItem: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 6,
+    },
+    legendSwatch: {
+      width: 16,
+      height: 16,
+      borderRadius: 4,
+    },
+    legendText: {
+      fontSize: 12,
+      color: colors.textSecondary,
+    },
+    deckTabs: {
+      flexDirection: 'row',
+      alignSelf: 'center',
+      backgroundColor: colors.background,
+      borderRadius: 8,
+      padding: 4,
+      marginBottom: 16,
+    },
+    deckTab: {
+      paddingHorizontal: 16,
+      paddingVertical: 6,
+      borderRadius: 6,
+    },
+    deckTabActive: {
+      backgroundColor: colors.primary,
+    },
+    deckTabText: {
+      fontSize: 13,
+      fontWeight: '500',
+      color: colors.text,
+    },
+    deckTabTextActive: {
+      color: '#fff',
+    },
+    bus: {
+      alignSelf: 'center',
+      padding: 12,
+      borderRadius: 16,
+      borderWidth: 1,
+      borderColor: colors.border,
+    },
+    front: {
+      flexDirection: 'row',
+      justifyContent: 'flex-start',
+      marginBottom: 16,
+    },
+    frontRight: {
+      justifyContent: 'flex-end',
+    },
+    driver: {
+      alignItems: 'center',
+      padding: 6,
+      borderRadius: 8,
+      backgroundColor: colors.background,
+    },
+    driverText: {
+      fontSize: 10,
+      color: colors.textSecondary,
+      marginTop: 2,
+    },
+    rows: {
+      gap: 8,
+    },
+    row: {
+      flexDirection: 'row',
+      gap: 8,
+    },
+    cell: {
+      width: 40,
+      height: 40,
+      borderRadius: 8,
+      justifyContent: 'center',
+      alignItems: 'center',
+    },
+    aisle: {
+      width: 16,
+    },
+    door: {
+      borderWidth: 1,
+      borderStyle: 'dashed',
+      borderColor: colors.border,
+    },
+    seat: {
+      backgroundColor: colors.background,
+      borderWidth: 1,
+      borderColor: colors.border,
+    },
+    seatSelected: {
+      backgroundColor: colors.primary,
+      borderColor: colors.primary,
+    },
+    seatOccupied: {
+      backgroundColor: colors.textSecondary,
+      borderColor: colors.textSecondary,
+    },
+    seatText: {
+      fontSize: 12,
+      fontWeight: '500',
+      color: colors.text,
+    },
+    seatTextInverse: {
+      color: '#fff',
+    },
+  });
@@ -0,0 +1,106 @@
+/**
+ * BUS-Tickets - Sync Conflict Notice Component
+ * Explains which queued offline actions were dropped during sync
+ * Copyright (c) 2024-2026 IT Enterprise
+ */
+
+import React from 'react';
+import { View, Text, TouchableOpacity, StyleSheet } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useNetwork } from '../contexts/NetworkContext';
+import { useTheme } from '../contexts/ThemeContext';
+import { useLocale } from '../contexts/LocaleContext';
+import type { ConflictReason } from '../services/SyncService';
+
+export function SyncConflictNotice() {
+  const { syncState, dismissConflicts } = useNetwork();
+  const { colors } = useTheme();
+  const { t } = useLocale();
+
+  if (syncState.conflicts.length === 0) {
+    return null;
+  }
+
+  const reasons: Record<ConflictReason, string> = {
+    already_cancelled: t.syncConflicts.alreadyCancelled,
+    already_checked_in: t.syncConflicts.alreadyCheckedIn,
+    refunded: t.syncConflicts.refunded,
+    ticket_used: t.syncConflicts.ticketUsed,
+    ticket_cancelled: t.syncConflicts.ticketCancelled,
+    trip_cancelled: t.syncConflicts.tripCancelled,
+    seat_changed: t.syncConflicts.seatChanged,
+  };
+
+  const styles = createStyles(colors);
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <Ionicons name="git-compare-outline" size={20} color={colors.warning} />
+        <Text style={styles.title}>{t.syncConflicts.title}</Text>
+      </View>
+
+      {syncState.conflicts.map((conflict) => (
+        <View key={conflict.actionId} style={styles.item}>
+          <Text style={styles.itemTitle}>
+            {conflict.actionType === 'CANCEL_TICKET'
+              ? t.syncConflicts.cancelTicket
+              : t.syncConflicts.checkIn}{' '}
+            {conflict.ticketNumber}
+          </Text>
+          <Text style={styles.itemReason}>{reasons[conflict.reason]}</Text>
+        </View>
+      ))}
+
+      <TouchableOpacity style={styles.dismissButton} onPress={dismissConflicts}>
+        <Text style={styles.dismissText}>{t.syncConflicts.dismiss}</Text>
+      </TouchableOpacity>
+    </View>
+  );
+}
+
+const createStyles = (colors: any) =>
+  StyleSheet.create({
+    container: {
+      backgroundColor: colors.card,
+      borderBottomWidth: 1,
+      borderBottomColor: colors.border,
+      paddingHorizontal: 16,
+      paddingVertical: 10,
+    },
+    header: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 12,
+      marginBottom: 6,
+    },
+    title: {
+      flex: 1,
+      fontSize: 14,
+      fontWeight: '600',
+      color: colors.warning,
+    },
+    item: {
+      marginLeft: 32,
+      marginBottom: 6,
+    },
+    itemTitle: {
+      fontSize: 13,
+      fontWeight: '500',
+      color: colors.text,
+    },
+    itemReason: {
+      fontSize: 12,
+      color: colors.textSecondary,
+    },
+    dismissButton: {
+      alignSelf: 'flex-end',
+      paddingHorizontal: 12,
+      paddingVertical: 6,
+    },
+    dismissText: {
+      fontSize: 14,
+      fontWeight: '600',
+      color: colors.primary,
+    },
+  });
@@ -0,0 +1,303 @@
+/**
+ * BUS-Tickets - Trip Filters Sheet Component
+ * Search result filters, each option with the number of trips it would show
+ * Copyright (c) 2024-2026 IT Enterprise
+ */
+
+import React from 'react';
+import { View, Text, TouchableOpacity, ScrollView, Modal, StyleSheet } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useTheme } from '../contexts/ThemeContext';
+import { useLocale } from '../contexts/LocaleContext';
+import {
+  AMENITIES,
+  DEPARTURE_WINDOWS,
+  DepartureWindow,
+  TripFacets,
+  TripFilters,
+} from '../utils/tripFilters';
+
+interface TripFiltersSheetProps {
+  visible: boolean;
+  onClose: () => void;
+  filters: TripFilters;
+  facets: TripFacets;
+  onChange: (filters: TripFilters) => void;
+  onReset: () => void;
+  /**
+   * Trips shown with the current filters
+   */
+  resultCount: number;
+  currency?: string;
+}
+
+function toggle<T>(values: T[], value: T): T[] {
+  return values.includes(value) ? values.filter((item) => item !== value) : [...values, value];
+}
+
+export function TripFiltersSheet({
+  visible,
+  onClose,
+  filters,
+  facets,
+  onChange,
+  onReset,
+  resultCount,
+  currency,
+}: TripFiltersSheetProps) {
+  const { colors } = useTheme();
+  const { t, formatCurrency } = useLocale();
+  const styles = createStyles(colors);
+
+  const renderChip = (
+    key: string,
+    label: string,
+    count: number,
+    isSelected: boolean,
+    onPress: () => void
+  ) => (
+    <TouchableOpacity
+      key={key}
+      style={[
+        styles.chip,
+        isSelected && styles.chipSelected,
+        count === 0 && !isSelected && styles.chipEmpty,
+      ]}
+      onPress={onPress}
+      disabled={count === 0 && !isSelected}
+    >
+      <Text style={[styles.chipText, isSelected && styles.chipTextSelected]}>{label}</Text>
+      <Text style={[styles.chipCount, isSelected && styles.chipTextSelected]}>{count}</Text>
+    </TouchableOpacity>
+  );
+
+  const amenities = AMENITIES.filter((amenity) => facets.amenities[amenity] !== undefined);
+
+  return (
+    <Modal visible={visible} animationType="slide" transparent onRequestClose={onClose}>
+      <View style={styles.overlay}>
+        <View style={styles.sheet}>
+          <View style={styles.header}>
+            <Text style={styles.title}>{t.results.filters}</Text>
+            <TouchableOpacity onPress={onClose}>
+              <Ionicons name="close" size={24} color={colors.text} />
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView contentContainerStyle={styles.content}>
+            <Text style={styles.sectionTitle}>{t.resultFilters.departureTime}</Text>
+            <View style={styles.chips}>
+              {(Object.keys(DEPARTURE_WINDOWS) as DepartureWindow[]).map((window) =>
+                renderChip(
+                  window,
+                  t.resultFilters[window],
+                  facets.departureWindows[window],
+                  filters.departureWindows.includes(window),
+                  () =>
+                    onChange({
+                      ...filters,
+                      departureWindows: toggle(filters.departureWindows, window),
+                    })
+                )
+              )}
+            </View>
+
+            {facets.providers.length > 1 && (
+              <>
+                <Text style={styles.sectionTitle}>{t.resultFilters.providers}</Text>
+                <View style={styles.chips}>
+                  {facets.providers.map((provider) =>
+                    renderChip(
+                      provider.id,
+                      provider.name,
+                      provider.count,
+                      filters.providerIds.includes(provider.id),
+                      () =>
+                        onChange({
+                          ...filters,
+                          providerIds: toggle(filters.providerIds, provider.id),
+                        })
+                    )
+                  )}
+                </View>
+              </>
+            )}
+
+            {amenities.length > 0 && (
+              <>
+                <Text style={styles.sectionTitle}>{t.resultFilters.amenities}</Text>
+                <View style={styles.chips}>
+                  {amenities.map((amenity) =>
+                    renderChip(
+                      amenity,
+                      t.resultFilters[amenity],
+                      facets.amenities[amenity] ?? 0,
+                      filters.amenities.includes(amenity),
+                      () =>
+                        onChange({ ...filters, amenities: toggle(filters.amenities, amenity) })
+                    )
+                  )}
+                </View>
+              </>
+            )}
+
+            {facets.maxPrices.length > 0 && (
+              <>
+                <Text style={styles.sectionTitle}>{t.resultFilters.maxPrice}</Text>
+                <View style={styles.chips}>
+                  {facets.maxPrices.map(({ amount, count }) =>
+                    renderChip(
+                      String(amount),
+                      `${t.resultFilters.upTo} ${formatCurrency(amount, currency)}`,
+                      count,
+                      filters.maxPrice === amount,
+                      () =>
+                        onChange({
+                          ...filters,
+                          maxPrice: filters.maxPrice === amount ? undefined : amount,
+                        })
+                    )
+                  )}
+                </View>
+              </>
+            )}
+
+            <Text style={styles.sectionTitle}>{t.resultFilters.minSeats}</Text>
+            <View style={styles.chips}>
+              {facets.minSeats.map(({ seats, count }) =>
+                renderChip(
+                  String(seats),
+                  `${t.resultFilters.atLeast} ${seats}`,
+                  count,
+                  filters.minSeats === seats,
+                  () =>
+                    onChange({
+                      ...filters,
+                      minSeats: filters.minSeats === seats ? undefined : seats,
+                    })
+                )
+              )}
+            </View>
+          </ScrollView>
+
+          <View style={styles.footer}>
+            <TouchableOpacity style={styles.resetButton} onPress={onReset}>
+              <Text style={styles.resetText}>{t.resultFilters.reset}</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.showButton} onPress={onClose}>
+              <Text style={styles.showText}>
+                {t.resultFilters.show} ({resultCount})
+              </Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const createStyles = (colors: any) =>
+  StyleSheet.create({
+    overlay: {
+      flex: 1,
+      backgroundColor: 'rgba(0, 0, 0, 0.5)',
+      justifyContent: 'flex-end',
+    },
+    sheet: {
+      backgroundColor: colors.card,
+      borderTopLeftRadius: 20,
+      borderTopRightRadius: 20,
+      maxHeight: '85%',
+    },
+    header: {
+      flexDirection: 'row',
+      justifyContent: 'space-between',
+      alignItems: 'center',
+      padding: 16,
+      borderBottomWidth: 1,
+      borderBottomColor: colors.border,
+    },
+    title: {
+      fontSize: 18,
+      fontWeight: '600',
+      color: colors.text,
+    },
+    content: {
+      padding: 16,
+    },
+    sectionTitle: {
+      fontSize: 15,
+      fontWeight: '600',
+      color: colors.text,
+      marginTop: 8,
+      marginBottom: 10,
+    },
+    chips: {
+      flexDirection: 'row',
+      flexWrap: 'wrap',
+      gap: 8,
+      marginBottom: 12,
+    },
+    chip: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 6,
+      paddingHorizontal: 12,
+      paddingVertical: 8,
+      borderRadius: 16,
+      borderWidth: 1,
+      borderColor: colors.border,
+      backgroundColor: colors.background,
+    },
+    chipSelected: {
+      backgroundColor: colors.primary,
+      borderColor: colors.primary,
+    },
+    chipEmpty: {
+      opacity: 0.4,
+    },
+    chipText: {
+      fontSize: 14,
+      color: colors.text,
+    },
+    chipCount: {
+      fontSize: 12,
+      color: colors.textSecondary,
+    },
+    chipTextSelected: {
+      color: '#fff',
+    },
+    footer: {
+      flexDirection: 'row',
+      gap: 12,
+      padding: 16,
+      borderTopWidth: 1,
+      borderTopColor: colors.border,
+    },
+    resetButton: {
+      flex: 1,
+      alignItems: 'center',
+      justifyContent: 'center',
+      borderRadius: 12,
+      borderWidth: 1,
+      borderColor: colors.border,
+      padding: 14,
+    },
+    resetText: {
+      fontSize: 16,
+      color: colors.text,
+    },
+    showButton: {
+      flex: 2,
+      alignItems: 'center',
+      justifyContent: 'center',
+      borderRadius: 12,
+      backgroundColor: colors.primary,
+      padding: 14,
+    },
+    showText: {
+      fontSize: 16,
+      fontWeight: '600',
+      color: '#fff',
+    },
+  });
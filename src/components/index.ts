@@ -5,4 +5,13 @@
 
 export { OfflineBanner } from './OfflineBanner';
 export { SyncIndicator } from './SyncIndicator';
+export { SyncConflictNotice } from './SyncConflictNotice';
 export { PaymentMethodPicker, PaymentSummary } from './PaymentMethodPicker';
+export { SeatMap } from './SeatMap';
+export { SeatHoldTimer } from './SeatHoldTimer';
+export { PassengerForm } from './PassengerForm';
+export { PromoCodeInput } from './PromoCodeInput';
+export { PriceCalendar } from './PriceCalendar';
+export { TripFiltersSheet } from './TripFiltersSheet';
+export { ProviderSearchStatusList } from './ProviderSearchStatusList';
+export { RefundProgress } from './RefundProgress';
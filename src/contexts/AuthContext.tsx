@@ -9,6 +9,10 @@ import AsyncStorage from '@react-native-async-storage/async-storage';
 import { useApi } from './ApiContext';
 import type { User, AuthTokens } from '@/types';
 
+// The sync service (SQLite) only exists on native, as in NetworkContext
+const syncService: typeof import('../services/SyncService').syncService | null =
+  Platform.OS === 'web' ? null : require('../services/SyncService').syncService;
+
 // Biometric authentication is disabled in this build
 // expo-local-authentication requires native module compilation
 
@@ -172,6 +176,11 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     await storage.removeItem(USER_KEY);
     api.clearTokens();
     setUser(null);
+
+    // The next user must not continue from this user's ticket sync cursor
+    await syncService?.resetTicketCursor().catch((error) => {
+      console.error('Error resetting ticket cursor:', error);
+    });
   };
 
   const signIn = useCallback(async (email: string, password: string) => {
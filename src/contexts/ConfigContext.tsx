@@ -6,7 +6,14 @@
 import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
 import { Platform } from 'react-native';
 import AsyncStorage from '@react-native-async-storage/async-storage';
-import type { AppConfig, BackendConfig, OAuthProviderConfig, PaymentConfig } from '@/types';
+import type {
+  ApiResponse,
+  AppConfig,
+  BackendConfig,
+  OAuthProviderConfig,
+  PaymentConfig,
+} from '@/types';
+import { httpClient } from '@/services/HttpClient';
 import {
   DEFAULT_API_URL,
   DEFAULT_INSTANCE_NAME,
@@ -31,6 +38,21 @@ function ensureHttps(url: string | undefined): string {
   return url;
 }
 
+/**
+ * Config endpoint response; older backends send `config` instead of `data`
+ */
+type ConfigResponse = ApiResponse<Partial<AppConfig>> & { config?: Partial<AppConfig> };
+
+/**
+ * Load the public config of the backend at `apiUrl`
+ */
+async function requestConfig(apiUrl: string): Promise<ConfigResponse> {
+  return httpClient.request<Partial<AppConfig>>('/api/v1/config', {
+    baseUrl: ensureHttps(apiUrl),
+    auth: false,
+  });
+}
+
 // Default backend configuration - uses environment.ts values
 const DEFAULT_BACKEND: BackendConfig = {
   id: 'default',
@@ -226,23 +248,17 @@ export function ConfigProvider({ children }: { children: ReactNode }) {
 
   const fetchConfigFromBackend = async (apiUrl: string) => {
     try {
-      const secureUrl = ensureHttps(apiUrl);
-      const response = await fetch(`${secureUrl}/api/v1/config`);
-
-      if (response.ok) {
-        const data = await response.json();
-        // API returns data in data.data, not data.config
-        const configData = data.data || data.config;
-        if (data.success && configData) {
-          const newConfig = { ...DEFAULT_CONFIG, ...configData };
-          // Ensure backend URLs are HTTPS
-          if (newConfig.backend) {
-            newConfig.backend.url = ensureHttps(newConfig.backend.url);
-            newConfig.backend.apiUrl = ensureHttps(newConfig.backend.apiUrl);
-          }
-          setConfig(newConfig);
-          await AsyncStorage.setItem(CONFIG_STORAGE_KEY, JSON.stringify(newConfig));
+      const response = await requestConfig(apiUrl);
+      const configData = response.data || response.config;
+      if (configData) {
+        const newConfig = { ...DEFAULT_CONFIG, ...configData };
+        // Ensure backend URLs are HTTPS
+        if (newConfig.backend) {
+          newConfig.backend.url = ensureHttps(newConfig.backend.url);
+          newConfig.backend.apiUrl = ensureHttps(newConfig.backend.apiUrl);
         }
+        setConfig(newConfig);
+        await AsyncStorage.setItem(CONFIG_STORAGE_KEY, JSON.stringify(newConfig));
       }
     } catch (err) {
       console.log('Could not fetch config from backend:', err);
@@ -256,18 +272,13 @@ export function ConfigProvider({ children }: { children: ReactNode }) {
 
     try {
       const secureUrl = ensureHttps(url);
-      const response = await fetch(`${secureUrl}/api/v1/config`);
-
-      if (!response.ok) {
-        throw new Error('Failed to load config from URL');
-      }
-
-      const data = await response.json();
+      const response = await requestConfig(secureUrl);
+      const configData = response.data || response.config;
 
-      if (data.success && data.config) {
+      if (configData) {
         const newConfig: AppConfig = {
           ...DEFAULT_CONFIG,
-          ...data.config,
+          ...configData,
           backend: {
             ...DEFAULT_BACKEND,
             url: secureUrl,
@@ -0,0 +1,144 @@
+/**
+ * BUS-Tickets - Currency Context
+ * Copyright (c) 2024-2026 IT Enterprise
+ */
+
+import React, { createContext, useContext, useState, useEffect, useCallback, useMemo, ReactNode } from 'react';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import type { Currency, ExchangeRates } from '@/types';
+import { SUPPORTED_CURRENCIES, DEFAULT_CURRENCY } from '@/config/environment';
+import { currencyService, AmountConverter } from '@/services/CurrencyService';
+import { useConfig } from './ConfigContext';
+import { useLocale } from './LocaleContext';
+
+interface Money {
+  amount: number;
+  currency: string;
+}
+
+interface CurrencyContextType {
+  displayCurrency: Currency;
+  setDisplayCurrency: (currency: Currency) => void;
+  availableCurrencies: Currency[];
+  rates: ExchangeRates | null;
+  /**
+   * Rates are older than a day, e.g. after a long time offline
+   */
+  isStale: boolean;
+  /**
+   * `price` in the display currency; null when it can't be converted
+   */
+  convertPrice: (price: Money) => Money | null;
+  /**
+   * Amounts between any two currencies the rates cover
+   */
+  convertAmount: AmountConverter;
+  /**
+   * Price in the display currency, marked "≈" when converted; falls back
+   * to the price as sold
+   */
+  formatDisplayPrice: (price: Money) => string;
+}
+
+const CurrencyContext = createContext<CurrencyContextType | undefined>(undefined);
+
+const DISPLAY_CURRENCY_STORAGE_KEY = '@bus_tickets_display_currency';
+const AVAILABLE_CURRENCIES: Currency[] = [...SUPPORTED_CURRENCIES];
+
+function isCurrency(value: string | null | undefined): value is Currency {
+  return !!value && AVAILABLE_CURRENCIES.includes(value as Currency);
+}
+
+export function CurrencyProvider({ children }: { children: ReactNode }) {
+  const { config } = useConfig();
+  const { formatCurrency } = useLocale();
+  const [savedCurrency, setSavedCurrency] = useState<Currency | null>(null);
+  const [rates, setRates] = useState<ExchangeRates | null>(null);
+
+  useEffect(() => {
+    AsyncStorage.getItem(DISPLAY_CURRENCY_STORAGE_KEY)
+      .then((stored) => {
+        if (isCurrency(stored)) setSavedCurrency(stored);
+      })
+      .catch((error) => console.error('Error loading display currency:', error));
+  }, []);
+
+  // Prefer whichever is newer: rates from the config just loaded, or the
+  // ones cached by an earlier run
+  useEffect(() => {
+    let cancelled = false;
+    const configRates = config.exchangeRates ?? null;
+
+    currencyService.getCachedRates().then((cached) => {
+      const newest = currencyService.newest(cached, configRates);
+      if (cancelled) return;
+      setRates(newest);
+      if (newest && newest !== cached) currencyService.saveRates(newest);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [config.exchangeRates?.updatedAt]);
+
+  const configCurrency = (config as { defaultCurrency?: string }).defaultCurrency;
+  const displayCurrency: Currency =
+    savedCurrency ?? (isCurrency(configCurrency) ? configCurrency : DEFAULT_CURRENCY);
+
+  const setDisplayCurrency = useCallback(async (currency: Currency) => {
+    try {
+      await AsyncStorage.setItem(DISPLAY_CURRENCY_STORAGE_KEY, currency);
+      setSavedCurrency(currency);
+    } catch (error) {
+      console.error('Error saving display currency:', error);
+    }
+  }, []);
+
+  const convertPrice = useCallback(
+    (price: Money): Money | null => {
+      if (price.currency === displayCurrency) return price;
+      if (!rates || !isCurrency(price.currency)) return null;
+
+      const amount = currencyService.convert(price.amount, price.currency, displayCurrency, rates);
+      return amount === null ? null : { amount, currency: displayCurrency };
+    },
+    [rates, displayCurrency]
+  );
+
+  const convertAmount = useMemo(() => currencyService.converter(rates), [rates]);
+
+  const formatDisplayPrice = useCallback(
+    (price: Money): string => {
+      const converted = convertPrice(price);
+      if (!converted) return formatCurrency(price.amount, price.currency);
+      const formatted = formatCurrency(converted.amount, converted.currency);
+      return converted.currency === price.currency ? formatted : `≈ ${formatted}`;
+    },
+    [convertPrice, formatCurrency]
+  );
+
+  return (
+    <CurrencyContext.Provider
+      value={{
+        displayCurrency,
+        setDisplayCurrency,
+        availableCurrencies: AVAILABLE_CURRENCIES,
+        rates,
+        isStale: rates ? currencyService.isStale(rates) : false,
+        convertPrice,
+        convertAmount,
+        formatDisplayPrice,
+      }}
+    >
+      {children}
+    </CurrencyContext.Provider>
+  );
+}
+
+export function useCurrency() {
+  const context = useContext(CurrencyContext);
+  if (context === undefined) {
+    throw new Error('useCurrency must be used within a CurrencyProvider');
+  }
+  return context;
+}
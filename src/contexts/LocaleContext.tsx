@@ -13,6 +13,7 @@ import {
   languageNames,
   languageFlags,
 } from '@/i18n/translations';
+import { formatMoney } from '@/utils/formatting';
 
 interface LocaleContextType {
   locale: SupportedLanguage;
@@ -49,15 +50,6 @@ const dateLocaleMap: Record<SupportedLanguage, string> = {
   uk: 'uk-UA',
 };
 
-// Currency symbols
-const currencySymbols: Record<string, string> = {
-  CZK: 'Kč',
-  UAH: '₴',
-  EUR: '€',
-  USD: '$',
-  GBP: '£',
-};
-
 export function LocaleProvider({ children }: { children: ReactNode }) {
   const [locale, setLocaleState] = useState<SupportedLanguage>('cs');
   const [isLoading, setIsLoading] = useState(true);
@@ -122,17 +114,7 @@ export function LocaleProvider({ children }: { children: ReactNode }) {
   }, [locale]);
 
   const formatCurrency = useCallback((amount: number, currency: string = 'CZK'): string => {
-    const symbol = currencySymbols[currency] || currency;
-    const formatted = amount.toLocaleString(dateLocaleMap[locale], {
-      minimumFractionDigits: 0,
-      maximumFractionDigits: 2,
-    });
-
-    // CZK and UAH typically have symbol after the number
-    if (currency === 'CZK' || currency === 'UAH') {
-      return `${formatted} ${symbol}`;
-    }
-    return `${symbol}${formatted}`;
+    return formatMoney(amount, currency, dateLocaleMap[locale]);
   }, [locale]);
 
   const formatNumber = useCallback((num: number): string => {
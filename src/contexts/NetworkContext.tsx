@@ -11,6 +11,7 @@ const isWeb = Platform.OS === 'web';
 let Network: typeof import('expo-network') | null = null;
 let syncService: typeof import('../services/SyncService').syncService | null = null;
 let database: typeof import('../db/database').database | null = null;
+type SyncConflict = import('../services/SyncService').SyncConflict;
 
 if (!isWeb) {
   Network = require('expo-network');
@@ -23,6 +24,8 @@ type SyncState = {
   status: 'idle' | 'syncing' | 'success' | 'error' | 'offline';
   lastSyncTime: number | null;
   pendingActions: number;
+  failedActions: number;
+  conflicts: SyncConflict[];
   error: string | null;
 };
 
@@ -32,6 +35,7 @@ interface NetworkContextType {
   syncState: SyncState;
   sync: () => Promise<boolean>;
   forceSync: () => Promise<boolean>;
+  dismissConflicts: () => void;
 }
 
 const NetworkContext = createContext<NetworkContextType | undefined>(undefined);
@@ -45,6 +49,8 @@ const defaultSyncState: SyncState = {
   status: 'idle',
   lastSyncTime: null,
   pendingActions: 0,
+  failedActions: 0,
+  conflicts: [],
   error: null,
 };
 
@@ -105,7 +111,7 @@ export function NetworkProvider({ children, apiUrl }: NetworkProviderProps) {
       await database?.initialize();
 
       // Initialize sync service (native only)
-      await syncService?.initialize(apiUrl);
+      await syncService?.initialize();
 
       // Check initial network state
       await checkNetwork();
@@ -147,6 +153,10 @@ export function NetworkProvider({ children, apiUrl }: NetworkProviderProps) {
     return syncService?.sync({ forceSync: true }) ?? true;
   };
 
+  const dismissConflicts = () => {
+    syncService?.dismissConflicts();
+  };
+
   return (
     <NetworkContext.Provider
       value={{
@@ -155,6 +165,7 @@ export function NetworkProvider({ children, apiUrl }: NetworkProviderProps) {
         syncState,
         sync,
         forceSync,
+        dismissConflicts,
       }}
     >
       {children}
@@ -6,7 +6,14 @@
 
 import React, { createContext, useContext, useState, useEffect, useCallback, ReactNode } from 'react';
 import AsyncStorage from '@react-native-async-storage/async-storage';
-import { Platform } from 'react-native';
+import { httpClient, RequestOptions } from '@/services/HttpClient';
+import { HttpError, NetworkError, getErrorMessage } from '@/services/errors';
+import { decodeTripList } from '@/services/decoders';
+import { findConnections, Connection } from '@/utils/connections';
+import { dedupeTrips } from '@/utils/tripDedup';
+import { summarizeDay, CalendarDay } from '@/utils/priceCalendar';
+import type { Route, Trip } from '@/types';
+import { useCurrency } from './CurrencyContext';
 
 // Bus operator/provider interface
 export interface BusProvider {
@@ -29,6 +36,11 @@ export interface BusProvider {
   supportsOnlinePayment: boolean;
   supportsSeatSelection: boolean;
   supportsRefunds: boolean;
+  /**
+   * How long a search waits for this provider, in ms (default 10 s); a slow
+   * provider is left out rather than holding up everyone's results
+   */
+  searchTimeout?: number;
   // Connection status
   isConnected: boolean;
   lastSyncAt?: string;
@@ -43,12 +55,7 @@ export interface TripWithProvider {
   providerLogo?: string;
   providerColor?: string;
   // Trip details
-  route: {
-    id?: number;
-    name?: string;
-    origin: { id: number; name: string; city?: string };
-    destination: { id: number; name: string; city?: string };
-  };
+  route: Route;
   departure: string;
   arrival: string;
   duration: number;
@@ -56,6 +63,18 @@ export interface TripWithProvider {
     amount: number;
     currency: string;
   };
+  /**
+   * `price` converted to the user's display currency, for showing and
+   * comparing trips sold in different currencies; bookings still charge `price`
+   */
+  displayPrice?: {
+    amount: number;
+    currency: string;
+  };
+  /**
+   * Other providers selling this same departure (see utils/tripDedup)
+   */
+  alsoSoldBy?: Array<{ providerId: string; providerName: string }>;
   availableSeats: number;
   bus?: {
     id?: number;
@@ -70,6 +89,35 @@ export interface TripWithProvider {
   };
 }
 
+export type ProviderSearchState = 'ok' | 'error' | 'timeout' | 'skipped';
+
+/**
+ * How one provider fared in a search
+ */
+export interface ProviderSearchStatus {
+  providerId: string;
+  providerName: string;
+  state: ProviderSearchState;
+  /**
+   * Time to answer or fail, in ms; absent when skipped
+   */
+  latencyMs?: number;
+  tripCount: number;
+  error?: string;
+  /**
+   * Skipped because another provider uses the same backend
+   */
+  duplicateOf?: string;
+}
+
+/**
+ * Trips from every provider that answered, with the status of each
+ */
+export interface TripSearchResult {
+  trips: TripWithProvider[];
+  statuses: ProviderSearchStatus[];
+}
+
 interface ProvidersContextType {
   providers: BusProvider[];
   activeProviders: BusProvider[];
@@ -88,30 +136,170 @@ interface ProvidersContextType {
   syncAllProviders: () => Promise<void>;
 
   // Search across providers
-  searchTrips: (params: SearchParams) => Promise<TripWithProvider[]>;
+  searchTrips: (params: SearchParams) => Promise<TripSearchResult>;
+  searchConnections: (params: ConnectionSearchParams) => Promise<Connection[]>;
+  searchPriceCalendar: (params: PriceCalendarParams) => Promise<CalendarDay[]>;
 
   // Get provider by ID
   getProvider: (id: string) => BusProvider | undefined;
 }
 
+/**
+ * Stations are searched by name: location IDs differ between providers
+ */
 interface SearchParams {
-  originId: number;
-  destinationId: number;
+  origin: string;
+  destination: string;
   date: string;
   passengers: number;
 }
 
+interface ConnectionSearchParams {
+  origin: string;
+  destination: string;
+  date: string;
+  passengers: number;
+  minTransferMinutes?: number;
+}
+
+interface PriceCalendarParams {
+  origin: string;
+  destination: string;
+  /**
+   * `YYYY-MM-DD`
+   */
+  dates: string[];
+  passengers: number;
+}
+
+/**
+ * Days searched at once when building a price calendar
+ */
+const CALENDAR_BATCH_DAYS = 7;
+
+const PROVIDER_SEARCH_TIMEOUT = 10000;
+
 const ProvidersContext = createContext<ProvidersContextType | undefined>(undefined);
 
 const PROVIDERS_STORAGE_KEY = '@bus_tickets_providers';
 
-// Ensure HTTPS for web platform
-function ensureHttps(url: string): string {
-  if (!url) return url;
-  if (Platform.OS === 'web' && url.startsWith('http://')) {
-    return url.replace('http://', 'https://');
+/**
+ * Tag a decoded trip with the provider it came from
+ */
+export function toTripWithProvider(trip: Trip, provider: BusProvider): TripWithProvider {
+  return {
+    id: trip.id,
+    providerId: provider.id,
+    providerName: provider.displayName,
+    providerLogo: provider.logoUrl,
+    providerColor: provider.primaryColor,
+    route: trip.route,
+    departure: trip.departureTime,
+    arrival: trip.arrivalTime,
+    duration: Math.round(
+      (new Date(trip.arrivalTime).getTime() - new Date(trip.departureTime).getTime()) / 60000
+    ),
+    price: trip.price,
+    availableSeats: trip.availableSeats,
+    bus: trip.bus,
+  };
+}
+
+/**
+ * Providers are called directly on their own host with their API key,
+ * not with the user's backend session
+ */
+export function providerRequestOptions(provider: BusProvider): RequestOptions {
+  return {
+    baseUrl: provider.apiUrl,
+    auth: false,
+    headers: provider.apiKey ? { 'X-API-Key': provider.apiKey } : {},
+  };
+}
+
+/**
+ * Search one provider, timing it; failures are reported in the status
+ * rather than thrown
+ */
+async function searchProvider(
+  provider: BusProvider,
+  query: Record<string, string | number | undefined>
+): Promise<{ trips: TripWithProvider[]; status: ProviderSearchStatus }> {
+  const startedAt = Date.now();
+  const status = (state: ProviderSearchState, tripCount: number, error?: string) => ({
+    providerId: provider.id,
+    providerName: provider.displayName,
+    state,
+    latencyMs: Date.now() - startedAt,
+    tripCount,
+    error,
+  });
+
+  try {
+    const data = await httpClient.get<unknown>('/api/v1/trips/search', {
+      ...providerRequestOptions(provider),
+      query,
+      timeout: provider.searchTimeout ?? PROVIDER_SEARCH_TIMEOUT,
+    });
+    const trips = decodeTripList(data).map((trip) => toTripWithProvider(trip, provider));
+    return { trips, status: status('ok', trips.length) };
+  } catch (error) {
+    console.error(`Error searching provider ${provider.name}:`, error);
+    const timedOut = error instanceof NetworkError && error.timedOut;
+    return {
+      trips: [],
+      status: status(timedOut ? 'timeout' : 'error', 0, getErrorMessage(error, 'Search failed')),
+    };
   }
-  return url;
+}
+
+/**
+ * One provider's trips for `query`; a failing provider yields no trips
+ */
+async function searchProviderTrips(
+  provider: BusProvider,
+  query: Record<string, string | number | undefined>
+): Promise<TripWithProvider[]> {
+  return (await searchProvider(provider, query)).trips;
+}
+
+function endpointKey(provider: BusProvider): string {
+  return provider.apiUrl.trim().replace(/\/+$/, '').toLowerCase();
+}
+
+/**
+ * Providers worth searching: of several entries pointing at the same
+ * backend only the first is, the rest would return the same trips
+ */
+function uniqueEndpoints(providers: BusProvider[]): {
+  searched: BusProvider[];
+  skipped: ProviderSearchStatus[];
+} {
+  const byEndpoint = new Map<string, BusProvider>();
+  const skipped: ProviderSearchStatus[] = [];
+
+  for (const provider of providers) {
+    const first = byEndpoint.get(endpointKey(provider));
+    if (first) {
+      skipped.push({
+        providerId: provider.id,
+        providerName: provider.displayName,
+        state: 'skipped',
+        tripCount: 0,
+        duplicateOf: first.displayName,
+      });
+    } else {
+      byEndpoint.set(endpointKey(provider), provider);
+    }
+  }
+
+  return { searched: Array.from(byEndpoint.values()), skipped };
+}
+
+function addDays(date: string, days: number): string {
+  const next = new Date(`${date}T00:00:00Z`);
+  next.setUTCDate(next.getUTCDate() + days);
+  return next.toISOString().split('T')[0];
 }
 
 // Default providers (can be customized per installation)
@@ -136,6 +324,7 @@ const defaultProviders: BusProvider[] = [
 export function ProvidersProvider({ children }: { children: ReactNode }) {
   const [providers, setProviders] = useState<BusProvider[]>(defaultProviders);
   const [isLoading, setIsLoading] = useState(true);
+  const { convertPrice, convertAmount } = useCurrency();
 
   // Load providers on mount
   useEffect(() => {
@@ -209,31 +398,19 @@ export function ProvidersProvider({ children }: { children: ReactNode }) {
 
   const testConnection = useCallback(async (provider: BusProvider): Promise<boolean> => {
     try {
-      const url = ensureHttps(`${provider.apiUrl}/api/v1/config`);
-      const response = await fetch(url, {
-        method: 'GET',
-        headers: {
-          'Content-Type': 'application/json',
-          ...(provider.apiKey ? { 'X-API-Key': provider.apiKey } : {}),
-        },
-      });
+      await httpClient.get('/api/v1/config', providerRequestOptions(provider));
 
-      if (response.ok) {
-        await updateProvider(provider.id, {
-          isConnected: true,
-          lastSyncAt: new Date().toISOString(),
-          errorMessage: undefined,
-        });
-        return true;
-      } else {
-        await updateProvider(provider.id, {
-          isConnected: false,
-          errorMessage: `HTTP ${response.status}: ${response.statusText}`,
-        });
-        return false;
-      }
+      await updateProvider(provider.id, {
+        isConnected: true,
+        lastSyncAt: new Date().toISOString(),
+        errorMessage: undefined,
+      });
+      return true;
     } catch (error) {
-      const message = error instanceof Error ? error.message : 'Connection failed';
+      const message =
+        error instanceof HttpError && error.status > 0
+          ? `HTTP ${error.status}: ${error.message}`
+          : getErrorMessage(error, 'Connection failed');
       await updateProvider(provider.id, {
         isConnected: false,
         errorMessage: message,
@@ -254,69 +431,112 @@ export function ProvidersProvider({ children }: { children: ReactNode }) {
     await Promise.all(activeProviders.map(p => testConnection(p)));
   }, [providers, testConnection]);
 
-  const searchTrips = useCallback(async (params: SearchParams): Promise<TripWithProvider[]> => {
-    const activeProviders = providers.filter(p => p.enabled);
-    const allTrips: TripWithProvider[] = [];
-
-    // Search all active providers in parallel
-    const results = await Promise.allSettled(
-      activeProviders.map(async (provider) => {
-        try {
-          const url = ensureHttps(
-            `${provider.apiUrl}/api/v1/trips/search?` +
-            `origin_id=${params.originId}&` +
-            `destination_id=${params.destinationId}&` +
-            `date=${params.date}&` +
-            `passengers=${params.passengers}`
-          );
-
-          const response = await fetch(url, {
-            headers: {
-              'Content-Type': 'application/json',
-              ...(provider.apiKey ? { 'X-API-Key': provider.apiKey } : {}),
-            },
-          });
-
-          if (!response.ok) {
-            console.warn(`Provider ${provider.name} returned ${response.status}`);
-            return [];
-          }
-
-          const data = await response.json();
-
-          if (data.success && data.data?.trips) {
-            return data.data.trips.map((trip: any) => ({
-              ...trip,
-              providerId: provider.id,
-              providerName: provider.displayName,
-              providerLogo: provider.logoUrl,
-              providerColor: provider.primaryColor,
-            }));
-          }
-
-          return [];
-        } catch (error) {
-          console.error(`Error searching provider ${provider.name}:`, error);
-          return [];
-        }
-      })
+  const searchTrips = useCallback(async (params: SearchParams): Promise<TripSearchResult> => {
+    const { searched, skipped } = uniqueEndpoints(providers.filter(p => p.enabled));
+
+    // Search all active providers in parallel, each within its own timeout
+    const results = await Promise.all(
+      searched.map((provider) =>
+        searchProvider(provider, {
+          origin: params.origin || undefined,
+          destination: params.destination || undefined,
+          date: params.date || undefined,
+          passengers: params.passengers,
+        })
+      )
     );
 
-    // Collect all successful results
-    results.forEach((result) => {
-      if (result.status === 'fulfilled' && Array.isArray(result.value)) {
-        allTrips.push(...result.value);
-      }
-    });
+    const allTrips = dedupeTrips(results.flatMap((result) => result.trips));
 
     // Sort by departure time
     allTrips.sort((a, b) =>
       new Date(a.departure).getTime() - new Date(b.departure).getTime()
     );
 
-    return allTrips;
+    return {
+      trips: allTrips,
+      statuses: [...results.map((result) => result.status), ...skipped],
+    };
   }, [providers]);
 
+  /**
+   * Journeys with one change, legs possibly on different providers. The
+   * second leg may leave the next day, as long-distance first legs often
+   * arrive overnight.
+   */
+  const searchConnections = useCallback(
+    async (params: ConnectionSearchParams): Promise<Connection[]> => {
+      const { searched } = uniqueEndpoints(providers.filter(p => p.enabled));
+      const search = (query: Record<string, string | number>) =>
+        Promise.all(searched.map((provider) => searchProviderTrips(provider, query)))
+          .then((results) => dedupeTrips(results.flat()));
+
+      const [firstLegs, secondLegs, nextDaySecondLegs] = await Promise.all([
+        search({ origin: params.origin, date: params.date, passengers: params.passengers }),
+        search({
+          destination: params.destination,
+          date: params.date,
+          passengers: params.passengers,
+        }),
+        search({
+          destination: params.destination,
+          date: addDays(params.date, 1),
+          passengers: params.passengers,
+        }),
+      ]);
+
+      // Legs without enough free seats for everyone can't be booked
+      const bookable = (trip: TripWithProvider) => trip.availableSeats >= params.passengers;
+      return findConnections(
+        firstLegs.filter(bookable),
+        [...secondLegs, ...nextDaySecondLegs].filter(bookable),
+        { minTransferMinutes: params.minTransferMinutes, convert: convertAmount }
+      );
+    },
+    [providers, convertAmount]
+  );
+
+  /**
+   * Lowest price and free seats per day across all active providers,
+   * priced in the display currency
+   */
+  const searchPriceCalendar = useCallback(
+    async (params: PriceCalendarParams): Promise<CalendarDay[]> => {
+      const { searched } = uniqueEndpoints(providers.filter(p => p.enabled));
+      const days: CalendarDay[] = [];
+
+      // A week at a time, so a whole month doesn't fire every request at once
+      for (let i = 0; i < params.dates.length; i += CALENDAR_BATCH_DAYS) {
+        const batch = params.dates.slice(i, i + CALENDAR_BATCH_DAYS);
+        days.push(
+          ...(await Promise.all(
+            batch.map(async (date) => {
+              const results = await Promise.all(
+                searched.map((provider) =>
+                  searchProviderTrips(provider, {
+                    origin: params.origin,
+                    destination: params.destination,
+                    date,
+                    passengers: params.passengers,
+                  })
+                )
+              );
+              return summarizeDay(
+                date,
+                dedupeTrips(results.flat()),
+                params.passengers,
+                convertPrice
+              );
+            })
+          ))
+        );
+      }
+
+      return days;
+    },
+    [providers, convertPrice]
+  );
+
   const getProvider = useCallback((id: string): BusProvider | undefined => {
     return providers.find(p => p.id === id);
   }, [providers]);
@@ -338,6 +558,8 @@ export function ProvidersProvider({ children }: { children: ReactNode }) {
         syncProvider,
         syncAllProviders,
         searchTrips,
+        searchConnections,
+        searchPriceCalendar,
         getProvider,
       }}
     >
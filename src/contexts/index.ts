@@ -9,5 +9,12 @@ export { ConfigProvider, useConfig } from './ConfigContext';
 export { NetworkProvider, useNetwork } from './NetworkContext';
 export { ApiProvider, useApi } from './ApiContext';
 export { LocaleProvider, useLocale, useTranslations } from './LocaleContext';
+export { CurrencyProvider, useCurrency } from './CurrencyContext';
 export { ProvidersProvider, useProviders } from './ProvidersContext';
-export type { BusProvider, TripWithProvider } from './ProvidersContext';
+export type {
+  BusProvider,
+  TripWithProvider,
+  ProviderSearchState,
+  ProviderSearchStatus,
+  TripSearchResult,
+} from './ProvidersContext';
@@ -3,7 +3,10 @@
  * Copyright (c) 2024-2026 IT Enterprise
  */
 
+import * as Crypto from 'expo-crypto';
 import { database } from './database';
+import { OFFLINE_QUEUE_TABLE } from './schema';
+import type { StorageQueries } from './engines';
 
 export type ActionType =
   | 'CREATE_BOOKING'
@@ -13,6 +16,12 @@ export type ActionType =
 
 export type EntityType = 'ticket' | 'booking' | 'user';
 
+/**
+ * `dead` actions failed permanently or ran out of retries and wait
+ * for the user to retry or discard them
+ */
+export type QueueStatus = 'pending' | 'dead';
+
 export interface QueuedAction {
   id: number;
   action_type: ActionType;
@@ -22,13 +31,34 @@ export interface QueuedAction {
   created_at: number;
   retry_count: number;
   last_error: string | null;
+  /**
+   * Client-generated key sent with every replay so the server applies the action once
+   */
+  idempotency_key: string | null;
+  status: QueueStatus;
+  /**
+   * Earliest time (ms) the action may be replayed again
+   */
+  next_attempt_at: number;
 }
 
 export interface ActionPayload {
   [key: string]: unknown;
 }
 
-const MAX_RETRIES = 3;
+const MAX_RETRIES = 6;
+const BASE_RETRY_DELAY = 5 * 1000;
+const MAX_RETRY_DELAY = 60 * 60 * 1000;
+const TABLE = OFFLINE_QUEUE_TABLE;
+
+/**
+ * Exponential backoff with jitter, so devices coming back online
+ * together don't replay in lockstep
+ */
+function getRetryDelay(retryCount: number): number {
+  const delay = Math.min(MAX_RETRY_DELAY, BASE_RETRY_DELAY * 2 ** retryCount);
+  return Math.round(delay / 2 + Math.random() * (delay / 2));
+}
 
 class OfflineQueue {
   /**
@@ -42,29 +72,83 @@ class OfflineQueue {
   ): Promise<number> {
     const db = await database.getDb();
 
-    const result = await db.runAsync(
-      `INSERT INTO offline_queue (
-        action_type, entity_type, entity_id, payload, created_at, retry_count
-      ) VALUES (?, ?, ?, ?, ?, 0)`,
-      [actionType, entityType, entityId, JSON.stringify(payload), Date.now()]
-    );
+    const actionId = await db.insert(TABLE, {
+      action_type: actionType,
+      entity_type: entityType,
+      entity_id: entityId,
+      payload: JSON.stringify(payload),
+      created_at: Date.now(),
+      retry_count: 0,
+      last_error: null,
+      idempotency_key: Crypto.randomUUID(),
+      status: 'pending',
+      next_attempt_at: 0,
+    });
 
     console.log(`Action queued: ${actionType} for ${entityType}:${entityId}`);
-    return result.lastInsertRowId;
+    return actionId;
   }
 
   /**
-   * Get all pending actions
+   * Get all pending actions, including ones waiting for their next attempt
    */
   async getPendingActions(): Promise<QueuedAction[]> {
     const db = await database.getDb();
 
-    return db.getAllAsync<QueuedAction>(
-      `SELECT * FROM offline_queue
-       WHERE retry_count < ?
-       ORDER BY created_at ASC`,
-      [MAX_RETRIES]
-    );
+    return db.select<QueuedAction>(TABLE, {
+      where: { status: 'pending' },
+      orderBy: [{ column: 'created_at' }, { column: 'id' }],
+    });
+  }
+
+  /**
+   * Get every queued action, pending and dead-lettered
+   */
+  async getAllActions(): Promise<QueuedAction[]> {
+    const db = await database.getDb();
+
+    return db.select<QueuedAction>(TABLE, {
+      orderBy: [{ column: 'created_at' }, { column: 'id' }],
+    });
+  }
+
+  /**
+   * Get pending actions whose backoff has elapsed
+   */
+  async getDueActions(now: number = Date.now()): Promise<QueuedAction[]> {
+    const db = await database.getDb();
+
+    return db.select<QueuedAction>(TABLE, {
+      where: { status: 'pending', next_attempt_at: { lte: now } },
+      orderBy: [{ column: 'created_at' }, { column: 'id' }],
+    });
+  }
+
+  /**
+   * Get the earliest scheduled retry time, or null if nothing is waiting
+   */
+  async getNextAttemptTime(): Promise<number | null> {
+    const db = await database.getDb();
+    const next = await db.first<QueuedAction>(TABLE, {
+      where: { status: 'pending' },
+      orderBy: [{ column: 'next_attempt_at' }],
+    });
+    return next?.next_attempt_at ?? null;
+  }
+
+  /**
+   * Get the idempotency key of an action, assigning one to actions
+   * queued before keys existed
+   */
+  async getIdempotencyKey(action: QueuedAction): Promise<string> {
+    if (action.idempotency_key) {
+      return action.idempotency_key;
+    }
+
+    const db = await database.getDb();
+    const key = Crypto.randomUUID();
+    await db.update(TABLE, { id: action.id }, { idempotency_key: key });
+    return key;
   }
 
   /**
@@ -72,11 +156,15 @@ class OfflineQueue {
    */
   async getPendingCount(): Promise<number> {
     const db = await database.getDb();
-    const result = await db.getFirstAsync<{ count: number }>(
-      'SELECT COUNT(*) as count FROM offline_queue WHERE retry_count < ?',
-      [MAX_RETRIES]
-    );
-    return result?.count || 0;
+    return db.count(TABLE, { status: 'pending' });
+  }
+
+  /**
+   * Get dead-lettered action count
+   */
+  async getFailedCount(): Promise<number> {
+    const db = await database.getDb();
+    return db.count(TABLE, { status: 'dead' });
   }
 
   /**
@@ -84,59 +172,89 @@ class OfflineQueue {
    */
   async complete(actionId: number): Promise<void> {
     const db = await database.getDb();
-    await db.runAsync('DELETE FROM offline_queue WHERE id = ?', [actionId]);
+    await db.delete(TABLE, { id: actionId });
     console.log(`Action completed: ${actionId}`);
   }
 
   /**
-   * Mark action as failed (increment retry count)
+   * Mark action as failed. Transient failures are rescheduled with
+   * backoff until MAX_RETRIES; permanent ones are dead-lettered at once.
    */
-  async fail(actionId: number, error: string): Promise<void> {
+  async fail(actionId: number, error: string, permanent: boolean = false): Promise<void> {
     const db = await database.getDb();
-    await db.runAsync(
-      `UPDATE offline_queue
-       SET retry_count = retry_count + 1, last_error = ?
-       WHERE id = ?`,
-      [error, actionId]
+    const action = await db.first<QueuedAction>(TABLE, { where: { id: actionId } });
+    if (!action) return;
+
+    const retryCount = action.retry_count + 1;
+
+    if (permanent || retryCount >= MAX_RETRIES) {
+      await db.update(
+        TABLE,
+        { id: actionId },
+        { retry_count: retryCount, last_error: error, status: 'dead' }
+      );
+      console.log(`Action dead-lettered: ${actionId} - ${error}`);
+      return;
+    }
+
+    const nextAttemptAt = Date.now() + getRetryDelay(action.retry_count);
+    await db.update(
+      TABLE,
+      { id: actionId },
+      { retry_count: retryCount, last_error: error, next_attempt_at: nextAttemptAt }
     );
-    console.log(`Action failed: ${actionId} - ${error}`);
+    console.log(`Action failed: ${actionId} - ${error}, retrying at ${new Date(nextAttemptAt).toISOString()}`);
   }
 
   /**
-   * Get failed actions (exceeded max retries)
+   * Get dead-lettered actions
    */
   async getFailedActions(): Promise<QueuedAction[]> {
     const db = await database.getDb();
 
-    return db.getAllAsync<QueuedAction>(
-      `SELECT * FROM offline_queue
-       WHERE retry_count >= ?
-       ORDER BY created_at ASC`,
-      [MAX_RETRIES]
-    );
+    return db.select<QueuedAction>(TABLE, {
+      where: { status: 'dead' },
+      orderBy: [{ column: 'created_at' }, { column: 'id' }],
+    });
   }
 
   /**
-   * Retry failed action
+   * Move a dead-lettered action back to the queue for an immediate attempt
    */
   async retry(actionId: number): Promise<void> {
     const db = await database.getDb();
-    await db.runAsync(
-      `UPDATE offline_queue
-       SET retry_count = 0, last_error = NULL
-       WHERE id = ?`,
-      [actionId]
+    await db.update(
+      TABLE,
+      { id: actionId },
+      { status: 'pending', retry_count: 0, next_attempt_at: 0, last_error: null }
     );
   }
 
   /**
-   * Clear all completed actions
+   * Remove an action that no longer applies, whatever its state.
+   * Pass `tx` to remove it as part of that transaction.
+   */
+  async remove(actionId: number, tx?: StorageQueries): Promise<void> {
+    const db = tx ?? (await database.getDb());
+    await db.delete(TABLE, { id: actionId });
+    console.log(`Action removed: ${actionId}`);
+  }
+
+  /**
+   * Remove a dead-lettered action without replaying it
    */
-  async clearCompleted(): Promise<void> {
+  async discard(actionId: number): Promise<void> {
     const db = await database.getDb();
-    await db.runAsync('DELETE FROM offline_queue WHERE retry_count >= ?', [
-      MAX_RETRIES,
-    ]);
+    await db.delete(TABLE, { id: actionId, status: 'dead' });
+    console.log(`Action discarded: ${actionId}`);
+  }
+
+  /**
+   * Remove all dead-lettered actions
+   */
+  async clearFailed(): Promise<void> {
+    const db = await database.getDb();
+    await db.delete(TABLE, { status: 'dead' });
   }
 
   /**
@@ -144,7 +262,7 @@ class OfflineQueue {
    */
   async clearAll(): Promise<void> {
     const db = await database.getDb();
-    await db.runAsync('DELETE FROM offline_queue');
+    await db.delete(TABLE);
   }
 
   /**
@@ -152,10 +270,7 @@ class OfflineQueue {
    */
   async getAction(actionId: number): Promise<QueuedAction | null> {
     const db = await database.getDb();
-    return db.getFirstAsync<QueuedAction>(
-      'SELECT * FROM offline_queue WHERE id = ?',
-      [actionId]
-    );
+    return db.first<QueuedAction>(TABLE, { where: { id: actionId } });
   }
 }
 
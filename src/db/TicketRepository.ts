@@ -4,7 +4,12 @@
  */
 
 import { database } from './database';
-import type { Ticket, Trip, Currency } from '@/types';
+import { TICKETS_TABLE, TRIPS_TABLE } from './schema';
+import type { StorageQueries, Where } from './engines';
+import type { Ticket, Trip, Currency, PassengerInfo } from '@/types';
+
+const TICKETS = TICKETS_TABLE;
+const TRIPS = TRIPS_TABLE;
 
 export interface CachedTicket {
   id: number;
@@ -13,6 +18,8 @@ export interface CachedTicket {
   passenger_name: string;
   passenger_email: string;
   passenger_phone: string;
+  passenger_document_type: string | null;
+  passenger_document_number: string | null;
   seat: number | null;
   price_amount: number;
   price_currency: string;
@@ -27,12 +34,15 @@ export interface CachedTrip {
   id: number;
   route_id: number;
   route_name: string;
+  origin_id: number | null;
   origin_city: string;
   origin_country: string;
+  destination_id: number | null;
   destination_city: string;
   destination_country: string;
   departure_time: string;
   arrival_time: string;
+  bus_id: number | null;
   bus_name: string;
   bus_plate: string;
   bus_capacity: number;
@@ -51,46 +61,15 @@ class TicketRepository {
    */
   async saveTrip(trip: Trip): Promise<void> {
     const db = await database.getDb();
-
-    await db.runAsync(
-      `INSERT OR REPLACE INTO trips (
-        id, route_id, route_name, origin_city, origin_country,
-        destination_city, destination_country, departure_time, arrival_time,
-        bus_name, bus_plate, bus_capacity, bus_amenities,
-        available_seats, total_seats, price_amount, price_currency,
-        status, synced_at
-      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
-      [
-        trip.id,
-        trip.route.id,
-        trip.route.name,
-        trip.route.origin.city,
-        trip.route.origin.country,
-        trip.route.destination.city,
-        trip.route.destination.country,
-        trip.departureTime,
-        trip.arrivalTime,
-        trip.bus.name,
-        trip.bus.plateNumber,
-        trip.bus.capacity,
-        JSON.stringify(trip.bus.amenities),
-        trip.availableSeats,
-        trip.totalSeats,
-        trip.price.amount,
-        trip.price.currency,
-        trip.status,
-        Date.now(),
-      ]
-    );
+    await db.upsert(TRIPS, [this.toTripRow(trip)]);
   }
 
   /**
    * Save multiple trips
    */
   async saveTrips(trips: Trip[]): Promise<void> {
-    for (const trip of trips) {
-      await this.saveTrip(trip);
-    }
+    const db = await database.getDb();
+    await db.upsert(TRIPS, trips.map((trip) => this.toTripRow(trip)));
   }
 
   /**
@@ -98,10 +77,7 @@ class TicketRepository {
    */
   async getTrip(id: number): Promise<Trip | null> {
     const db = await database.getDb();
-    const row = await db.getFirstAsync<CachedTrip>(
-      'SELECT * FROM trips WHERE id = ?',
-      [id]
-    );
+    const row = await db.first<CachedTrip>(TRIPS, { where: { id } });
 
     if (!row) return null;
     return this.mapCachedTripToTrip(row);
@@ -117,65 +93,62 @@ class TicketRepository {
   ): Promise<Trip[]> {
     const db = await database.getDb();
 
-    let query = `
-      SELECT * FROM trips
-      WHERE origin_city LIKE ? AND destination_city LIKE ?
-    `;
-    const params: (string | number)[] = [`%${originCity}%`, `%${destinationCity}%`];
+    const where: Where = {
+      origin_city: { like: `%${originCity}%` },
+      destination_city: { like: `%${destinationCity}%` },
+    };
 
     if (date) {
-      query += ' AND DATE(departure_time) = DATE(?)';
-      params.push(date);
+      // departure_time is ISO 8601, so the date is its first 10 characters
+      where.departure_time = { like: `${date.slice(0, 10)}%` };
     }
 
-    query += ' ORDER BY departure_time ASC';
-
-    const rows = await db.getAllAsync<CachedTrip>(query, params);
-    return rows.map(this.mapCachedTripToTrip);
+    const rows = await db.select<CachedTrip>(TRIPS, {
+      where,
+      orderBy: [{ column: 'departure_time' }],
+    });
+    return rows.map((row) => this.mapCachedTripToTrip(row));
   }
 
   /**
    * Save ticket to local database
    */
   async saveTicket(ticket: Ticket): Promise<void> {
-    const db = await database.getDb();
-
-    // First save the trip
-    await this.saveTrip(ticket.trip);
-
-    // Then save the ticket
-    await db.runAsync(
-      `INSERT OR REPLACE INTO tickets (
-        id, ticket_number, trip_id, passenger_name, passenger_email,
-        passenger_phone, seat, price_amount, price_currency, status,
-        qr_code, purchased_at, checked_in_at, synced_at
-      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
-      [
-        ticket.id,
-        ticket.ticketNumber,
-        ticket.trip.id,
-        ticket.passenger.name,
-        ticket.passenger.email,
-        ticket.passenger.phone || null,
-        ticket.seat || null,
-        ticket.price.amount,
-        ticket.price.currency,
-        ticket.status,
-        ticket.qrCode || null,
-        ticket.purchasedAt,
-        ticket.checkedInAt || null,
-        Date.now(),
-      ]
-    );
+    await this.saveTickets([ticket]);
   }
 
   /**
-   * Save multiple tickets
+   * Save multiple tickets together with their trips
    */
   async saveTickets(tickets: Ticket[]): Promise<void> {
-    for (const ticket of tickets) {
-      await this.saveTicket(ticket);
-    }
+    if (tickets.length === 0) return;
+
+    const db = await database.getDb();
+    await db.transaction((tx) => this.writeTickets(tx, tickets));
+  }
+
+  /**
+   * Apply a ticket sync in one transaction: save changed tickets and drop
+   * deleted ones. A full sync also drops cached tickets it didn't include.
+   * Pass `tx` to apply it as part of that transaction.
+   */
+  async applyTicketChanges(
+    changed: Ticket[],
+    deletedIds: number[],
+    fullSync: boolean,
+    tx?: StorageQueries
+  ): Promise<void> {
+    const db = tx ?? (await database.getDb());
+
+    await db.transaction(async (inner) => {
+      if (fullSync) {
+        await inner.delete(TICKETS, { id: { notIn: changed.map((ticket) => ticket.id) } });
+      }
+      if (deletedIds.length > 0) {
+        await inner.delete(TICKETS, { id: { in: deletedIds } });
+      }
+      await this.writeTickets(inner, changed);
+    });
   }
 
   /**
@@ -183,10 +156,7 @@ class TicketRepository {
    */
   async getTicket(id: number): Promise<Ticket | null> {
     const db = await database.getDb();
-    const row = await db.getFirstAsync<CachedTicket>(
-      'SELECT * FROM tickets WHERE id = ?',
-      [id]
-    );
+    const row = await db.first<CachedTicket>(TICKETS, { where: { id } });
 
     if (!row) return null;
 
@@ -201,10 +171,9 @@ class TicketRepository {
    */
   async getTicketByNumber(ticketNumber: string): Promise<Ticket | null> {
     const db = await database.getDb();
-    const row = await db.getFirstAsync<CachedTicket>(
-      'SELECT * FROM tickets WHERE ticket_number = ?',
-      [ticketNumber]
-    );
+    const row = await db.first<CachedTicket>(TICKETS, {
+      where: { ticket_number: ticketNumber },
+    });
 
     if (!row) return null;
 
@@ -219,19 +188,11 @@ class TicketRepository {
    */
   async getAllTickets(): Promise<Ticket[]> {
     const db = await database.getDb();
-    const rows = await db.getAllAsync<CachedTicket>(
-      'SELECT * FROM tickets ORDER BY purchased_at DESC'
-    );
-
-    const tickets: Ticket[] = [];
-    for (const row of rows) {
-      const trip = await this.getTrip(row.trip_id);
-      if (trip) {
-        tickets.push(this.mapCachedTicketToTicket(row, trip));
-      }
-    }
+    const rows = await db.select<CachedTicket>(TICKETS, {
+      orderBy: [{ column: 'purchased_at', direction: 'desc' }],
+    });
 
-    return tickets;
+    return this.attachTrips(rows);
   }
 
   /**
@@ -241,25 +202,23 @@ class TicketRepository {
     const db = await database.getDb();
     const now = new Date().toISOString();
 
-    const rows = await db.getAllAsync<CachedTicket & { departure_time: string }>(
-      `SELECT t.*, tr.departure_time
-       FROM tickets t
-       JOIN trips tr ON t.trip_id = tr.id
-       WHERE tr.departure_time > ?
-       AND t.status IN ('reserved', 'paid', 'checked_in')
-       ORDER BY tr.departure_time ASC`,
-      [now]
-    );
+    const trips = await db.select<CachedTrip>(TRIPS, {
+      where: { departure_time: { gt: now } },
+      orderBy: [{ column: 'departure_time' }],
+    });
+    if (trips.length === 0) return [];
 
-    const tickets: Ticket[] = [];
-    for (const row of rows) {
-      const trip = await this.getTrip(row.trip_id);
-      if (trip) {
-        tickets.push(this.mapCachedTicketToTicket(row, trip));
-      }
-    }
+    const rows = await db.select<CachedTicket>(TICKETS, {
+      where: {
+        trip_id: { in: trips.map((trip) => trip.id) },
+        status: { in: ['reserved', 'paid', 'checked_in'] },
+      },
+    });
 
-    return tickets;
+    const tripOrder = new Map(trips.map((trip, index) => [trip.id, index]));
+    rows.sort((a, b) => tripOrder.get(a.trip_id)! - tripOrder.get(b.trip_id)!);
+
+    return this.attachTrips(rows, trips);
   }
 
   /**
@@ -267,10 +226,7 @@ class TicketRepository {
    */
   async updateTicketStatus(id: number, status: string): Promise<void> {
     const db = await database.getDb();
-    await db.runAsync(
-      'UPDATE tickets SET status = ?, synced_at = ? WHERE id = ?',
-      [status, Date.now(), id]
-    );
+    await db.update(TICKETS, { id }, { status, synced_at: Date.now() });
   }
 
   /**
@@ -281,16 +237,12 @@ class TicketRepository {
     const cutoffDate = new Date();
     cutoffDate.setDate(cutoffDate.getDate() - 90);
 
-    const result = await db.runAsync(
-      `DELETE FROM tickets WHERE id IN (
-        SELECT t.id FROM tickets t
-        JOIN trips tr ON t.trip_id = tr.id
-        WHERE tr.departure_time < ?
-      )`,
-      [cutoffDate.toISOString()]
-    );
+    const oldTrips = await db.select<CachedTrip>(TRIPS, {
+      where: { departure_time: { lt: cutoffDate.toISOString() } },
+    });
+    if (oldTrips.length === 0) return 0;
 
-    return result.changes;
+    return db.delete(TICKETS, { trip_id: { in: oldTrips.map((trip) => trip.id) } });
   }
 
   /**
@@ -298,10 +250,102 @@ class TicketRepository {
    */
   async getLastSyncTime(): Promise<number | null> {
     const db = await database.getDb();
-    const result = await db.getFirstAsync<{ max_synced: number }>(
-      'SELECT MAX(synced_at) as max_synced FROM tickets'
+    const latest = await db.first<CachedTicket>(TICKETS, {
+      orderBy: [{ column: 'synced_at', direction: 'desc' }],
+    });
+    return latest?.synced_at || null;
+  }
+
+  /**
+   * Save tickets and their trips as part of the transaction `tx`
+   */
+  private async writeTickets(tx: StorageQueries, tickets: Ticket[]): Promise<void> {
+    if (tickets.length === 0) return;
+
+    await tx.upsert(TRIPS, tickets.map((ticket) => this.toTripRow(ticket.trip)));
+    await tx.upsert(TICKETS, tickets.map((ticket) => this.toTicketRow(ticket)));
+  }
+
+  /**
+   * Join cached ticket rows with their trips, skipping tickets whose trip is missing
+   */
+  private async attachTrips(rows: CachedTicket[], knownTrips: CachedTrip[] = []): Promise<Ticket[]> {
+    if (rows.length === 0) return [];
+
+    const tripsById = new Map(knownTrips.map((trip) => [trip.id, trip]));
+    const missingIds = Array.from(new Set(rows.map((row) => row.trip_id))).filter(
+      (id) => !tripsById.has(id)
     );
-    return result?.max_synced || null;
+
+    if (missingIds.length > 0) {
+      const db = await database.getDb();
+      const trips = await db.select<CachedTrip>(TRIPS, { where: { id: { in: missingIds } } });
+      trips.forEach((trip) => tripsById.set(trip.id, trip));
+    }
+
+    const tickets: Ticket[] = [];
+    for (const row of rows) {
+      const trip = tripsById.get(row.trip_id);
+      if (trip) {
+        tickets.push(this.mapCachedTicketToTicket(row, this.mapCachedTripToTrip(trip)));
+      }
+    }
+
+    return tickets;
+  }
+
+  /**
+   * Convert Trip object to cached trip row
+   */
+  private toTripRow(trip: Trip): CachedTrip {
+    return {
+      id: trip.id,
+      route_id: trip.route.id,
+      route_name: trip.route.name,
+      origin_id: trip.route.origin.id,
+      origin_city: trip.route.origin.city ?? trip.route.origin.name,
+      origin_country: trip.route.origin.country ?? '',
+      destination_id: trip.route.destination.id,
+      destination_city: trip.route.destination.city ?? trip.route.destination.name,
+      destination_country: trip.route.destination.country ?? '',
+      departure_time: trip.departureTime,
+      arrival_time: trip.arrivalTime,
+      bus_id: trip.bus?.id ?? null,
+      bus_name: trip.bus?.name ?? '',
+      bus_plate: trip.bus?.plateNumber ?? '',
+      bus_capacity: trip.bus?.capacity ?? trip.totalSeats,
+      bus_amenities: JSON.stringify(trip.bus?.amenities ?? []),
+      available_seats: trip.availableSeats,
+      total_seats: trip.totalSeats,
+      price_amount: trip.price.amount,
+      price_currency: trip.price.currency,
+      status: trip.status,
+      synced_at: Date.now(),
+    };
+  }
+
+  /**
+   * Convert Ticket object to cached ticket row
+   */
+  private toTicketRow(ticket: Ticket): CachedTicket {
+    return {
+      id: ticket.id,
+      ticket_number: ticket.ticketNumber,
+      trip_id: ticket.trip.id,
+      passenger_name: ticket.passenger.name,
+      passenger_email: ticket.passenger.email,
+      passenger_phone: ticket.passenger.phone || '',
+      passenger_document_type: ticket.passenger.documentType ?? null,
+      passenger_document_number: ticket.passenger.documentNumber ?? null,
+      seat: ticket.seat || null,
+      price_amount: ticket.price.amount,
+      price_currency: ticket.price.currency,
+      status: ticket.status,
+      qr_code: ticket.qrCode || null,
+      purchased_at: ticket.purchasedAt,
+      checked_in_at: ticket.checkedInAt || null,
+      synced_at: Date.now(),
+    };
   }
 
   /**
@@ -314,13 +358,13 @@ class TicketRepository {
         id: row.route_id,
         name: row.route_name,
         origin: {
-          id: 0,
+          id: row.origin_id ?? 0,
           name: row.origin_city,
           city: row.origin_city,
           country: row.origin_country,
         },
         destination: {
-          id: 0,
+          id: row.destination_id ?? 0,
           name: row.destination_city,
           city: row.destination_city,
           country: row.destination_country,
@@ -329,7 +373,7 @@ class TicketRepository {
       departureTime: row.departure_time,
       arrivalTime: row.arrival_time,
       bus: {
-        id: 0,
+        id: row.bus_id ?? 0,
         name: row.bus_name,
         plateNumber: row.bus_plate,
         capacity: row.bus_capacity,
@@ -357,6 +401,8 @@ class TicketRepository {
         name: row.passenger_name,
         email: row.passenger_email,
         phone: row.passenger_phone,
+        documentType: (row.passenger_document_type as PassengerInfo['documentType']) ?? undefined,
+        documentNumber: row.passenger_document_number ?? undefined,
       },
       seat: row.seat || undefined,
       price: {
@@ -0,0 +1,105 @@
+/**
+ * BUS-Tickets - Traveller Repository
+ * Copyright (c) 2024-2026 IT Enterprise
+ *
+ * Offline copy of each user's traveller address book. Rows are scoped by
+ * user so a shared device never shows one account's travellers to another.
+ */
+
+import { database } from './database';
+import { TRAVELLERS_TABLE } from './schema';
+import type { Traveller, DocumentType } from '@/types';
+
+const TRAVELLERS = TRAVELLERS_TABLE;
+
+export interface CachedTraveller {
+  id: number;
+  user_id: number;
+  name: string;
+  email: string | null;
+  phone: string | null;
+  date_of_birth: string | null;
+  document_type: string | null;
+  document_number: string | null;
+  updated_at: string;
+  synced_at: number;
+}
+
+class TravellerRepository {
+  /**
+   * Get the user's cached travellers, by name
+   */
+  async getTravellers(userId: number): Promise<Traveller[]> {
+    const db = await database.getDb();
+    const rows = await db.select<CachedTraveller>(TRAVELLERS, {
+      where: { user_id: userId },
+      orderBy: [{ column: 'name' }],
+    });
+    return rows.map((row) => this.mapCachedTraveller(row));
+  }
+
+  /**
+   * Replace the user's cached travellers with the server's list
+   */
+  async replaceTravellers(userId: number, travellers: Traveller[]): Promise<void> {
+    const db = await database.getDb();
+    await db.transaction(async (tx) => {
+      await tx.delete(TRAVELLERS, {
+        user_id: userId,
+        id: { notIn: travellers.map((traveller) => traveller.id) },
+      });
+      if (travellers.length > 0) {
+        await tx.upsert(TRAVELLERS, travellers.map((traveller) => this.toRow(userId, traveller)));
+      }
+    });
+  }
+
+  /**
+   * Save one created or updated traveller
+   */
+  async saveTraveller(userId: number, traveller: Traveller): Promise<void> {
+    const db = await database.getDb();
+    await db.upsert(TRAVELLERS, [this.toRow(userId, traveller)]);
+  }
+
+  async deleteTraveller(id: number): Promise<void> {
+    const db = await database.getDb();
+    await db.delete(TRAVELLERS, { id });
+  }
+
+  /**
+   * Convert Traveller object to cached traveller row
+   */
+  private toRow(userId: number, traveller: Traveller): CachedTraveller {
+    return {
+      id: traveller.id,
+      user_id: userId,
+      name: traveller.name,
+      email: traveller.email ?? null,
+      phone: traveller.phone ?? null,
+      date_of_birth: traveller.dateOfBirth ?? null,
+      document_type: traveller.documentType ?? null,
+      document_number: traveller.documentNumber ?? null,
+      updated_at: traveller.updatedAt,
+      synced_at: Date.now(),
+    };
+  }
+
+  /**
+   * Convert cached traveller row to Traveller object
+   */
+  private mapCachedTraveller(row: CachedTraveller): Traveller {
+    return {
+      id: row.id,
+      name: row.name,
+      email: row.email ?? undefined,
+      phone: row.phone ?? undefined,
+      dateOfBirth: row.date_of_birth ?? undefined,
+      documentType: (row.document_type as DocumentType | null) ?? undefined,
+      documentNumber: row.document_number ?? undefined,
+      updatedAt: row.updated_at,
+    };
+  }
+}
+
+export const travellerRepository = new TravellerRepository();
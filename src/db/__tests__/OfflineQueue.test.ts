@@ -0,0 +1,165 @@
+/**
+ * BUS-Tickets - Offline Queue Tests
+ * Copyright (c) 2024-2026 IT Enterprise
+ */
+
+import { afterEach, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { database } from '../database';
+import { MemoryEngine } from '../engines';
+import { offlineQueue } from '../OfflineQueue';
+import { OFFLINE_QUEUE_TABLE } from '../schema';
+
+jest.mock('expo-crypto', () => {
+  let count = 0;
+  return { randomUUID: () => `uuid-${++count}` };
+});
+
+const NOW = 1_800_000_000_000;
+
+describe('OfflineQueue', () => {
+  let engine: MemoryEngine;
+
+  beforeEach(async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(Date, 'now').mockReturnValue(NOW);
+    // The upper half of the jittered delay range
+    jest.spyOn(Math, 'random').mockReturnValue(1);
+    engine = new MemoryEngine();
+    await database.setEngine(engine);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('queues an action with an idempotency key', async () => {
+    const id = await offlineQueue.enqueue('CANCEL_TICKET', 'ticket', 42, { reason: 'ill' });
+
+    const action = await offlineQueue.getAction(id);
+    expect(action).toMatchObject({
+      action_type: 'CANCEL_TICKET',
+      entity_type: 'ticket',
+      entity_id: 42,
+      payload: JSON.stringify({ reason: 'ill' }),
+      created_at: NOW,
+      retry_count: 0,
+      status: 'pending',
+      next_attempt_at: 0,
+    });
+    expect(action?.idempotency_key).toMatch(/^uuid-/);
+    await expect(offlineQueue.getPendingCount()).resolves.toBe(1);
+  });
+
+  it('lists pending actions in the order they were queued', async () => {
+    const first = await offlineQueue.enqueue('CHECK_IN', 'ticket', 1, {});
+    const second = await offlineQueue.enqueue('CHECK_IN', 'ticket', 2, {});
+
+    const actions = await offlineQueue.getPendingActions();
+    expect(actions.map((action) => action.id)).toEqual([first, second]);
+  });
+
+  it('reschedules a transient failure with backoff', async () => {
+    const id = await offlineQueue.enqueue('CHECK_IN', 'ticket', 1, {});
+
+    await offlineQueue.fail(id, 'timeout');
+
+    expect(await offlineQueue.getAction(id)).toMatchObject({
+      status: 'pending',
+      retry_count: 1,
+      last_error: 'timeout',
+      next_attempt_at: NOW + 5000,
+    });
+    await expect(offlineQueue.getDueActions(NOW)).resolves.toEqual([]);
+    await expect(offlineQueue.getDueActions(NOW + 5000)).resolves.toHaveLength(1);
+    await expect(offlineQueue.getNextAttemptTime()).resolves.toBe(NOW + 5000);
+  });
+
+  it('doubles the delay on every retry', async () => {
+    const id = await offlineQueue.enqueue('CHECK_IN', 'ticket', 1, {});
+
+    await offlineQueue.fail(id, 'timeout');
+    await offlineQueue.fail(id, 'timeout');
+    await offlineQueue.fail(id, 'timeout');
+
+    expect((await offlineQueue.getAction(id))?.next_attempt_at).toBe(NOW + 20_000);
+  });
+
+  it('dead-letters an action once it runs out of retries', async () => {
+    const id = await offlineQueue.enqueue('CHECK_IN', 'ticket', 1, {});
+
+    for (let attempt = 0; attempt < 6; attempt++) {
+      await offlineQueue.fail(id, `attempt ${attempt}`);
+    }
+
+    expect(await offlineQueue.getAction(id)).toMatchObject({
+      status: 'dead',
+      retry_count: 6,
+      last_error: 'attempt 5',
+    });
+    await expect(offlineQueue.getPendingCount()).resolves.toBe(0);
+    await expect(offlineQueue.getFailedCount()).resolves.toBe(1);
+  });
+
+  it('dead-letters a permanent failure at once', async () => {
+    const id = await offlineQueue.enqueue('CANCEL_TICKET', 'ticket', 1, {});
+
+    await offlineQueue.fail(id, 'Ticket already used', true);
+
+    const failed = await offlineQueue.getFailedActions();
+    expect(failed.map((action) => [action.id, action.status])).toEqual([[id, 'dead']]);
+  });
+
+  it('moves a dead-lettered action back for an immediate attempt', async () => {
+    const id = await offlineQueue.enqueue('CHECK_IN', 'ticket', 1, {});
+    await offlineQueue.fail(id, 'rejected', true);
+
+    await offlineQueue.retry(id);
+
+    expect(await offlineQueue.getAction(id)).toMatchObject({
+      status: 'pending',
+      retry_count: 0,
+      next_attempt_at: 0,
+      last_error: null,
+    });
+    await expect(offlineQueue.getDueActions()).resolves.toHaveLength(1);
+  });
+
+  it('discards only dead-lettered actions', async () => {
+    const pending = await offlineQueue.enqueue('CHECK_IN', 'ticket', 1, {});
+    const dead = await offlineQueue.enqueue('CHECK_IN', 'ticket', 2, {});
+    await offlineQueue.fail(dead, 'rejected', true);
+
+    await offlineQueue.discard(pending);
+    await offlineQueue.discard(dead);
+
+    const actions = await offlineQueue.getAllActions();
+    expect(actions.map((action) => action.id)).toEqual([pending]);
+  });
+
+  it('completes, clears failed and clears all', async () => {
+    const first = await offlineQueue.enqueue('CHECK_IN', 'ticket', 1, {});
+    const second = await offlineQueue.enqueue('CHECK_IN', 'ticket', 2, {});
+    const third = await offlineQueue.enqueue('CHECK_IN', 'ticket', 3, {});
+    await offlineQueue.fail(third, 'rejected', true);
+
+    await offlineQueue.complete(first);
+    await offlineQueue.clearFailed();
+    expect((await offlineQueue.getAllActions()).map((action) => action.id)).toEqual([second]);
+
+    await offlineQueue.clearAll();
+    await expect(offlineQueue.getAllActions()).resolves.toEqual([]);
+  });
+
+  it('assigns a key to actions queued before keys existed', async () => {
+    const id = await offlineQueue.enqueue('CHECK_IN', 'ticket', 1, {});
+    await engine.update(OFFLINE_QUEUE_TABLE, { id }, { idempotency_key: null });
+    const action = (await offlineQueue.getAction(id))!;
+
+    const key = await offlineQueue.getIdempotencyKey(action);
+
+    expect(key).toMatch(/^uuid-/);
+    await expect(offlineQueue.getIdempotencyKey((await offlineQueue.getAction(id))!)).resolves.toBe(
+      key
+    );
+  });
+});
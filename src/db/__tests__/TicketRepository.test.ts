@@ -0,0 +1,237 @@
+/**
+ * BUS-Tickets - Ticket Repository Tests
+ * Copyright (c) 2024-2026 IT Enterprise
+ */
+
+import { beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { database } from '../database';
+import { MemoryEngine, SQLiteEngine, StorageEngine, WebEngine } from '../engines';
+import { TICKETS_TABLE } from '../schema';
+import { ticketRepository } from '../TicketRepository';
+import type { Ticket, Trip } from '@/types';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+function daysFromNow(days: number): string {
+  return new Date(Date.now() + days * DAY).toISOString();
+}
+
+function makeTrip(id: number, departureTime: string, overrides: Partial<Trip> = {}): Trip {
+  return {
+    id,
+    route: {
+      id: 10,
+      name: 'Praha - Kyiv',
+      origin: { id: 1, name: 'Florenc', city: 'Praha', country: 'CZ' },
+      destination: { id: 2, name: 'Vydubychi', city: 'Kyiv', country: 'UA' },
+    },
+    departureTime,
+    arrivalTime: new Date(new Date(departureTime).getTime() + DAY).toISOString(),
+    bus: { id: 5, name: 'Setra', plateNumber: '1AB 2345', capacity: 50, amenities: ['wifi', 'ac'] },
+    availableSeats: 20,
+    totalSeats: 50,
+    price: { amount: 1500, currency: 'CZK' },
+    status: 'scheduled',
+    ...overrides,
+  };
+}
+
+function makeTicket(id: number, trip: Trip, overrides: Partial<Ticket> = {}): Ticket {
+  return {
+    id,
+    ticketNumber: `T-${id}`,
+    trip,
+    passenger: {
+      name: 'Olena Kovalenko',
+      email: 'olena@example.com',
+      phone: '+420123456789',
+      documentType: 'passport',
+      documentNumber: 'FA123456',
+    },
+    seat: id,
+    price: { amount: 1500, currency: 'CZK' },
+    status: 'paid',
+    qrCode: `QR-${id}`,
+    purchasedAt: daysFromNow(-id),
+    ...overrides,
+  };
+}
+
+/**
+ * A browser localStorage: stored items are the object's own keys
+ */
+function createLocalStorage(): Storage {
+  const storage = {} as Record<string, string>;
+  Object.defineProperties(storage, {
+    getItem: { value: (key: string) => (key in storage ? storage[key] : null) },
+    setItem: {
+      value: (key: string, value: string) => {
+        storage[key] = String(value);
+      },
+    },
+    removeItem: {
+      value: (key: string) => {
+        delete storage[key];
+      },
+    },
+  });
+  return storage as unknown as Storage;
+}
+
+let databaseCount = 0;
+
+// Jest has no IndexedDB, so the web engine runs on its localStorage fallback,
+// and SQLite runs on the sql.js double of expo-sqlite
+const ENGINES: Array<[string, () => StorageEngine]> = [
+  ['MemoryEngine', () => new MemoryEngine()],
+  [
+    'WebEngine',
+    () => {
+      (globalThis as { localStorage?: Storage }).localStorage = createLocalStorage();
+      return new WebEngine();
+    },
+  ],
+  ['SQLiteEngine', () => new SQLiteEngine(`tickets-${++databaseCount}.db`)],
+];
+
+describe.each(ENGINES)('TicketRepository on %s', (_name, createEngine) => {
+  beforeEach(async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    await database.setEngine(createEngine());
+  });
+
+  it('round-trips a ticket with its trip', async () => {
+    const ticket = makeTicket(1, makeTrip(100, daysFromNow(3)));
+    await ticketRepository.saveTicket(ticket);
+
+    const stored = await ticketRepository.getTicket(1);
+    expect(stored).toEqual({
+      ...ticket,
+      checkedInAt: undefined,
+      passenger: { ...ticket.passenger },
+      trip: {
+        ...ticket.trip,
+        route: {
+          ...ticket.trip.route,
+          origin: { ...ticket.trip.route.origin, name: 'Praha' },
+          destination: { ...ticket.trip.route.destination, name: 'Kyiv' },
+        },
+      },
+    });
+    await expect(ticketRepository.getTicketByNumber('T-1')).resolves.toEqual(stored);
+  });
+
+  it('returns null for an unknown ticket', async () => {
+    await expect(ticketRepository.getTicket(404)).resolves.toBeNull();
+    await expect(ticketRepository.getTicketByNumber('nope')).resolves.toBeNull();
+  });
+
+  it('lists tickets newest purchase first', async () => {
+    const trip = makeTrip(100, daysFromNow(3));
+    await ticketRepository.saveTickets([makeTicket(3, trip), makeTicket(1, trip), makeTicket(2, trip)]);
+
+    const tickets = await ticketRepository.getAllTickets();
+    expect(tickets.map((ticket) => ticket.id)).toEqual([1, 2, 3]);
+  });
+
+  it('lists upcoming active tickets by departure', async () => {
+    const soon = makeTrip(100, daysFromNow(1));
+    const later = makeTrip(101, daysFromNow(5));
+    const past = makeTrip(102, daysFromNow(-1));
+    await ticketRepository.saveTickets([
+      makeTicket(1, later),
+      makeTicket(2, soon),
+      makeTicket(3, past),
+      makeTicket(4, soon, { status: 'cancelled' }),
+    ]);
+
+    const tickets = await ticketRepository.getUpcomingTickets();
+    expect(tickets.map((ticket) => ticket.id)).toEqual([2, 1]);
+  });
+
+  it('finds cached trips by city and date', async () => {
+    await ticketRepository.saveTrips([
+      makeTrip(100, '2026-11-02T08:00:00.000Z'),
+      makeTrip(101, '2026-11-01T22:00:00.000Z'),
+      makeTrip(102, '2026-11-01T06:00:00.000Z'),
+    ]);
+
+    const trips = await ticketRepository.getTripsByRoute('praha', 'kyiv', '2026-11-01');
+    expect(trips.map((trip) => trip.id)).toEqual([102, 101]);
+    await expect(ticketRepository.getTripsByRoute('Brno', 'Kyiv')).resolves.toEqual([]);
+  });
+
+  it('applies an incremental sync', async () => {
+    const trip = makeTrip(100, daysFromNow(3));
+    await ticketRepository.saveTickets([makeTicket(1, trip), makeTicket(2, trip)]);
+
+    await ticketRepository.applyTicketChanges(
+      [makeTicket(1, trip, { status: 'checked_in' }), makeTicket(3, trip)],
+      [2],
+      false
+    );
+
+    const tickets = await ticketRepository.getAllTickets();
+    expect(tickets.map((ticket) => [ticket.id, ticket.status])).toEqual([
+      [1, 'checked_in'],
+      [3, 'paid'],
+    ]);
+  });
+
+  it('drops tickets a full sync did not include', async () => {
+    const trip = makeTrip(100, daysFromNow(3));
+    await ticketRepository.saveTickets([makeTicket(1, trip), makeTicket(2, trip)]);
+
+    await ticketRepository.applyTicketChanges([makeTicket(2, trip)], [], true);
+
+    const tickets = await ticketRepository.getAllTickets();
+    expect(tickets.map((ticket) => ticket.id)).toEqual([2]);
+  });
+
+  it('keeps a concurrent save when another transaction rolls back', async () => {
+    const db = await database.getDb();
+    let release!: () => void;
+    const released = new Promise<void>((resolve) => (release = resolve));
+
+    const failing = db.transaction(async (tx) => {
+      await tx.delete(TICKETS_TABLE);
+      await released;
+      throw new Error('rolled back');
+    });
+    const saving = ticketRepository.saveTicket(makeTicket(1, makeTrip(100, daysFromNow(3))));
+    release();
+
+    await expect(failing).rejects.toThrow('rolled back');
+    await saving;
+    await expect(ticketRepository.getTicket(1)).resolves.toMatchObject({ id: 1 });
+  });
+
+  it('updates a ticket status', async () => {
+    await ticketRepository.saveTicket(makeTicket(1, makeTrip(100, daysFromNow(3))));
+
+    await ticketRepository.updateTicketStatus(1, 'cancelled');
+
+    await expect(ticketRepository.getTicket(1)).resolves.toMatchObject({ status: 'cancelled' });
+  });
+
+  it('cleans up tickets for trips older than 90 days', async () => {
+    await ticketRepository.saveTickets([
+      makeTicket(1, makeTrip(100, daysFromNow(-91))),
+      makeTicket(2, makeTrip(101, daysFromNow(-89))),
+    ]);
+
+    await expect(ticketRepository.cleanupOldTickets()).resolves.toBe(1);
+    const tickets = await ticketRepository.getAllTickets();
+    expect(tickets.map((ticket) => ticket.id)).toEqual([2]);
+  });
+
+  it('reports the last sync time', async () => {
+    await expect(ticketRepository.getLastSyncTime()).resolves.toBeNull();
+
+    jest.spyOn(Date, 'now').mockReturnValue(1_700_000_000_000);
+    await ticketRepository.saveTicket(makeTicket(1, makeTrip(100, daysFromNow(3))));
+    jest.restoreAllMocks();
+
+    await expect(ticketRepository.getLastSyncTime()).resolves.toBe(1_700_000_000_000);
+  });
+});
@@ -0,0 +1,183 @@
+/**
+ * BUS-Tickets - Schema Migration Tests
+ * Copyright (c) 2024-2026 IT Enterprise
+ */
+
+import { beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { MemoryEngine } from '../engines';
+import {
+  migrations,
+  runMigrations,
+  getSchemaVersion,
+  LATEST_SCHEMA_VERSION,
+  SCHEMA_VERSION_KEY,
+  SchemaVersionStore,
+} from '../migrations';
+import { OFFLINE_QUEUE_TABLE, TICKETS_TABLE, TRAVELLERS_TABLE, TRIPS_TABLE } from '../schema';
+import { DatabaseCorruptError, DatabaseMigrationError } from '../errors';
+
+function createStore(version?: number): SchemaVersionStore & { values: Map<string, string> } {
+  const values = new Map<string, string>();
+  if (version !== undefined) values.set(SCHEMA_VERSION_KEY, String(version));
+
+  return {
+    values,
+    get: async (key) => values.get(key) ?? null,
+    set: async (key, value) => {
+      values.set(key, value);
+    },
+  };
+}
+
+/**
+ * Bring a fresh engine to `version` the way an older app build did
+ */
+async function migrateTo(engine: MemoryEngine, version: number): Promise<void> {
+  for (const migration of migrations.filter((m) => m.version <= version)) {
+    await migration.up(engine);
+  }
+}
+
+describe('migrations', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  it('are numbered 1..n without gaps', () => {
+    expect(migrations.map((m) => m.version)).toEqual([1, 2, 3, 4, 5]);
+    expect(LATEST_SCHEMA_VERSION).toBe(5);
+  });
+
+  it('build a fresh database up to the latest version', async () => {
+    const engine = new MemoryEngine();
+    const store = createStore();
+
+    await expect(runMigrations(engine, store)).resolves.toBe(5);
+    expect(store.values.get(SCHEMA_VERSION_KEY)).toBe('5');
+
+    for (const table of [TRIPS_TABLE, TICKETS_TABLE, OFFLINE_QUEUE_TABLE, TRAVELLERS_TABLE]) {
+      await expect(engine.count(table)).resolves.toBe(0);
+    }
+  });
+
+  it('v2 adds location, bus and document columns to existing rows', async () => {
+    const engine = new MemoryEngine();
+    await migrateTo(engine, 1);
+    await engine.insert(TICKETS_TABLE, {
+      id: 1,
+      ticket_number: 'T-1',
+      trip_id: 7,
+      status: 'paid',
+      synced_at: 0,
+    });
+
+    await runMigrations(engine, createStore(1));
+
+    const ticket = await engine.first(TICKETS_TABLE, { where: { id: 1 } });
+    expect(ticket).toMatchObject({
+      ticket_number: 'T-1',
+      passenger_document_type: null,
+      passenger_document_number: null,
+    });
+  });
+
+  it('v3 leaves queued actions without an idempotency key', async () => {
+    const engine = new MemoryEngine();
+    await migrateTo(engine, 2);
+    await engine.insert(OFFLINE_QUEUE_TABLE, {
+      action_type: 'CANCEL_TICKET',
+      entity_type: 'ticket',
+      entity_id: 1,
+      payload: '{}',
+      created_at: 1,
+      retry_count: 0,
+    });
+
+    await runMigrations(engine, createStore(2));
+
+    const action = await engine.first(OFFLINE_QUEUE_TABLE);
+    expect(action?.idempotency_key).toBeNull();
+  });
+
+  it('v4 dead-letters actions that hit the old retry limit', async () => {
+    const engine = new MemoryEngine();
+    await migrateTo(engine, 3);
+    for (const [id, retryCount] of [[1, 0], [2, 2], [3, 3], [4, 5]]) {
+      await engine.insert(OFFLINE_QUEUE_TABLE, {
+        id,
+        action_type: 'CHECK_IN',
+        entity_type: 'ticket',
+        entity_id: id,
+        payload: '{}',
+        created_at: id,
+        retry_count: retryCount,
+      });
+    }
+
+    await runMigrations(engine, createStore(3));
+
+    const actions = await engine.select(OFFLINE_QUEUE_TABLE, { orderBy: [{ column: 'id' }] });
+    expect(actions.map((action) => action.status)).toEqual(['pending', 'pending', 'dead', 'dead']);
+    expect(actions.every((action) => action.next_attempt_at === 0)).toBe(true);
+  });
+
+  it('v5 creates the travellers table', async () => {
+    const engine = new MemoryEngine();
+    await migrateTo(engine, 4);
+
+    await runMigrations(engine, createStore(4));
+
+    await engine.insert(TRAVELLERS_TABLE, {
+      id: 1,
+      user_id: 1,
+      name: 'Olena',
+      updated_at: '2026-01-01T00:00:00Z',
+      synced_at: 0,
+    });
+    await expect(engine.count(TRAVELLERS_TABLE)).resolves.toBe(1);
+  });
+
+  it('do nothing on an up-to-date database', async () => {
+    const engine = new MemoryEngine();
+    const store = createStore();
+    await runMigrations(engine, store);
+    const up = jest.spyOn(migrations[0], 'up');
+
+    await expect(runMigrations(engine, store)).resolves.toBe(5);
+    expect(up).not.toHaveBeenCalled();
+    up.mockRestore();
+  });
+
+  it('refuse a schema written by a newer app build', async () => {
+    const promise = runMigrations(new MemoryEngine(), createStore(LATEST_SCHEMA_VERSION + 1));
+
+    await expect(promise).rejects.toBeInstanceOf(DatabaseMigrationError);
+    await expect(promise).rejects.toMatchObject({ version: LATEST_SCHEMA_VERSION + 1 });
+  });
+
+  it('keep the previous version when a migration fails', async () => {
+    // Claims v1 but has none of its tables, so v2's ALTERs fail
+    const engine = new MemoryEngine();
+    const store = createStore(1);
+
+    const promise = runMigrations(engine, store);
+
+    await expect(promise).rejects.toBeInstanceOf(DatabaseMigrationError);
+    await expect(promise).rejects.toMatchObject({ version: 2 });
+    expect(store.values.get(SCHEMA_VERSION_KEY)).toBe('1');
+  });
+});
+
+describe('getSchemaVersion', () => {
+  it('reads a missing version as a fresh database', async () => {
+    await expect(getSchemaVersion(createStore())).resolves.toBe(0);
+  });
+
+  it('rejects a version that is not a non-negative integer', async () => {
+    for (const stored of ['abc', '-1', '2.5']) {
+      const store = createStore();
+      store.values.set(SCHEMA_VERSION_KEY, stored);
+      await expect(getSchemaVersion(store)).rejects.toBeInstanceOf(DatabaseCorruptError);
+    }
+  });
+});
@@ -1,14 +1,18 @@
 /**
- * BUS-Tickets - Database (AsyncStorage fallback)
- * SQLite disabled in this build - using AsyncStorage
+ * BUS-Tickets - Database
+ * Wraps the platform storage engine (SQLite, web or in-memory)
  * Copyright (c) 2024-2026 IT Enterprise
  */
 
-import AsyncStorage from '@react-native-async-storage/async-storage';
+import { createStorageEngine, StorageEngine, StorageQueries, Row } from './engines';
+import { METADATA_TABLE, OFFLINE_QUEUE_TABLE } from './schema';
+import { runMigrations, SchemaVersionStore } from './migrations';
+import { DatabaseCorruptError } from './errors';
 
 class Database {
   private static instance: Database;
-  private initialized = false;
+  private engine: StorageEngine | null = null;
+  private opening: Promise<StorageEngine> | null = null;
 
   private constructor() {}
 
@@ -19,22 +23,123 @@ class Database {
     return Database.instance;
   }
 
+  /**
+   * Replace the storage engine (tests, custom backends).
+   * Closes the current engine if one is open.
+   */
+  async setEngine(engine: StorageEngine): Promise<void> {
+    await this.close();
+    this.engine = engine;
+  }
+
   async initialize(): Promise<void> {
-    if (this.initialized) return;
-    console.log('Database initialized (AsyncStorage mode)');
-    this.initialized = true;
+    await this.getDb();
+  }
+
+  /**
+   * Get the open storage engine, opening it on first use
+   */
+  async getDb(): Promise<StorageEngine> {
+    if (!this.opening) {
+      this.opening = this.open().catch((error) => {
+        // Allow a later call to retry
+        this.opening = null;
+        throw error;
+      });
+    }
+    return this.opening;
   }
 
   async getMetadata(key: string): Promise<string | null> {
-    return AsyncStorage.getItem(`@db_meta_${key}`);
+    return this.readMetadata(await this.getDb(), key);
+  }
+
+  /**
+   * Store a metadata value, as part of the transaction `tx` when one is given
+   */
+  async setMetadata(key: string, value: string, tx?: StorageQueries): Promise<void> {
+    await this.writeMetadata(tx ?? (await this.getDb()), key, value);
   }
 
-  async setMetadata(key: string, value: string): Promise<void> {
-    await AsyncStorage.setItem(`@db_meta_${key}`, value);
+  async deleteMetadata(key: string): Promise<void> {
+    const db = await this.getDb();
+    await db.delete(METADATA_TABLE.name, { key });
   }
 
   async close(): Promise<void> {
-    // No-op for AsyncStorage
+    if (!this.opening) return;
+
+    const opening = this.opening;
+    this.opening = null;
+    try {
+      const engine = await opening;
+      await engine.close();
+    } catch {
+      // Engine never opened, nothing to close
+    }
+  }
+
+  private async open(): Promise<StorageEngine> {
+    const engine = this.engine ?? createStorageEngine();
+    this.engine = engine;
+
+    try {
+      await engine.open();
+      await this.migrate(engine);
+    } catch (error) {
+      if (!(error instanceof DatabaseCorruptError)) throw error;
+      console.error('Local database is corrupt, rebuilding:', error);
+      await this.rebuild(engine);
+    }
+
+    console.log(`Database initialized (${engine.kind} engine)`);
+    return engine;
+  }
+
+  private async migrate(engine: StorageEngine): Promise<void> {
+    await engine.createTable(METADATA_TABLE);
+    const version = await runMigrations(engine, this.metadataStore(engine));
+    console.log(`Database schema at v${version}`);
+  }
+
+  /**
+   * Recreate the database from scratch. Cached trips and tickets are
+   * refetched on the next sync; unsent offline actions are carried over
+   * when they can still be read.
+   */
+  private async rebuild(engine: StorageEngine): Promise<void> {
+    let pending: Row[] = [];
+    try {
+      pending = await engine.select(OFFLINE_QUEUE_TABLE);
+    } catch {
+      // Queue is unreadable, nothing to salvage
+    }
+
+    await engine.reset();
+    await this.migrate(engine);
+
+    if (pending.length > 0) {
+      await engine.upsert(OFFLINE_QUEUE_TABLE, pending);
+      console.log(`Recovered ${pending.length} queued offline actions`);
+    }
+  }
+
+  private metadataStore(engine: StorageEngine): SchemaVersionStore {
+    return {
+      get: (key) => this.readMetadata(engine, key),
+      set: (key, value, tx) => this.writeMetadata(tx ?? engine, key, value),
+    };
+  }
+
+  private async readMetadata(db: StorageQueries, key: string): Promise<string | null> {
+    const row = await db.first<{ key: string; value: string | null }>(METADATA_TABLE.name, {
+      where: { key },
+    });
+    return row?.value ?? null;
+  }
+
+  private async writeMetadata(db: StorageQueries, key: string, value: string): Promise<void> {
+    await db.upsert(METADATA_TABLE.name, [{ key, value }]);
   }
 }
 
@@ -0,0 +1,353 @@
+/**
+ * BUS-Tickets - In-Memory Storage Engine
+ * Used by Jest and as the base for the web engine
+ * Copyright (c) 2024-2026 IT Enterprise
+ */
+
+import type {
+  StorageEngine,
+  StorageEngineKind,
+  StorageQueries,
+  TableSchema,
+  Row,
+  RowOf,
+  ColumnValue,
+  Condition,
+  Where,
+  QueryOptions,
+  OrderBy,
+  Changes,
+} from './types';
+import { OperationQueue } from './OperationQueue';
+
+export interface TableData {
+  schema: TableSchema;
+  rows: Row[];
+  sequence: number;
+}
+
+function likeToRegExp(pattern: string): RegExp {
+  const source = pattern
+    .split('')
+    .map((char) => {
+      if (char === '%') return '.*';
+      if (char === '_') return '.';
+      return char.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    })
+    .join('');
+  return new RegExp(`^${source}$`, 'is');
+}
+
+function compare(a: ColumnValue, b: ColumnValue): number {
+  if (a === b) return 0;
+  // SQLite sorts NULL before any other value
+  if (a === null) return -1;
+  if (b === null) return 1;
+  return a < b ? -1 : 1;
+}
+
+function matchesCondition(value: ColumnValue | undefined, condition: Condition): boolean {
+  const current = value ?? null;
+
+  if (condition === null || typeof condition !== 'object') {
+    return current === condition;
+  }
+  if ('in' in condition) return condition.in.includes(current);
+  if ('notIn' in condition) return current !== null && !condition.notIn.includes(current);
+  if ('ne' in condition) {
+    return condition.ne === null ? current !== null : current !== null && current !== condition.ne;
+  }
+
+  // Comparisons against NULL are never true, as in SQL
+  if (current === null) return false;
+  if ('lt' in condition) return current < condition.lt;
+  if ('lte' in condition) return current <= condition.lte;
+  if ('gt' in condition) return current > condition.gt;
+  if ('gte' in condition) return current >= condition.gte;
+  if ('like' in condition) return likeToRegExp(condition.like).test(String(current));
+  return false;
+}
+
+export function matchesWhere(row: Row, where?: Where): boolean {
+  if (!where) return true;
+  return Object.entries(where).every(([column, condition]) =>
+    matchesCondition(row[column], condition)
+  );
+}
+
+export function sortRows(rows: Row[], orderBy?: OrderBy[]): Row[] {
+  if (!orderBy || orderBy.length === 0) return rows;
+
+  return [...rows].sort((a, b) => {
+    for (const { column, direction = 'asc' } of orderBy) {
+      const result = compare(a[column] ?? null, b[column] ?? null);
+      if (result !== 0) {
+        return direction === 'desc' ? -result : result;
+      }
+    }
+    return 0;
+  });
+}
+
+/**
+ * Operations on the in-memory tables, with no queueing. Handed to transaction
+ * tasks, where a nested transaction joins the one already running. Changed
+ * tables are collected in `dirtyTables` for the engine to persist.
+ */
+class MemoryQueries implements StorageQueries {
+  constructor(
+    private readonly tables: Map<string, TableData>,
+    private readonly dirtyTables: Set<string>
+  ) {}
+
+  async createTable(schema: TableSchema): Promise<void> {
+    if (this.tables.has(schema.name)) return;
+
+    this.tables.set(schema.name, {
+      schema: { ...schema, columns: { ...schema.columns } },
+      rows: [],
+      sequence: 0,
+    });
+    this.dirtyTables.add(schema.name);
+  }
+
+  async addColumn(
+    table: string,
+    column: string,
+    definition: string,
+    defaultValue: ColumnValue = null
+  ): Promise<void> {
+    const data = this.getTable(table);
+    if (column in data.schema.columns) return;
+
+    data.schema.columns[column] = definition;
+    data.rows = data.rows.map((row) => ({ ...row, [column]: row[column] ?? defaultValue }));
+    this.dirtyTables.add(table);
+  }
+
+  async insert<T extends RowOf<T>>(table: string, values: T): Promise<number> {
+    const row = values as Row;
+    const data = this.getTable(table);
+    const { schema } = data;
+    const newRow = { ...row };
+
+    if (schema.autoIncrement && newRow[schema.primaryKey] == null) {
+      newRow[schema.primaryKey] = data.sequence + 1;
+    }
+
+    const key = newRow[schema.primaryKey];
+    if (data.rows.some((existing) => existing[schema.primaryKey] === key)) {
+      throw new Error(`UNIQUE constraint failed: ${table}.${schema.primaryKey}`);
+    }
+
+    data.rows.push(newRow);
+    if (typeof key === 'number' && key > data.sequence) {
+      data.sequence = key;
+    }
+
+    this.dirtyTables.add(table);
+    return Number(key);
+  }
+
+  async upsert<T extends RowOf<T>>(table: string, values: T[]): Promise<void> {
+    const rows = values as Row[];
+    if (rows.length === 0) return;
+
+    const data = this.getTable(table);
+    const { schema } = data;
+
+    for (const row of rows) {
+      const key = row[schema.primaryKey];
+      const index = data.rows.findIndex((existing) => existing[schema.primaryKey] === key);
+      if (index >= 0) {
+        data.rows[index] = { ...row };
+      } else {
+        data.rows.push({ ...row });
+      }
+      if (typeof key === 'number' && key > data.sequence) {
+        data.sequence = key;
+      }
+    }
+
+    this.dirtyTables.add(table);
+  }
+
+  async select<T = Row>(table: string, options: QueryOptions = {}): Promise<T[]> {
+    const matching = this.getTable(table).rows.filter((row) => matchesWhere(row, options.where));
+    const sorted = sortRows(matching, options.orderBy);
+    const limited = options.limit !== undefined ? sorted.slice(0, options.limit) : sorted;
+    return limited.map((row) => ({ ...row }) as T);
+  }
+
+  async first<T = Row>(table: string, options: QueryOptions = {}): Promise<T | null> {
+    const rows = await this.select<T>(table, { ...options, limit: 1 });
+    return rows[0] ?? null;
+  }
+
+  async count(table: string, where?: Where): Promise<number> {
+    return this.getTable(table).rows.filter((row) => matchesWhere(row, where)).length;
+  }
+
+  async update(table: string, where: Where, changes: Changes): Promise<number> {
+    const data = this.getTable(table);
+    let changed = 0;
+
+    data.rows = data.rows.map((row) => {
+      if (!matchesWhere(row, where)) return row;
+      changed += 1;
+
+      const updated = { ...row };
+      for (const [column, change] of Object.entries(changes)) {
+        if (change !== null && typeof change === 'object') {
+          updated[column] = Number(updated[column] ?? 0) + change.increment;
+        } else {
+          updated[column] = change;
+        }
+      }
+      return updated;
+    });
+
+    if (changed > 0) {
+      this.dirtyTables.add(table);
+    }
+    return changed;
+  }
+
+  async delete(table: string, where?: Where): Promise<number> {
+    const data = this.getTable(table);
+    const before = data.rows.length;
+    data.rows = data.rows.filter((row) => !matchesWhere(row, where));
+    const deleted = before - data.rows.length;
+
+    if (deleted > 0) {
+      this.dirtyTables.add(table);
+    }
+    return deleted;
+  }
+
+  async transaction<T>(task: (tx: StorageQueries) => Promise<T>): Promise<T> {
+    return task(this);
+  }
+
+  private getTable(table: string): TableData {
+    const data = this.tables.get(table);
+    if (!data) {
+      throw new Error(`no such table: ${table}`);
+    }
+    return data;
+  }
+}
+
+export class MemoryEngine implements StorageEngine {
+  readonly kind: StorageEngineKind = 'memory';
+
+  protected tables = new Map<string, TableData>();
+  private dirtyTables = new Set<string>();
+  private queries = new MemoryQueries(this.tables, this.dirtyTables);
+  private queue = new OperationQueue();
+
+  async open(): Promise<void> {
+    // Tables are created by migrations
+  }
+
+  async close(): Promise<void> {
+    // Nothing to release, data lives as long as the instance
+  }
+
+  async reset(): Promise<void> {
+    this.tables.clear();
+    this.dirtyTables.clear();
+  }
+
+  createTable(schema: TableSchema): Promise<void> {
+    return this.exclusive((queries) => queries.createTable(schema));
+  }
+
+  addColumn(
+    table: string,
+    column: string,
+    definition: string,
+    defaultValue?: ColumnValue
+  ): Promise<void> {
+    return this.exclusive((queries) => queries.addColumn(table, column, definition, defaultValue));
+  }
+
+  insert<T extends RowOf<T>>(table: string, values: T): Promise<number> {
+    return this.exclusive((queries) => queries.insert(table, values));
+  }
+
+  upsert<T extends RowOf<T>>(table: string, values: T[]): Promise<void> {
+    return this.exclusive((queries) => queries.upsert(table, values));
+  }
+
+  select<T = Row>(table: string, options?: QueryOptions): Promise<T[]> {
+    return this.exclusive((queries) => queries.select<T>(table, options));
+  }
+
+  first<T = Row>(table: string, options?: QueryOptions): Promise<T | null> {
+    return this.exclusive((queries) => queries.first<T>(table, options));
+  }
+
+  count(table: string, where?: Where): Promise<number> {
+    return this.exclusive((queries) => queries.count(table, where));
+  }
+
+  update(table: string, where: Where, changes: Changes): Promise<number> {
+    return this.exclusive((queries) => queries.update(table, where, changes));
+  }
+
+  delete(table: string, where?: Where): Promise<number> {
+    return this.exclusive((queries) => queries.delete(table, where));
+  }
+
+  transaction<T>(task: (tx: StorageQueries) => Promise<T>): Promise<T> {
+    return this.queue.run(async () => {
+      const snapshot = new Map<string, TableData>();
+      this.tables.forEach((data, name) => {
+        snapshot.set(name, {
+          schema: { ...data.schema, columns: { ...data.schema.columns } },
+          rows: data.rows.map((row) => ({ ...row })),
+          sequence: data.sequence,
+        });
+      });
+
+      try {
+        const result = await task(this.queries);
+        await this.flush();
+        return result;
+      } catch (error) {
+        this.tables.clear();
+        snapshot.forEach((data, name) => this.tables.set(name, data));
+        this.dirtyTables.clear();
+        throw error;
+      }
+    });
+  }
+
+  /**
+   * Called with the names of tables changed by a committed write.
+   * Persistent subclasses override this to save them.
+   */
+  protected async persist(_tables: string[]): Promise<void> {
+    // In-memory data is not persisted
+  }
+
+  /**
+   * Run a single operation once everything queued before it is done,
+   * then persist what it changed
+   */
+  private exclusive<T>(operation: (queries: MemoryQueries) => Promise<T>): Promise<T> {
+    return this.queue.run(async () => {
+      const result = await operation(this.queries);
+      await this.flush();
+      return result;
+    });
+  }
+
+  private async flush(): Promise<void> {
+    if (this.dirtyTables.size === 0) return;
+    const tables = Array.from(this.dirtyTables);
+    this.dirtyTables.clear();
+    await this.persist(tables);
+  }
+}
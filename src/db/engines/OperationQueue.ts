@@ -0,0 +1,18 @@
+/**
+ * BUS-Tickets - Storage Operation Queue
+ * Copyright (c) 2024-2026 IT Enterprise
+ */
+
+/**
+ * Promise-chain mutex: each operation starts after the previous one settles
+ */
+export class OperationQueue {
+  private tail: Promise<unknown> = Promise.resolve();
+
+  run<T>(operation: () => Promise<T>): Promise<T> {
+    const result = this.tail.then(operation);
+    // A failed operation must not block the ones queued after it
+    this.tail = result.catch(() => undefined);
+    return result;
+  }
+}
@@ -0,0 +1,343 @@
+/**
+ * BUS-Tickets - SQLite Storage Engine (native)
+ * Copyright (c) 2024-2026 IT Enterprise
+ */
+
+import type { SQLiteDatabase } from 'expo-sqlite';
+import type {
+  StorageEngine,
+  StorageEngineKind,
+  StorageQueries,
+  TableSchema,
+  Row,
+  RowOf,
+  ColumnValue,
+  Condition,
+  Where,
+  QueryOptions,
+  Changes,
+} from './types';
+import { DatabaseCorruptError } from '../errors';
+import { OperationQueue } from './OperationQueue';
+
+const DATABASE_NAME = 'bus_tickets.db';
+const CORRUPTION_PATTERN = /not a database|malformed|corrupt/i;
+
+interface CompiledClause {
+  sql: string;
+  params: ColumnValue[];
+}
+
+function quote(identifier: string): string {
+  return `"${identifier.replace(/"/g, '""')}"`;
+}
+
+function compileCondition(column: string, condition: Condition): CompiledClause {
+  const col = quote(column);
+
+  if (condition === null) {
+    return { sql: `${col} IS NULL`, params: [] };
+  }
+  if (typeof condition !== 'object') {
+    return { sql: `${col} = ?`, params: [condition] };
+  }
+  if ('in' in condition || 'notIn' in condition) {
+    const values = 'in' in condition ? condition.in : condition.notIn;
+    if (values.length === 0) {
+      return { sql: 'in' in condition ? '0' : `${col} IS NOT NULL`, params: [] };
+    }
+    const placeholders = values.map(() => '?').join(', ');
+    const operator = 'in' in condition ? 'IN' : 'NOT IN';
+    return { sql: `${col} ${operator} (${placeholders})`, params: values };
+  }
+  if ('ne' in condition) {
+    return condition.ne === null
+      ? { sql: `${col} IS NOT NULL`, params: [] }
+      : { sql: `${col} != ?`, params: [condition.ne] };
+  }
+  if ('lt' in condition) return { sql: `${col} < ?`, params: [condition.lt] };
+  if ('lte' in condition) return { sql: `${col} <= ?`, params: [condition.lte] };
+  if ('gt' in condition) return { sql: `${col} > ?`, params: [condition.gt] };
+  if ('gte' in condition) return { sql: `${col} >= ?`, params: [condition.gte] };
+  return { sql: `${col} LIKE ?`, params: [condition.like] };
+}
+
+function compileWhere(where?: Where): CompiledClause {
+  const entries = Object.entries(where ?? {});
+  if (entries.length === 0) {
+    return { sql: '', params: [] };
+  }
+
+  const clauses = entries.map(([column, condition]) => compileCondition(column, condition));
+  return {
+    sql: ` WHERE ${clauses.map((c) => c.sql).join(' AND ')}`,
+    params: clauses.flatMap((c) => c.params),
+  };
+}
+
+function compileSelect(table: string, options: QueryOptions): CompiledClause {
+  const where = compileWhere(options.where);
+  let sql = `SELECT * FROM ${quote(table)}${where.sql}`;
+
+  if (options.orderBy && options.orderBy.length > 0) {
+    const order = options.orderBy
+      .map(({ column, direction = 'asc' }) => `${quote(column)} ${direction.toUpperCase()}`)
+      .join(', ');
+    sql += ` ORDER BY ${order}`;
+  }
+  if (options.limit !== undefined) {
+    sql += ` LIMIT ${Math.floor(options.limit)}`;
+  }
+
+  return { sql, params: where.params };
+}
+
+/**
+ * Statements on an open database, with no queueing. Handed to transaction
+ * tasks, where a nested transaction joins the one already running.
+ */
+class SQLiteQueries implements StorageQueries {
+  constructor(private readonly db: SQLiteDatabase) {}
+
+  async createTable(schema: TableSchema): Promise<void> {
+    const columns = Object.entries(schema.columns)
+      .map(([column, definition]) => `${quote(column)} ${definition}`)
+      .join(', ');
+    await this.db.execAsync(`CREATE TABLE IF NOT EXISTS ${quote(schema.name)} (${columns});`);
+  }
+
+  async addColumn(
+    table: string,
+    column: string,
+    definition: string,
+    defaultValue: ColumnValue = null
+  ): Promise<void> {
+    const existing = await this.db.getAllAsync<{ name: string }>(
+      `PRAGMA table_info(${quote(table)})`
+    );
+    if (existing.some((info) => info.name === column)) return;
+
+    await this.db.execAsync(
+      `ALTER TABLE ${quote(table)} ADD COLUMN ${quote(column)} ${definition};`
+    );
+    if (defaultValue !== null) {
+      await this.db.runAsync(
+        `UPDATE ${quote(table)} SET ${quote(column)} = ? WHERE ${quote(column)} IS NULL`,
+        [defaultValue]
+      );
+    }
+  }
+
+  async insert<T extends RowOf<T>>(table: string, values: T): Promise<number> {
+    const row = values as Row;
+    const columns = Object.keys(row);
+    const result = await this.db.runAsync(
+      `INSERT INTO ${quote(table)} (${columns.map(quote).join(', ')})
+       VALUES (${columns.map(() => '?').join(', ')})`,
+      columns.map((column) => row[column])
+    );
+    return result.lastInsertRowId;
+  }
+
+  async upsert<T extends RowOf<T>>(table: string, values: T[]): Promise<void> {
+    const rows = values as Row[];
+    if (rows.length === 0) return;
+
+    for (const row of rows) {
+      const columns = Object.keys(row);
+      await this.db.runAsync(
+        `INSERT OR REPLACE INTO ${quote(table)} (${columns.map(quote).join(', ')})
+         VALUES (${columns.map(() => '?').join(', ')})`,
+        columns.map((column) => row[column])
+      );
+    }
+  }
+
+  async select<T = Row>(table: string, options: QueryOptions = {}): Promise<T[]> {
+    const { sql, params } = compileSelect(table, options);
+    return this.db.getAllAsync<T>(sql, params);
+  }
+
+  async first<T = Row>(table: string, options: QueryOptions = {}): Promise<T | null> {
+    const { sql, params } = compileSelect(table, { ...options, limit: 1 });
+    return this.db.getFirstAsync<T>(sql, params);
+  }
+
+  async count(table: string, where?: Where): Promise<number> {
+    const compiled = compileWhere(where);
+    const result = await this.db.getFirstAsync<{ count: number }>(
+      `SELECT COUNT(*) AS count FROM ${quote(table)}${compiled.sql}`,
+      compiled.params
+    );
+    return result?.count ?? 0;
+  }
+
+  async update(table: string, where: Where, changes: Changes): Promise<number> {
+    const assignments: string[] = [];
+    const params: ColumnValue[] = [];
+
+    for (const [column, change] of Object.entries(changes)) {
+      if (change !== null && typeof change === 'object') {
+        assignments.push(`${quote(column)} = COALESCE(${quote(column)}, 0) + ?`);
+        params.push(change.increment);
+      } else {
+        assignments.push(`${quote(column)} = ?`);
+        params.push(change);
+      }
+    }
+
+    const compiled = compileWhere(where);
+    const result = await this.db.runAsync(
+      `UPDATE ${quote(table)} SET ${assignments.join(', ')}${compiled.sql}`,
+      [...params, ...compiled.params]
+    );
+    return result.changes;
+  }
+
+  async delete(table: string, where?: Where): Promise<number> {
+    const compiled = compileWhere(where);
+    const result = await this.db.runAsync(
+      `DELETE FROM ${quote(table)}${compiled.sql}`,
+      compiled.params
+    );
+    return result.changes;
+  }
+
+  async transaction<T>(task: (tx: StorageQueries) => Promise<T>): Promise<T> {
+    return task(this);
+  }
+}
+
+export class SQLiteEngine implements StorageEngine {
+  readonly kind: StorageEngineKind = 'sqlite';
+
+  private db: SQLiteDatabase | null = null;
+  private queries: SQLiteQueries | null = null;
+  private queue = new OperationQueue();
+
+  constructor(private databaseName: string = DATABASE_NAME) {}
+
+  async open(): Promise<void> {
+    // Loaded lazily so the web bundle never pulls in the native module
+    const SQLite: typeof import('expo-sqlite') = require('expo-sqlite');
+
+    try {
+      this.setDb(await SQLite.openDatabaseAsync(this.databaseName));
+      await this.getDb().execAsync('PRAGMA journal_mode = WAL;');
+      const check = await this.getDb().getFirstAsync<{ quick_check: string }>('PRAGMA quick_check;');
+      if (check?.quick_check !== 'ok') {
+        throw new DatabaseCorruptError(`Integrity check failed: ${check?.quick_check ?? 'no result'}`);
+      }
+    } catch (error) {
+      if (error instanceof DatabaseCorruptError) throw error;
+      const message = error instanceof Error ? error.message : String(error);
+      if (CORRUPTION_PATTERN.test(message)) {
+        throw new DatabaseCorruptError(message);
+      }
+      throw error;
+    }
+  }
+
+  async close(): Promise<void> {
+    await this.queue.run(async () => {
+      await this.db?.closeAsync();
+      this.setDb(null);
+    });
+  }
+
+  async reset(): Promise<void> {
+    const SQLite: typeof import('expo-sqlite') = require('expo-sqlite');
+
+    await this.queue.run(async () => {
+      try {
+        await this.db?.closeAsync();
+      } catch {
+        // A corrupt database may fail to close cleanly
+      }
+      this.setDb(null);
+
+      await SQLite.deleteDatabaseAsync(this.databaseName);
+      this.setDb(await SQLite.openDatabaseAsync(this.databaseName));
+      await this.getDb().execAsync('PRAGMA journal_mode = WAL;');
+    });
+  }
+
+  createTable(schema: TableSchema): Promise<void> {
+    return this.exclusive((queries) => queries.createTable(schema));
+  }
+
+  addColumn(
+    table: string,
+    column: string,
+    definition: string,
+    defaultValue?: ColumnValue
+  ): Promise<void> {
+    return this.exclusive((queries) => queries.addColumn(table, column, definition, defaultValue));
+  }
+
+  insert<T extends RowOf<T>>(table: string, values: T): Promise<number> {
+    return this.exclusive((queries) => queries.insert(table, values));
+  }
+
+  async upsert<T extends RowOf<T>>(table: string, values: T[]): Promise<void> {
+    if (values.length === 0) return;
+    await this.transaction((tx) => tx.upsert(table, values));
+  }
+
+  select<T = Row>(table: string, options?: QueryOptions): Promise<T[]> {
+    return this.exclusive((queries) => queries.select<T>(table, options));
+  }
+
+  first<T = Row>(table: string, options?: QueryOptions): Promise<T | null> {
+    return this.exclusive((queries) => queries.first<T>(table, options));
+  }
+
+  count(table: string, where?: Where): Promise<number> {
+    return this.exclusive((queries) => queries.count(table, where));
+  }
+
+  update(table: string, where: Where, changes: Changes): Promise<number> {
+    return this.exclusive((queries) => queries.update(table, where, changes));
+  }
+
+  delete(table: string, where?: Where): Promise<number> {
+    return this.exclusive((queries) => queries.delete(table, where));
+  }
+
+  transaction<T>(task: (tx: StorageQueries) => Promise<T>): Promise<T> {
+    return this.queue.run(async () => {
+      const queries = this.getQueries();
+      let result: T | undefined;
+      await this.getDb().withTransactionAsync(async () => {
+        result = await task(queries);
+      });
+      return result as T;
+    });
+  }
+
+  /**
+   * Run a single operation once everything queued before it is done
+   */
+  private exclusive<T>(operation: (queries: SQLiteQueries) => Promise<T>): Promise<T> {
+    return this.queue.run(() => operation(this.getQueries()));
+  }
+
+  private setDb(db: SQLiteDatabase | null): void {
+    this.db = db;
+    this.queries = db ? new SQLiteQueries(db) : null;
+  }
+
+  private getDb(): SQLiteDatabase {
+    if (!this.db) {
+      throw new Error('SQLite database is not open');
+    }
+    return this.db;
+  }
+
+  private getQueries(): SQLiteQueries {
+    if (!this.queries) {
+      throw new Error('SQLite database is not open');
+    }
+    return this.queries;
+  }
+}
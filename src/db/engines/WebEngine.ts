@@ -0,0 +1,128 @@
+/**
+ * BUS-Tickets - Web Storage Engine
+ * Keeps tables in memory and persists them to IndexedDB,
+ * falling back to localStorage where IndexedDB is unavailable
+ * Copyright (c) 2024-2026 IT Enterprise
+ */
+
+import { MemoryEngine, TableData } from './MemoryEngine';
+import type { StorageEngineKind } from './types';
+
+const DB_NAME = 'bus_tickets';
+const STORE_NAME = 'tables';
+const LOCAL_STORAGE_PREFIX = '@bus_tickets_db_';
+// Names of the persisted tables, so they can be loaded without a schema list
+const CATALOG_KEY = '__catalog';
+
+interface TableStore {
+  load<T>(key: string): Promise<T | null>;
+  save<T>(key: string, data: T): Promise<void>;
+  clear(): Promise<void>;
+  close(): void;
+}
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function openIndexedDbStore(): Promise<TableStore> {
+  const request = indexedDB.open(DB_NAME, 1);
+  request.onupgradeneeded = () => {
+    request.result.createObjectStore(STORE_NAME);
+  };
+  const db = await requestToPromise(request);
+
+  return {
+    async load<T>(key: string) {
+      const store = db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME);
+      const data = await requestToPromise(store.get(key));
+      return (data as T | undefined) ?? null;
+    },
+    async save(key, data) {
+      const store = db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME);
+      await requestToPromise(store.put(data, key));
+    },
+    async clear() {
+      const store = db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME);
+      await requestToPromise(store.clear());
+    },
+    close() {
+      db.close();
+    },
+  };
+}
+
+function openLocalStorageStore(): TableStore {
+  return {
+    async load<T>(key: string) {
+      const stored = localStorage.getItem(`${LOCAL_STORAGE_PREFIX}${key}`);
+      return stored ? (JSON.parse(stored) as T) : null;
+    },
+    async save(key, data) {
+      localStorage.setItem(`${LOCAL_STORAGE_PREFIX}${key}`, JSON.stringify(data));
+    },
+    async clear() {
+      Object.keys(localStorage)
+        .filter((key) => key.startsWith(LOCAL_STORAGE_PREFIX))
+        .forEach((key) => localStorage.removeItem(key));
+    },
+    close() {
+      // Nothing to close
+    },
+  };
+}
+
+export class WebEngine extends MemoryEngine {
+  readonly kind: StorageEngineKind = 'web';
+
+  private store: TableStore | null = null;
+
+  async open(): Promise<void> {
+    this.store = await this.openStore();
+    this.tables.clear();
+
+    const catalog = (await this.store.load<string[]>(CATALOG_KEY)) ?? [];
+    for (const table of catalog) {
+      const stored = await this.store.load<TableData>(table);
+      if (stored) {
+        this.tables.set(table, stored);
+      }
+    }
+  }
+
+  async close(): Promise<void> {
+    this.store?.close();
+    this.store = null;
+  }
+
+  async reset(): Promise<void> {
+    await super.reset();
+    await this.store?.clear();
+  }
+
+  protected async persist(tables: string[]): Promise<void> {
+    if (!this.store) return;
+
+    for (const table of tables) {
+      const data = this.tables.get(table);
+      if (data) {
+        await this.store.save(table, data);
+      }
+    }
+    await this.store.save(CATALOG_KEY, Array.from(this.tables.keys()));
+  }
+
+  private async openStore(): Promise<TableStore> {
+    if (typeof indexedDB !== 'undefined') {
+      try {
+        return await openIndexedDbStore();
+      } catch (error) {
+        console.warn('IndexedDB unavailable, using localStorage:', error);
+      }
+    }
+    return openLocalStorageStore();
+  }
+}
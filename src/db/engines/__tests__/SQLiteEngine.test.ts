@@ -0,0 +1,277 @@
+/**
+ * BUS-Tickets - SQLite Engine Tests
+ * Copyright (c) 2024-2026 IT Enterprise
+ *
+ * Runs against a fake expo-sqlite database that records the SQL it is given
+ */
+
+import { beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { SQLiteEngine } from '../SQLiteEngine';
+import { DatabaseCorruptError } from '../../errors';
+
+interface Statement {
+  method: string;
+  sql: string;
+  params?: unknown[];
+}
+
+const mockDb = {
+  statements: [] as Statement[],
+  quickCheck: 'ok' as string,
+  tableInfo: [] as Array<{ name: string }>,
+  firstRow: null as unknown,
+  record(method: string, sql: string, params?: unknown[]) {
+    this.statements.push({ method, sql: sql.replace(/\s+/g, ' ').trim(), params });
+  },
+  async execAsync(sql: string) {
+    mockDb.record('exec', sql);
+  },
+  async getFirstAsync(sql: string, params?: unknown[]) {
+    if (sql.startsWith('PRAGMA quick_check')) return { quick_check: mockDb.quickCheck };
+    mockDb.record('first', sql, params);
+    return mockDb.firstRow;
+  },
+  async getAllAsync(sql: string, params?: unknown[]) {
+    mockDb.record('all', sql, params);
+    return sql.startsWith('PRAGMA table_info') ? mockDb.tableInfo : [];
+  },
+  async runAsync(sql: string, params?: unknown[]) {
+    mockDb.record('run', sql, params);
+    return { lastInsertRowId: 7, changes: 2 };
+  },
+  async withTransactionAsync(task: () => Promise<void>) {
+    mockDb.record('exec', 'BEGIN');
+    try {
+      await task();
+    } catch (error) {
+      mockDb.record('exec', 'ROLLBACK');
+      throw error;
+    }
+    mockDb.record('exec', 'COMMIT');
+  },
+  async closeAsync() {},
+};
+
+jest.mock('expo-sqlite', () => ({
+  openDatabaseAsync: async () => mockDb,
+  deleteDatabaseAsync: async () => {},
+}));
+
+async function openEngine(): Promise<SQLiteEngine> {
+  const engine = new SQLiteEngine('test.db');
+  await engine.open();
+  mockDb.statements = [];
+  return engine;
+}
+
+function lastStatement(): Statement {
+  return mockDb.statements[mockDb.statements.length - 1];
+}
+
+describe('SQLiteEngine', () => {
+  beforeEach(() => {
+    mockDb.statements = [];
+    mockDb.quickCheck = 'ok';
+    mockDb.tableInfo = [];
+    mockDb.firstRow = null;
+  });
+
+  it('fails to open a database that does not pass the integrity check', async () => {
+    mockDb.quickCheck = 'row 3 missing from index';
+
+    await expect(new SQLiteEngine('test.db').open()).rejects.toBeInstanceOf(DatabaseCorruptError);
+  });
+
+  it('creates tables with quoted identifiers', async () => {
+    const engine = await openEngine();
+
+    await engine.createTable({
+      name: 'metadata',
+      primaryKey: 'key',
+      columns: { key: 'TEXT PRIMARY KEY NOT NULL', value: 'TEXT' },
+    });
+
+    expect(lastStatement().sql).toBe(
+      'CREATE TABLE IF NOT EXISTS "metadata" ("key" TEXT PRIMARY KEY NOT NULL, "value" TEXT);'
+    );
+  });
+
+  it('adds a missing column and backfills its default', async () => {
+    const engine = await openEngine();
+
+    await engine.addColumn('offline_queue', 'status', "TEXT NOT NULL DEFAULT 'pending'", 'pending');
+
+    expect(mockDb.statements.map(({ sql, params }) => [sql, params])).toEqual([
+      ['PRAGMA table_info("offline_queue")', undefined],
+      [`ALTER TABLE "offline_queue" ADD COLUMN "status" TEXT NOT NULL DEFAULT 'pending';`, undefined],
+      ['UPDATE "offline_queue" SET "status" = ? WHERE "status" IS NULL', ['pending']],
+    ]);
+  });
+
+  it('skips a column that already exists', async () => {
+    const engine = await openEngine();
+    mockDb.tableInfo = [{ name: 'id' }, { name: 'status' }];
+
+    await engine.addColumn('offline_queue', 'status', 'TEXT');
+
+    expect(mockDb.statements).toHaveLength(1);
+  });
+
+  it('inserts with placeholders and returns the new row ID', async () => {
+    const engine = await openEngine();
+
+    await expect(engine.insert('tickets', { id: 1, ticket_number: 'T-1' })).resolves.toBe(7);
+    expect(lastStatement()).toEqual({
+      method: 'run',
+      sql: 'INSERT INTO "tickets" ("id", "ticket_number") VALUES (?, ?)',
+      params: [1, 'T-1'],
+    });
+  });
+
+  it('upserts every row in one transaction', async () => {
+    const engine = await openEngine();
+
+    await engine.upsert('trips', [{ id: 1 }, { id: 2 }]);
+
+    expect(mockDb.statements.map(({ sql, params }) => [sql, params])).toEqual([
+      ['BEGIN', undefined],
+      ['INSERT OR REPLACE INTO "trips" ("id") VALUES (?)', [1]],
+      ['INSERT OR REPLACE INTO "trips" ("id") VALUES (?)', [2]],
+      ['COMMIT', undefined],
+    ]);
+  });
+
+  it('compiles every kind of condition', async () => {
+    const engine = await openEngine();
+
+    await engine.select('tickets', {
+      where: {
+        status: 'paid',
+        checked_in_at: null,
+        seat: { ne: null },
+        trip_id: { in: [1, 2] },
+        id: { notIn: [3] },
+        price_amount: { gte: 10 },
+        synced_at: { lt: 99 },
+        passenger_name: { like: '%olena%' },
+      },
+      orderBy: [{ column: 'purchased_at', direction: 'desc' }, { column: 'id' }],
+      limit: 5.9,
+    });
+
+    expect(lastStatement()).toEqual({
+      method: 'all',
+      sql:
+        'SELECT * FROM "tickets" WHERE "status" = ? AND "checked_in_at" IS NULL' +
+        ' AND "seat" IS NOT NULL AND "trip_id" IN (?, ?) AND "id" NOT IN (?)' +
+        ' AND "price_amount" >= ? AND "synced_at" < ? AND "passenger_name" LIKE ?' +
+        ' ORDER BY "purchased_at" DESC, "id" ASC LIMIT 5',
+      params: ['paid', 1, 2, 3, 10, 99, '%olena%'],
+    });
+  });
+
+  it('compiles empty IN lists to constant conditions', async () => {
+    const engine = await openEngine();
+
+    await engine.select('tickets', { where: { id: { in: [] } } });
+    expect(lastStatement().sql).toBe('SELECT * FROM "tickets" WHERE 0');
+
+    await engine.delete('tickets', { id: { notIn: [] } });
+    expect(lastStatement().sql).toBe('DELETE FROM "tickets" WHERE "id" IS NOT NULL');
+  });
+
+  it('limits first() to one row', async () => {
+    const engine = await openEngine();
+    mockDb.firstRow = { id: 1 };
+
+    await expect(engine.first('trips', { where: { id: 1 } })).resolves.toEqual({ id: 1 });
+    expect(lastStatement().sql).toBe('SELECT * FROM "trips" WHERE "id" = ? LIMIT 1');
+  });
+
+  it('counts matching rows', async () => {
+    const engine = await openEngine();
+    mockDb.firstRow = { count: 4 };
+
+    await expect(engine.count('offline_queue', { status: 'dead' })).resolves.toBe(4);
+    expect(lastStatement()).toMatchObject({
+      sql: 'SELECT COUNT(*) AS count FROM "offline_queue" WHERE "status" = ?',
+      params: ['dead'],
+    });
+  });
+
+  it('updates with assignments before condition parameters', async () => {
+    const engine = await openEngine();
+
+    await expect(
+      engine.update('offline_queue', { id: 3 }, { retry_count: { increment: 1 }, last_error: 'x' })
+    ).resolves.toBe(2);
+    expect(lastStatement()).toMatchObject({
+      sql:
+        'UPDATE "offline_queue" SET "retry_count" = COALESCE("retry_count", 0) + ?,' +
+        ' "last_error" = ? WHERE "id" = ?',
+      params: [1, 'x', 3],
+    });
+  });
+
+  it('deletes every row without a condition', async () => {
+    const engine = await openEngine();
+
+    await engine.delete('offline_queue');
+
+    expect(lastStatement()).toMatchObject({ sql: 'DELETE FROM "offline_queue"', params: [] });
+  });
+
+  it('escapes quotes in identifiers', async () => {
+    const engine = await openEngine();
+
+    await engine.select('odd"table');
+
+    expect(lastStatement().sql).toBe('SELECT * FROM "odd""table"');
+  });
+
+  it('runs nested transactions inside the outer one', async () => {
+    const engine = await openEngine();
+
+    await engine.transaction(async (tx) => {
+      await tx.transaction(async (nested) => {
+        await nested.delete('trips');
+      });
+    });
+
+    expect(mockDb.statements.map(({ sql }) => sql)).toEqual(['BEGIN', 'DELETE FROM "trips"', 'COMMIT']);
+  });
+
+  it('runs a concurrent caller after the transaction, not inside it', async () => {
+    const engine = await openEngine();
+    let release!: () => void;
+    const released = new Promise<void>((resolve) => (release = resolve));
+
+    const failing = engine.transaction(async (tx) => {
+      await tx.delete('tickets');
+      await released;
+      throw new Error('rolled back');
+    });
+    const unrelated = engine.insert('trips', { id: 1 });
+    const nextTransaction = engine.transaction((tx) => tx.delete('trips', { id: 2 }));
+    release();
+
+    await expect(failing).rejects.toThrow('rolled back');
+    await unrelated;
+    await nextTransaction;
+    expect(mockDb.statements.map(({ sql }) => sql)).toEqual([
+      'BEGIN',
+      'DELETE FROM "tickets"',
+      'ROLLBACK',
+      'INSERT INTO "trips" ("id") VALUES (?)',
+      'BEGIN',
+      'DELETE FROM "trips" WHERE "id" = ?',
+      'COMMIT',
+    ]);
+  });
+
+  it('refuses queries before the database is open', async () => {
+    await expect(new SQLiteEngine('test.db').select('trips')).rejects.toThrow(
+      'SQLite database is not open'
+    );
+  });
+});
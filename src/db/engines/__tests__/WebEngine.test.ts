@@ -0,0 +1,111 @@
+/**
+ * BUS-Tickets - Web Engine Tests
+ * Copyright (c) 2024-2026 IT Enterprise
+ *
+ * Jest has no IndexedDB, so these run on the localStorage fallback
+ */
+
+import { afterEach, beforeEach, describe, expect, it } from '@jest/globals';
+import { WebEngine } from '../WebEngine';
+import type { TableSchema } from '../types';
+
+const TRIPS: TableSchema = {
+  name: 'trips',
+  primaryKey: 'id',
+  columns: { id: 'INTEGER PRIMARY KEY NOT NULL', city: 'TEXT' },
+};
+
+/**
+ * Stored items are the object's own keys, as with the browser's localStorage
+ */
+function createLocalStorage(): Storage {
+  const storage = {} as Record<string, string>;
+  Object.defineProperties(storage, {
+    getItem: { value: (key: string) => (key in storage ? storage[key] : null) },
+    setItem: {
+      value: (key: string, value: string) => {
+        storage[key] = String(value);
+      },
+    },
+    removeItem: {
+      value: (key: string) => {
+        delete storage[key];
+      },
+    },
+  });
+  return storage as unknown as Storage;
+}
+
+async function openEngine(): Promise<WebEngine> {
+  const engine = new WebEngine();
+  await engine.open();
+  return engine;
+}
+
+describe('WebEngine', () => {
+  beforeEach(() => {
+    (globalThis as { localStorage?: Storage }).localStorage = createLocalStorage();
+  });
+
+  afterEach(() => {
+    delete (globalThis as { localStorage?: Storage }).localStorage;
+  });
+
+  it('persists tables across reopening', async () => {
+    const engine = await openEngine();
+    await engine.createTable(TRIPS);
+    await engine.insert('trips', { id: 1, city: 'Praha' });
+    await engine.upsert('trips', [{ id: 2, city: 'Kyiv' }]);
+    await engine.close();
+
+    const reopened = await openEngine();
+    await expect(reopened.select('trips', { orderBy: [{ column: 'id' }] })).resolves.toEqual([
+      { id: 1, city: 'Praha' },
+      { id: 2, city: 'Kyiv' },
+    ]);
+  });
+
+  it('persists added columns with their default', async () => {
+    const engine = await openEngine();
+    await engine.createTable(TRIPS);
+    await engine.insert('trips', { id: 1, city: 'Praha' });
+    await engine.addColumn('trips', 'status', "TEXT NOT NULL DEFAULT 'scheduled'", 'scheduled');
+
+    const reopened = await openEngine();
+    await expect(reopened.first('trips')).resolves.toEqual({
+      id: 1,
+      city: 'Praha',
+      status: 'scheduled',
+    });
+  });
+
+  it('saves a transaction only when it commits', async () => {
+    const engine = await openEngine();
+    await engine.createTable(TRIPS);
+
+    await expect(
+      engine.transaction(async (tx) => {
+        await tx.insert('trips', { id: 1, city: 'Praha' });
+        throw new Error('rolled back');
+      })
+    ).rejects.toThrow('rolled back');
+    await engine.transaction(async (tx) => {
+      await tx.insert('trips', { id: 2, city: 'Kyiv' });
+    });
+
+    const reopened = await openEngine();
+    await expect(reopened.select('trips')).resolves.toEqual([{ id: 2, city: 'Kyiv' }]);
+  });
+
+  it('clears the stored tables on reset', async () => {
+    const engine = await openEngine();
+    await engine.createTable(TRIPS);
+    await engine.insert('trips', { id: 1, city: 'Praha' });
+
+    await engine.reset();
+
+    expect(Object.keys(localStorage)).toEqual([]);
+    const reopened = await openEngine();
+    await expect(reopened.select('trips')).rejects.toThrow('no such table: trips');
+  });
+});
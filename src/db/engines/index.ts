@@ -0,0 +1,41 @@
+/**
+ * BUS-Tickets - Storage Engine Exports
+ * Copyright (c) 2024-2026 IT Enterprise
+ */
+
+import { Platform } from 'react-native';
+import { MemoryEngine } from './MemoryEngine';
+import { SQLiteEngine } from './SQLiteEngine';
+import { WebEngine } from './WebEngine';
+import type { StorageEngine } from './types';
+
+export { MemoryEngine, SQLiteEngine, WebEngine };
+export type {
+  StorageEngine,
+  StorageQueries,
+  StorageEngineKind,
+  TableSchema,
+  Row,
+  RowOf,
+  ColumnValue,
+  Condition,
+  Where,
+  OrderBy,
+  QueryOptions,
+  Change,
+  Changes,
+} from './types';
+
+/**
+ * Pick the engine for the current runtime:
+ * in-memory under Jest, IndexedDB/localStorage on web, SQLite on native
+ */
+export function createStorageEngine(): StorageEngine {
+  if (process.env.NODE_ENV === 'test') {
+    return new MemoryEngine();
+  }
+  if (Platform.OS === 'web') {
+    return new WebEngine();
+  }
+  return new SQLiteEngine();
+}
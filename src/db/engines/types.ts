@@ -0,0 +1,131 @@
+/**
+ * BUS-Tickets - Storage Engine Types
+ * Copyright (c) 2024-2026 IT Enterprise
+ *
+ * Every engine (SQLite, web, in-memory) exposes the same table-oriented
+ * query surface, so repositories never depend on a concrete backend.
+ */
+
+export type StorageEngineKind = 'sqlite' | 'web' | 'memory';
+
+export type ColumnValue = string | number | null;
+
+export type Row = Record<string, ColumnValue>;
+
+/**
+ * Any object whose properties are all column values (interfaces included)
+ */
+export type RowOf<T> = { [K in keyof T]: ColumnValue };
+
+export interface TableSchema {
+  name: string;
+  primaryKey: string;
+  autoIncrement?: boolean;
+  /**
+   * Column name to SQLite column definition (ignored by document engines)
+   */
+  columns: Record<string, string>;
+}
+
+/**
+ * Column condition. A plain value means equality (`null` means IS NULL).
+ * `like` follows SQL LIKE semantics (`%` and `_`, case-insensitive).
+ */
+export type Condition =
+  | ColumnValue
+  | { in: ColumnValue[] }
+  | { notIn: ColumnValue[] }
+  | { ne: ColumnValue }
+  | { lt: string | number }
+  | { lte: string | number }
+  | { gt: string | number }
+  | { gte: string | number }
+  | { like: string };
+
+export type Where = Record<string, Condition>;
+
+export interface OrderBy {
+  column: string;
+  direction?: 'asc' | 'desc';
+}
+
+export interface QueryOptions {
+  where?: Where;
+  orderBy?: OrderBy[];
+  limit?: number;
+}
+
+/**
+ * Column change for update(). `{ increment: n }` adds n to the current value.
+ */
+export type Change = ColumnValue | { increment: number };
+
+export type Changes = Record<string, Change>;
+
+/**
+ * The table operations, shared by an engine and the transactions it runs
+ */
+export interface StorageQueries {
+  /**
+   * Create a table unless it already exists
+   */
+  createTable(schema: TableSchema): Promise<void>;
+
+  /**
+   * Add a column unless it already exists, filling existing rows with `defaultValue`
+   */
+  addColumn(
+    table: string,
+    column: string,
+    definition: string,
+    defaultValue?: ColumnValue
+  ): Promise<void>;
+
+  /**
+   * Insert a single row and return its primary key
+   */
+  insert<T extends RowOf<T>>(table: string, row: T): Promise<number>;
+
+  /**
+   * Insert rows, replacing existing ones with the same primary key
+   */
+  upsert<T extends RowOf<T>>(table: string, rows: T[]): Promise<void>;
+
+  select<T = Row>(table: string, options?: QueryOptions): Promise<T[]>;
+  first<T = Row>(table: string, options?: QueryOptions): Promise<T | null>;
+  count(table: string, where?: Where): Promise<number>;
+
+  /**
+   * Update matching rows and return the number of changed rows
+   */
+  update(table: string, where: Where, changes: Changes): Promise<number>;
+
+  /**
+   * Delete matching rows (all rows without `where`) and return the count
+   */
+  delete(table: string, where?: Where): Promise<number>;
+
+  /**
+   * Run `task` atomically with `tx`. On a transaction's own `tx` this
+   * joins the enclosing transaction.
+   */
+  transaction<T>(task: (tx: StorageQueries) => Promise<T>): Promise<T>;
+}
+
+/**
+ * Operations and transactions run one at a time, in call order, so a
+ * concurrent caller never lands inside another caller's transaction.
+ * Work inside a transaction must go through its `tx`: calling the engine
+ * itself from there waits for the transaction and never runs.
+ */
+export interface StorageEngine extends StorageQueries {
+  readonly kind: StorageEngineKind;
+
+  open(): Promise<void>;
+  close(): Promise<void>;
+
+  /**
+   * Drop all data and start from an empty database
+   */
+  reset(): Promise<void>;
+}
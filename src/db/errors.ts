@@ -0,0 +1,27 @@
+/**
+ * BUS-Tickets - Database Errors
+ * Copyright (c) 2024-2026 IT Enterprise
+ */
+
+/**
+ * The local database file or its schema metadata cannot be trusted
+ */
+export class DatabaseCorruptError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DatabaseCorruptError';
+  }
+}
+
+/**
+ * A schema migration could not be applied; the database keeps its previous version
+ */
+export class DatabaseMigrationError extends Error {
+  constructor(
+    message: string,
+    public readonly version: number
+  ) {
+    super(message);
+    this.name = 'DatabaseMigrationError';
+  }
+}
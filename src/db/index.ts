@@ -4,7 +4,14 @@
  */
 
 export { database } from './database';
+export { createStorageEngine, MemoryEngine, SQLiteEngine, WebEngine } from './engines';
+export { DatabaseCorruptError, DatabaseMigrationError } from './errors';
+export { migrations, LATEST_SCHEMA_VERSION } from './migrations';
 export { ticketRepository } from './TicketRepository';
 export { offlineQueue } from './OfflineQueue';
+export { travellerRepository } from './TravellerRepository';
 export type { CachedTicket, CachedTrip } from './TicketRepository';
+export type { CachedTraveller } from './TravellerRepository';
 export type { QueuedAction, ActionType, EntityType, ActionPayload } from './OfflineQueue';
+export type { Migration } from './migrations';
+export type { StorageEngine, StorageEngineKind, StorageQueries, TableSchema } from './engines';
@@ -0,0 +1,204 @@
+/**
+ * BUS-Tickets - Schema Migrations
+ * Copyright (c) 2024-2026 IT Enterprise
+ *
+ * Migrations are append-only: never edit one that has shipped,
+ * add a new version instead.
+ */
+
+import type { StorageEngine, StorageQueries } from './engines';
+import { TRIPS_TABLE, TICKETS_TABLE, OFFLINE_QUEUE_TABLE, TRAVELLERS_TABLE } from './schema';
+import { DatabaseCorruptError, DatabaseMigrationError } from './errors';
+
+export const SCHEMA_VERSION_KEY = 'schema_version';
+
+export interface Migration {
+  version: number;
+  name: string;
+  up(engine: StorageQueries): Promise<void>;
+}
+
+export interface SchemaVersionStore {
+  get(key: string): Promise<string | null>;
+  /**
+   * Store `value`, as part of the transaction `tx` when one is given
+   */
+  set(key: string, value: string, tx?: StorageQueries): Promise<void>;
+}
+
+export const migrations: Migration[] = [
+  {
+    version: 1,
+    name: 'initial_tables',
+    async up(engine) {
+      await engine.createTable({
+        name: TRIPS_TABLE,
+        primaryKey: 'id',
+        columns: {
+          id: 'INTEGER PRIMARY KEY NOT NULL',
+          route_id: 'INTEGER',
+          route_name: 'TEXT',
+          origin_city: 'TEXT',
+          origin_country: 'TEXT',
+          destination_city: 'TEXT',
+          destination_country: 'TEXT',
+          departure_time: 'TEXT NOT NULL',
+          arrival_time: 'TEXT NOT NULL',
+          bus_name: 'TEXT',
+          bus_plate: 'TEXT',
+          bus_capacity: 'INTEGER',
+          bus_amenities: 'TEXT',
+          available_seats: 'INTEGER',
+          total_seats: 'INTEGER',
+          price_amount: 'REAL',
+          price_currency: 'TEXT',
+          status: 'TEXT',
+          synced_at: 'INTEGER NOT NULL',
+        },
+      });
+
+      await engine.createTable({
+        name: TICKETS_TABLE,
+        primaryKey: 'id',
+        columns: {
+          id: 'INTEGER PRIMARY KEY NOT NULL',
+          ticket_number: 'TEXT NOT NULL',
+          trip_id: 'INTEGER NOT NULL',
+          passenger_name: 'TEXT',
+          passenger_email: 'TEXT',
+          passenger_phone: 'TEXT',
+          seat: 'INTEGER',
+          price_amount: 'REAL',
+          price_currency: 'TEXT',
+          status: 'TEXT NOT NULL',
+          qr_code: 'TEXT',
+          purchased_at: 'TEXT',
+          checked_in_at: 'TEXT',
+          synced_at: 'INTEGER NOT NULL',
+        },
+      });
+
+      await engine.createTable({
+        name: OFFLINE_QUEUE_TABLE,
+        primaryKey: 'id',
+        autoIncrement: true,
+        columns: {
+          id: 'INTEGER PRIMARY KEY AUTOINCREMENT',
+          action_type: 'TEXT NOT NULL',
+          entity_type: 'TEXT NOT NULL',
+          entity_id: 'INTEGER',
+          payload: 'TEXT NOT NULL',
+          created_at: 'INTEGER NOT NULL',
+          retry_count: 'INTEGER NOT NULL DEFAULT 0',
+          last_error: 'TEXT',
+        },
+      });
+    },
+  },
+  {
+    version: 2,
+    name: 'location_bus_and_document_columns',
+    async up(engine) {
+      await engine.addColumn(TRIPS_TABLE, 'origin_id', 'INTEGER');
+      await engine.addColumn(TRIPS_TABLE, 'destination_id', 'INTEGER');
+      await engine.addColumn(TRIPS_TABLE, 'bus_id', 'INTEGER');
+      await engine.addColumn(TICKETS_TABLE, 'passenger_document_type', 'TEXT');
+      await engine.addColumn(TICKETS_TABLE, 'passenger_document_number', 'TEXT');
+    },
+  },
+  {
+    version: 3,
+    name: 'offline_queue_idempotency_key',
+    async up(engine) {
+      // Rows queued before this version get a key on their next replay
+      await engine.addColumn(OFFLINE_QUEUE_TABLE, 'idempotency_key', 'TEXT');
+    },
+  },
+  {
+    version: 4,
+    name: 'offline_queue_backoff',
+    async up(engine) {
+      await engine.addColumn(OFFLINE_QUEUE_TABLE, 'status', "TEXT NOT NULL DEFAULT 'pending'", 'pending');
+      await engine.addColumn(OFFLINE_QUEUE_TABLE, 'next_attempt_at', 'INTEGER NOT NULL DEFAULT 0', 0);
+      // Actions hidden by the old retry limit become dead letters
+      await engine.update(OFFLINE_QUEUE_TABLE, { retry_count: { gte: 3 } }, { status: 'dead' });
+    },
+  },
+  {
+    version: 5,
+    name: 'travellers',
+    async up(engine) {
+      await engine.createTable({
+        name: TRAVELLERS_TABLE,
+        primaryKey: 'id',
+        columns: {
+          id: 'INTEGER PRIMARY KEY NOT NULL',
+          user_id: 'INTEGER NOT NULL',
+          name: 'TEXT NOT NULL',
+          email: 'TEXT',
+          phone: 'TEXT',
+          date_of_birth: 'TEXT',
+          document_type: 'TEXT',
+          document_number: 'TEXT',
+          updated_at: 'TEXT NOT NULL',
+          synced_at: 'INTEGER NOT NULL',
+        },
+      });
+    },
+  },
+];
+
+export const LATEST_SCHEMA_VERSION = migrations[migrations.length - 1].version;
+
+/**
+ * Read the stored schema version (0 for a fresh database)
+ */
+export async function getSchemaVersion(store: SchemaVersionStore): Promise<number> {
+  const stored = await store.get(SCHEMA_VERSION_KEY);
+  if (stored === null) return 0;
+
+  const version = Number(stored);
+  if (!Number.isInteger(version) || version < 0) {
+    throw new DatabaseCorruptError(`Invalid schema version: ${stored}`);
+  }
+  return version;
+}
+
+/**
+ * Apply pending migrations in order. Each one runs in its own transaction
+ * together with the version bump, so a failure leaves the previous version intact.
+ */
+export async function runMigrations(
+  engine: StorageEngine,
+  store: SchemaVersionStore
+): Promise<number> {
+  const current = await getSchemaVersion(store);
+
+  if (current > LATEST_SCHEMA_VERSION) {
+    // Written by a newer app build; refuse to guess at its layout
+    throw new DatabaseMigrationError(
+      `Database schema v${current} is newer than supported v${LATEST_SCHEMA_VERSION}`,
+      current
+    );
+  }
+
+  for (const migration of migrations) {
+    if (migration.version <= current) continue;
+
+    try {
+      await engine.transaction(async (tx) => {
+        await migration.up(tx);
+        await store.set(SCHEMA_VERSION_KEY, String(migration.version), tx);
+      });
+      console.log(`Applied migration ${migration.version} (${migration.name})`);
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      throw new DatabaseMigrationError(
+        `Migration ${migration.version} (${migration.name}) failed: ${reason}`,
+        migration.version
+      );
+    }
+  }
+
+  return Math.max(current, LATEST_SCHEMA_VERSION);
+}
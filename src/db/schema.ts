@@ -0,0 +1,23 @@
+/**
+ * BUS-Tickets - Local Database Schema
+ * Copyright (c) 2024-2026 IT Enterprise
+ *
+ * Table structure is owned by migrations.ts; only the metadata table,
+ * which stores the schema version itself, is created up front.
+ */
+
+import type { TableSchema } from './engines';
+
+export const METADATA_TABLE: TableSchema = {
+  name: 'metadata',
+  primaryKey: 'key',
+  columns: {
+    key: 'TEXT PRIMARY KEY NOT NULL',
+    value: 'TEXT',
+  },
+};
+
+export const TRIPS_TABLE = 'trips';
+export const TICKETS_TABLE = 'tickets';
+export const OFFLINE_QUEUE_TABLE = 'offline_queue';
+export const TRAVELLERS_TABLE = 'travellers';
@@ -9,3 +9,9 @@ export { useTrips } from './useTrips';
 export { useTickets } from './useTickets';
 export { usePayment, usePaymentProvider } from './usePayment';
 export type { PaymentStatus } from './usePayment';
+export { useSeatHold, isSeatHoldActive } from './useSeatHold';
+export { useTravellers } from './useTravellers';
+export { usePriceCalendar } from './usePriceCalendar';
+export { useResultFilters } from './useResultFilters';
+export { useRefund, isRefundPending } from './useRefund';
+export { usePaymentHistory } from './usePaymentHistory';
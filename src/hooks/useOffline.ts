@@ -6,7 +6,7 @@
 import { useState, useEffect, useCallback } from 'react';
 import { syncService, SyncState, SyncOptions } from '../services/SyncService';
 import { ticketRepository } from '../db/TicketRepository';
-import { offlineQueue, ActionType, EntityType, ActionPayload } from '../db/OfflineQueue';
+import { offlineQueue, QueuedAction } from '../db/OfflineQueue';
 import type { Ticket, Trip } from '@/types';
 
 interface UseOfflineReturn {
@@ -15,6 +15,7 @@ interface UseOfflineReturn {
   isOnline: boolean;
   isSyncing: boolean;
   pendingActions: number;
+  failedActions: number;
   lastSyncTime: Date | null;
 
   // Sync operations
@@ -33,8 +34,9 @@ interface UseOfflineReturn {
   queueCheckIn: (ticketId: number) => Promise<number>;
 
   // Queue management
-  getPendingActions: () => Promise<any[]>;
+  getPendingActions: () => Promise<QueuedAction[]>;
   retryFailedAction: (actionId: number) => Promise<void>;
+  discardFailedAction: (actionId: number) => Promise<void>;
   clearFailedActions: () => Promise<void>;
 }
 
@@ -146,26 +148,31 @@ export function useOffline(): UseOfflineReturn {
   }, []);
 
   /**
-   * Get pending actions from queue
+   * Get queued actions, including dead-lettered ones (status 'dead')
    */
-  const getPendingActions = useCallback(async () => {
-    return offlineQueue.getPendingActions();
+  const getPendingActions = useCallback(async (): Promise<QueuedAction[]> => {
+    return offlineQueue.getAllActions();
   }, []);
 
   /**
    * Retry a failed action
    */
   const retryFailedAction = useCallback(async (actionId: number): Promise<void> => {
-    await offlineQueue.retry(actionId);
-    // Trigger sync to process
-    syncService.sync({ processQueue: true, syncTickets: false, syncTrips: false });
+    await syncService.retryFailedAction(actionId);
+  }, []);
+
+  /**
+   * Discard a failed action without replaying it
+   */
+  const discardFailedAction = useCallback(async (actionId: number): Promise<void> => {
+    await syncService.discardFailedAction(actionId);
   }, []);
 
   /**
    * Clear all failed actions
    */
   const clearFailedActions = useCallback(async (): Promise<void> => {
-    await offlineQueue.clearCompleted();
+    await syncService.clearFailedActions();
   }, []);
 
   return {
@@ -174,6 +181,7 @@ export function useOffline(): UseOfflineReturn {
     isOnline: syncService.isNetworkOnline(),
     isSyncing: syncState.status === 'syncing',
     pendingActions: syncState.pendingActions,
+    failedActions: syncState.failedActions,
     lastSyncTime: syncState.lastSyncTime ? new Date(syncState.lastSyncTime) : null,
 
     // Sync operations
@@ -194,6 +202,7 @@ export function useOffline(): UseOfflineReturn {
     // Queue management
     getPendingActions,
     retryFailedAction,
+    discardFailedAction,
     clearFailedActions,
   };
 }
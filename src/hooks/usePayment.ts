@@ -5,7 +5,9 @@
  * Enhanced payment hook with:
  * - Deep linking support
  * - Payment status polling
- * - Provider-specific handling (PayPal, Monobank, Stripe, etc.)
+ * - Persisted payment session, resumed after the app is killed
+ * - Provider-specific handling (PayPal, Monobank, Stripe, etc.) through
+ *   the payment adapters in services/payments
  * - Offline queue support
  */
 
@@ -14,43 +16,20 @@ import { Linking, Platform, AppState, AppStateStatus } from 'react-native';
 import * as WebBrowser from 'expo-web-browser';
 import { useApi } from '../contexts/ApiContext';
 import { useConfig } from '../contexts/ConfigContext';
-import type { PaymentConfig } from '@/types';
-
-export type PaymentStatus =
-  | 'idle'
-  | 'initiating'
-  | 'processing'
-  | 'awaiting_confirmation'
-  | 'success'
-  | 'error'
-  | 'cancelled'
-  | 'refunded';
-
-interface PaymentResult {
-  transactionId: number;
-  reference: string;
-  status: string;
-  paymentUrl?: string;
-  amount: number;
-  currency: string;
-  provider?: string;
-  confirmedAt?: string;
-  errorCode?: string;
-  errorMessage?: string;
-  // PayPal specific
-  formData?: Record<string, string>;
-  method?: 'GET' | 'POST';
-  // Bank transfer specific
-  bankDetails?: {
-    accountNumber: string;
-    bankCode: string;
-    iban: string;
-    swift: string;
-    variableSymbol: string;
-    amount: number;
-    currency: string;
-  };
-}
+import { httpClient } from '../services/HttpClient';
+import { getErrorMessage, SeatHoldExpiredError } from '../services/errors';
+import { decodePaymentResult } from '../services/decoders';
+import {
+  paymentSessionStore,
+  isFinalStatus,
+  PaymentSession,
+  PaymentStatus,
+} from '../services/PaymentSessionStore';
+import { getPaymentAdapter, PaymentAdapter, PaymentLaunch } from '../services/payments';
+import { isSeatHoldActive } from './useSeatHold';
+import type { PaymentConfig, PaymentMethod, PaymentResult, SeatHold } from '@/types';
+
+export type { PaymentStatus } from '../services/PaymentSessionStore';
 
 interface UsePaymentOptions {
   pollInterval?: number;
@@ -58,6 +37,29 @@ interface UsePaymentOptions {
   onSuccess?: (transaction: PaymentResult) => void;
   onError?: (error: string) => void;
   onCancelled?: () => void;
+  /**
+   * Refuse to start a payment unless every hold in `seatHolds` is still
+   * active (one per leg of a round trip)
+   */
+  requireSeatHold?: boolean;
+  seatHolds?: Array<SeatHold | null>;
+  /**
+   * Take over the payment left unfinished by an earlier run of the app:
+   * reconcile it with the backend and keep polling until it settles
+   */
+  resume?: boolean;
+}
+
+interface InitiatePaymentOptions {
+  returnUrl?: string;
+  /**
+   * Promo code to redeem, once, against the total of all `reservationIds`
+   */
+  promoCode?: string;
+  /**
+   * Gateway of `providerId`, when the config doesn't say
+   */
+  method?: PaymentMethod;
 }
 
 interface UsePaymentReturn {
@@ -66,12 +68,20 @@ interface UsePaymentReturn {
   transaction: PaymentResult | null;
   availableProviders: PaymentConfig[];
   isPolling: boolean;
+  /**
+   * Pay the backend for its reservations; a provider's reservations are
+   * registered with it first (`registerProviderReservations`)
+   */
   initiatePayment: (
     reservationIds: number[],
     providerId: number,
-    returnUrl?: string
+    options?: InitiatePaymentOptions
   ) => Promise<PaymentResult>;
   checkPaymentStatus: (transactionId: number) => Promise<PaymentResult>;
+  /**
+   * Take the user to pay `result` the way its gateway expects
+   */
+  launchPayment: (result: PaymentResult) => Promise<PaymentLaunch>;
   openPaymentPage: (paymentUrl: string) => Promise<WebBrowser.WebBrowserResult>;
   startPolling: (transactionId: number) => void;
   stopPolling: () => void;
@@ -81,6 +91,11 @@ interface UsePaymentReturn {
 // Deep link scheme for the app
 const APP_SCHEME = 'bus-tickets';
 
+/**
+ * Failed or cancelled payments are checked again on start for this long
+ */
+const RECHECK_SETTLED_WITHIN_MS = 24 * 60 * 60 * 1000;
+
 export function usePayment(options: UsePaymentOptions = {}): UsePaymentReturn {
   const {
     pollInterval = 3000,
@@ -88,6 +103,9 @@ export function usePayment(options: UsePaymentOptions = {}): UsePaymentReturn {
     onSuccess,
     onError,
     onCancelled,
+    requireSeatHold = false,
+    seatHolds,
+    resume = false,
   } = options;
 
   const api = useApi();
@@ -101,37 +119,105 @@ export function usePayment(options: UsePaymentOptions = {}): UsePaymentReturn {
   const pollIntervalRef = useRef<ReturnType<typeof setInterval> | null>(null);
   const pollAttemptsRef = useRef(0);
   const appStateRef = useRef(AppState.currentState);
+  // The stored session this hook follows, by creation time: the one it
+  // started, or the one it resumed
+  const ownedSessionRef = useRef<string | null>(null);
+  const reportedStatusRef = useRef<PaymentStatus>('idle');
+  const callbacksRef = useRef({ onSuccess, onError, onCancelled });
+  callbacksRef.current = { onSuccess, onError, onCancelled };
 
   // Get available payment providers from config
   const availableProviders = config.paymentProviders.filter((p) => p.enabled);
 
+  const ownedSession = () => {
+    const session = paymentSessionStore.getSession();
+    return session && session.createdAt === ownedSessionRef.current ? session : null;
+  };
+
+  const sessionAdapter = (): PaymentAdapter => {
+    const session = ownedSession();
+    return getPaymentAdapter(session?.method ?? session?.transaction?.provider);
+  };
+
+  // Mirror the owned session, and report the status it settles on
+  useEffect(() => {
+    return paymentSessionStore.subscribe((session) => {
+      if (!session || session.createdAt !== ownedSessionRef.current) return;
+
+      setTransaction(session.transaction ?? null);
+      setStatus(session.status);
+      if (reportedStatusRef.current !== session.status) {
+        reportedStatusRef.current = session.status;
+        const { onSuccess, onError, onCancelled } = callbacksRef.current;
+        if (session.status === 'success' && session.transaction) {
+          onSuccess?.(session.transaction);
+        } else if (session.status === 'error') {
+          onError?.(session.error || 'Payment failed');
+        } else if (session.status === 'cancelled') {
+          onCancelled?.();
+        }
+      }
+      if (session.status === 'error') {
+        setError(session.error || 'Payment failed');
+      }
+      if (isFinalStatus(session.status)) {
+        stopPolling();
+      }
+    });
+  }, []);
+
+  // Pick up where an earlier run of the app left off
+  useEffect(() => {
+    if (!resume) return;
+
+    paymentSessionStore.load().then((session) => {
+      if (!session || ownedSessionRef.current) return;
+
+      // A payment given up on may still have gone through: check it once
+      if (session.status === 'error' || session.status === 'cancelled') {
+        const isRecent = Date.now() - Date.parse(session.updatedAt) < RECHECK_SETTLED_WITHIN_MS;
+        if (isRecent && session.transaction) {
+          ownedSessionRef.current = session.createdAt;
+          reportedStatusRef.current = session.status;
+          checkPaymentStatus(session.transaction.transactionId).catch(() => undefined);
+        }
+        return;
+      }
+      if (isFinalStatus(session.status)) return;
+
+      ownedSessionRef.current = session.createdAt;
+      reportedStatusRef.current = session.status;
+      setStatus(session.status);
+      setTransaction(session.transaction ?? null);
+
+      const transactionId = session.transaction?.transactionId;
+      if (!transactionId) {
+        // Killed before the backend answered; nothing to check against
+        paymentSessionStore.transition('error', { error: 'Payment was interrupted' });
+        return;
+      }
+
+      checkPaymentStatus(transactionId).catch(() => undefined);
+      // Redirect payments settle within minutes; others (bank transfer)
+      // are only checked on start
+      if (session.transaction?.paymentUrl) {
+        startPolling(transactionId);
+      }
+    });
+  }, [resume]);
+
   // Handle deep links for payment return
   useEffect(() => {
     const handleDeepLink = async (event: { url: string }) => {
-      const url = event.url;
-
-      if (url.includes('payment/success') || url.includes('payment/return')) {
-        // Extract transaction reference from URL
-        const params = new URLSearchParams(url.split('?')[1]);
-        const ref = params.get('ref') || params.get('reference');
-        const sessionId = params.get('session_id');
-        const token = params.get('token'); // PayPal
-
-        if (transaction?.transactionId) {
-          // Check final status
-          const result = await checkPaymentStatus(transaction.transactionId);
-          if (result.status === 'done') {
-            setStatus('success');
-            onSuccess?.(result);
-          }
-        }
-      } else if (url.includes('payment/cancelled') || url.includes('cancelled=true')) {
-        setStatus('cancelled');
-        onCancelled?.();
-      } else if (url.includes('payment/error')) {
-        setStatus('error');
-        setError('Payment failed');
-        onError?.('Payment failed');
+      const transactionId = ownedSession()?.transaction?.transactionId;
+      const paymentReturn = sessionAdapter().parseReturnUrl(event.url);
+      if (!paymentReturn) return;
+
+      if (paymentReturn.outcome === 'cancelled' || paymentReturn.outcome === 'error') {
+        await settleFromRedirect(transactionId, paymentReturn.outcome);
+      } else if (transactionId) {
+        // Check final status
+        await checkPaymentStatus(transactionId).catch(() => undefined);
       }
     };
 
@@ -148,7 +234,7 @@ export function usePayment(options: UsePaymentOptions = {}): UsePaymentReturn {
     return () => {
       subscription.remove();
     };
-  }, [transaction?.transactionId]);
+  }, []);
 
   // Handle app state changes (for polling when returning from browser)
   useEffect(() => {
@@ -156,11 +242,11 @@ export function usePayment(options: UsePaymentOptions = {}): UsePaymentReturn {
       if (
         appStateRef.current.match(/inactive|background/) &&
         nextAppState === 'active' &&
-        status === 'processing' &&
+        (status === 'processing' || status === 'awaiting_confirmation') &&
         transaction?.transactionId
       ) {
         // App came to foreground, check payment status
-        checkPaymentStatus(transaction.transactionId);
+        checkPaymentStatus(transaction.transactionId).catch(() => undefined);
       }
       appStateRef.current = nextAppState;
     };
@@ -178,128 +264,102 @@ export function usePayment(options: UsePaymentOptions = {}): UsePaymentReturn {
     };
   }, []);
 
+  /**
+   * A cancel or error redirect is only believed once the backend agrees
+   * the payment didn't go through
+   */
+  const settleFromRedirect = async (
+    transactionId: number | undefined,
+    outcome: 'cancelled' | 'error'
+  ) => {
+    if (!ownedSession()) return;
+    if (transactionId) {
+      try {
+        const result = await checkPaymentStatus(transactionId);
+        if (result.status !== 'draft' && result.status !== 'pending') return;
+      } catch {
+        // Offline: go by the redirect; a later check can still find it paid
+      }
+    }
+    await paymentSessionStore.transition(outcome, { error: 'Payment failed' });
+  };
+
   const initiatePayment = useCallback(
     async (
       reservationIds: number[],
       providerId: number,
-      returnUrl?: string
+      { returnUrl, promoCode, method }: InitiatePaymentOptions = {}
     ): Promise<PaymentResult> => {
-      setStatus('initiating');
       setError(null);
       pollAttemptsRef.current = 0;
 
+      const providerConfig: PaymentConfig | undefined = availableProviders.find(
+        (provider: PaymentConfig) => String(provider.id) === String(providerId)
+      );
+      // An unsettled payment isn't replaced (PaymentInProgressError); keep
+      // following it if it's ours
+      const previousSession = ownedSessionRef.current;
+      ownedSessionRef.current = null;
+      let session: PaymentSession;
       try {
+        session = await paymentSessionStore.start(
+          reservationIds,
+          providerId,
+          method ?? providerConfig?.provider
+        );
+      } catch (err) {
+        ownedSessionRef.current = previousSession;
+        throw err;
+      }
+      ownedSessionRef.current = session.createdAt;
+      reportedStatusRef.current = session.status;
+      setStatus('initiating');
+      setTransaction(null);
+
+      try {
+        // Paying for seats that are no longer held could sell them twice
+        if (
+          requireSeatHold &&
+          (!seatHolds?.length || !seatHolds.every((hold) => isSeatHoldActive(hold)))
+        ) {
+          throw new SeatHoldExpiredError();
+        }
+
         // Build return URL with deep link support
         const baseReturnUrl = returnUrl || `${config.backend.url}/payment/return`;
         const mobileReturnUrl = `${APP_SCHEME}://payment/return`;
 
-        const response = await fetch(`${config.backend.url}/api/v1/payments/initiate`, {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify({
-            reservationIds,
-            providerId,
-            returnUrl: Platform.OS === 'web' ? baseReturnUrl : mobileReturnUrl,
-          }),
+        const data = await httpClient.post('/api/v1/payments/initiate', {
+          reservationIds,
+          providerId,
+          returnUrl: Platform.OS === 'web' ? baseReturnUrl : mobileReturnUrl,
+          promoCode,
         });
+        const result = decodePaymentResult(data);
 
-        const data = await response.json();
-
-        if (!data.success) {
-          throw new Error(data.error?.message || 'Payment initiation failed');
-        }
-
-        const result: PaymentResult = {
-          transactionId: data.data.transactionId,
-          reference: data.data.reference,
-          status: data.data.status,
-          paymentUrl: data.data.paymentUrl,
-          amount: data.data.amount,
-          currency: data.data.currency,
-          provider: data.data.provider,
-          formData: data.data.formData,
-          method: data.data.method,
-          bankDetails: data.data.bankDetails,
-        };
-
-        setTransaction(result);
-        setStatus('processing');
+        await paymentSessionStore.reconcile(result, sessionAdapter().mapStatus(result));
 
         return result;
       } catch (err) {
-        const message = err instanceof Error ? err.message : 'Payment failed';
+        const message = getErrorMessage(err, 'Payment initiation failed');
         setError(message);
-        setStatus('error');
-        onError?.(message);
+        await paymentSessionStore.transition('error', { error: message });
         throw err;
       }
     },
-    [config.backend.url, onError]
+    [config.backend.url, requireSeatHold, seatHolds, availableProviders]
   );
 
   const checkPaymentStatus = useCallback(
     async (transactionId: number): Promise<PaymentResult> => {
       try {
-        const response = await fetch(
-          `${config.backend.url}/api/v1/payments/${transactionId}/status`,
-          {
-            method: 'GET',
-            headers: {
-              'Content-Type': 'application/json',
-            },
-          }
-        );
+        const data = await httpClient.get(`/api/v1/payments/${transactionId}/status`);
+        const result = decodePaymentResult(data);
 
-        const data = await response.json();
-
-        if (!data.success) {
-          throw new Error(data.error?.message || 'Failed to check payment status');
-        }
-
-        const result: PaymentResult = {
-          transactionId: data.data.transactionId,
-          reference: data.data.reference,
-          status: data.data.status,
-          amount: data.data.amount,
-          currency: data.data.currency,
-          confirmedAt: data.data.confirmedAt,
-          errorCode: data.data.errorCode,
-          errorMessage: data.data.errorMessage,
-        };
-
-        setTransaction(result);
-
-        // Update status based on payment state
-        switch (result.status) {
-          case 'done':
-            setStatus('success');
-            stopPolling();
-            onSuccess?.(result);
-            break;
-          case 'error':
-            setStatus('error');
-            setError(result.errorMessage || 'Payment failed');
-            stopPolling();
-            onError?.(result.errorMessage || 'Payment failed');
-            break;
-          case 'cancel':
-            setStatus('cancelled');
-            stopPolling();
-            onCancelled?.();
-            break;
-          case 'refunded':
-            setStatus('refunded');
-            stopPolling();
-            break;
-          case 'authorized':
-            setStatus('awaiting_confirmation');
-            break;
-          case 'pending':
-          case 'draft':
-            // Keep processing status
-            break;
+        if (ownedSession()?.transaction?.transactionId === transactionId) {
+          await paymentSessionStore.reconcile(result, sessionAdapter().mapStatus(result));
+        } else {
+          setTransaction(result);
         }
 
         return result;
@@ -310,11 +370,14 @@ export function usePayment(options: UsePaymentOptions = {}): UsePaymentReturn {
         throw err;
       }
     },
-    [config.backend.url, onSuccess, onError, onCancelled]
+    []
   );
 
   const openPaymentPage = useCallback(
     async (paymentUrl: string): Promise<WebBrowser.WebBrowserResult> => {
+      // Read from the store: state set by initiatePayment isn't visible yet
+      const transactionId = ownedSession()?.transaction?.transactionId;
+
       try {
         // Use expo-web-browser for in-app browser (better UX)
         const result = await WebBrowser.openBrowserAsync(paymentUrl, {
@@ -327,16 +390,14 @@ export function usePayment(options: UsePaymentOptions = {}): UsePaymentReturn {
           enableBarCollapsing: true,
         });
 
-        // Check if user closed the browser
+        // Closing the browser doesn't mean the payment wasn't made: the
+        // bank may already have taken it
         if (result.type === 'cancel') {
-          setStatus('cancelled');
-          onCancelled?.();
-        }
-
-        // When browser closes, check payment status
-        if (transaction?.transactionId) {
+          await settleFromRedirect(transactionId, 'cancelled');
+        } else if (transactionId) {
+          // When browser closes, check payment status
           setTimeout(() => {
-            checkPaymentStatus(transaction.transactionId);
+            checkPaymentStatus(transactionId).catch(() => undefined);
           }, 1000);
         }
 
@@ -352,7 +413,60 @@ export function usePayment(options: UsePaymentOptions = {}): UsePaymentReturn {
         }
       }
     },
-    [config.theme, transaction?.transactionId, checkPaymentStatus, onCancelled]
+    [config.theme, checkPaymentStatus]
+  );
+
+  /**
+   * Post a gateway's signed form. Native browsers can only be opened on a
+   * URL, so there the fields go in the query, which LiqPay and PayPal
+   * checkout accept as well.
+   */
+  const openPaymentForm = useCallback(
+    async (url: string, fields: Record<string, string>): Promise<void> => {
+      if (Platform.OS === 'web') {
+        const form = document.createElement('form');
+        form.method = 'POST';
+        form.action = url;
+        Object.entries(fields).forEach(([name, value]) => {
+          const input = document.createElement('input');
+          input.type = 'hidden';
+          input.name = name;
+          input.value = value;
+          form.appendChild(input);
+        });
+        document.body.appendChild(form);
+        form.submit();
+        return;
+      }
+
+      const query = Object.entries(fields)
+        .map(([name, value]) => `${encodeURIComponent(name)}=${encodeURIComponent(value)}`)
+        .join('&');
+      await openPaymentPage(`${url}${url.includes('?') ? '&' : '?'}${query}`);
+    },
+    [openPaymentPage]
+  );
+
+  const launchPayment = useCallback(
+    async (result: PaymentResult): Promise<PaymentLaunch> => {
+      const launch = sessionAdapter().getLaunch(result);
+
+      switch (launch.kind) {
+        case 'redirect':
+          await openPaymentPage(launch.url);
+          break;
+        case 'form_post':
+          await openPaymentForm(launch.url, launch.fields);
+          break;
+        case 'bank_transfer':
+        case 'offline':
+          // Nothing to open; the caller shows what to do next
+          break;
+      }
+
+      return launch;
+    },
+    [openPaymentPage, openPaymentForm]
   );
 
   const startPolling = useCallback(
@@ -368,10 +482,10 @@ export function usePayment(options: UsePaymentOptions = {}): UsePaymentReturn {
         pollAttemptsRef.current += 1;
 
         if (pollAttemptsRef.current >= maxPollAttempts) {
+          // Not hearing back isn't a failure: the session stays open and is
+          // reconciled on the next start or deep link
           stopPolling();
-          setStatus('error');
-          setError('Payment timeout - please check your payment status manually');
-          onError?.('Payment timeout');
+          setError('Payment not confirmed yet - please check your tickets later');
           return;
         }
 
@@ -388,7 +502,7 @@ export function usePayment(options: UsePaymentOptions = {}): UsePaymentReturn {
         }
       }, pollInterval);
     },
-    [pollInterval, maxPollAttempts, checkPaymentStatus, onError]
+    [pollInterval, maxPollAttempts, checkPaymentStatus]
   );
 
   const stopPolling = useCallback(() => {
@@ -401,6 +515,13 @@ export function usePayment(options: UsePaymentOptions = {}): UsePaymentReturn {
 
   const reset = useCallback(() => {
     stopPolling();
+    // A payment still in flight stays stored, to be reconciled later
+    const session = ownedSession();
+    if (session && isFinalStatus(session.status)) {
+      paymentSessionStore.clear();
+    }
+    ownedSessionRef.current = null;
+    reportedStatusRef.current = 'idle';
     setStatus('idle');
     setError(null);
     setTransaction(null);
@@ -415,6 +536,7 @@ export function usePayment(options: UsePaymentOptions = {}): UsePaymentReturn {
     isPolling,
     initiatePayment,
     checkPaymentStatus,
+    launchPayment,
     openPaymentPage,
     startPolling,
     stopPolling,
@@ -0,0 +1,83 @@
+/**
+ * BUS-Tickets - Payment History Hook
+ * Copyright (c) 2024-2026 IT Enterprise
+ *
+ * The signed-in user's past payments, with the refunds of their tickets.
+ * Every refund goes through the backend, so its list covers tickets sold
+ * by other operators too.
+ */
+
+import { useState, useCallback, useEffect } from 'react';
+import { useApi } from '../contexts/ApiContext';
+import { useAuth } from '../contexts/AuthContext';
+import { getErrorMessage } from '../services/errors';
+import type { PaymentTransaction, Refund } from '@/types';
+
+interface UsePaymentHistoryReturn {
+  transactions: PaymentTransaction[];
+  isLoading: boolean;
+  error: string | null;
+  refresh: () => Promise<void>;
+  /**
+   * Refunds of tickets paid by `transaction`
+   */
+  refundsFor: (transaction: PaymentTransaction) => Refund[];
+}
+
+export function usePaymentHistory(): UsePaymentHistoryReturn {
+  const api = useApi();
+  const { isAuthenticated } = useAuth();
+
+  const [transactions, setTransactions] = useState<PaymentTransaction[]>([]);
+  const [refunds, setRefunds] = useState<Refund[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    if (!isAuthenticated) {
+      setTransactions([]);
+      setRefunds([]);
+      return;
+    }
+
+    setIsLoading(true);
+    setError(null);
+    try {
+      const [history, userRefunds] = await Promise.all([
+        api.getPaymentHistory(),
+        // Payments are still worth showing without their refunds
+        api.getMyRefunds().catch((err) => {
+          console.warn('Error loading refunds:', err);
+          return [];
+        }),
+      ]);
+      setTransactions(history);
+      setRefunds(userRefunds);
+    } catch (err) {
+      console.error('Error loading payment history:', err);
+      setError(getErrorMessage(err, 'Failed to load payment history'));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [api, isAuthenticated]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const refundsFor = useCallback(
+    (transaction: PaymentTransaction): Refund[] =>
+      refunds.filter(
+        (refund) => !!refund.ticketNumber && transaction.ticketNumbers.includes(refund.ticketNumber)
+      ),
+    [refunds]
+  );
+
+  return {
+    transactions,
+    isLoading,
+    error,
+    refresh,
+    refundsFor,
+  };
+}
@@ -0,0 +1,112 @@
+/**
+ * BUS-Tickets - Price Calendar Hook
+ * Copyright (c) 2024-2026 IT Enterprise
+ *
+ * Lowest price and availability per day for a route, for flexible-date
+ * search. Days already searched for the same route and passenger count
+ * are kept, so paging between months doesn't search them again; a new
+ * search (other providers or display currency) starts over.
+ */
+
+import { useState, useEffect, useRef, useMemo } from 'react';
+import { useProviders } from '../contexts/ProvidersContext';
+import { getErrorMessage } from '../services/errors';
+import {
+  fromDateKey,
+  getCalendarDates,
+  getPriceLevels,
+  toDateKey,
+  CalendarDay,
+  CalendarMode,
+  PriceLevel,
+} from '../utils/priceCalendar';
+
+interface UsePriceCalendarOptions {
+  origin: string;
+  destination: string;
+  passengers: number;
+  mode: CalendarMode;
+  /**
+   * Centre of the `around` window, or any day of the month shown
+   */
+  date: Date;
+  /**
+   * Search only while the calendar is shown
+   */
+  enabled?: boolean;
+}
+
+interface UsePriceCalendarReturn {
+  days: CalendarDay[];
+  levels: Map<string, PriceLevel>;
+  isLoading: boolean;
+  error: string | null;
+}
+
+export function usePriceCalendar(options: UsePriceCalendarOptions): UsePriceCalendarReturn {
+  const { origin, destination, passengers, mode, date, enabled = true } = options;
+  const { searchPriceCalendar } = useProviders();
+
+  const [days, setDays] = useState<CalendarDay[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const cacheRef = useRef<{
+    routeKey: string;
+    search: typeof searchPriceCalendar;
+    days: Map<string, CalendarDay>;
+  } | null>(null);
+
+  // A new Date object for the same day mustn't search again
+  const dateKey = toDateKey(date);
+  const dates = useMemo(() => getCalendarDates(mode, fromDateKey(dateKey)), [mode, dateKey]);
+  const datesKey = dates.join(',');
+
+  useEffect(() => {
+    if (!enabled || !origin || !destination) return;
+
+    const routeKey = `${origin}|${destination}|${passengers}`;
+    if (
+      cacheRef.current?.routeKey !== routeKey ||
+      cacheRef.current.search !== searchPriceCalendar
+    ) {
+      cacheRef.current = { routeKey, search: searchPriceCalendar, days: new Map() };
+    }
+    const cache = cacheRef.current.days;
+    const showCached = () =>
+      setDays(dates.map((day) => cache.get(day)).filter((day): day is CalendarDay => !!day));
+
+    showCached();
+    const missing = dates.filter((day) => !cache.has(day));
+    setIsLoading(missing.length > 0);
+    if (missing.length === 0) return;
+
+    let cancelled = false;
+    setError(null);
+
+    searchPriceCalendar({ origin, destination, dates: missing, passengers })
+      .then((found) => {
+        found.forEach((day) => cache.set(day.date, day));
+        if (!cancelled) showCached();
+      })
+      .catch((err) => {
+        if (!cancelled) setError(getErrorMessage(err, 'Failed to load prices'));
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [enabled, origin, destination, passengers, datesKey, searchPriceCalendar]);
+
+  const levels = useMemo(() => getPriceLevels(days), [days]);
+
+  return {
+    days,
+    levels,
+    isLoading,
+    error,
+  };
+}
@@ -0,0 +1,136 @@
+/**
+ * BUS-Tickets - Refund Hook
+ * Copyright (c) 2024-2026 IT Enterprise
+ *
+ * Refunding a ticket:
+ * - Quote of what cancelling now refunds, per destination
+ * - Submitting the request, re-quoting if the policy tier changed meanwhile
+ * - Watching the refund until the money is returned
+ */
+
+import { useState, useCallback, useEffect } from 'react';
+import { useApi } from '../contexts/ApiContext';
+import { getErrorMessage, RefundError } from '../services/errors';
+import type { Refund, RefundDestination, RefundQuote, RefundStatus } from '@/types';
+
+interface UseRefundReturn {
+  quote: RefundQuote | null;
+  /**
+   * The refund already requested for the ticket
+   */
+  refund: Refund | null;
+  isLoading: boolean;
+  isSubmitting: boolean;
+  error: string | null;
+  refresh: () => Promise<void>;
+  /**
+   * Cancel the ticket and refund the quoted amount to `destination`
+   */
+  requestRefund: (destination: RefundDestination) => Promise<Refund>;
+}
+
+/**
+ * Refunds take days, so there's no point checking more often
+ */
+const REFUND_POLL_INTERVAL = 60000;
+
+const PENDING_REFUND_STATUSES: RefundStatus[] = ['requested', 'approved', 'processing'];
+
+/**
+ * Whether the money is still on its way
+ */
+export function isRefundPending(refund: Refund): boolean {
+  return PENDING_REFUND_STATUSES.includes(refund.status);
+}
+
+export function useRefund(ticketId: number | undefined): UseRefundReturn {
+  const api = useApi();
+
+  const [quote, setQuote] = useState<RefundQuote | null>(null);
+  const [refund, setRefund] = useState<Refund | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    if (ticketId === undefined) return;
+
+    setIsLoading(true);
+    setError(null);
+    try {
+      const existing = await api.getTicketRefund(ticketId);
+      setRefund(existing);
+      // A rejected refund may be requested again
+      if (!existing || existing.status === 'rejected') {
+        setQuote(await api.getRefundQuote(ticketId));
+      }
+    } catch (err) {
+      console.error('Error loading refund:', err);
+      setError(getErrorMessage(err, 'Failed to load refund'));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [api, ticketId]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  // Track progress until the money is returned
+  const isPending = !!refund && isRefundPending(refund);
+  useEffect(() => {
+    if (!isPending || !refund) return;
+
+    const refundTicketId = refund.ticketId;
+    const interval = setInterval(async () => {
+      try {
+        const updated = await api.getTicketRefund(refundTicketId);
+        if (updated) setRefund(updated);
+      } catch (err) {
+        console.warn('Refund status check failed:', err);
+      }
+    }, REFUND_POLL_INTERVAL);
+
+    return () => clearInterval(interval);
+  }, [api, isPending, refund?.ticketId]);
+
+  const requestRefund = useCallback(
+    async (destination: RefundDestination): Promise<Refund> => {
+      const option = quote?.options.find((item) => item.destination === destination);
+      if (ticketId === undefined || !option) {
+        throw new RefundError('not_refundable');
+      }
+
+      setIsSubmitting(true);
+      setError(null);
+      try {
+        const created = await api.requestRefund(ticketId, destination, option.amount);
+        setRefund(created);
+        setQuote(null);
+        return created;
+      } catch (err) {
+        if (err instanceof RefundError && err.reason === 'amount_changed') {
+          // The user has to confirm the new amount
+          setQuote(await api.getRefundQuote(ticketId).catch(() => null));
+        } else if (err instanceof RefundError && err.reason === 'already_requested') {
+          setRefund(await api.getTicketRefund(ticketId).catch(() => null));
+        }
+        setError(getErrorMessage(err, 'Refund request failed'));
+        throw err;
+      } finally {
+        setIsSubmitting(false);
+      }
+    },
+    [api, ticketId, quote]
+  );
+
+  return {
+    quote,
+    refund,
+    isLoading,
+    isSubmitting,
+    error,
+    refresh,
+    requestRefund,
+  };
+}
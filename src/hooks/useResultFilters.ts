@@ -0,0 +1,96 @@
+/**
+ * BUS-Tickets - Result Filters Hook
+ * Copyright (c) 2024-2026 IT Enterprise
+ *
+ * Sort order and filters for search results, remembered per route so
+ * searching the same route again shows trips the way the user left them.
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { EMPTY_FILTERS, TripFilters, TripSort } from '../utils/tripFilters';
+
+const RESULT_FILTERS_STORAGE_KEY = '@bus_tickets_result_filters';
+
+/**
+ * Routes remembered; the least recently used are forgotten
+ */
+const MAX_ROUTES = 20;
+
+interface StoredRouteFilters {
+  sort: TripSort;
+  filters: TripFilters;
+  updatedAt: number;
+}
+
+interface UseResultFiltersReturn {
+  sort: TripSort;
+  filters: TripFilters;
+  setSort: (sort: TripSort) => void;
+  setFilters: (filters: TripFilters) => void;
+  resetFilters: () => void;
+}
+
+async function readAll(): Promise<Record<string, StoredRouteFilters>> {
+  try {
+    const stored = await AsyncStorage.getItem(RESULT_FILTERS_STORAGE_KEY);
+    return stored ? JSON.parse(stored) : {};
+  } catch (error) {
+    console.error('Error loading result filters:', error);
+    return {};
+  }
+}
+
+async function saveRoute(routeKey: string, value: StoredRouteFilters): Promise<void> {
+  try {
+    const all = { ...(await readAll()), [routeKey]: value };
+    const kept = Object.entries(all)
+      .sort(([, a], [, b]) => b.updatedAt - a.updatedAt)
+      .slice(0, MAX_ROUTES);
+    await AsyncStorage.setItem(RESULT_FILTERS_STORAGE_KEY, JSON.stringify(Object.fromEntries(kept)));
+  } catch (error) {
+    console.error('Error saving result filters:', error);
+  }
+}
+
+export function useResultFilters(origin: string, destination: string): UseResultFiltersReturn {
+  const routeKey = `${origin}|${destination}`.toLowerCase();
+
+  const [sort, setSortState] = useState<TripSort>('departure');
+  const [filters, setFiltersState] = useState<TripFilters>(EMPTY_FILTERS);
+
+  useEffect(() => {
+    let cancelled = false;
+    readAll().then((all) => {
+      const stored = all[routeKey];
+      if (cancelled || !stored) return;
+      setSortState(stored.sort);
+      // Older entries may lack filters added since
+      setFiltersState({ ...EMPTY_FILTERS, ...stored.filters });
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [routeKey]);
+
+  const update = useCallback(
+    (nextSort: TripSort, nextFilters: TripFilters) => {
+      setSortState(nextSort);
+      setFiltersState(nextFilters);
+      saveRoute(routeKey, { sort: nextSort, filters: nextFilters, updatedAt: Date.now() });
+    },
+    [routeKey]
+  );
+
+  const setSort = useCallback((next: TripSort) => update(next, filters), [update, filters]);
+  const setFilters = useCallback((next: TripFilters) => update(sort, next), [update, sort]);
+  const resetFilters = useCallback(() => update(sort, EMPTY_FILTERS), [update, sort]);
+
+  return {
+    sort,
+    filters,
+    setSort,
+    setFilters,
+    resetFilters,
+  };
+}
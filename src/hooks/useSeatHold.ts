@@ -0,0 +1,172 @@
+/**
+ * BUS-Tickets - Seat Hold Hook
+ * Copyright (c) 2024-2026 IT Enterprise
+ *
+ * Holds the selected seats on the server during checkout:
+ * - Countdown until the hold expires
+ * - Extend / release
+ * - Released automatically when the booking screen goes away,
+ *   unless it was turned into a reservation
+ */
+
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { useApi } from '../contexts/ApiContext';
+import type { RequestOptions } from '../services/HttpClient';
+import type { SeatHold } from '@/types';
+
+interface UseSeatHoldOptions {
+  onExpire?: (hold: SeatHold) => void;
+  /**
+   * Where the trip's seats are held: the provider selling it, by default
+   * the app's own backend
+   */
+  requestOptions?: RequestOptions;
+}
+
+interface UseSeatHoldReturn {
+  hold: SeatHold | null;
+  /**
+   * Whole seconds left on the hold, 0 once expired
+   */
+  secondsLeft: number;
+  isBusy: boolean;
+  holdSeats: (tripId: number, seats: number[]) => Promise<SeatHold>;
+  extendHold: () => Promise<SeatHold | null>;
+  releaseHold: () => Promise<void>;
+  /**
+   * Forget the hold without releasing it, once a reservation took it over
+   */
+  consumeHold: () => void;
+}
+
+function getSecondsLeft(hold: SeatHold | null): number {
+  if (!hold) return 0;
+  return Math.max(0, Math.ceil((new Date(hold.expiresAt).getTime() - Date.now()) / 1000));
+}
+
+/**
+ * Whether `hold` is still valid right now (not just at the last countdown tick)
+ */
+export function isSeatHoldActive(hold: SeatHold | null | undefined): boolean {
+  return getSecondsLeft(hold ?? null) > 0;
+}
+
+export function useSeatHold(options: UseSeatHoldOptions = {}): UseSeatHoldReturn {
+  const { onExpire, requestOptions } = options;
+  const api = useApi();
+
+  const [hold, setHold] = useState<SeatHold | null>(null);
+  const [secondsLeft, setSecondsLeft] = useState(0);
+  const [isBusy, setIsBusy] = useState(false);
+
+  // Latest values for the unmount cleanup and the timer
+  const holdRef = useRef<SeatHold | null>(null);
+  const onExpireRef = useRef(onExpire);
+  onExpireRef.current = onExpire;
+  const requestOptionsRef = useRef(requestOptions);
+  requestOptionsRef.current = requestOptions;
+
+  const updateHold = useCallback((next: SeatHold | null) => {
+    holdRef.current = next;
+    setHold(next);
+    setSecondsLeft(getSecondsLeft(next));
+  }, []);
+
+  // Countdown
+  useEffect(() => {
+    if (!hold) return;
+
+    const interval = setInterval(() => {
+      const left = getSecondsLeft(hold);
+      setSecondsLeft(left);
+
+      if (left === 0) {
+        clearInterval(interval);
+        updateHold(null);
+        onExpireRef.current?.(hold);
+      }
+    }, 1000);
+
+    return () => clearInterval(interval);
+  }, [hold, updateHold]);
+
+  // Don't keep seats blocked for others after the user leaves checkout
+  useEffect(() => {
+    return () => {
+      const current = holdRef.current;
+      if (current && isSeatHoldActive(current)) {
+        api.releaseSeatHold(current.id, requestOptionsRef.current).catch((error) => {
+          console.warn('Failed to release seat hold:', error);
+        });
+      }
+    };
+  }, [api]);
+
+  const releaseHold = useCallback(async () => {
+    const current = holdRef.current;
+    if (!current) return;
+
+    updateHold(null);
+    try {
+      await api.releaseSeatHold(current.id, requestOptionsRef.current);
+    } catch (error) {
+      // The server expires it anyway
+      console.warn('Failed to release seat hold:', error);
+    }
+  }, [api, updateHold]);
+
+  const holdSeats = useCallback(
+    async (tripId: number, seats: number[]): Promise<SeatHold> => {
+      setIsBusy(true);
+      try {
+        const current = holdRef.current;
+        const sameSeats =
+          current?.tripId === tripId &&
+          current.seats.length === seats.length &&
+          seats.every((seat) => current.seats.includes(seat));
+
+        if (current && sameSeats && isSeatHoldActive(current)) {
+          return current;
+        }
+
+        // A changed selection replaces the previous hold
+        await releaseHold();
+
+        const created = await api.createSeatHold(tripId, seats, requestOptionsRef.current);
+        updateHold(created);
+        return created;
+      } finally {
+        setIsBusy(false);
+      }
+    },
+    [api, releaseHold, updateHold]
+  );
+
+  const extendHold = useCallback(async (): Promise<SeatHold | null> => {
+    const current = holdRef.current;
+    if (!current) return null;
+
+    setIsBusy(true);
+    try {
+      const extended = await api.extendSeatHold(current.id, requestOptionsRef.current);
+      updateHold(extended);
+      return extended;
+    } finally {
+      setIsBusy(false);
+    }
+  }, [api, updateHold]);
+
+  const consumeHold = useCallback(() => {
+    updateHold(null);
+  }, [updateHold]);
+
+  return {
+    hold,
+    secondsLeft,
+    isBusy,
+    holdSeats,
+    extendHold,
+    releaseHold,
+    consumeHold,
+  };
+}
@@ -0,0 +1,117 @@
+/**
+ * BUS-Tickets - Travellers Hook
+ * Copyright (c) 2024-2026 IT Enterprise
+ *
+ * The signed-in user's traveller address book:
+ * - Shows the offline copy first, then refreshes from the server when online
+ * - Create / update / delete go to the server and update the offline copy
+ */
+
+import { useState, useCallback, useEffect } from 'react';
+import { useApi } from '../contexts/ApiContext';
+import { useAuth } from '../contexts/AuthContext';
+import { useNetwork } from '../contexts/NetworkContext';
+import { travellerRepository } from '../db/TravellerRepository';
+import { getErrorMessage } from '../services/errors';
+import type { Traveller, TravellerInput } from '@/types';
+
+interface UseTravellersReturn {
+  travellers: Traveller[];
+  isLoading: boolean;
+  /**
+   * The list is the offline copy; the server couldn't be reached
+   */
+  isCached: boolean;
+  error: string | null;
+  refresh: () => Promise<void>;
+  /**
+   * Create a traveller, or update the one with `travellerId`
+   */
+  saveTraveller: (data: TravellerInput, travellerId?: number) => Promise<Traveller>;
+  deleteTraveller: (travellerId: number) => Promise<void>;
+}
+
+function sortByName(travellers: Traveller[]): Traveller[] {
+  return [...travellers].sort((a, b) => a.name.localeCompare(b.name));
+}
+
+export function useTravellers(): UseTravellersReturn {
+  const api = useApi();
+  const { user, isAuthenticated } = useAuth();
+  const { isOnline } = useNetwork();
+  const userId = isAuthenticated ? user?.id : undefined;
+
+  const [travellers, setTravellers] = useState<Traveller[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isCached, setIsCached] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    if (userId === undefined) {
+      setTravellers([]);
+      return;
+    }
+
+    setIsLoading(true);
+    setError(null);
+    try {
+      const cached = await travellerRepository.getTravellers(userId);
+      setTravellers(cached);
+      setIsCached(true);
+
+      if (!isOnline) return;
+
+      const fresh = await api.getTravellers();
+      await travellerRepository.replaceTravellers(userId, fresh);
+      setTravellers(sortByName(fresh));
+      setIsCached(false);
+    } catch (err) {
+      // Keep showing the offline copy
+      console.error('Error loading travellers:', err);
+      setError(getErrorMessage(err, 'Failed to load travellers'));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [api, userId, isOnline]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const saveTraveller = useCallback(
+    async (data: TravellerInput, travellerId?: number): Promise<Traveller> => {
+      if (userId === undefined) throw new Error('Not signed in');
+
+      const saved =
+        travellerId === undefined
+          ? await api.createTraveller(data)
+          : await api.updateTraveller(travellerId, data);
+
+      await travellerRepository.saveTraveller(userId, saved);
+      setTravellers((current) =>
+        sortByName([...current.filter((traveller) => traveller.id !== saved.id), saved])
+      );
+      return saved;
+    },
+    [api, userId]
+  );
+
+  const deleteTraveller = useCallback(
+    async (travellerId: number): Promise<void> => {
+      await api.deleteTraveller(travellerId);
+      await travellerRepository.deleteTraveller(travellerId);
+      setTravellers((current) => current.filter((traveller) => traveller.id !== travellerId));
+    },
+    [api]
+  );
+
+  return {
+    travellers,
+    isLoading,
+    isCached,
+    error,
+    refresh,
+    saveTraveller,
+    deleteTraveller,
+  };
+}
@@ -98,6 +98,25 @@ export interface Translations {
     errorMessage: string;
     pricePerPerson: string;
     totalPrice: string;
+    passenger: string;
+    leadPassenger: string;
+    fullName: string;
+    documentType: string;
+    passport: string;
+    idCard: string;
+    documentNumber: string;
+    sameContactAsLead: string;
+    sameContactHint: string;
+    invalidName: string;
+    invalidEmail: string;
+    invalidPhone: string;
+    documentTypeRequired: string;
+    passengers: string;
+    stepSeats: string;
+    stepDetails: string;
+    stepPayment: string;
+    selectYourSeats: string;
+    seatsToSelect: string;
   };
 
   // Payment
@@ -119,6 +138,7 @@ export interface Translations {
     redirecting: string;
     confirmCash: string;
     cashNote: string;
+    inProgress: string;
   };
 
   // Tickets
@@ -237,6 +257,321 @@ export interface Translations {
     vibrationEnabled: string;
   };
 
+  // Offline action queue
+  offlineQueue: {
+    title: string;
+    description: string;
+    empty: string;
+    emptyDesc: string;
+    pendingSection: string;
+    failedSection: string;
+    failedDesc: string;
+    nextAttempt: string;
+    attempts: string;
+    lastError: string;
+    retry: string;
+    discard: string;
+    discardAll: string;
+    discardConfirm: string;
+    createBooking: string;
+    cancelTicket: string;
+    updateProfile: string;
+    checkIn: string;
+  };
+
+  // Sync conflicts
+  syncConflicts: {
+    title: string;
+    dismiss: string;
+    cancelTicket: string;
+    checkIn: string;
+    alreadyCancelled: string;
+    alreadyCheckedIn: string;
+    refunded: string;
+    ticketUsed: string;
+    ticketCancelled: string;
+    tripCancelled: string;
+    seatChanged: string;
+  };
+
+  // Seat map
+  seatMap: {
+    seat: string;
+    available: string;
+    selected: string;
+    occupied: string;
+    driver: string;
+    lowerDeck: string;
+    upperDeck: string;
+    seatsTaken: string;
+    refreshFailed: string;
+  };
+
+  // Seat hold
+  seatHold: {
+    heldFor: string;
+    extend: string;
+    extendFailed: string;
+    holdFailed: string;
+    expiredTitle: string;
+    expiredMessage: string;
+  };
+
+  // Saved travellers
+  travellers: {
+    title: string;
+    description: string;
+    add: string;
+    editTitle: string;
+    dateOfBirth: string;
+    dateOfBirthHint: string;
+    invalidDateOfBirth: string;
+    deleteConfirm: string;
+    saveFailed: string;
+    deleteFailed: string;
+    empty: string;
+    emptyDesc: string;
+    offline: string;
+    pickSaved: string;
+    signInRequired: string;
+  };
+
+  // Fare categories
+  fares: {
+    title: string;
+    adult: string;
+    child: string;
+    student: string;
+    senior: string;
+    proofRequired: string;
+    dateOfBirthRequired: string;
+    notEligible: string;
+    baseFare: string;
+    tripDiscount: string;
+    fareDiscount: string;
+  };
+
+  // Promo codes
+  promoCode: {
+    title: string;
+    placeholder: string;
+    apply: string;
+    remove: string;
+    applied: string;
+    discount: string;
+    invalid: string;
+    expired: string;
+    alreadyUsed: string;
+    notApplicable: string;
+    checkFailed: string;
+  };
+
+  // Round trips
+  roundTrip: {
+    oneWay: string;
+    roundTrip: string;
+    returnDate: string;
+    outbound: string;
+    inbound: string;
+    selectOutbound: string;
+    selectInbound: string;
+    returnSeats: string;
+    noInboundAfterOutbound: string;
+    partialReservation: string;
+  };
+
+  // Connecting journeys
+  connections: {
+    title: string;
+    noDirectTrips: string;
+    changeIn: string;
+    transferTime: string;
+    leg: string;
+    searching: string;
+    partialReservation: string;
+  };
+
+  // Flexible-date price calendar
+  priceCalendar: {
+    exactDate: string;
+    flexibleDays: string;
+    wholeMonth: string;
+    low: string;
+    medium: string;
+    high: string;
+    loading: string;
+    chooseRouteFirst: string;
+    tapToSearch: string;
+  };
+
+  // Search result sorting and filters
+  resultFilters: {
+    earliestArrival: string;
+    departureTime: string;
+    night: string;
+    morning: string;
+    afternoon: string;
+    evening: string;
+    amenities: string;
+    wifi: string;
+    ac: string;
+    toilet: string;
+    usb: string;
+    power: string;
+    tv: string;
+    snacks: string;
+    sleeper: string;
+    recliner: string;
+    providers: string;
+    maxPrice: string;
+    upTo: string;
+    minSeats: string;
+    atLeast: string;
+    any: string;
+    reset: string;
+    show: string;
+    noMatches: string;
+    shownOf: string;
+  };
+
+  // Currency
+  currency: {
+    displayCurrency: string;
+    ratesUpdated: string;
+    staleRates: string;
+    noRates: string;
+    chargedIn: string;
+    chargedInTripCurrency: string;
+  };
+
+  // Provider search status
+  providerStatus: {
+    operatorsAnswered: string;
+    partialResults: string;
+    trips: string;
+    timedOut: string;
+    failed: string;
+    sameBackendAs: string;
+    someUnavailable: string;
+    alsoSoldBy: string;
+  };
+
+  // Bank transfer
+  bankTransfer: {
+    title: string;
+    scanToPay: string;
+    enterManually: string;
+    recipient: string;
+    accountNumber: string;
+    iban: string;
+    swift: string;
+    variableSymbol: string;
+    amount: string;
+    message: string;
+    copied: string;
+    includeSymbol: string;
+    payWithin: string;
+    dueBy: string;
+    overdue: string;
+    daysShort: string;
+    waiting: string;
+    received: string;
+    receivedNote: string;
+    notReceived: string;
+    notFound: string;
+    payLater: string;
+    viewTickets: string;
+  };
+
+  // Refunds
+  refund: {
+    title: string;
+    paid: string;
+    youGetBack: string;
+    policy: string;
+    hoursBefore: string;
+    untilDeparture: string;
+    appliesNow: string;
+    validUntil: string;
+    destination: string;
+    originalPayment: string;
+    originalPaymentHint: string;
+    voucher: string;
+    voucherHint: string;
+    notRefundable: string;
+    request: string;
+    confirmTitle: string;
+    confirmMessage: string;
+    amountChanged: string;
+    alreadyRequested: string;
+    requested: string;
+    approved: string;
+    processing: string;
+    completed: string;
+    rejected: string;
+    expectedBy: string;
+    voucherCode: string;
+  };
+
+  // Payment history and payment documents
+  paymentHistory: {
+    title: string;
+    empty: string;
+    emptyHint: string;
+    loadFailed: string;
+    reference: string;
+    provider: string;
+    tickets: string;
+    done: string;
+    pending: string;
+    authorized: string;
+    draft: string;
+    cancel: string;
+    error: string;
+    refunded: string;
+    receipt: string;
+    invoice: string;
+    share: string;
+    save: string;
+    saved: string;
+    documentFailed: string;
+    billingRequired: string;
+    addBilling: string;
+    receiptTitle: string;
+    invoiceTitle: string;
+    documentNumber: string;
+    issueDate: string;
+    paymentDate: string;
+    seller: string;
+    buyer: string;
+    companyId: string;
+    vatId: string;
+    item: string;
+    defaultItem: string;
+    vatRate: string;
+    vatBase: string;
+    vat: string;
+    total: string;
+    notVatPayer: string;
+    alreadyPaid: string;
+  };
+
+  // Billing details
+  billing: {
+    title: string;
+    hint: string;
+    companyName: string;
+    companyId: string;
+    vatId: string;
+    street: string;
+    city: string;
+    postalCode: string;
+    country: string;
+    companyNameRequired: string;
+    saved: string;
+    offline: string;
+  };
+
   // Errors
   errors: {
     generic: string;
@@ -249,6 +584,7 @@ export interface Translations {
     paymentFailed: string;
     bookingFailed: string;
     tryAgain: string;
+    providerUnavailable: string;
   };
 
   // Date/Time
@@ -350,6 +686,25 @@ export const translations: Record<SupportedLanguage, Translations> = {
       errorMessage: 'Při rezervaci došlo k chybě. Zkuste to prosím znovu.',
       pricePerPerson: 'Cena za osobu',
       totalPrice: 'Celková cena',
+      passenger: 'Cestující',
+      leadPassenger: 'hlavní cestující',
+      fullName: 'Celé jméno',
+      documentType: 'Doklad totožnosti',
+      passport: 'Cestovní pas',
+      idCard: 'Občanský průkaz',
+      documentNumber: 'Číslo dokladu',
+      sameContactAsLead: 'Stejný kontakt jako hlavní cestující',
+      sameContactHint: 'Jízdenky všech cestujících budou zaslány na e-mail hlavního cestujícího.',
+      invalidName: 'Zadejte jméno.',
+      invalidEmail: 'Zadejte platný e-mail.',
+      invalidPhone: 'Zadejte telefonní číslo.',
+      documentTypeRequired: 'Vyberte typ dokladu.',
+      passengers: 'Cestující',
+      stepSeats: 'Místa',
+      stepDetails: 'Údaje',
+      stepPayment: 'Platba',
+      selectYourSeats: 'Vyberte si místa',
+      seatsToSelect: 'Počet míst',
     },
     payment: {
       title: 'Platba',
@@ -369,6 +724,7 @@ export const translations: Record<SupportedLanguage, Translations> = {
       redirecting: 'Přesměrování na platební bránu...',
       confirmCash: 'Potvrdit platbu v hotovosti',
       cashNote: 'Zaplatíte přímo řidiči při nástupu do autobusu.',
+      inProgress: 'Předchozí platba ještě probíhá. Počkejte, až bude dokončena.',
     },
     tickets: {
       title: 'Moje jízdenky',
@@ -476,6 +832,287 @@ export const translations: Record<SupportedLanguage, Translations> = {
       soundEnabled: 'Zvuk',
       vibrationEnabled: 'Vibrace',
     },
+    offlineQueue: {
+      title: 'Offline akce',
+      description: 'Akce čekající na odeslání na server',
+      empty: 'Žádné čekající akce',
+      emptyDesc: 'Všechny změny byly synchronizovány',
+      pendingSection: 'Čekající',
+      failedSection: 'Selhané',
+      failedDesc: 'Tyto akce se nepodařilo odeslat. Zkuste je znovu nebo je zahoďte.',
+      nextAttempt: 'Další pokus',
+      attempts: 'Pokusy',
+      lastError: 'Poslední chyba',
+      retry: 'Zkusit znovu',
+      discard: 'Zahodit',
+      discardAll: 'Zahodit vše',
+      discardConfirm: 'Akce nebude odeslána a změna bude ztracena. Pokračovat?',
+      createBooking: 'Rezervace',
+      cancelTicket: 'Zrušení jízdenky',
+      updateProfile: 'Úprava profilu',
+      checkIn: 'Odbavení',
+    },
+    syncConflicts: {
+      title: 'Některé offline změny nebyly odeslány',
+      dismiss: 'Rozumím',
+      cancelTicket: 'Zrušení jízdenky',
+      checkIn: 'Odbavení jízdenky',
+      alreadyCancelled: 'Jízdenka už byla zrušena.',
+      alreadyCheckedIn: 'Jízdenka už byla odbavena.',
+      refunded: 'Dopravce jízdenku refundoval.',
+      ticketUsed: 'Jízdenka už byla použita.',
+      ticketCancelled: 'Jízdenka byla zrušena.',
+      tripCancelled: 'Dopravce spoj zrušil.',
+      seatChanged: 'Dopravce změnil vaše místo. Zkontrolujte jízdenku a odbavte se znovu.',
+    },
+    seatMap: {
+      seat: 'Sedadlo',
+      available: 'Volné',
+      selected: 'Vybrané',
+      occupied: 'Obsazené',
+      driver: 'Řidič',
+      lowerDeck: 'Dolní patro',
+      upperDeck: 'Horní patro',
+      seatsTaken: 'Některá vybraná sedadla mezitím obsadil někdo jiný. Vyberte prosím jiná.',
+      refreshFailed: 'Nepodařilo se ověřit dostupnost sedadel. Zkuste to znovu.',
+    },
+    seatHold: {
+      heldFor: 'Sedadla jsou pro vás rezervována ještě',
+      extend: 'Prodloužit',
+      extendFailed: 'Rezervaci sedadel se nepodařilo prodloužit.',
+      holdFailed: 'Sedadla se nepodařilo zablokovat. Zkuste to znovu.',
+      expiredTitle: 'Rezervace sedadel vypršela',
+      expiredMessage: 'Čas na dokončení objednávky vypršel a sedadla byla uvolněna. Zkontrolujte výběr sedadel a pokračujte znovu.',
+    },
+    travellers: {
+      title: 'Uložení cestující',
+      description: 'Uložte si údaje lidí, se kterými často cestujete, a vyplňte je při rezervaci jedním klepnutím.',
+      add: 'Přidat cestujícího',
+      editTitle: 'Upravit cestujícího',
+      dateOfBirth: 'Datum narození',
+      dateOfBirthHint: 'RRRR-MM-DD',
+      invalidDateOfBirth: 'Zadejte datum narození ve formátu RRRR-MM-DD.',
+      deleteConfirm: 'Odstranit tohoto cestujícího z adresáře?',
+      saveFailed: 'Cestujícího se nepodařilo uložit.',
+      deleteFailed: 'Cestujícího se nepodařilo odstranit.',
+      empty: 'Zatím žádní uložení cestující',
+      emptyDesc: 'Přidejte rodinu nebo kolegy, se kterými cestujete.',
+      offline: 'Jste offline. Zobrazujeme uloženou kopii; změny budou možné po připojení.',
+      pickSaved: 'Vyplnit z uložených',
+      signInRequired: 'Pro uložené cestující se přihlaste.',
+    },
+    fares: {
+      title: 'Tarif',
+      adult: 'Dospělý',
+      child: 'Dítě',
+      student: 'Student',
+      senior: 'Senior',
+      proofRequired: 'Při nástupu předložte doklad o nároku na slevu.',
+      dateOfBirthRequired: 'Pro tento tarif zadejte datum narození (RRRR-MM-DD).',
+      notEligible: 'Cestující nesplňuje věkové podmínky zvoleného tarifu.',
+      baseFare: 'Základní jízdné',
+      tripDiscount: 'Sleva na spoj',
+      fareDiscount: 'Slevy tarifů',
+    },
+    promoCode: {
+      title: 'Slevový kód nebo poukaz',
+      placeholder: 'Zadejte kód',
+      apply: 'Použít',
+      remove: 'Odebrat',
+      applied: 'Sleva uplatněna',
+      discount: 'Slevový kód',
+      invalid: 'Tento kód neexistuje.',
+      expired: 'Platnost tohoto kódu vypršela.',
+      alreadyUsed: 'Tento kód už byl použit.',
+      notApplicable: 'Tento kód nelze na tuto cestu použít.',
+      checkFailed: 'Kód se nepodařilo ověřit. Zkuste to znovu.',
+    },
+    roundTrip: {
+      oneWay: 'Jednosměrná',
+      roundTrip: 'Zpáteční',
+      returnDate: 'Datum návratu',
+      outbound: 'Tam',
+      inbound: 'Zpět',
+      selectOutbound: 'Vyberte spoj tam',
+      selectInbound: 'Vyberte spoj zpět',
+      returnSeats: 'Místa zpět',
+      noInboundAfterOutbound: 'Žádný spoj zpět ve stejné měně neodjíždí po příjezdu spoje tam',
+      partialReservation: 'Spoj zpět se nepodařilo rezervovat. Nic nebylo zaplaceno, zkuste to prosím znovu.',
+    },
+    connections: {
+      title: 'Spoje s přestupem',
+      noDirectTrips: 'Přímý spoj nejede, ale můžete přestoupit',
+      changeIn: 'Přestup v',
+      transferTime: 'na přestup',
+      leg: 'Úsek',
+      searching: 'Hledáme spoje s přestupem...',
+      partialReservation: 'Druhý úsek se nepodařilo rezervovat. Nic nebylo zaplaceno, zkuste to prosím znovu.',
+    },
+    priceCalendar: {
+      exactDate: 'Přesné datum',
+      flexibleDays: '± 3 dny',
+      wholeMonth: 'Celý měsíc',
+      low: 'Levné',
+      medium: 'Průměrné',
+      high: 'Drahé',
+      loading: 'Porovnáváme ceny...',
+      chooseRouteFirst: 'Pro porovnání cen nejprve vyberte odkud a kam',
+      tapToSearch: 'Klepnutím na den zobrazíte jeho spoje',
+    },
+    resultFilters: {
+      earliestArrival: 'Nejdřívější příjezd',
+      departureTime: 'Čas odjezdu',
+      night: 'Noc (0–6)',
+      morning: 'Ráno (6–12)',
+      afternoon: 'Odpoledne (12–18)',
+      evening: 'Večer (18–24)',
+      amenities: 'Vybavení',
+      wifi: 'Wi-Fi',
+      ac: 'Klimatizace',
+      toilet: 'WC',
+      usb: 'USB',
+      power: 'Zásuvka',
+      tv: 'TV',
+      snacks: 'Občerstvení',
+      sleeper: 'Lůžka',
+      recliner: 'Polohovací sedadla',
+      providers: 'Dopravci',
+      maxPrice: 'Maximální cena',
+      upTo: 'do',
+      minSeats: 'Volná místa',
+      atLeast: 'alespoň',
+      any: 'Jakékoli',
+      reset: 'Zrušit filtry',
+      show: 'Zobrazit spoje',
+      noMatches: 'Filtrům neodpovídá žádný spoj',
+      shownOf: 'z',
+    },
+    currency: {
+      displayCurrency: 'Měna zobrazení',
+      ratesUpdated: 'Kurzy aktualizovány',
+      staleRates: 'Přepočtené ceny jsou orientační, kurzy mohou být zastaralé.',
+      noRates: 'Kurzy nejsou k dispozici, ceny se zobrazují v měně dopravce.',
+      chargedIn: 'platba v',
+      chargedInTripCurrency: 'Platba vždy probíhá v měně spoje.',
+    },
+    providerStatus: {
+      operatorsAnswered: 'dopravců odpovědělo',
+      partialResults: 'výsledky mohou být neúplné',
+      trips: 'spojů',
+      timedOut: 'Neodpověděl včas',
+      failed: 'Vyhledávání selhalo',
+      sameBackendAs: 'Stejný systém jako',
+      someUnavailable: 'Někteří dopravci jsou nedostupní. Zkuste to znovu později.',
+      alsoSoldBy: 'Prodává také',
+    },
+    bankTransfer: {
+      title: 'Bankovní převod',
+      scanToPay: 'Naskenujte QR kód v aplikaci své banky',
+      enterManually: 'Zadejte platební údaje v aplikaci své banky',
+      recipient: 'Příjemce',
+      accountNumber: 'Číslo účtu',
+      iban: 'IBAN',
+      swift: 'BIC / SWIFT',
+      variableSymbol: 'Variabilní symbol',
+      amount: 'Částka',
+      message: 'Zpráva pro příjemce',
+      copied: 'Zkopírováno',
+      includeSymbol: 'Bez variabilního symbolu nelze platbu spárovat s rezervací.',
+      payWithin: 'Zaplaťte do',
+      dueBy: 'Splatnost',
+      overdue: 'Lhůta pro zaplacení vypršela',
+      daysShort: 'd',
+      waiting: 'Čekáme na vaši platbu. Jakmile dorazí, stránka se sama aktualizuje – obvykle do jednoho pracovního dne.',
+      received: 'Platba přijata',
+      receivedNote: 'Vaše jízdenky jsou připravené.',
+      notReceived: 'Rezervace byla zrušena, platba nedorazila včas.',
+      notFound: 'Žádný rozpracovaný bankovní převod',
+      payLater: 'Zaplatím později',
+      viewTickets: 'Zobrazit jízdenky',
+    },
+    refund: {
+      title: 'Vrácení peněz',
+      paid: 'Zaplaceno',
+      youGetBack: 'Vrátíme vám',
+      policy: 'Storno podmínky dopravce',
+      hoursBefore: 'h a více před odjezdem',
+      untilDeparture: 'Do odjezdu',
+      appliesNow: 'platí nyní',
+      validUntil: 'Částka platí do',
+      destination: 'Kam vrátit peníze',
+      originalPayment: 'Původní platební metoda',
+      originalPaymentHint: 'Na kartu nebo účet, ze kterého jste platili, obvykle do 5–10 pracovních dnů',
+      voucher: 'Voucher',
+      voucherHint: 'Kredit na příští nákup, k dispozici ihned',
+      notRefundable: 'Podle storno podmínek dopravce už tuto jízdenku nelze vrátit.',
+      request: 'Stornovat a vrátit peníze',
+      confirmTitle: 'Stornovat jízdenku?',
+      confirmMessage: 'Jízdenka bude zrušena a tuto akci nelze vrátit zpět.',
+      amountChanged: 'Mezitím začala platit jiná storno podmínka a částka se změnila. Zkontrolujte prosím novou částku.',
+      alreadyRequested: 'O vrácení peněz za tuto jízdenku už bylo požádáno.',
+      requested: 'Požadováno',
+      approved: 'Schváleno',
+      processing: 'Odesílá se',
+      completed: 'Vráceno',
+      rejected: 'Zamítnuto',
+      expectedBy: 'Očekáváno do',
+      voucherCode: 'Kód voucheru',
+    },
+    paymentHistory: {
+      title: 'Historie plateb',
+      empty: 'Zatím žádné platby',
+      emptyHint: 'Zde se zobrazí platby za vaše rezervace',
+      loadFailed: 'Historii plateb se nepodařilo načíst',
+      reference: 'Reference',
+      provider: 'Zaplaceno přes',
+      tickets: 'Jízdenky',
+      done: 'Zaplaceno',
+      pending: 'Čeká na platbu',
+      authorized: 'Autorizováno',
+      draft: 'Nedokončeno',
+      cancel: 'Zrušeno',
+      error: 'Selhalo',
+      refunded: 'Vráceno',
+      receipt: 'Potvrzení o platbě',
+      invoice: 'Faktura',
+      share: 'Sdílet',
+      save: 'Uložit',
+      saved: 'Dokument byl uložen',
+      documentFailed: 'Dokument se nepodařilo vytvořit',
+      billingRequired: 'Pro fakturu doplňte fakturační údaje své firmy.',
+      addBilling: 'Doplnit fakturační údaje',
+      receiptTitle: 'Potvrzení o přijetí platby',
+      invoiceTitle: 'Faktura – daňový doklad',
+      documentNumber: 'Číslo dokladu',
+      issueDate: 'Datum vystavení',
+      paymentDate: 'Datum platby',
+      seller: 'Dodavatel',
+      buyer: 'Odběratel',
+      companyId: 'IČO',
+      vatId: 'DIČ',
+      item: 'Položka',
+      defaultItem: 'Jízdenky na autobus',
+      vatRate: 'Sazba DPH',
+      vatBase: 'Základ daně',
+      vat: 'DPH',
+      total: 'Celkem',
+      notVatPayer: 'Dodavatel není plátcem DPH.',
+      alreadyPaid: 'Uhrazeno – neplaťte.',
+    },
+    billing: {
+      title: 'Fakturační údaje',
+      hint: 'Tyto údaje se uvedou na fakturách za vaše platby.',
+      companyName: 'Název firmy',
+      companyId: 'IČO',
+      vatId: 'DIČ',
+      street: 'Ulice a číslo',
+      city: 'Město',
+      postalCode: 'PSČ',
+      country: 'Země',
+      companyNameRequired: 'Vyplňte název firmy',
+      saved: 'Fakturační údaje byly uloženy',
+      offline: 'Fakturační údaje lze změnit jen online',
+    },
     errors: {
       generic: 'Něco se pokazilo',
       network: 'Chyba sítě. Zkontrolujte připojení k internetu.',
@@ -487,6 +1124,7 @@ export const translations: Record<SupportedLanguage, Translations> = {
       paymentFailed: 'Platba se nezdařila. Zkuste to prosím znovu.',
       bookingFailed: 'Rezervace se nezdařila. Zkuste to prosím znovu.',
       tryAgain: 'Zkusit znovu',
+      providerUnavailable: 'Dopravce této jízdy není k dispozici. Zkontrolujte nastavení dopravců.',
     },
     datetime: {
       today: 'Dnes',
@@ -585,6 +1223,25 @@ export const translations: Record<SupportedLanguage, Translations> = {
       errorMessage: 'An error occurred during booking. Please try again.',
       pricePerPerson: 'Price per person',
       totalPrice: 'Total price',
+      passenger: 'Passenger',
+      leadPassenger: 'lead passenger',
+      fullName: 'Full name',
+      documentType: 'Travel document',
+      passport: 'Passport',
+      idCard: 'ID card',
+      documentNumber: 'Document number',
+      sameContactAsLead: 'Same contact as lead passenger',
+      sameContactHint: 'Tickets for all passengers will be sent to the lead passenger\'s email.',
+      invalidName: 'Enter a name.',
+      invalidEmail: 'Enter a valid email.',
+      invalidPhone: 'Enter a phone number.',
+      documentTypeRequired: 'Choose the document type.',
+      passengers: 'Passengers',
+      stepSeats: 'Seats',
+      stepDetails: 'Details',
+      stepPayment: 'Payment',
+      selectYourSeats: 'Select your seats',
+      seatsToSelect: 'Seats to select',
     },
     payment: {
       title: 'Payment',
@@ -604,6 +1261,7 @@ export const translations: Record<SupportedLanguage, Translations> = {
       redirecting: 'Redirecting to payment gateway...',
       confirmCash: 'Confirm cash payment',
       cashNote: 'You will pay directly to the driver when boarding the bus.',
+      inProgress: 'An earlier payment is still in progress. Wait until it completes.',
     },
     tickets: {
       title: 'My Tickets',
@@ -711,6 +1369,287 @@ export const translations: Record<SupportedLanguage, Translations> = {
       soundEnabled: 'Sound',
       vibrationEnabled: 'Vibration',
     },
+    offlineQueue: {
+      title: 'Offline actions',
+      description: 'Actions waiting to be sent to the server',
+      empty: 'No queued actions',
+      emptyDesc: 'All your changes have been synced',
+      pendingSection: 'Pending',
+      failedSection: 'Failed',
+      failedDesc: 'These actions could not be sent. Retry or discard them.',
+      nextAttempt: 'Next attempt',
+      attempts: 'Attempts',
+      lastError: 'Last error',
+      retry: 'Retry',
+      discard: 'Discard',
+      discardAll: 'Discard all',
+      discardConfirm: 'The action will not be sent and the change will be lost. Continue?',
+      createBooking: 'Booking',
+      cancelTicket: 'Ticket cancellation',
+      updateProfile: 'Profile update',
+      checkIn: 'Check-in',
+    },
+    syncConflicts: {
+      title: 'Some offline changes were not sent',
+      dismiss: 'Got it',
+      cancelTicket: 'Cancellation of ticket',
+      checkIn: 'Check-in for ticket',
+      alreadyCancelled: 'The ticket was already cancelled.',
+      alreadyCheckedIn: 'The ticket was already checked in.',
+      refunded: 'The operator refunded the ticket.',
+      ticketUsed: 'The ticket has already been used.',
+      ticketCancelled: 'The ticket was cancelled.',
+      tripCancelled: 'The operator cancelled the trip.',
+      seatChanged: 'The operator changed your seat. Check the ticket and check in again.',
+    },
+    seatMap: {
+      seat: 'Seat',
+      available: 'Available',
+      selected: 'Selected',
+      occupied: 'Occupied',
+      driver: 'Driver',
+      lowerDeck: 'Lower deck',
+      upperDeck: 'Upper deck',
+      seatsTaken: 'Some of your selected seats were just taken. Please choose others.',
+      refreshFailed: 'Could not check seat availability. Please try again.',
+    },
+    seatHold: {
+      heldFor: 'Your seats are held for',
+      extend: 'Extend',
+      extendFailed: 'Could not extend the seat hold.',
+      holdFailed: 'Could not hold your seats. Please try again.',
+      expiredTitle: 'Seat hold expired',
+      expiredMessage: 'Time to complete checkout ran out and your seats were released. Check your seat selection and continue again.',
+    },
+    travellers: {
+      title: 'Saved travellers',
+      description: 'Save the details of people you often book for and fill them in with one tap at checkout.',
+      add: 'Add traveller',
+      editTitle: 'Edit traveller',
+      dateOfBirth: 'Date of birth',
+      dateOfBirthHint: 'YYYY-MM-DD',
+      invalidDateOfBirth: 'Enter the date of birth as YYYY-MM-DD.',
+      deleteConfirm: 'Remove this traveller from your address book?',
+      saveFailed: 'Could not save the traveller.',
+      deleteFailed: 'Could not remove the traveller.',
+      empty: 'No saved travellers yet',
+      emptyDesc: 'Add the family members or colleagues you travel with.',
+      offline: 'You\'re offline. Showing the saved copy; changes are possible once you\'re back online.',
+      pickSaved: 'Fill from saved',
+      signInRequired: 'Sign in to use saved travellers.',
+    },
+    fares: {
+      title: 'Fare',
+      adult: 'Adult',
+      child: 'Child',
+      student: 'Student',
+      senior: 'Senior',
+      proofRequired: 'Show proof of eligibility when boarding.',
+      dateOfBirthRequired: 'Enter the date of birth (YYYY-MM-DD) for this fare.',
+      notEligible: 'The passenger\'s age doesn\'t match the selected fare.',
+      baseFare: 'Base fare',
+      tripDiscount: 'Trip discount',
+      fareDiscount: 'Fare discounts',
+    },
+    promoCode: {
+      title: 'Promo code or voucher',
+      placeholder: 'Enter code',
+      apply: 'Apply',
+      remove: 'Remove',
+      applied: 'Discount applied',
+      discount: 'Promo code',
+      invalid: 'This code doesn\'t exist.',
+      expired: 'This code has expired.',
+      alreadyUsed: 'This code has already been used.',
+      notApplicable: 'This code can\'t be used for this trip.',
+      checkFailed: 'Could not check the code. Please try again.',
+    },
+    roundTrip: {
+      oneWay: 'One way',
+      roundTrip: 'Return',
+      returnDate: 'Return date',
+      outbound: 'Outbound',
+      inbound: 'Return',
+      selectOutbound: 'Choose your outbound trip',
+      selectInbound: 'Choose your return trip',
+      returnSeats: 'Return seats',
+      noInboundAfterOutbound: 'No return trip in the same currency leaves after your outbound trip arrives',
+      partialReservation: 'The return trip could not be reserved. Nothing has been charged, please try again.',
+    },
+    connections: {
+      title: 'Connections with a change',
+      noDirectTrips: 'There\'s no direct bus, but you can change on the way',
+      changeIn: 'Change in',
+      transferTime: 'to change',
+      leg: 'Leg',
+      searching: 'Looking for connections...',
+      partialReservation: 'The second leg could not be reserved. Nothing has been charged, please try again.',
+    },
+    priceCalendar: {
+      exactDate: 'Exact date',
+      flexibleDays: '± 3 days',
+      wholeMonth: 'Whole month',
+      low: 'Cheap',
+      medium: 'Average',
+      high: 'Expensive',
+      loading: 'Comparing prices...',
+      chooseRouteFirst: 'Choose where from and where to first to compare prices',
+      tapToSearch: 'Tap a day to see its trips',
+    },
+    resultFilters: {
+      earliestArrival: 'Earliest arrival',
+      departureTime: 'Departure time',
+      night: 'Night (0–6)',
+      morning: 'Morning (6–12)',
+      afternoon: 'Afternoon (12–18)',
+      evening: 'Evening (18–24)',
+      amenities: 'Amenities',
+      wifi: 'Wi-Fi',
+      ac: 'Air conditioning',
+      toilet: 'Toilet',
+      usb: 'USB',
+      power: 'Power socket',
+      tv: 'TV',
+      snacks: 'Snacks',
+      sleeper: 'Sleeper',
+      recliner: 'Reclining seats',
+      providers: 'Operators',
+      maxPrice: 'Maximum price',
+      upTo: 'up to',
+      minSeats: 'Free seats',
+      atLeast: 'at least',
+      any: 'Any',
+      reset: 'Clear filters',
+      show: 'Show trips',
+      noMatches: 'No trips match your filters',
+      shownOf: 'of',
+    },
+    currency: {
+      displayCurrency: 'Display currency',
+      ratesUpdated: 'Rates updated',
+      staleRates: 'Converted prices are approximate, exchange rates may be out of date.',
+      noRates: 'Exchange rates are unavailable, prices are shown in the operator\'s currency.',
+      chargedIn: 'charged in',
+      chargedInTripCurrency: 'You are always charged in the trip\'s own currency.',
+    },
+    providerStatus: {
+      operatorsAnswered: 'operators answered',
+      partialResults: 'results may be incomplete',
+      trips: 'trips',
+      timedOut: 'Timed out',
+      failed: 'Search failed',
+      sameBackendAs: 'Same system as',
+      someUnavailable: 'Some operators are unavailable. Try again later.',
+      alsoSoldBy: 'Also sold by',
+    },
+    bankTransfer: {
+      title: 'Bank transfer',
+      scanToPay: 'Scan the QR code in your banking app',
+      enterManually: 'Enter the payment details in your banking app',
+      recipient: 'Recipient',
+      accountNumber: 'Account number',
+      iban: 'IBAN',
+      swift: 'BIC / SWIFT',
+      variableSymbol: 'Variable symbol',
+      amount: 'Amount',
+      message: 'Payment reference',
+      copied: 'Copied',
+      includeSymbol: 'Without the variable symbol we can\'t match the payment to your reservation.',
+      payWithin: 'Pay within',
+      dueBy: 'Due by',
+      overdue: 'The payment deadline has passed',
+      daysShort: 'd',
+      waiting: 'Waiting for your transfer. This page updates as soon as it arrives, usually within one business day.',
+      received: 'Payment received',
+      receivedNote: 'Your tickets are ready.',
+      notReceived: 'The reservation was cancelled because the payment didn\'t arrive in time.',
+      notFound: 'No bank transfer in progress',
+      payLater: 'I\'ll pay later',
+      viewTickets: 'View tickets',
+    },
+    refund: {
+      title: 'Refund',
+      paid: 'Paid',
+      youGetBack: 'You get back',
+      policy: 'Operator\'s cancellation policy',
+      hoursBefore: 'h or more before departure',
+      untilDeparture: 'Until departure',
+      appliesNow: 'applies now',
+      validUntil: 'Amount valid until',
+      destination: 'Refund to',
+      originalPayment: 'Original payment method',
+      originalPaymentHint: 'Back to the card or account you paid with, usually within 5–10 business days',
+      voucher: 'Voucher',
+      voucherHint: 'Credit for your next booking, available right away',
+      notRefundable: 'Under the operator\'s cancellation policy this ticket can no longer be refunded.',
+      request: 'Cancel and refund',
+      confirmTitle: 'Cancel this ticket?',
+      confirmMessage: 'The ticket will be cancelled. This can\'t be undone.',
+      amountChanged: 'A different tier of the cancellation policy applies now, so the amount has changed. Please check the new amount.',
+      alreadyRequested: 'A refund has already been requested for this ticket.',
+      requested: 'Requested',
+      approved: 'Approved',
+      processing: 'Being paid out',
+      completed: 'Refunded',
+      rejected: 'Rejected',
+      expectedBy: 'Expected by',
+      voucherCode: 'Voucher code',
+    },
+    paymentHistory: {
+      title: 'Payment history',
+      empty: 'No payments yet',
+      emptyHint: 'Payments for your bookings will appear here',
+      loadFailed: 'Could not load your payment history',
+      reference: 'Reference',
+      provider: 'Paid via',
+      tickets: 'Tickets',
+      done: 'Paid',
+      pending: 'Pending',
+      authorized: 'Authorized',
+      draft: 'Not completed',
+      cancel: 'Cancelled',
+      error: 'Failed',
+      refunded: 'Refunded',
+      receipt: 'Receipt',
+      invoice: 'VAT invoice',
+      share: 'Share',
+      save: 'Save',
+      saved: 'Document saved',
+      documentFailed: 'Could not create the document',
+      billingRequired: 'Add your company billing details to get a VAT invoice.',
+      addBilling: 'Add billing details',
+      receiptTitle: 'Payment receipt',
+      invoiceTitle: 'Invoice – tax document',
+      documentNumber: 'Document number',
+      issueDate: 'Date of issue',
+      paymentDate: 'Date of payment',
+      seller: 'Seller',
+      buyer: 'Buyer',
+      companyId: 'Company ID',
+      vatId: 'VAT ID',
+      item: 'Description',
+      defaultItem: 'Bus tickets',
+      vatRate: 'VAT rate',
+      vatBase: 'Tax base',
+      vat: 'VAT',
+      total: 'Total',
+      notVatPayer: 'The seller is not registered for VAT.',
+      alreadyPaid: 'Paid in full – do not pay again.',
+    },
+    billing: {
+      title: 'Billing details',
+      hint: 'These details are printed on invoices for your payments.',
+      companyName: 'Company name',
+      companyId: 'Company ID',
+      vatId: 'VAT ID',
+      street: 'Street',
+      city: 'City',
+      postalCode: 'Postal code',
+      country: 'Country',
+      companyNameRequired: 'Enter the company name',
+      saved: 'Billing details saved',
+      offline: 'Billing details can only be changed online',
+    },
     errors: {
       generic: 'Something went wrong',
       network: 'Network error. Check your internet connection.',
@@ -722,6 +1661,7 @@ export const translations: Record<SupportedLanguage, Translations> = {
       paymentFailed: 'Payment failed. Please try again.',
       bookingFailed: 'Booking failed. Please try again.',
       tryAgain: 'Try again',
+      providerUnavailable: 'The operator of this trip isn\'t available. Check your operator settings.',
     },
     datetime: {
       today: 'Today',
@@ -820,6 +1760,25 @@ export const translations: Record<SupportedLanguage, Translations> = {
       errorMessage: 'Під час бронювання сталася помилка. Будь ласка, спробуйте ще раз.',
       pricePerPerson: 'Ціна за особу',
       totalPrice: 'Загальна вартість',
+      passenger: 'Пасажир',
+      leadPassenger: 'основний пасажир',
+      fullName: 'Повне ім\'я',
+      documentType: 'Документ',
+      passport: 'Паспорт',
+      idCard: 'ID-картка',
+      documentNumber: 'Номер документа',
+      sameContactAsLead: 'Той самий контакт, що й в основного пасажира',
+      sameContactHint: 'Квитки всіх пасажирів буде надіслано на e-mail основного пасажира.',
+      invalidName: 'Введіть ім\'я.',
+      invalidEmail: 'Введіть дійсний e-mail.',
+      invalidPhone: 'Введіть номер телефону.',
+      documentTypeRequired: 'Виберіть тип документа.',
+      passengers: 'Пасажири',
+      stepSeats: 'Місця',
+      stepDetails: 'Дані',
+      stepPayment: 'Оплата',
+      selectYourSeats: 'Оберіть місця',
+      seatsToSelect: 'Кількість місць',
     },
     payment: {
       title: 'Оплата',
@@ -839,6 +1798,7 @@ export const translations: Record<SupportedLanguage, Translations> = {
       redirecting: 'Перенаправлення на платіжний шлюз...',
       confirmCash: 'Підтвердити оплату готівкою',
       cashNote: 'Ви оплатите безпосередньо водієві при посадці в автобус.',
+      inProgress: 'Попередній платіж ще обробляється. Зачекайте, доки він завершиться.',
     },
     tickets: {
       title: 'Мої квитки',
@@ -946,6 +1906,287 @@ export const translations: Record<SupportedLanguage, Translations> = {
       soundEnabled: 'Звук',
       vibrationEnabled: 'Вібрація',
     },
+    offlineQueue: {
+      title: 'Офлайн-дії',
+      description: 'Дії, що очікують надсилання на сервер',
+      empty: 'Немає дій у черзі',
+      emptyDesc: 'Усі зміни синхронізовано',
+      pendingSection: 'Очікують',
+      failedSection: 'Невдалі',
+      failedDesc: 'Ці дії не вдалося надіслати. Повторіть або відхиліть їх.',
+      nextAttempt: 'Наступна спроба',
+      attempts: 'Спроби',
+      lastError: 'Остання помилка',
+      retry: 'Повторити',
+      discard: 'Відхилити',
+      discardAll: 'Відхилити всі',
+      discardConfirm: 'Дію не буде надіслано, і зміну буде втрачено. Продовжити?',
+      createBooking: 'Бронювання',
+      cancelTicket: 'Скасування квитка',
+      updateProfile: 'Оновлення профілю',
+      checkIn: 'Реєстрація на рейс',
+    },
+    syncConflicts: {
+      title: 'Деякі офлайн-зміни не було надіслано',
+      dismiss: 'Зрозуміло',
+      cancelTicket: 'Скасування квитка',
+      checkIn: 'Реєстрація квитка',
+      alreadyCancelled: 'Квиток уже скасовано.',
+      alreadyCheckedIn: 'Квиток уже зареєстровано.',
+      refunded: 'Перевізник повернув кошти за квиток.',
+      ticketUsed: 'Квиток уже використано.',
+      ticketCancelled: 'Квиток було скасовано.',
+      tripCancelled: 'Перевізник скасував рейс.',
+      seatChanged: 'Перевізник змінив ваше місце. Перевірте квиток і зареєструйтеся знову.',
+    },
+    seatMap: {
+      seat: 'Місце',
+      available: 'Вільне',
+      selected: 'Вибране',
+      occupied: 'Зайняте',
+      driver: 'Водій',
+      lowerDeck: 'Нижній поверх',
+      upperDeck: 'Верхній поверх',
+      seatsTaken: 'Деякі з вибраних місць щойно зайняли. Будь ласка, виберіть інші.',
+      refreshFailed: 'Не вдалося перевірити наявність місць. Спробуйте ще раз.',
+    },
+    seatHold: {
+      heldFor: 'Ваші місця заброньовано ще на',
+      extend: 'Продовжити',
+      extendFailed: 'Не вдалося продовжити бронювання місць.',
+      holdFailed: 'Не вдалося заблокувати місця. Спробуйте ще раз.',
+      expiredTitle: 'Бронювання місць закінчилося',
+      expiredMessage: 'Час на оформлення вичерпано, і місця звільнено. Перевірте вибір місць і продовжте знову.',
+    },
+    travellers: {
+      title: 'Збережені пасажири',
+      description: 'Збережіть дані людей, для яких ви часто бронюєте, і заповнюйте їх одним дотиком під час оформлення.',
+      add: 'Додати пасажира',
+      editTitle: 'Редагувати пасажира',
+      dateOfBirth: 'Дата народження',
+      dateOfBirthHint: 'РРРР-ММ-ДД',
+      invalidDateOfBirth: 'Введіть дату народження у форматі РРРР-ММ-ДД.',
+      deleteConfirm: 'Видалити цього пасажира з адресної книги?',
+      saveFailed: 'Не вдалося зберегти пасажира.',
+      deleteFailed: 'Не вдалося видалити пасажира.',
+      empty: 'Поки немає збережених пасажирів',
+      emptyDesc: 'Додайте членів родини або колег, з якими подорожуєте.',
+      offline: 'Ви офлайн. Показано збережену копію; зміни можливі після підключення.',
+      pickSaved: 'Заповнити зі збережених',
+      signInRequired: 'Увійдіть, щоб користуватися збереженими пасажирами.',
+    },
+    fares: {
+      title: 'Тариф',
+      adult: 'Дорослий',
+      child: 'Дитина',
+      student: 'Студент',
+      senior: 'Пенсіонер',
+      proofRequired: 'Під час посадки пред\'явіть документ, що підтверджує право на знижку.',
+      dateOfBirthRequired: 'Для цього тарифу введіть дату народження (РРРР-ММ-ДД).',
+      notEligible: 'Вік пасажира не відповідає обраному тарифу.',
+      baseFare: 'Базовий тариф',
+      tripDiscount: 'Знижка на рейс',
+      fareDiscount: 'Знижки за тарифом',
+    },
+    promoCode: {
+      title: 'Промокод або ваучер',
+      placeholder: 'Введіть код',
+      apply: 'Застосувати',
+      remove: 'Видалити',
+      applied: 'Знижку застосовано',
+      discount: 'Промокод',
+      invalid: 'Такого коду не існує.',
+      expired: 'Термін дії цього коду закінчився.',
+      alreadyUsed: 'Цей код уже використано.',
+      notApplicable: 'Цей код не можна застосувати до цієї поїздки.',
+      checkFailed: 'Не вдалося перевірити код. Спробуйте ще раз.',
+    },
+    roundTrip: {
+      oneWay: 'В один бік',
+      roundTrip: 'Туди й назад',
+      returnDate: 'Дата повернення',
+      outbound: 'Туди',
+      inbound: 'Назад',
+      selectOutbound: 'Оберіть рейс туди',
+      selectInbound: 'Оберіть рейс назад',
+      returnSeats: 'Місця назад',
+      noInboundAfterOutbound: 'Жоден рейс назад у тій самій валюті не відправляється після прибуття рейсу туди',
+      partialReservation: 'Не вдалося зарезервувати рейс назад. Кошти не списано, спробуйте ще раз.',
+    },
+    connections: {
+      title: 'Рейси з пересадкою',
+      noDirectTrips: 'Прямого рейсу немає, але можна їхати з пересадкою',
+      changeIn: 'Пересадка в',
+      transferTime: 'на пересадку',
+      leg: 'Ділянка',
+      searching: 'Шукаємо рейси з пересадкою...',
+      partialReservation: 'Не вдалося зарезервувати другу ділянку. Кошти не списано, спробуйте ще раз.',
+    },
+    priceCalendar: {
+      exactDate: 'Точна дата',
+      flexibleDays: '± 3 дні',
+      wholeMonth: 'Весь місяць',
+      low: 'Дешево',
+      medium: 'Середньо',
+      high: 'Дорого',
+      loading: 'Порівнюємо ціни...',
+      chooseRouteFirst: 'Щоб порівняти ціни, спершу оберіть звідки й куди',
+      tapToSearch: 'Натисніть на день, щоб побачити рейси',
+    },
+    resultFilters: {
+      earliestArrival: 'Найраніше прибуття',
+      departureTime: 'Час відправлення',
+      night: 'Ніч (0–6)',
+      morning: 'Ранок (6–12)',
+      afternoon: 'День (12–18)',
+      evening: 'Вечір (18–24)',
+      amenities: 'Зручності',
+      wifi: 'Wi-Fi',
+      ac: 'Кондиціонер',
+      toilet: 'Туалет',
+      usb: 'USB',
+      power: 'Розетка',
+      tv: 'ТБ',
+      snacks: 'Закуски',
+      sleeper: 'Спальні місця',
+      recliner: 'Відкидні сидіння',
+      providers: 'Перевізники',
+      maxPrice: 'Максимальна ціна',
+      upTo: 'до',
+      minSeats: 'Вільні місця',
+      atLeast: 'щонайменше',
+      any: 'Будь-які',
+      reset: 'Скинути фільтри',
+      show: 'Показати рейси',
+      noMatches: 'Жоден рейс не відповідає фільтрам',
+      shownOf: 'з',
+    },
+    currency: {
+      displayCurrency: 'Валюта відображення',
+      ratesUpdated: 'Курси оновлено',
+      staleRates: 'Перераховані ціни орієнтовні, курси можуть бути застарілими.',
+      noRates: 'Курси недоступні, ціни показано у валюті перевізника.',
+      chargedIn: 'оплата в',
+      chargedInTripCurrency: 'Оплата завжди здійснюється у валюті рейсу.',
+    },
+    providerStatus: {
+      operatorsAnswered: 'перевізників відповіли',
+      partialResults: 'результати можуть бути неповними',
+      trips: 'рейсів',
+      timedOut: 'Не відповів вчасно',
+      failed: 'Пошук не вдався',
+      sameBackendAs: 'Та сама система, що й',
+      someUnavailable: 'Деякі перевізники недоступні. Спробуйте пізніше.',
+      alsoSoldBy: 'Також продає',
+    },
+    bankTransfer: {
+      title: 'Банківський переказ',
+      scanToPay: 'Відскануйте QR-код у додатку свого банку',
+      enterManually: 'Введіть платіжні реквізити в додатку свого банку',
+      recipient: 'Отримувач',
+      accountNumber: 'Номер рахунку',
+      iban: 'IBAN',
+      swift: 'BIC / SWIFT',
+      variableSymbol: 'Варіабельний символ',
+      amount: 'Сума',
+      message: 'Призначення платежу',
+      copied: 'Скопійовано',
+      includeSymbol: 'Без варіабельного символу ми не зможемо зіставити платіж із бронюванням.',
+      payWithin: 'Оплатіть протягом',
+      dueBy: 'Сплатити до',
+      overdue: 'Термін оплати минув',
+      daysShort: 'д',
+      waiting: 'Очікуємо ваш переказ. Сторінка оновиться, щойно він надійде, зазвичай протягом одного робочого дня.',
+      received: 'Оплату отримано',
+      receivedNote: 'Ваші квитки готові.',
+      notReceived: 'Бронювання скасовано, оскільки оплата не надійшла вчасно.',
+      notFound: 'Немає незавершеного банківського переказу',
+      payLater: 'Оплачу пізніше',
+      viewTickets: 'Переглянути квитки',
+    },
+    refund: {
+      title: 'Повернення коштів',
+      paid: 'Сплачено',
+      youGetBack: 'Вам повернуть',
+      policy: 'Умови скасування перевізника',
+      hoursBefore: 'год і більше до відправлення',
+      untilDeparture: 'До відправлення',
+      appliesNow: 'діє зараз',
+      validUntil: 'Сума дійсна до',
+      destination: 'Куди повернути кошти',
+      originalPayment: 'Початковий спосіб оплати',
+      originalPaymentHint: 'На картку або рахунок, з якого ви платили, зазвичай протягом 5–10 робочих днів',
+      voucher: 'Ваучер',
+      voucherHint: 'Кредит на наступне бронювання, доступний одразу',
+      notRefundable: 'Згідно з умовами перевізника цей квиток більше не можна повернути.',
+      request: 'Скасувати та повернути кошти',
+      confirmTitle: 'Скасувати квиток?',
+      confirmMessage: 'Квиток буде скасовано. Цю дію не можна скасувати.',
+      amountChanged: 'Тепер діє інший рівень умов скасування, тому сума змінилася. Перевірте нову суму.',
+      alreadyRequested: 'Повернення коштів за цей квиток уже запитано.',
+      requested: 'Запитано',
+      approved: 'Схвалено',
+      processing: 'Виплачується',
+      completed: 'Повернено',
+      rejected: 'Відхилено',
+      expectedBy: 'Очікується до',
+      voucherCode: 'Код ваучера',
+    },
+    paymentHistory: {
+      title: 'Історія платежів',
+      empty: 'Платежів поки немає',
+      emptyHint: 'Тут з\'являться платежі за ваші бронювання',
+      loadFailed: 'Не вдалося завантажити історію платежів',
+      reference: 'Референс',
+      provider: 'Оплачено через',
+      tickets: 'Квитки',
+      done: 'Оплачено',
+      pending: 'Очікує оплати',
+      authorized: 'Авторизовано',
+      draft: 'Не завершено',
+      cancel: 'Скасовано',
+      error: 'Не вдалося',
+      refunded: 'Повернено',
+      receipt: 'Квитанція',
+      invoice: 'Рахунок-фактура',
+      share: 'Поділитися',
+      save: 'Зберегти',
+      saved: 'Документ збережено',
+      documentFailed: 'Не вдалося створити документ',
+      billingRequired: 'Додайте платіжні реквізити компанії, щоб отримати рахунок-фактуру.',
+      addBilling: 'Додати реквізити',
+      receiptTitle: 'Квитанція про оплату',
+      invoiceTitle: 'Рахунок-фактура – податковий документ',
+      documentNumber: 'Номер документа',
+      issueDate: 'Дата видачі',
+      paymentDate: 'Дата оплати',
+      seller: 'Продавець',
+      buyer: 'Покупець',
+      companyId: 'ЄДРПОУ',
+      vatId: 'ІПН',
+      item: 'Опис',
+      defaultItem: 'Квитки на автобус',
+      vatRate: 'Ставка ПДВ',
+      vatBase: 'База оподаткування',
+      vat: 'ПДВ',
+      total: 'Разом',
+      notVatPayer: 'Продавець не є платником ПДВ.',
+      alreadyPaid: 'Оплачено повністю – не сплачуйте повторно.',
+    },
+    billing: {
+      title: 'Платіжні реквізити',
+      hint: 'Ці дані зазначаються в рахунках-фактурах за ваші платежі.',
+      companyName: 'Назва компанії',
+      companyId: 'ЄДРПОУ',
+      vatId: 'ІПН',
+      street: 'Вулиця',
+      city: 'Місто',
+      postalCode: 'Поштовий індекс',
+      country: 'Країна',
+      companyNameRequired: 'Введіть назву компанії',
+      saved: 'Реквізити збережено',
+      offline: 'Реквізити можна змінити лише онлайн',
+    },
     errors: {
       generic: 'Щось пішло не так',
       network: "Помилка мережі. Перевірте з'єднання з інтернетом.",
@@ -957,6 +2198,7 @@ export const translations: Record<SupportedLanguage, Translations> = {
       paymentFailed: 'Оплата не вдалася. Будь ласка, спробуйте ще раз.',
       bookingFailed: 'Бронювання не вдалося. Будь ласка, спробуйте ще раз.',
       tryAgain: 'Спробувати знову',
+      providerUnavailable: 'Перевізник цієї поїздки недоступний. Перевірте налаштування перевізників.',
     },
     datetime: {
       today: 'Сьогодні',
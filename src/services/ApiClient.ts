@@ -3,81 +3,86 @@
  * Copyright (c) 2024-2026 IT Enterprise
  */
 
-import type { AuthTokens, Trip, Ticket, User } from '@/types';
+import type {
+  AuthTokens,
+  Trip,
+  Ticket,
+  User,
+  SeatAvailability,
+  SeatHold,
+  BookingPassenger,
+  Traveller,
+  TravellerInput,
+  FareCategory,
+  PromoCodeRedemption,
+  PaymentTransaction,
+  Refund,
+  RefundDestination,
+  RefundQuote,
+} from '@/types';
+import { httpClient, HttpClient, HttpClientConfig, RequestOptions } from './HttpClient';
+import {
+  HttpError,
+  PromoCodeError,
+  PromoCodeRejection,
+  RefundError,
+  RefundRejection,
+} from './errors';
+import {
+  decodePaymentTransactions,
+  decodePromoCodeRedemption,
+  decodeReservationIds,
+  decodeRefund,
+  decodeRefundQuote,
+  decodeRefunds,
+  decodeSeatAvailability,
+  decodeSeatHold,
+  decodeTicket,
+  decodeTickets,
+  decodeTraveller,
+  decodeTravellers,
+  decodeTrip,
+  decodeTrips,
+  decodeUser,
+} from './decoders';
+
+type ApiClientConfig = HttpClientConfig;
 
-interface ApiClientConfig {
-  baseUrl: string;
-  timeout?: number;
-  onTokenRefresh?: (tokens: AuthTokens) => Promise<void>;
-  onAuthError?: () => Promise<void>;
-}
+/**
+ * Error codes the backend uses to refuse a promo code
+ */
+const PROMO_CODE_REJECTIONS: Record<string, PromoCodeRejection> = {
+  PROMO_CODE_INVALID: 'invalid',
+  PROMO_CODE_EXPIRED: 'expired',
+  PROMO_CODE_ALREADY_USED: 'already_used',
+  PROMO_CODE_NOT_APPLICABLE: 'not_applicable',
+};
 
-export class BusTicketsApiClient {
-  private config: ApiClientConfig;
-  private tokens: AuthTokens | null = null;
+/**
+ * Error codes the backend uses to refuse a refund request
+ */
+const REFUND_REJECTIONS: Record<string, RefundRejection> = {
+  REFUND_NOT_ALLOWED: 'not_refundable',
+  REFUND_AMOUNT_CHANGED: 'amount_changed',
+  REFUND_ALREADY_REQUESTED: 'already_requested',
+};
 
-  constructor(config: ApiClientConfig) {
-    this.config = config;
-  }
+/**
+ * Typed backend endpoints on top of the shared HTTP client
+ */
+export class BusTicketsApiClient {
+  constructor(private http: HttpClient = httpClient) {}
 
   setTokens(tokens: AuthTokens): void {
-    this.tokens = tokens;
+    this.http.setTokens(tokens);
   }
 
   clearTokens(): void {
-    this.tokens = null;
+    this.http.clearTokens();
   }
 
   getAccessToken(): string | null {
-    return this.tokens?.accessToken ?? null;
-  }
-
-  private async request<T>(
-    endpoint: string,
-    options: RequestInit = {}
-  ): Promise<T> {
-    const url = `${this.config.baseUrl}${endpoint}`;
-
-    const headers: Record<string, string> = {
-      'Content-Type': 'application/json',
-      ...(options.headers as Record<string, string>),
-    };
-
-    if (this.tokens?.accessToken) {
-      headers['Authorization'] = `Bearer ${this.tokens.accessToken}`;
-    }
-
-    const controller = new AbortController();
-    const timeoutId = setTimeout(
-      () => controller.abort(),
-      this.config.timeout ?? 30000
-    );
-
-    try {
-      const response = await fetch(url, {
-        ...options,
-        headers,
-        signal: controller.signal,
-      });
-
-      clearTimeout(timeoutId);
-
-      if (response.status === 401) {
-        if (this.config.onAuthError) {
-          await this.config.onAuthError();
-        }
-        throw new Error('Unauthorized');
-      }
-
-      if (!response.ok) {
-        throw new Error(`API Error: ${response.status}`);
-      }
-
-      return response.json();
-    } catch (error) {
-      clearTimeout(timeoutId);
-      throw error;
-    }
+    return this.http.getAccessToken();
   }
 
   // Auth endpoints
@@ -89,15 +94,14 @@ export class BusTicketsApiClient {
     phone?: string;
     otp?: string;
   }): Promise<{ user: User; tokens: AuthTokens }> {
-    const response = await this.request<{ data: { user: User; tokens: AuthTokens } }>(
+    const data = await this.http.post<{ user: unknown; tokens: AuthTokens }>(
       '/api/v1/auth/login',
-      {
-        method: 'POST',
-        body: JSON.stringify(params),
-      }
+      params,
+      { auth: false }
     );
-    this.tokens = response.data.tokens;
-    return response.data;
+    const user = decodeUser(data.user);
+    this.http.setTokens(data.tokens);
+    return { user, tokens: data.tokens };
   }
 
   async register(data: {
@@ -106,63 +110,53 @@ export class BusTicketsApiClient {
     name: string;
     phone?: string;
   }): Promise<{ user: User; tokens: AuthTokens }> {
-    const response = await this.request<{ data: { user: User; tokens: AuthTokens } }>(
+    const result = await this.http.post<{ user: unknown; tokens: AuthTokens }>(
       '/api/v1/auth/register',
-      {
-        method: 'POST',
-        body: JSON.stringify(data),
-      }
+      data,
+      { auth: false }
     );
-    this.tokens = response.data.tokens;
-    return response.data;
+    const user = decodeUser(result.user);
+    this.http.setTokens(result.tokens);
+    return { user, tokens: result.tokens };
   }
 
   async requestOtp(email?: string, phone?: string): Promise<void> {
-    await this.request('/api/v1/auth/otp/request', {
-      method: 'POST',
-      body: JSON.stringify({ email, phone }),
-    });
+    await this.http.post('/api/v1/auth/otp/request', { email, phone }, { auth: false });
   }
 
   async logout(): Promise<void> {
-    await this.request('/api/v1/auth/logout', { method: 'POST' });
+    await this.http.post('/api/v1/auth/logout');
     this.clearTokens();
   }
 
   async refreshToken(): Promise<AuthTokens> {
-    if (!this.tokens?.refreshToken) {
-      throw new Error('No refresh token available');
-    }
+    return this.http.refreshTokens();
+  }
 
-    const response = await this.request<{ data: AuthTokens }>(
-      '/api/v1/auth/refresh',
-      {
-        method: 'POST',
-        body: JSON.stringify({ refreshToken: this.tokens.refreshToken }),
-      }
-    );
+  // User endpoints
+  async getCurrentUser(): Promise<User> {
+    return decodeUser(await this.http.get('/api/v1/auth/me'));
+  }
 
-    this.tokens = response.data;
+  async updateProfile(data: Partial<User>): Promise<User> {
+    return decodeUser(await this.http.put('/api/v1/auth/profile', data));
+  }
 
-    if (this.config.onTokenRefresh) {
-      await this.config.onTokenRefresh(response.data);
-    }
+  // Traveller address book endpoints
+  async getTravellers(): Promise<Traveller[]> {
+    return decodeTravellers(await this.http.get('/api/v1/travellers'));
+  }
 
-    return response.data;
+  async createTraveller(data: TravellerInput): Promise<Traveller> {
+    return decodeTraveller(await this.http.post('/api/v1/travellers', data));
   }
 
-  // User endpoints
-  async getCurrentUser(): Promise<User> {
-    const response = await this.request<{ data: User }>('/api/v1/auth/me');
-    return response.data;
+  async updateTraveller(travellerId: number, data: TravellerInput): Promise<Traveller> {
+    return decodeTraveller(await this.http.put(`/api/v1/travellers/${travellerId}`, data));
   }
 
-  async updateProfile(data: Partial<User>): Promise<User> {
-    const response = await this.request<{ data: User }>('/api/v1/auth/profile', {
-      method: 'PUT',
-      body: JSON.stringify(data),
-    });
-    return response.data;
+  async deleteTraveller(travellerId: number): Promise<void> {
+    await this.http.delete(`/api/v1/travellers/${travellerId}`);
   }
 
   // Trip endpoints
@@ -172,82 +166,236 @@ export class BusTicketsApiClient {
     date: string;
     passengers?: number;
   }): Promise<Trip[]> {
-    const searchParams = new URLSearchParams({
-      origin_id: params.originId.toString(),
-      destination_id: params.destinationId.toString(),
-      date: params.date,
-      passengers: (params.passengers ?? 1).toString(),
+    const data = await this.http.get('/api/v1/trips', {
+      query: {
+        origin_id: params.originId,
+        destination_id: params.destinationId,
+        date: params.date,
+        passengers: params.passengers ?? 1,
+      },
     });
+    return decodeTrips(data);
+  }
+
+  async getTripById(tripId: number): Promise<Trip> {
+    return decodeTrip(await this.http.get(`/api/v1/trips/${tripId}`));
+  }
 
-    const response = await this.request<{ data: Trip[] }>(
-      `/api/v1/trips?${searchParams}`
+  /**
+   * A trip as offered for booking. `options` point the call at the
+   * provider selling it (see `providerRequestOptions`).
+   */
+  async getBookableTrip(tripId: number, options: RequestOptions = {}): Promise<Trip> {
+    return decodeTrip(await this.http.get(`/api/v1/trip/${tripId}`, { auth: false, ...options }));
+  }
+
+  /**
+   * Seats sold or blocked right now. Not cached: call it again before reserving.
+   */
+  async getTripSeats(tripId: number, options: RequestOptions = {}): Promise<SeatAvailability> {
+    return decodeSeatAvailability(
+      await this.http.get(`/api/v1/trips/${tripId}/seats`, { auth: false, ...options })
     );
-    return response.data;
   }
 
-  async getTripById(tripId: number): Promise<Trip> {
-    const response = await this.request<{ data: Trip }>(
-      `/api/v1/trips/${tripId}`
+  // Promo code endpoints
+
+  /**
+   * Price a booking with a promo code or voucher without redeeming it.
+   * The backend redeems codes when taking the payment, so it is asked for
+   * provider trips too, each named with the provider selling it.
+   * A refused code fails with a `PromoCodeError` saying why.
+   */
+  async validatePromoCode(params: {
+    code: string;
+    tripId: number;
+    /**
+     * Provider selling `tripId`; omitted for the backend's own trips
+     */
+    providerId?: string;
+    /**
+     * Return leg of a round trip, priced together with `tripId`
+     */
+    returnTripId?: number;
+    returnProviderId?: string;
+    /**
+     * Second leg of a connection, priced together with `tripId`
+     */
+    connectingTripId?: number;
+    connectingProviderId?: string;
+    fareCategories: FareCategory[];
+  }): Promise<PromoCodeRedemption> {
+    try {
+      return decodePromoCodeRedemption(
+        await this.http.post('/api/v1/promo-codes/validate', params)
+      );
+    } catch (error) {
+      if (error instanceof HttpError) {
+        const reason =
+          PROMO_CODE_REJECTIONS[error.code] ?? (error.status === 404 ? 'invalid' : undefined);
+        if (reason) throw new PromoCodeError(reason, error.message);
+      }
+      throw error;
+    }
+  }
+
+  // Seat hold endpoints
+
+  /**
+   * Hold seats during checkout. Fails with a 409 `HttpError` if any of
+   * them was taken in the meantime.
+   */
+  async createSeatHold(
+    tripId: number,
+    seats: number[],
+    options: RequestOptions = {}
+  ): Promise<SeatHold> {
+    return decodeSeatHold(await this.http.post('/api/v1/seat-holds', { tripId, seats }, options));
+  }
+
+  async extendSeatHold(holdId: string, options: RequestOptions = {}): Promise<SeatHold> {
+    return decodeSeatHold(
+      await this.http.post(`/api/v1/seat-holds/${holdId}/extend`, undefined, options)
+    );
+  }
+
+  async releaseSeatHold(holdId: string, options: RequestOptions = {}): Promise<void> {
+    await this.http.delete(`/api/v1/seat-holds/${holdId}`, options);
+  }
+
+  // Reservation endpoints
+
+  /**
+   * Reserve held seats on one trip, one reservation (and later one ticket)
+   * per passenger. Resolves to the reservation IDs to pay for.
+   */
+  async createReservations(
+    params: {
+      tripId: number;
+      seats: number[];
+      holdId?: string;
+      passengers: BookingPassenger[];
+      paymentMethod: string;
+    },
+    options: RequestOptions = {}
+  ): Promise<number[]> {
+    return decodeReservationIds(await this.http.post('/api/v1/reservations', params, options));
+  }
+
+  /**
+   * Hand reservations made on a provider's own host to the backend, which
+   * takes the payment and issues the tickets. Resolves to the backend's
+   * reservation IDs for them.
+   */
+  async registerProviderReservations(
+    providerId: string,
+    reservationIds: number[]
+  ): Promise<number[]> {
+    return decodeReservationIds(
+      await this.http.post('/api/v1/reservations/external', { providerId, reservationIds })
     );
-    return response.data;
   }
 
   // Ticket endpoints
   async getMyTickets(): Promise<Ticket[]> {
-    const response = await this.request<{ data: Ticket[] }>(
-      '/api/v1/tickets/my'
-    );
-    return response.data;
+    return decodeTickets(await this.http.get('/api/v1/tickets/my'));
   }
 
   async getTicketById(ticketId: number): Promise<Ticket> {
-    const response = await this.request<{ data: Ticket }>(
-      `/api/v1/tickets/${ticketId}`
-    );
-    return response.data;
+    return decodeTicket(await this.http.get(`/api/v1/tickets/${ticketId}`));
   }
 
   async bookTicket(data: {
     tripId: number;
-    passengers: Array<{
-      name: string;
-      email: string;
-      phone?: string;
-      seat?: number;
-    }>;
+    passengers: BookingPassenger[];
   }): Promise<Ticket[]> {
-    const response = await this.request<{ data: Ticket[] }>(
-      '/api/v1/tickets/book',
-      {
-        method: 'POST',
-        body: JSON.stringify(data),
-      }
-    );
-    return response.data;
+    return decodeTickets(await this.http.post('/api/v1/tickets/book', data));
   }
 
   async cancelTicket(ticketId: number): Promise<void> {
-    await this.request(`/api/v1/tickets/${ticketId}/cancel`, {
-      method: 'POST',
-    });
+    await this.http.post(`/api/v1/tickets/${ticketId}/cancel`);
+  }
+
+  // Payment history endpoints
+
+  /**
+   * The user's payments, newest first
+   */
+  async getPaymentHistory(): Promise<PaymentTransaction[]> {
+    return decodePaymentTransactions(await this.http.get('/api/v1/payments/my'));
+  }
+
+  // Refund endpoints
+
+  /**
+   * What cancelling the ticket now would refund, under its operator's
+   * cancellation policy
+   */
+  async getRefundQuote(ticketId: number): Promise<RefundQuote> {
+    return decodeRefundQuote(await this.http.get(`/api/v1/tickets/${ticketId}/refund-quote`));
+  }
+
+  /**
+   * Cancel the ticket and refund it to `destination`. `expectedAmount` is
+   * the quoted amount: if a lower policy tier applied in the meantime the
+   * request fails with a `RefundError` instead of refunding less.
+   */
+  async requestRefund(
+    ticketId: number,
+    destination: RefundDestination,
+    expectedAmount: number
+  ): Promise<Refund> {
+    try {
+      return decodeRefund(
+        await this.http.post(`/api/v1/tickets/${ticketId}/refunds`, {
+          destination,
+          expectedAmount,
+        })
+      );
+    } catch (error) {
+      if (error instanceof HttpError) {
+        const reason = REFUND_REJECTIONS[error.code];
+        if (reason) throw new RefundError(reason, error.message);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * The refund requested for a ticket, or null if there is none
+   */
+  async getTicketRefund(ticketId: number): Promise<Refund | null> {
+    try {
+      return decodeRefund(await this.http.get(`/api/v1/tickets/${ticketId}/refund`));
+    } catch (error) {
+      if (error instanceof HttpError && error.status === 404) return null;
+      throw error;
+    }
+  }
+
+  async getMyRefunds(): Promise<Refund[]> {
+    return decodeRefunds(await this.http.get('/api/v1/refunds/my'));
   }
 
   // Station endpoints
   async searchStations(query: string): Promise<Array<{ id: number; name: string; city: string }>> {
-    const response = await this.request<{ data: Array<{ id: number; name: string; city: string }> }>(
-      `/api/v1/stations/search?q=${encodeURIComponent(query)}`
+    return this.http.get<Array<{ id: number; name: string; city: string }>>(
+      '/api/v1/stations/search',
+      { query: { q: query } }
     );
-    return response.data;
   }
 
   async getPopularStations(): Promise<Array<{ id: number; name: string; city: string }>> {
-    const response = await this.request<{ data: Array<{ id: number; name: string; city: string }> }>(
+    return this.http.get<Array<{ id: number; name: string; city: string }>>(
       '/api/v1/stations/popular'
     );
-    return response.data;
   }
 }
 
+/**
+ * Point the shared HTTP client at `config` and return an API client using it
+ */
 export function createApiClient(config: ApiClientConfig): BusTicketsApiClient {
-  return new BusTicketsApiClient(config);
+  httpClient.configure(config);
+  return new BusTicketsApiClient(httpClient);
 }
@@ -0,0 +1,88 @@
+/**
+ * BUS-Tickets - Currency Service
+ * Copyright (c) 2024-2026 IT Enterprise
+ *
+ * Exchange rates from the backend config, cached so prices can still be
+ * converted offline. Conversions are for display only: bookings are always
+ * charged in the trip's own currency (a connection sold in two, in its
+ * first leg's, at the backend's rate).
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import type { Currency, ExchangeRates } from '@/types';
+
+const EXCHANGE_RATES_KEY = '@bus_tickets_exchange_rates';
+
+/**
+ * Rates older than this are shown with a warning
+ */
+export const RATES_STALE_AFTER_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * An amount in `to`, or null when it can't be converted
+ */
+export type AmountConverter = (amount: number, from: Currency, to: Currency) => number | null;
+
+class CurrencyService {
+  /**
+   * Rates saved by the last successful config load
+   */
+  async getCachedRates(): Promise<ExchangeRates | null> {
+    try {
+      const stored = await AsyncStorage.getItem(EXCHANGE_RATES_KEY);
+      return stored ? (JSON.parse(stored) as ExchangeRates) : null;
+    } catch (error) {
+      console.error('Error loading exchange rates:', error);
+      return null;
+    }
+  }
+
+  async saveRates(rates: ExchangeRates): Promise<void> {
+    try {
+      await AsyncStorage.setItem(EXCHANGE_RATES_KEY, JSON.stringify(rates));
+    } catch (error) {
+      console.error('Error saving exchange rates:', error);
+    }
+  }
+
+  /**
+   * The more recently published of two sets of rates
+   */
+  newest(a: ExchangeRates | null, b: ExchangeRates | null): ExchangeRates | null {
+    if (!a || !b) return a ?? b;
+    return Date.parse(b.updatedAt) > Date.parse(a.updatedAt) ? b : a;
+  }
+
+  isStale(rates: ExchangeRates, now: number = Date.now()): boolean {
+    const updatedAt = Date.parse(rates.updatedAt);
+    return Number.isNaN(updatedAt) || now - updatedAt > RATES_STALE_AFTER_MS;
+  }
+
+  /**
+   * Convert `amount` between currencies, rounded to cents; null when
+   * `rates` don't cover either currency
+   */
+  convert(amount: number, from: Currency, to: Currency, rates: ExchangeRates): number | null {
+    if (from === to) return amount;
+
+    const rate = (currency: Currency) =>
+      currency === rates.base ? 1 : rates.rates[currency];
+    const fromRate = rate(from);
+    const toRate = rate(to);
+    if (!fromRate || !toRate) return null;
+
+    return Math.round((amount / fromRate) * toRate * 100) / 100;
+  }
+
+  /**
+   * `convert` with `rates`; without rates only same-currency amounts convert
+   */
+  converter(rates: ExchangeRates | null): AmountConverter {
+    return (amount, from, to) => {
+      if (from === to) return amount;
+      return rates ? this.convert(amount, from, to, rates) : null;
+    };
+  }
+}
+
+export const currencyService = new CurrencyService();
@@ -0,0 +1,83 @@
+/**
+ * BUS-Tickets - Document Service
+ * Copyright (c) 2024-2026 IT Enterprise
+ *
+ * Turns HTML documents (receipts, invoices) into PDF files the user can
+ * share or save. On web the browser's print dialog does both.
+ */
+
+import { Platform } from 'react-native';
+import * as Print from 'expo-print';
+import * as Sharing from 'expo-sharing';
+import * as FileSystem from 'expo-file-system';
+
+export type DocumentAction = 'share' | 'save';
+
+const PDF_MIME_TYPE = 'application/pdf';
+
+class DocumentService {
+  /**
+   * Print `html` to a PDF named `fileName` and share or save it. Resolves
+   * to false if the user backed out.
+   */
+  async exportPdf(html: string, fileName: string, action: DocumentAction): Promise<boolean> {
+    if (Platform.OS === 'web') {
+      await Print.printAsync({ html });
+      return true;
+    }
+
+    const uri = await this.createPdf(html, fileName);
+    // iOS saves through "Save to Files" in the share sheet
+    if (action === 'save' && Platform.OS === 'android') {
+      return this.saveToDirectory(uri, fileName);
+    }
+    return this.share(uri, fileName);
+  }
+
+  /**
+   * The PDF in the cache directory, under its proper file name
+   */
+  private async createPdf(html: string, fileName: string): Promise<string> {
+    const { uri } = await Print.printToFileAsync({ html });
+    const target = `${FileSystem.cacheDirectory}${fileName}`;
+    await FileSystem.deleteAsync(target, { idempotent: true });
+    await FileSystem.moveAsync({ from: uri, to: target });
+    return target;
+  }
+
+  private async share(uri: string, fileName: string): Promise<boolean> {
+    if (!(await Sharing.isAvailableAsync())) {
+      throw new Error('Sharing is not available on this device');
+    }
+    await Sharing.shareAsync(uri, {
+      mimeType: PDF_MIME_TYPE,
+      UTI: 'com.adobe.pdf',
+      dialogTitle: fileName,
+    });
+    return true;
+  }
+
+  /**
+   * Copy the PDF into a folder the user picks (Android)
+   */
+  private async saveToDirectory(uri: string, fileName: string): Promise<boolean> {
+    const { StorageAccessFramework } = FileSystem;
+    const permission = await StorageAccessFramework.requestDirectoryPermissionsAsync();
+    if (!permission.granted) return false;
+
+    const contents = await FileSystem.readAsStringAsync(uri, {
+      encoding: FileSystem.EncodingType.Base64,
+    });
+    const target = await StorageAccessFramework.createFileAsync(
+      permission.directoryUri,
+      fileName.replace(/\.pdf$/, ''),
+      PDF_MIME_TYPE
+    );
+    await FileSystem.writeAsStringAsync(target, contents, {
+      encoding: FileSystem.EncodingType.Base64,
+    });
+    return true;
+  }
+}
+
+export const documentService = new DocumentService();
@@ -0,0 +1,248 @@
+/**
+ * BUS-Tickets - HTTP Client
+ * Copyright (c) 2024-2026 IT Enterprise
+ *
+ * The single transport for backend and bus provider calls:
+ * - Bearer auth with single-flight token refresh and replay on 401
+ * - Request timeouts
+ * - `ApiResponse<T>` envelope unwrapping
+ * - Typed errors (see ./errors)
+ */
+
+import { Platform } from 'react-native';
+import type { ApiResponse, AuthTokens } from '@/types';
+import { AuthError, NetworkError, toHttpError } from './errors';
+
+export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+
+export interface HttpClientConfig {
+  baseUrl: string;
+  timeout?: number;
+  onTokenRefresh?: (tokens: AuthTokens) => Promise<void>;
+  onAuthError?: () => Promise<void>;
+}
+
+export interface RequestOptions {
+  method?: HttpMethod;
+  query?: Record<string, string | number | boolean | null | undefined>;
+  body?: unknown;
+  headers?: Record<string, string>;
+  /**
+   * Send the access token and refresh it on 401 (default true)
+   */
+  auth?: boolean;
+  /**
+   * Base URL for hosts other than the configured backend (bus providers)
+   */
+  baseUrl?: string;
+  timeout?: number;
+}
+
+const DEFAULT_TIMEOUT = 30000;
+const REFRESH_ENDPOINT = '/api/v1/auth/refresh';
+
+/**
+ * Web builds served over HTTPS can't call plain HTTP (mixed content)
+ */
+function ensureHttps(url: string): string {
+  if (Platform.OS === 'web' && url.startsWith('http://')) {
+    return url.replace('http://', 'https://');
+  }
+  return url;
+}
+
+function isEnvelope(body: unknown): body is ApiResponse<unknown> {
+  return typeof body === 'object' && body !== null && 'success' in body;
+}
+
+export class HttpClient {
+  private config: HttpClientConfig = { baseUrl: '' };
+  private tokens: AuthTokens | null = null;
+  private refreshing: Promise<AuthTokens> | null = null;
+
+  configure(config: Partial<HttpClientConfig>): void {
+    this.config = { ...this.config, ...config };
+  }
+
+  getBaseUrl(): string {
+    return this.config.baseUrl;
+  }
+
+  setTokens(tokens: AuthTokens): void {
+    this.tokens = tokens;
+  }
+
+  clearTokens(): void {
+    this.tokens = null;
+  }
+
+  getAccessToken(): string | null {
+    return this.tokens?.accessToken ?? null;
+  }
+
+  isAuthenticated(): boolean {
+    return this.tokens !== null;
+  }
+
+  async get<T>(path: string, options: RequestOptions = {}): Promise<T> {
+    return this.data<T>(path, { ...options, method: 'GET' });
+  }
+
+  async post<T>(path: string, body?: unknown, options: RequestOptions = {}): Promise<T> {
+    return this.data<T>(path, { ...options, method: 'POST', body });
+  }
+
+  async put<T>(path: string, body?: unknown, options: RequestOptions = {}): Promise<T> {
+    return this.data<T>(path, { ...options, method: 'PUT', body });
+  }
+
+  async delete<T>(path: string, options: RequestOptions = {}): Promise<T> {
+    return this.data<T>(path, { ...options, method: 'DELETE' });
+  }
+
+  /**
+   * Send a request and return the full envelope (for `meta`).
+   * Bodies that aren't an envelope are wrapped as `{ success: true, data }`.
+   */
+  async request<T>(path: string, options: RequestOptions = {}): Promise<ApiResponse<T>> {
+    const useAuth = options.auth ?? true;
+    const sentToken = useAuth ? this.getAccessToken() : null;
+
+    let response = await this.send(path, options, sentToken);
+
+    if (response.status === 401 && useAuth && this.tokens?.refreshToken) {
+      // Another request may have refreshed the token while this one was in flight
+      if (this.getAccessToken() === sentToken) {
+        await this.refreshTokens();
+      }
+      response = await this.send(path, options, this.getAccessToken());
+    }
+
+    const body = await this.parseBody(response);
+
+    if (!response.ok || (isEnvelope(body) && body.success === false)) {
+      const error = toHttpError(response.status, body);
+      if (error instanceof AuthError && response.status === 401 && useAuth) {
+        await this.handleAuthFailure();
+      }
+      throw error;
+    }
+
+    return isEnvelope(body) ? (body as ApiResponse<T>) : { success: true, data: body as T };
+  }
+
+  /**
+   * Refresh the access token. Concurrent callers share one refresh request.
+   */
+  async refreshTokens(): Promise<AuthTokens> {
+    if (!this.refreshing) {
+      this.refreshing = this.performRefresh().finally(() => {
+        this.refreshing = null;
+      });
+    }
+    return this.refreshing;
+  }
+
+  private async performRefresh(): Promise<AuthTokens> {
+    const refreshToken = this.tokens?.refreshToken;
+    if (!refreshToken) {
+      throw new AuthError('No refresh token available', 401);
+    }
+
+    try {
+      const response = await this.send(
+        REFRESH_ENDPOINT,
+        { method: 'POST', body: { refreshToken } },
+        null
+      );
+      const body = await this.parseBody(response);
+
+      if (!response.ok || (isEnvelope(body) && body.success === false)) {
+        throw toHttpError(response.status, body);
+      }
+
+      const tokens = (isEnvelope(body) ? body.data : body) as AuthTokens;
+      this.tokens = tokens;
+      await this.config.onTokenRefresh?.(tokens);
+      return tokens;
+    } catch (error) {
+      // Only a rejected refresh token ends the session, not a dropped connection
+      if (!(error instanceof NetworkError)) {
+        await this.handleAuthFailure();
+      }
+      throw error instanceof NetworkError ? error : new AuthError('Session expired', 401);
+    }
+  }
+
+  private async handleAuthFailure(): Promise<void> {
+    this.tokens = null;
+    await this.config.onAuthError?.();
+  }
+
+  private async data<T>(path: string, options: RequestOptions): Promise<T> {
+    const response = await this.request<T>(path, options);
+    return response.data as T;
+  }
+
+  private buildUrl(path: string, options: RequestOptions): string {
+    const base = /^https?:\/\//.test(path) ? '' : options.baseUrl ?? this.config.baseUrl;
+    let url = ensureHttps(`${base}${path}`);
+
+    const query = Object.entries(options.query ?? {}).filter(
+      ([, value]) => value !== undefined && value !== null
+    );
+    if (query.length > 0) {
+      const params = new URLSearchParams(query.map(([key, value]) => [key, String(value)]));
+      url += `${url.includes('?') ? '&' : '?'}${params}`;
+    }
+
+    return url;
+  }
+
+  private async send(
+    path: string,
+    options: RequestOptions,
+    accessToken: string | null
+  ): Promise<Response> {
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+      ...options.headers,
+    };
+    if (accessToken) {
+      headers['Authorization'] = `Bearer ${accessToken}`;
+    }
+
+    const controller = new AbortController();
+    const timeout = options.timeout ?? this.config.timeout ?? DEFAULT_TIMEOUT;
+    const timeoutId = setTimeout(() => controller.abort(), timeout);
+
+    try {
+      return await fetch(this.buildUrl(path, options), {
+        method: options.method ?? 'GET',
+        headers,
+        body: options.body !== undefined ? JSON.stringify(options.body) : undefined,
+        signal: controller.signal,
+      });
+    } catch (error) {
+      if (controller.signal.aborted) {
+        throw new NetworkError(`Request timed out after ${timeout / 1000}s`, true);
+      }
+      throw new NetworkError(error instanceof Error ? error.message : 'Network request failed');
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  }
+
+  private async parseBody(response: Response): Promise<unknown> {
+    const text = await response.text();
+    if (!text) return null;
+
+    try {
+      return JSON.parse(text);
+    } catch {
+      return text;
+    }
+  }
+}
+
+export const httpClient = new HttpClient();
@@ -0,0 +1,240 @@
+/**
+ * BUS-Tickets - Payment Session Store
+ * Copyright (c) 2024-2026 IT Enterprise
+ *
+ * The payment in progress, persisted so it survives the OS killing the app
+ * while the user is on the bank's 3-D Secure page. Status only moves along
+ * allowed transitions: in particular a paid session can't become failed or
+ * cancelled, whatever a late deep link or timeout says.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { PaymentInProgressError } from './errors';
+import type { PaymentMethod, PaymentResult, PaymentTransactionStatus } from '@/types';
+
+export type PaymentStatus =
+  | 'idle'
+  | 'initiating'
+  | 'processing'
+  | 'awaiting_confirmation'
+  | 'success'
+  | 'error'
+  | 'cancelled'
+  | 'refunded';
+
+export interface PaymentSession {
+  reservationIds: number[];
+  providerId: number;
+  /**
+   * Gateway, for picking its payment adapter (see services/payments)
+   */
+  method?: PaymentMethod;
+  status: PaymentStatus;
+  /**
+   * Set once the backend has created the transaction
+   */
+  transaction?: PaymentResult;
+  error?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+type PaymentSessionListener = (session: PaymentSession | null) => void;
+
+const PAYMENT_SESSION_KEY = '@bus_tickets_payment_session';
+
+const TRANSITIONS: Record<PaymentStatus, PaymentStatus[]> = {
+  idle: ['initiating'],
+  // Offline methods go straight to awaiting confirmation; a voucher
+  // covering the whole price is paid at once
+  initiating: ['processing', 'awaiting_confirmation', 'success', 'error', 'cancelled'],
+  processing: ['awaiting_confirmation', 'success', 'error', 'cancelled'],
+  awaiting_confirmation: ['success', 'error', 'cancelled'],
+  // Refunds are the only way out of a paid session
+  success: ['refunded'],
+  // The bank may still confirm a payment we had given up on
+  error: ['success'],
+  cancelled: ['success'],
+  refunded: [],
+};
+
+const FINAL_STATUSES: PaymentStatus[] = ['success', 'error', 'cancelled', 'refunded'];
+
+export function canTransition(from: PaymentStatus, to: PaymentStatus): boolean {
+  return from === to || TRANSITIONS[from].includes(to);
+}
+
+/**
+ * Nothing more to wait for; `error` and `cancelled` may still turn out
+ * paid when reconciled, but aren't polled
+ */
+export function isFinalStatus(status: PaymentStatus): boolean {
+  return FINAL_STATUSES.includes(status);
+}
+
+/**
+ * Session status for a backend transaction state
+ */
+export function toPaymentStatus(status: PaymentTransactionStatus): PaymentStatus {
+  switch (status) {
+    case 'done':
+      return 'success';
+    case 'error':
+      return 'error';
+    case 'cancel':
+      return 'cancelled';
+    case 'refunded':
+      return 'refunded';
+    case 'authorized':
+      return 'awaiting_confirmation';
+    case 'pending':
+    case 'draft':
+      return 'processing';
+  }
+}
+
+/**
+ * Status checks don't repeat everything the backend said when creating the
+ * transaction (payment URL, bank details), so they're merged into it
+ */
+function mergeTransaction(
+  current: PaymentResult | undefined,
+  update: PaymentResult
+): PaymentResult {
+  const fields = Object.entries(update).filter(([, value]) => value !== undefined);
+  return { ...current, ...Object.fromEntries(fields) } as PaymentResult;
+}
+
+class PaymentSessionStore {
+  private session: PaymentSession | null = null;
+  private loaded: Promise<PaymentSession | null> | null = null;
+  private listeners: Set<PaymentSessionListener> = new Set();
+
+  /**
+   * The stored session, read from storage once per app run
+   */
+  load(): Promise<PaymentSession | null> {
+    if (!this.loaded) {
+      this.loaded = AsyncStorage.getItem(PAYMENT_SESSION_KEY)
+        .then((stored) => {
+          this.session = stored ? (JSON.parse(stored) as PaymentSession) : null;
+          return this.session;
+        })
+        .catch((error) => {
+          console.error('Error loading payment session:', error);
+          return null;
+        });
+    }
+    return this.loaded;
+  }
+
+  getSession(): PaymentSession | null {
+    return this.session;
+  }
+
+  /**
+   * Start a new session, replacing a finished one. Fails with a
+   * `PaymentInProgressError` while the stored payment hasn't settled: it
+   * may still go through, and replacing it would lose track of it.
+   */
+  async start(
+    reservationIds: number[],
+    providerId: number,
+    method?: PaymentMethod
+  ): Promise<PaymentSession> {
+    await this.load();
+    if (this.session && !isFinalStatus(this.session.status)) {
+      throw new PaymentInProgressError();
+    }
+    const now = new Date().toISOString();
+    return this.save({
+      reservationIds,
+      providerId,
+      method,
+      status: 'initiating',
+      createdAt: now,
+      updatedAt: now,
+    });
+  }
+
+  /**
+   * Move to `status` if allowed from the current one; otherwise the session
+   * is left as it is. Returns the session after the attempt.
+   */
+  async transition(
+    status: PaymentStatus,
+    changes: Partial<Pick<PaymentSession, 'transaction' | 'error'>> = {}
+  ): Promise<PaymentSession | null> {
+    await this.load();
+    const current = this.session;
+    if (!current) return null;
+
+    const transaction = changes.transaction
+      ? mergeTransaction(current.transaction, changes.transaction)
+      : current.transaction;
+
+    if (!canTransition(current.status, status)) {
+      console.warn(`Ignoring payment transition ${current.status} → ${status}`);
+      // Transaction details are still worth keeping
+      return changes.transaction ? this.save({ ...current, transaction }) : current;
+    }
+
+    return this.save({
+      ...current,
+      ...changes,
+      transaction,
+      status,
+      error: status === 'error' ? changes.error ?? current.error : undefined,
+    });
+  }
+
+  /**
+   * Apply a status check from the backend, as `status` when the gateway's
+   * adapter maps it differently
+   */
+  reconcile(
+    result: PaymentResult,
+    status: PaymentStatus = toPaymentStatus(result.status)
+  ): Promise<PaymentSession | null> {
+    return this.transition(status, {
+      transaction: result,
+      error: result.errorMessage || 'Payment failed',
+    });
+  }
+
+  async clear(): Promise<void> {
+    this.session = null;
+    this.loaded = Promise.resolve(null);
+    try {
+      await AsyncStorage.removeItem(PAYMENT_SESSION_KEY);
+    } catch (error) {
+      console.error('Error clearing payment session:', error);
+    }
+    this.notifyListeners();
+  }
+
+  subscribe(listener: PaymentSessionListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private async save(session: PaymentSession): Promise<PaymentSession> {
+    this.session = { ...session, updatedAt: new Date().toISOString() };
+    this.loaded = Promise.resolve(this.session);
+    this.notifyListeners();
+    try {
+      await AsyncStorage.setItem(PAYMENT_SESSION_KEY, JSON.stringify(this.session));
+    } catch (error) {
+      console.error('Error saving payment session:', error);
+    }
+    return this.session;
+  }
+
+  private notifyListeners(): void {
+    this.listeners.forEach((listener) => listener(this.session));
+  }
+}
+
+export const paymentSessionStore = new PaymentSessionStore();
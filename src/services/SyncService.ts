@@ -7,14 +7,47 @@ import * as Network from 'expo-network';
 import { database } from '../db/database';
 import { ticketRepository } from '../db/TicketRepository';
 import { offlineQueue, QueuedAction, ActionPayload } from '../db/OfflineQueue';
-import type { Ticket, Trip } from '@/types';
+import { httpClient } from './HttpClient';
+import { HttpError, InvalidResponseError, NetworkError } from './errors';
+import { decodeBookedTicket, decodeTicketChanges, decodeTripList } from './decoders';
+import type { Ticket, Trip, TicketStatus } from '@/types';
 
 export type SyncStatus = 'idle' | 'syncing' | 'success' | 'error' | 'offline';
 
+export type ConflictReason =
+  | 'already_cancelled'
+  | 'already_checked_in'
+  | 'refunded'
+  | 'ticket_used'
+  | 'ticket_cancelled'
+  | 'trip_cancelled'
+  | 'seat_changed';
+
+/**
+ * A queued ticket action dropped because the server state moved on
+ */
+export interface SyncConflict {
+  actionId: number;
+  actionType: 'CANCEL_TICKET' | 'CHECK_IN';
+  ticketId: number;
+  ticketNumber: string;
+  reason: ConflictReason;
+  serverStatus: TicketStatus;
+  resolvedAt: number;
+}
+
 export interface SyncState {
   status: SyncStatus;
   lastSyncTime: number | null;
   pendingActions: number;
+  /**
+   * Actions that were dead-lettered and need the user's attention
+   */
+  failedActions: number;
+  /**
+   * Queued actions dropped during reconciliation, until dismissed
+   */
+  conflicts: SyncConflict[];
   error: string | null;
 }
 
@@ -27,18 +60,111 @@ export interface SyncOptions {
 
 type SyncListener = (state: SyncState) => void;
 
+const IDEMPOTENCY_HEADER = 'Idempotency-Key';
+
+/**
+ * Metadata key holding the ticket sync cursor
+ */
+const TICKETS_CURSOR_KEY = 'last_sync';
+
+/**
+ * Error code the server returns (with 400) for an unknown or expired cursor;
+ * 410 Gone means the same
+ */
+const INVALID_CURSOR_CODE = 'INVALID_CURSOR';
+
+interface TicketDelta {
+  tickets: Ticket[];
+  deleted: number[];
+  /**
+   * The response holds every ticket rather than changes
+   */
+  full: boolean;
+  nextCursor: string;
+}
+
+/**
+ * Error code the server returns (with 409) when a request with the same
+ * idempotency key was already applied
+ */
+const ALREADY_APPLIED_CODE = 'ALREADY_APPLIED';
+
+interface ActionResponse {
+  data: unknown;
+  alreadyApplied: boolean;
+}
+
+/**
+ * Status a ticket has locally while the action is still queued
+ */
+const OPTIMISTIC_STATUS: Record<SyncConflict['actionType'], TicketStatus> = {
+  CANCEL_TICKET: 'cancelled',
+  CHECK_IN: 'checked_in',
+};
+
+function isTicketAction(action: QueuedAction): action is QueuedAction & {
+  action_type: SyncConflict['actionType'];
+  entity_id: number;
+} {
+  return (
+    (action.action_type === 'CANCEL_TICKET' || action.action_type === 'CHECK_IN') &&
+    action.entity_id !== null
+  );
+}
+
+/**
+ * Why a queued ticket action no longer applies to the server's ticket, if it doesn't
+ */
+function getConflictReason(
+  actionType: SyncConflict['actionType'],
+  server: Ticket,
+  localSeat: number | undefined
+): ConflictReason | null {
+  if (server.trip?.status === 'cancelled') return 'trip_cancelled';
+  if (server.status === 'refunded') return 'refunded';
+
+  if (actionType === 'CANCEL_TICKET') {
+    if (server.status === 'cancelled') return 'already_cancelled';
+    if (server.status === 'checked_in' || server.status === 'used') return 'ticket_used';
+    return null;
+  }
+
+  if (server.status === 'checked_in') return 'already_checked_in';
+  if (server.status === 'used') return 'ticket_used';
+  if (server.status === 'cancelled') return 'ticket_cancelled';
+  // Checking in for a seat the user hasn't seen would send them to the wrong place
+  if (localSeat !== undefined && server.seat !== undefined && localSeat !== server.seat) {
+    return 'seat_changed';
+  }
+  return null;
+}
+
+/**
+ * Whether a failed action won't succeed on replay and should be
+ * dead-lettered straight away (most 4xx). Network errors and anything
+ * unclassified are treated as transient.
+ */
+function isPermanentFailure(error: unknown): boolean {
+  if (!(error instanceof HttpError) || error instanceof NetworkError) return false;
+  const { status } = error;
+  // Timeouts, rate limiting and expired sessions can succeed later
+  if (status === 401 || status === 408 || status === 429) return false;
+  return status >= 400 && status < 500;
+}
+
 class SyncService {
   private static instance: SyncService;
-  private apiUrl: string = '';
-  private authToken: string | null = null;
   private state: SyncState = {
     status: 'idle',
     lastSyncTime: null,
     pendingActions: 0,
+    failedActions: 0,
+    conflicts: [],
     error: null,
   };
   private listeners: Set<SyncListener> = new Set();
   private syncInterval: ReturnType<typeof setInterval> | null = null;
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
   private isOnline: boolean = true;
 
   private constructor() {}
@@ -53,9 +179,7 @@ class SyncService {
   /**
    * Initialize sync service
    */
-  async initialize(apiUrl: string): Promise<void> {
-    this.apiUrl = apiUrl;
-
+  async initialize(): Promise<void> {
     // Initialize database
     await database.initialize();
 
@@ -65,8 +189,9 @@ class SyncService {
     // Start network monitoring
     this.startNetworkMonitoring();
 
-    // Get pending action count
+    // Get queued action counts
     this.state.pendingActions = await offlineQueue.getPendingCount();
+    this.state.failedActions = await offlineQueue.getFailedCount();
 
     // Get last sync time
     this.state.lastSyncTime = await ticketRepository.getLastSyncTime();
@@ -74,13 +199,6 @@ class SyncService {
     this.notifyListeners();
   }
 
-  /**
-   * Set authentication token
-   */
-  setAuthToken(token: string | null): void {
-    this.authToken = token;
-  }
-
   /**
    * Subscribe to sync state changes
    */
@@ -152,6 +270,10 @@ class SyncService {
       clearInterval(this.syncInterval);
       this.syncInterval = null;
     }
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
   }
 
   /**
@@ -186,7 +308,7 @@ class SyncService {
       }
 
       // Sync tickets
-      if (syncTickets && this.authToken) {
+      if (syncTickets && httpClient.isAuthenticated()) {
         await this.syncTickets();
       }
 
@@ -197,15 +319,14 @@ class SyncService {
 
       // Update state
       const pendingActions = await offlineQueue.getPendingCount();
+      const failedActions = await offlineQueue.getFailedCount();
       this.updateState({
         status: 'success',
         lastSyncTime: Date.now(),
         pendingActions,
+        failedActions,
       });
 
-      // Store last sync time
-      await database.setMetadata('last_sync', String(Date.now()));
-
       console.log('Sync completed successfully');
       return true;
     } catch (error) {
@@ -217,29 +338,47 @@ class SyncService {
   }
 
   /**
-   * Sync user tickets from server
+   * Sync user tickets from server. Sends the `last_sync` cursor so only
+   * changed and deleted tickets come back; falls back to a full resync
+   * when there is no cursor yet, the server rejects it or issues no new one.
    */
   private async syncTickets(): Promise<void> {
-    if (!this.authToken) return;
+    if (!httpClient.isAuthenticated()) return;
 
     try {
-      const response = await fetch(`${this.apiUrl}/api/v1/tickets`, {
-        headers: {
-          Authorization: `Bearer ${this.authToken}`,
-          'Content-Type': 'application/json',
-        },
-      });
+      const cursor = await database.getMetadata(TICKETS_CURSOR_KEY);
+      let delta = cursor ? await this.fetchTicketChanges(cursor) : null;
 
-      if (!response.ok) {
+      if (!delta) {
+        if (cursor) console.log('Ticket sync cursor rejected or not renewed, doing full resync');
+        delta = await this.fetchTicketChanges(null);
+      }
+      if (!delta) {
         throw new Error('Failed to fetch tickets');
       }
 
-      const data = await response.json();
+      const { tickets, conflicts } = await this.reconcileTickets(delta.tickets);
+      const { deleted, full, nextCursor } = delta;
 
-      if (data.tickets && Array.isArray(data.tickets)) {
-        await ticketRepository.saveTickets(data.tickets);
-        console.log(`Synced ${data.tickets.length} tickets`);
+      // Changes, dropped actions and the new cursor commit together, so an
+      // interrupted sync resumes from the previous cursor with its queue intact
+      const db = await database.getDb();
+      await db.transaction(async (tx) => {
+        for (const conflict of conflicts) {
+          await offlineQueue.remove(conflict.actionId, tx);
+        }
+        await ticketRepository.applyTicketChanges(tickets, deleted, full, tx);
+        await database.setMetadata(TICKETS_CURSOR_KEY, nextCursor, tx);
+      });
+      if (conflicts.length > 0) {
+        await this.reportConflicts(conflicts);
       }
+
+      console.log(
+        full
+          ? `Synced ${tickets.length} tickets (full)`
+          : `Synced ${tickets.length} changed and ${deleted.length} deleted tickets`
+      );
     } catch (error) {
       console.error('Error syncing tickets:', error);
       throw error;
@@ -247,27 +386,119 @@ class SyncService {
   }
 
   /**
-   * Sync popular trips for offline search
+   * Fetch tickets changed since `cursor`, or all tickets when it is null.
+   * Returns null if the server rejected the cursor or issued no new one.
+   * An incomplete answer fails: a full sync drops every cached ticket it
+   * doesn't list.
    */
-  private async syncPopularTrips(): Promise<void> {
+  private async fetchTicketChanges(cursor: string | null): Promise<TicketDelta | null> {
+    let data: unknown;
     try {
-      const response = await fetch(`${this.apiUrl}/api/v1/trips/popular`, {
-        headers: {
-          'Content-Type': 'application/json',
-        },
-      });
+      data = await httpClient.get<unknown>('/api/v1/tickets', { query: { since: cursor } });
+    } catch (error) {
+      const cursorRejected =
+        error instanceof HttpError &&
+        (error.status === 410 || (error.status === 400 && error.code === INVALID_CURSOR_CODE));
+      if (cursor && cursorRejected) return null;
+      throw error;
+    }
+
+    const full = cursor === null;
+    const { tickets, deleted, cursor: nextCursor } = decodeTicketChanges(data);
+    if (nextCursor === undefined) {
+      // Only the server's own cursor marks where these changes end;
+      // without one, start over with a full resync
+      if (!full) return null;
+      throw new InvalidResponseError('TicketChanges', [{ path: 'cursor', message: 'is missing' }]);
+    }
+
+    return { tickets, deleted, full, nextCursor };
+  }
+
+  /**
+   * Forget the ticket cursor so the next sync downloads everything.
+   * The cursor belongs to the signed-in user, so call this on sign-out.
+   */
+  async resetTicketCursor(): Promise<void> {
+    await database.deleteMetadata(TICKETS_CURSOR_KEY);
+  }
 
-      if (!response.ok) {
-        // Non-critical, just log
-        console.log('Could not fetch popular trips');
-        return;
+  /**
+   * Compare server tickets with queued CANCEL_TICKET/CHECK_IN actions.
+   * Actions the server state made obsolete are returned as conflicts for the
+   * caller to drop; tickets with actions still queued keep their local status
+   * instead of being overwritten by the server's.
+   */
+  private async reconcileTickets(
+    serverTickets: Ticket[]
+  ): Promise<{ tickets: Ticket[]; conflicts: SyncConflict[] }> {
+    const actions = (await offlineQueue.getAllActions()).filter(isTicketAction);
+    if (actions.length === 0) return { tickets: serverTickets, conflicts: [] };
+
+    const byId = new Map(serverTickets.map((ticket) => [ticket.id, ticket]));
+    const conflicts: SyncConflict[] = [];
+
+    for (const action of actions) {
+      const server = byId.get(action.entity_id);
+      // Not in the server's list, nothing to compare against
+      if (!server) continue;
+
+      const local = await ticketRepository.getTicket(action.entity_id);
+      const reason = getConflictReason(action.action_type, server, local?.seat);
+
+      if (reason) {
+        conflicts.push({
+          actionId: action.id,
+          actionType: action.action_type,
+          ticketId: server.id,
+          ticketNumber: server.ticketNumber,
+          reason,
+          serverStatus: server.status,
+          resolvedAt: Date.now(),
+        });
+      } else if (action.status === 'pending') {
+        byId.set(server.id, { ...server, status: OPTIMISTIC_STATUS[action.action_type] });
       }
+    }
 
-      const data = await response.json();
+    return { tickets: Array.from(byId.values()), conflicts };
+  }
 
-      if (data.trips && Array.isArray(data.trips)) {
-        await ticketRepository.saveTrips(data.trips);
-        console.log(`Cached ${data.trips.length} popular trips`);
+  /**
+   * Report queued actions dropped by a committed sync
+   */
+  private async reportConflicts(conflicts: SyncConflict[]): Promise<void> {
+    for (const conflict of conflicts) {
+      console.log(
+        `Dropped ${conflict.actionType} for ticket ${conflict.ticketId}: ${conflict.reason}`
+      );
+    }
+
+    this.updateState({
+      conflicts: [...this.state.conflicts, ...conflicts],
+      pendingActions: await offlineQueue.getPendingCount(),
+      failedActions: await offlineQueue.getFailedCount(),
+    });
+  }
+
+  /**
+   * Clear reported conflicts once the user has seen them
+   */
+  dismissConflicts(): void {
+    this.updateState({ conflicts: [] });
+  }
+
+  /**
+   * Sync popular trips for offline search
+   */
+  private async syncPopularTrips(): Promise<void> {
+    try {
+      const data = await httpClient.get<unknown>('/api/v1/trips/popular', { auth: false });
+      const trips = decodeTripList(data);
+
+      if (trips.length > 0) {
+        await ticketRepository.saveTrips(trips);
+        console.log(`Cached ${trips.length} popular trips`);
       }
     } catch (error) {
       // Non-critical error
@@ -279,27 +510,51 @@ class SyncService {
    * Process offline action queue
    */
   private async processOfflineQueue(): Promise<void> {
-    const pendingActions = await offlineQueue.getPendingActions();
+    const dueActions = await offlineQueue.getDueActions();
 
-    if (pendingActions.length === 0) {
-      console.log('No pending offline actions');
-      return;
+    if (dueActions.length === 0) {
+      console.log('No offline actions due');
+    } else {
+      console.log(`Processing ${dueActions.length} offline actions`);
     }
 
-    console.log(`Processing ${pendingActions.length} offline actions`);
-
-    for (const action of pendingActions) {
+    for (const action of dueActions) {
       try {
         await this.processAction(action);
         await offlineQueue.complete(action.id);
       } catch (error) {
         const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-        await offlineQueue.fail(action.id, errorMessage);
+        await offlineQueue.fail(action.id, errorMessage, isPermanentFailure(error));
       }
     }
 
-    // Update pending count
+    // Update queue counts
     this.state.pendingActions = await offlineQueue.getPendingCount();
+    this.state.failedActions = await offlineQueue.getFailedCount();
+
+    await this.scheduleQueueRetry();
+  }
+
+  /**
+   * Wake up for the earliest backed-off action, since nothing else
+   * triggers a sync while the network stays up
+   */
+  private async scheduleQueueRetry(): Promise<void> {
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+
+    const nextAttemptAt = await offlineQueue.getNextAttemptTime();
+    if (nextAttemptAt === null) return;
+
+    const delay = Math.max(0, nextAttemptAt - Date.now());
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = null;
+      if (this.isOnline) {
+        this.sync({ processQueue: true, syncTickets: false, syncTrips: false });
+      }
+    }, delay);
   }
 
   /**
@@ -307,24 +562,25 @@ class SyncService {
    */
   private async processAction(action: QueuedAction): Promise<void> {
     const payload: ActionPayload = JSON.parse(action.payload);
+    const idempotencyKey = await offlineQueue.getIdempotencyKey(action);
 
-    console.log(`Processing action: ${action.action_type}`);
+    console.log(`Processing action: ${action.action_type} (${idempotencyKey})`);
 
     switch (action.action_type) {
       case 'CREATE_BOOKING':
-        await this.processCreateBooking(payload);
+        await this.processCreateBooking(payload, idempotencyKey);
         break;
 
       case 'CANCEL_TICKET':
-        await this.processCancelTicket(action.entity_id!, payload);
+        await this.processCancelTicket(action.entity_id!, payload, idempotencyKey);
         break;
 
       case 'UPDATE_PROFILE':
-        await this.processUpdateProfile(payload);
+        await this.processUpdateProfile(payload, idempotencyKey);
         break;
 
       case 'CHECK_IN':
-        await this.processCheckIn(action.entity_id!);
+        await this.processCheckIn(action.entity_id!, idempotencyKey);
         break;
 
       default:
@@ -333,27 +589,45 @@ class SyncService {
   }
 
   /**
-   * Process create booking action
+   * Send a queued action. A 409 with ALREADY_APPLIED means an earlier
+   * attempt with the same idempotency key reached the server, so it
+   * counts as success.
    */
-  private async processCreateBooking(payload: ActionPayload): Promise<void> {
-    const response = await fetch(`${this.apiUrl}/api/v1/bookings`, {
-      method: 'POST',
-      headers: {
-        Authorization: `Bearer ${this.authToken}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify(payload),
-    });
-
-    if (!response.ok) {
-      const error = await response.json();
-      throw new Error(error.message || 'Failed to create booking');
+  private async sendAction(
+    path: string,
+    method: 'POST' | 'PUT',
+    idempotencyKey: string,
+    payload?: ActionPayload
+  ): Promise<ActionResponse> {
+    try {
+      const response = await httpClient.request<unknown>(path, {
+        method,
+        body: payload,
+        headers: { [IDEMPOTENCY_HEADER]: idempotencyKey },
+      });
+      return { data: response.data, alreadyApplied: false };
+    } catch (error) {
+      if (error instanceof HttpError && error.status === 409 && error.code === ALREADY_APPLIED_CODE) {
+        console.log(`Action ${idempotencyKey} already applied on server`);
+        return { data: null, alreadyApplied: true };
+      }
+      throw error;
     }
+  }
+
+  /**
+   * Process create booking action
+   */
+  private async processCreateBooking(
+    payload: ActionPayload,
+    idempotencyKey: string
+  ): Promise<void> {
+    const { data } = await this.sendAction('/api/v1/bookings', 'POST', idempotencyKey, payload);
 
-    // Save the new ticket locally
-    const data = await response.json();
-    if (data.ticket) {
-      await ticketRepository.saveTicket(data.ticket);
+    // Save the new ticket locally (replays may return the original one)
+    const ticket = data == null ? undefined : decodeBookedTicket(data);
+    if (ticket) {
+      await ticketRepository.saveTicket(ticket);
     }
   }
 
@@ -362,25 +636,16 @@ class SyncService {
    */
   private async processCancelTicket(
     ticketId: number,
-    payload: ActionPayload
+    payload: ActionPayload,
+    idempotencyKey: string
   ): Promise<void> {
-    const response = await fetch(
-      `${this.apiUrl}/api/v1/tickets/${ticketId}/cancel`,
-      {
-        method: 'POST',
-        headers: {
-          Authorization: `Bearer ${this.authToken}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(payload),
-      }
+    await this.sendAction(
+      `/api/v1/tickets/${ticketId}/cancel`,
+      'POST',
+      idempotencyKey,
+      payload
     );
 
-    if (!response.ok) {
-      const error = await response.json();
-      throw new Error(error.message || 'Failed to cancel ticket');
-    }
-
     // Update local ticket status
     await ticketRepository.updateTicketStatus(ticketId, 'cancelled');
   }
@@ -388,41 +653,18 @@ class SyncService {
   /**
    * Process profile update action
    */
-  private async processUpdateProfile(payload: ActionPayload): Promise<void> {
-    const response = await fetch(`${this.apiUrl}/api/v1/profile`, {
-      method: 'PUT',
-      headers: {
-        Authorization: `Bearer ${this.authToken}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify(payload),
-    });
-
-    if (!response.ok) {
-      const error = await response.json();
-      throw new Error(error.message || 'Failed to update profile');
-    }
+  private async processUpdateProfile(
+    payload: ActionPayload,
+    idempotencyKey: string
+  ): Promise<void> {
+    await this.sendAction('/api/v1/profile', 'PUT', idempotencyKey, payload);
   }
 
   /**
    * Process check-in action
    */
-  private async processCheckIn(ticketId: number): Promise<void> {
-    const response = await fetch(
-      `${this.apiUrl}/api/v1/tickets/${ticketId}/check-in`,
-      {
-        method: 'POST',
-        headers: {
-          Authorization: `Bearer ${this.authToken}`,
-          'Content-Type': 'application/json',
-        },
-      }
-    );
-
-    if (!response.ok) {
-      const error = await response.json();
-      throw new Error(error.message || 'Failed to check in');
-    }
+  private async processCheckIn(ticketId: number, idempotencyKey: string): Promise<void> {
+    await this.sendAction(`/api/v1/tickets/${ticketId}/check-in`, 'POST', idempotencyKey);
 
     // Update local ticket status
     await ticketRepository.updateTicketStatus(ticketId, 'checked_in');
@@ -455,11 +697,46 @@ class SyncService {
     return actionId;
   }
 
+  /**
+   * Re-queue a dead-lettered action and try it right away
+   */
+  async retryFailedAction(actionId: number): Promise<void> {
+    await offlineQueue.retry(actionId);
+    await this.refreshQueueCounts();
+
+    if (this.isOnline) {
+      this.sync({ processQueue: true, syncTickets: false, syncTrips: false });
+    }
+  }
+
+  /**
+   * Drop a dead-lettered action for good
+   */
+  async discardFailedAction(actionId: number): Promise<void> {
+    await offlineQueue.discard(actionId);
+    await this.refreshQueueCounts();
+  }
+
+  /**
+   * Drop all dead-lettered actions
+   */
+  async clearFailedActions(): Promise<void> {
+    await offlineQueue.clearFailed();
+    await this.refreshQueueCounts();
+  }
+
+  private async refreshQueueCounts(): Promise<void> {
+    this.updateState({
+      pendingActions: await offlineQueue.getPendingCount(),
+      failedActions: await offlineQueue.getFailedCount(),
+    });
+  }
+
   /**
    * Get tickets (from cache if offline)
    */
   async getTickets(): Promise<Ticket[]> {
-    if (this.isOnline && this.authToken) {
+    if (this.isOnline && httpClient.isAuthenticated()) {
       try {
         await this.syncTickets();
       } catch (error) {
@@ -488,24 +765,15 @@ class SyncService {
     // Try online first
     if (this.isOnline) {
       try {
-        const params = new URLSearchParams({
-          origin,
-          destination,
-          ...(date && { date }),
+        const data = await httpClient.get<unknown>('/api/v1/trips/search', {
+          query: { origin, destination, date },
+          auth: false,
         });
+        const trips = decodeTripList(data);
 
-        const response = await fetch(
-          `${this.apiUrl}/api/v1/trips/search?${params}`
-        );
-
-        if (response.ok) {
-          const data = await response.json();
-          if (data.trips) {
-            // Cache results
-            await ticketRepository.saveTrips(data.trips);
-            return data.trips;
-          }
-        }
+        // Cache results
+        await ticketRepository.saveTrips(trips);
+        return trips;
       } catch (error) {
         console.log('Using cached trips due to search error');
       }
@@ -3,8 +3,9 @@
  * Copyright (c) 2024-2026 IT Enterprise
  */
 
-import { Platform } from 'react-native';
 import AsyncStorage from '@react-native-async-storage/async-storage';
+import { httpClient } from './HttpClient';
+import { getErrorMessage } from './errors';
 
 export type TwoFactorMethod = 'totp' | 'sms' | 'email';
 
@@ -28,29 +29,14 @@ interface TwoFactorVerifyResult {
   error?: string;
 }
 
+interface TwoFactorTokens {
+  accessToken: string;
+  refreshToken: string;
+}
+
 const TWO_FACTOR_KEY = '@bus_tickets_2fa';
 
 class TwoFactorService {
-  private apiUrl: string = '';
-
-  /**
-   * Configure the API URL
-   */
-  setApiUrl(url: string) {
-    this.apiUrl = url;
-  }
-
-  /**
-   * Ensure HTTPS for web
-   */
-  private ensureHttps(url: string): string {
-    if (!url) return url;
-    if (Platform.OS === 'web' && url.startsWith('http://')) {
-      return url.replace('http://', 'https://');
-    }
-    return url;
-  }
-
   /**
    * Check if 2FA is enabled for the current user
    */
@@ -95,155 +81,76 @@ class TwoFactorService {
   /**
    * Enable 2FA with TOTP (authenticator app)
    */
-  async setupTOTP(accessToken: string): Promise<TwoFactorSetupResult> {
+  async setupTOTP(): Promise<TwoFactorSetupResult> {
     try {
-      const url = this.ensureHttps(`${this.apiUrl}/api/v1/auth/2fa/setup`);
-      const response = await fetch(url, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          Authorization: `Bearer ${accessToken}`,
-        },
-        body: JSON.stringify({ method: 'totp' }),
-      });
-
-      const data = await response.json();
-
-      if (data.success) {
-        return {
-          success: true,
-          secret: data.data.secret,
-          qrCodeUrl: data.data.qrCodeUrl,
-          backupCodes: data.data.backupCodes,
-        };
-      }
+      const data = await httpClient.post<{
+        secret: string;
+        qrCodeUrl: string;
+        backupCodes: string[];
+      }>('/api/v1/auth/2fa/setup', { method: 'totp' });
 
       return {
-        success: false,
-        error: data.error || 'Failed to setup 2FA',
+        success: true,
+        secret: data.secret,
+        qrCodeUrl: data.qrCodeUrl,
+        backupCodes: data.backupCodes,
       };
     } catch (error) {
       console.error('Error setting up TOTP:', error);
-      return {
-        success: false,
-        error: error instanceof Error ? error.message : 'Network error',
-      };
+      return { success: false, error: getErrorMessage(error, 'Failed to setup 2FA') };
     }
   }
 
   /**
    * Enable 2FA with SMS
    */
-  async setupSMS(accessToken: string, phone: string): Promise<TwoFactorSetupResult> {
+  async setupSMS(phone: string): Promise<TwoFactorSetupResult> {
     try {
-      const url = this.ensureHttps(`${this.apiUrl}/api/v1/auth/2fa/setup`);
-      const response = await fetch(url, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          Authorization: `Bearer ${accessToken}`,
-        },
-        body: JSON.stringify({ method: 'sms', phone }),
+      await httpClient.post('/api/v1/auth/2fa/setup', { method: 'sms', phone });
+      await this.saveConfig({
+        enabled: true,
+        method: 'sms',
+        phone,
       });
-
-      const data = await response.json();
-
-      if (data.success) {
-        await this.saveConfig({
-          enabled: true,
-          method: 'sms',
-          phone,
-        });
-        return { success: true };
-      }
-
-      return {
-        success: false,
-        error: data.error || 'Failed to setup SMS 2FA',
-      };
+      return { success: true };
     } catch (error) {
       console.error('Error setting up SMS 2FA:', error);
-      return {
-        success: false,
-        error: error instanceof Error ? error.message : 'Network error',
-      };
+      return { success: false, error: getErrorMessage(error, 'Failed to setup SMS 2FA') };
     }
   }
 
   /**
    * Enable 2FA with email
    */
-  async setupEmail(accessToken: string, email: string): Promise<TwoFactorSetupResult> {
+  async setupEmail(email: string): Promise<TwoFactorSetupResult> {
     try {
-      const url = this.ensureHttps(`${this.apiUrl}/api/v1/auth/2fa/setup`);
-      const response = await fetch(url, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          Authorization: `Bearer ${accessToken}`,
-        },
-        body: JSON.stringify({ method: 'email', email }),
+      await httpClient.post('/api/v1/auth/2fa/setup', { method: 'email', email });
+      await this.saveConfig({
+        enabled: true,
+        method: 'email',
+        email,
       });
-
-      const data = await response.json();
-
-      if (data.success) {
-        await this.saveConfig({
-          enabled: true,
-          method: 'email',
-          email,
-        });
-        return { success: true };
-      }
-
-      return {
-        success: false,
-        error: data.error || 'Failed to setup email 2FA',
-      };
+      return { success: true };
     } catch (error) {
       console.error('Error setting up email 2FA:', error);
-      return {
-        success: false,
-        error: error instanceof Error ? error.message : 'Network error',
-      };
+      return { success: false, error: getErrorMessage(error, 'Failed to setup email 2FA') };
     }
   }
 
   /**
    * Confirm TOTP setup with verification code
    */
-  async confirmTOTP(accessToken: string, code: string): Promise<TwoFactorVerifyResult> {
+  async confirmTOTP(code: string): Promise<TwoFactorVerifyResult> {
     try {
-      const url = this.ensureHttps(`${this.apiUrl}/api/v1/auth/2fa/confirm`);
-      const response = await fetch(url, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          Authorization: `Bearer ${accessToken}`,
-        },
-        body: JSON.stringify({ code }),
+      await httpClient.post('/api/v1/auth/2fa/confirm', { code });
+      await this.saveConfig({
+        enabled: true,
+        method: 'totp',
       });
-
-      const data = await response.json();
-
-      if (data.success) {
-        await this.saveConfig({
-          enabled: true,
-          method: 'totp',
-        });
-        return { success: true };
-      }
-
-      return {
-        success: false,
-        error: data.error || 'Invalid verification code',
-      };
+      return { success: true };
     } catch (error) {
       console.error('Error confirming TOTP:', error);
-      return {
-        success: false,
-        error: error instanceof Error ? error.message : 'Network error',
-      };
+      return { success: false, error: getErrorMessage(error, 'Invalid verification code') };
     }
   }
 
@@ -254,41 +161,21 @@ class TwoFactorService {
     tempToken: string,
     code: string,
     method: TwoFactorMethod = 'totp'
-  ): Promise<TwoFactorVerifyResult & { accessToken?: string; refreshToken?: string }> {
+  ): Promise<TwoFactorVerifyResult & Partial<TwoFactorTokens>> {
     try {
-      const url = this.ensureHttps(`${this.apiUrl}/api/v1/auth/2fa/verify`);
-      const response = await fetch(url, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          tempToken,
-          code,
-          method,
-        }),
-      });
-
-      const data = await response.json();
-
-      if (data.success) {
-        return {
-          success: true,
-          accessToken: data.data.accessToken,
-          refreshToken: data.data.refreshToken,
-        };
-      }
-
+      const data = await httpClient.post<TwoFactorTokens>(
+        '/api/v1/auth/2fa/verify',
+        { tempToken, code, method },
+        { auth: false }
+      );
       return {
-        success: false,
-        error: data.error || 'Invalid verification code',
+        success: true,
+        accessToken: data.accessToken,
+        refreshToken: data.refreshToken,
       };
     } catch (error) {
       console.error('Error verifying 2FA code:', error);
-      return {
-        success: false,
-        error: error instanceof Error ? error.message : 'Network error',
-      };
+      return { success: false, error: getErrorMessage(error, 'Invalid verification code') };
     }
   }
 
@@ -297,106 +184,49 @@ class TwoFactorService {
    */
   async requestCode(tempToken: string): Promise<TwoFactorVerifyResult> {
     try {
-      const url = this.ensureHttps(`${this.apiUrl}/api/v1/auth/2fa/request-code`);
-      const response = await fetch(url, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({ tempToken }),
-      });
-
-      const data = await response.json();
-
-      if (data.success) {
-        return { success: true };
-      }
-
-      return {
-        success: false,
-        error: data.error || 'Failed to send code',
-      };
+      await httpClient.post('/api/v1/auth/2fa/request-code', { tempToken }, { auth: false });
+      return { success: true };
     } catch (error) {
       console.error('Error requesting 2FA code:', error);
-      return {
-        success: false,
-        error: error instanceof Error ? error.message : 'Network error',
-      };
+      return { success: false, error: getErrorMessage(error, 'Failed to send code') };
     }
   }
 
   /**
    * Disable 2FA
    */
-  async disable(accessToken: string, code: string): Promise<TwoFactorVerifyResult> {
+  async disable(code: string): Promise<TwoFactorVerifyResult> {
     try {
-      const url = this.ensureHttps(`${this.apiUrl}/api/v1/auth/2fa/disable`);
-      const response = await fetch(url, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          Authorization: `Bearer ${accessToken}`,
-        },
-        body: JSON.stringify({ code }),
-      });
-
-      const data = await response.json();
-
-      if (data.success) {
-        await AsyncStorage.removeItem(TWO_FACTOR_KEY);
-        return { success: true };
-      }
-
-      return {
-        success: false,
-        error: data.error || 'Failed to disable 2FA',
-      };
+      await httpClient.post('/api/v1/auth/2fa/disable', { code });
+      await AsyncStorage.removeItem(TWO_FACTOR_KEY);
+      return { success: true };
     } catch (error) {
       console.error('Error disabling 2FA:', error);
-      return {
-        success: false,
-        error: error instanceof Error ? error.message : 'Network error',
-      };
+      return { success: false, error: getErrorMessage(error, 'Failed to disable 2FA') };
     }
   }
 
   /**
    * Use backup code
    */
-  async useBackupCode(tempToken: string, backupCode: string): Promise<TwoFactorVerifyResult & { accessToken?: string; refreshToken?: string }> {
+  async useBackupCode(
+    tempToken: string,
+    backupCode: string
+  ): Promise<TwoFactorVerifyResult & Partial<TwoFactorTokens>> {
     try {
-      const url = this.ensureHttps(`${this.apiUrl}/api/v1/auth/2fa/backup`);
-      const response = await fetch(url, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          tempToken,
-          backupCode,
-        }),
-      });
-
-      const data = await response.json();
-
-      if (data.success) {
-        return {
-          success: true,
-          accessToken: data.data.accessToken,
-          refreshToken: data.data.refreshToken,
-        };
-      }
-
+      const data = await httpClient.post<TwoFactorTokens>(
+        '/api/v1/auth/2fa/backup',
+        { tempToken, backupCode },
+        { auth: false }
+      );
       return {
-        success: false,
-        error: data.error || 'Invalid backup code',
+        success: true,
+        accessToken: data.accessToken,
+        refreshToken: data.refreshToken,
       };
     } catch (error) {
       console.error('Error using backup code:', error);
-      return {
-        success: false,
-        error: error instanceof Error ? error.message : 'Network error',
-      };
+      return { success: false, error: getErrorMessage(error, 'Invalid backup code') };
     }
   }
 }
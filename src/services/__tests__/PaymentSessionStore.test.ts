@@ -0,0 +1,154 @@
+/**
+ * BUS-Tickets - Payment Session Store Tests
+ * Copyright (c) 2024-2026 IT Enterprise
+ */
+
+import { beforeEach, describe, expect, it, jest } from '@jest/globals';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  canTransition,
+  isFinalStatus,
+  paymentSessionStore,
+  toPaymentStatus,
+  PaymentSession,
+} from '../PaymentSessionStore';
+import { PaymentInProgressError } from '../errors';
+import type { PaymentResult } from '@/types';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+const PAYMENT: PaymentResult = {
+  transactionId: 9,
+  reference: 'TX-9',
+  status: 'pending',
+  amount: 1500,
+  currency: 'CZK',
+  paymentUrl: 'https://gateway.example.com/pay/TX-9',
+};
+
+describe('payment status transitions', () => {
+  it('move forward through the payment', () => {
+    expect(canTransition('idle', 'initiating')).toBe(true);
+    expect(canTransition('initiating', 'processing')).toBe(true);
+    expect(canTransition('processing', 'awaiting_confirmation')).toBe(true);
+    expect(canTransition('awaiting_confirmation', 'success')).toBe(true);
+    expect(canTransition('success', 'refunded')).toBe(true);
+  });
+
+  it('never turn a paid session into a failed one', () => {
+    expect(canTransition('success', 'error')).toBe(false);
+    expect(canTransition('success', 'cancelled')).toBe(false);
+    expect(canTransition('success', 'processing')).toBe(false);
+    expect(canTransition('refunded', 'success')).toBe(false);
+  });
+
+  it('let the bank confirm a payment given up on', () => {
+    expect(canTransition('error', 'success')).toBe(true);
+    expect(canTransition('cancelled', 'success')).toBe(true);
+    expect(canTransition('error', 'processing')).toBe(false);
+  });
+
+  it('map backend transaction states', () => {
+    expect(toPaymentStatus('done')).toBe('success');
+    expect(toPaymentStatus('authorized')).toBe('awaiting_confirmation');
+    expect(toPaymentStatus('draft')).toBe('processing');
+    expect(toPaymentStatus('cancel')).toBe('cancelled');
+    expect(isFinalStatus('error')).toBe(true);
+    expect(isFinalStatus('awaiting_confirmation')).toBe(false);
+  });
+});
+
+describe('PaymentSessionStore', () => {
+  beforeEach(async () => {
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    await paymentSessionStore.clear();
+  });
+
+  it('persists a started session', async () => {
+    const session = await paymentSessionStore.start([4, 5], 1, 'stripe');
+
+    expect(session).toMatchObject({
+      reservationIds: [4, 5],
+      status: 'initiating',
+      method: 'stripe',
+    });
+    const stored = await AsyncStorage.getItem('@bus_tickets_payment_session');
+    expect(JSON.parse(stored!)).toEqual(session);
+  });
+
+  it('refuses to replace a payment that has not settled', async () => {
+    const first = await paymentSessionStore.start([4], 1);
+    await paymentSessionStore.transition('processing', { transaction: PAYMENT });
+
+    await expect(paymentSessionStore.start([5], 1)).rejects.toBeInstanceOf(PaymentInProgressError);
+    expect(paymentSessionStore.getSession()).toMatchObject({
+      createdAt: first.createdAt,
+      reservationIds: [4],
+      status: 'processing',
+    });
+
+    await paymentSessionStore.reconcile({ ...PAYMENT, status: 'done' });
+    await expect(paymentSessionStore.start([5], 1)).resolves.toMatchObject({
+      reservationIds: [5],
+      status: 'initiating',
+    });
+  });
+
+  it('ignores a late failure after success but keeps the transaction details', async () => {
+    await paymentSessionStore.start([4], 1);
+    await paymentSessionStore.transition('processing', { transaction: PAYMENT });
+    await paymentSessionStore.reconcile({ ...PAYMENT, status: 'done', paymentUrl: undefined });
+
+    const session = await paymentSessionStore.reconcile({
+      ...PAYMENT,
+      status: 'error',
+      errorMessage: 'Timeout',
+      confirmedAt: '2026-11-01T08:00:00Z',
+    });
+
+    expect(session?.status).toBe('success');
+    expect(session?.error).toBeUndefined();
+    expect(session?.transaction).toMatchObject({
+      status: 'error',
+      paymentUrl: PAYMENT.paymentUrl,
+      confirmedAt: '2026-11-01T08:00:00Z',
+    });
+  });
+
+  it('keeps the error message only while failed', async () => {
+    await paymentSessionStore.start([4], 1);
+
+    const failed = await paymentSessionStore.reconcile({ ...PAYMENT, status: 'error' });
+    expect(failed).toMatchObject({ status: 'error', error: 'Payment failed' });
+
+    const paid = await paymentSessionStore.reconcile({ ...PAYMENT, status: 'done' });
+    expect(paid).toMatchObject({ status: 'success', error: undefined });
+  });
+
+  it('applies the adapter’s status over the backend’s', async () => {
+    await paymentSessionStore.start([4], 1);
+
+    const session = await paymentSessionStore.reconcile(PAYMENT, 'awaiting_confirmation');
+
+    expect(session?.status).toBe('awaiting_confirmation');
+  });
+
+  it('does nothing without a session', async () => {
+    await expect(paymentSessionStore.transition('success')).resolves.toBeNull();
+  });
+
+  it('notifies subscribers of every change', async () => {
+    const statuses: Array<string | null> = [];
+    const listener = (session: PaymentSession | null) => statuses.push(session?.status ?? null);
+    const unsubscribe = paymentSessionStore.subscribe(listener);
+
+    await paymentSessionStore.start([4], 1);
+    await paymentSessionStore.clear();
+    unsubscribe();
+    await paymentSessionStore.start([5], 1);
+
+    expect(statuses).toEqual(['initiating', null]);
+  });
+});
@@ -0,0 +1,170 @@
+/**
+ * BUS-Tickets - Response Decoder Tests
+ * Copyright (c) 2024-2026 IT Enterprise
+ */
+
+import { describe, expect, it, jest } from '@jest/globals';
+import {
+  decodeLocations,
+  decodePaymentResult,
+  decodeReservationIds,
+  decodeTicket,
+  decodeTicketChanges,
+  decodeTrip,
+  decodeTripList,
+  decodeTrips,
+} from '../decoders';
+import { InvalidResponseError } from '../errors';
+
+const TRIP = {
+  id: 100,
+  route: {
+    id: 10,
+    name: 'Praha - Kyiv',
+    origin: { id: 1, name: 'Florenc', city: 'Praha', country: false },
+    destination: { id: 2, name: 'Vydubychi', city: 'Kyiv' },
+    stops: false,
+  },
+  departureTime: '2026-11-01T08:00:00Z',
+  arrivalTime: '2026-11-02T08:00:00Z',
+  bus: { id: 5, name: 'Setra', capacity: 50, amenities: ['wifi', 'ac'] },
+  availableSeats: 20,
+  totalSeats: 50,
+  price: { amount: 1500, currency: 'CZK' },
+  status: 'scheduled',
+};
+
+function issuesOf(decode: () => unknown) {
+  try {
+    decode();
+  } catch (error) {
+    expect(error).toBeInstanceOf(InvalidResponseError);
+    return (error as InvalidResponseError).issues;
+  }
+  throw new Error('Expected the response to be rejected');
+}
+
+describe('decoders', () => {
+  it('decode a valid trip, reading Odoo’s false as absent', () => {
+    const trip = decodeTrip(TRIP);
+
+    expect(trip.route.origin.country).toBeUndefined();
+    expect(trip.route.stops).toEqual([]);
+    expect(trip.fares).toEqual([]);
+    expect(trip.bus?.amenities).toEqual(['wifi', 'ac']);
+  });
+
+  it('report every invalid field with its path', () => {
+    const issues = issuesOf(() =>
+      decodeTrip({
+        ...TRIP,
+        id: '100',
+        route: { ...TRIP.route, origin: { ...TRIP.route.origin, id: undefined } },
+        price: { amount: 1500, currency: 'GBP' },
+        departureTime: 'tomorrow',
+      })
+    );
+
+    expect(issues).toEqual([
+      { path: 'id', message: 'should be a number, got "100"' },
+      { path: 'route.origin.id', message: 'is missing' },
+      { path: 'departureTime', message: 'should be a date, got "tomorrow"' },
+      { path: 'price.currency', message: 'should be one of UAH, CZK, EUR, USD, got "GBP"' },
+    ]);
+  });
+
+  it('index list items in the issue path', () => {
+    const issues = issuesOf(() => decodeTrips([TRIP, { ...TRIP, totalSeats: null }, 'trip']));
+
+    expect(issues).toEqual([
+      { path: '[1].totalSeats', message: 'is missing' },
+      { path: '[2]', message: 'should be an object, got "trip"' },
+    ]);
+  });
+
+  it('read an empty Odoo list as empty but a missing one as an error', () => {
+    expect(decodeLocations(false)).toEqual([]);
+    expect(issuesOf(() => decodeLocations(undefined))).toEqual([{ path: '', message: 'is missing' }]);
+    expect(issuesOf(() => decodeLocations({}))).toEqual([
+      { path: '', message: 'should be a list, got an object' },
+    ]);
+  });
+
+  it('require the trips of a search response', () => {
+    expect(decodeTripList({ trips: [TRIP] })).toHaveLength(1);
+    expect(decodeTripList({ trips: false })).toEqual([]);
+    expect(issuesOf(() => decodeTripList({ results: [TRIP] }))).toEqual([
+      { path: 'trips', message: 'is missing' },
+    ]);
+  });
+
+  it('drop unknown bus amenities instead of failing the trip', () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+    const trip = decodeTrip({ ...TRIP, bus: { ...TRIP.bus, amenities: ['wifi', 'jacuzzi'] } });
+
+    expect(trip.bus?.amenities).toEqual(['wifi']);
+    expect(warn).toHaveBeenCalledWith('Ignoring unknown bus amenity:', 'jacuzzi');
+    warn.mockRestore();
+  });
+
+  it('decode a ticket with its provider', () => {
+    const ticket = decodeTicket({
+      id: 1,
+      ticketNumber: 'T-1',
+      trip: TRIP,
+      passenger: { name: 'Olena', email: 'olena@example.com', phone: '+420123456789' },
+      seat: 12,
+      price: { amount: 1500, currency: 'CZK' },
+      status: 'paid',
+      qrCode: 'QR-1',
+      purchasedAt: '2026-10-01T10:00:00Z',
+      checkedInAt: false,
+      providerId: 'regiojet',
+    });
+
+    expect(ticket).toMatchObject({ id: 1, seat: 12, providerId: 'regiojet' });
+    expect(ticket.checkedInAt).toBeUndefined();
+  });
+
+  it('decode ticket changes with an optional cursor', () => {
+    expect(decodeTicketChanges({ tickets: [], cursor: 'c-2' })).toEqual({
+      tickets: [],
+      deleted: [],
+      cursor: 'c-2',
+    });
+    expect(issuesOf(() => decodeTicketChanges({ tickets: [], deleted: [3, '4'] }))).toEqual([
+      { path: 'deleted[1]', message: 'should be an integer, got "4"' },
+    ]);
+  });
+
+  it('accept both reservation ID shapes', () => {
+    expect(decodeReservationIds({ reservationIds: [4, 5] })).toEqual([4, 5]);
+    expect(decodeReservationIds({ reservationId: 4 })).toEqual([4]);
+    expect(issuesOf(() => decodeReservationIds({ reservationIds: [4, 'x'] }))).toEqual([
+      { path: 'reservationIds[1]', message: 'should be an integer, got "x"' },
+    ]);
+  });
+
+  it('keep only string form fields of a payment', () => {
+    const payment = decodePaymentResult({
+      transactionId: 9,
+      reference: 'TX-9',
+      status: 'pending',
+      amount: 1500,
+      currency: 'CZK',
+      formData: { cmd: '_xclick', amount: '1500' },
+      method: 'POST',
+    });
+    expect(payment.formData).toEqual({ cmd: '_xclick', amount: '1500' });
+
+    expect(
+      issuesOf(() =>
+        decodePaymentResult({ ...payment, formData: { amount: 1500 }, method: 'PUT' })
+      )
+    ).toEqual([
+      { path: 'formData', message: 'should be a map of strings, got an object' },
+      { path: 'method', message: 'should be one of GET, POST, got "PUT"' },
+    ]);
+  });
+});
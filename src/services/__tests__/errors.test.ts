@@ -0,0 +1,39 @@
+/**
+ * BUS-Tickets - HTTP Error Tests
+ * Copyright (c) 2024-2026 IT Enterprise
+ */
+
+import { describe, expect, it } from '@jest/globals';
+import { AuthError, HttpError, ServerError, ValidationError, toHttpError } from '../errors';
+
+describe('toHttpError', () => {
+  it('reads the ApiError envelope', () => {
+    const error = toHttpError(422, {
+      success: false,
+      error: { code: 'INVALID', message: 'Check the form', details: { email: 'is taken', seat: 3 } },
+    });
+
+    expect(error).toBeInstanceOf(ValidationError);
+    expect(error).toMatchObject({
+      message: 'Check the form',
+      code: 'INVALID',
+      details: { email: 'is taken' },
+    });
+  });
+
+  it('reads bare message and error bodies', () => {
+    expect(toHttpError(401, { message: 'Log in again' })).toBeInstanceOf(AuthError);
+    expect(toHttpError(503, { error: 'Down for maintenance' })).toMatchObject({
+      message: 'Down for maintenance',
+    });
+    expect(toHttpError(503, {})).toBeInstanceOf(ServerError);
+  });
+
+  it('falls back to the status for bodies of any other shape', () => {
+    for (const body of [null, 'Not Found', ['oops'], { error: 42, code: false }]) {
+      const error = toHttpError(404, body);
+      expect(error).toBeInstanceOf(HttpError);
+      expect(error).toMatchObject({ message: 'Request failed with status 404', code: 'HTTP_404' });
+    }
+  });
+});
@@ -0,0 +1,765 @@
+/**
+ * BUS-Tickets - Response Decoders
+ * Copyright (c) 2024-2026 IT Enterprise
+ *
+ * Runtime validation of backend (Odoo) payloads. Every call site decodes
+ * through these instead of hand-mapping raw JSON, so a changed payload
+ * fails with an `InvalidResponseError` listing the offending fields
+ * rather than rendering made-up values.
+ *
+ * The only normalization is Odoo's: empty fields arrive as `false` and
+ * are read as absent.
+ */
+
+import type {
+  User,
+  Language,
+  Location,
+  Route,
+  Trip,
+  TripStatus,
+  Bus,
+  BusAmenity,
+  SeatLayout,
+  DeckLayout,
+  SeatAvailability,
+  SeatHold,
+  Ticket,
+  TicketChanges,
+  TicketStatus,
+  PassengerInfo,
+  Traveller,
+  Price,
+  Currency,
+  Discount,
+  FareCategory,
+  FareRule,
+  PromoCodeRedemption,
+  PaymentResult,
+  PaymentTransactionStatus,
+  BankTransferDetails,
+  BillingDetails,
+  PaymentTransaction,
+  CancellationPolicyRule,
+  RefundOption,
+  RefundQuote,
+  Refund,
+  RefundDestination,
+  RefundStatus,
+} from '@/types';
+import { DecodeIssue, InvalidResponseError } from './errors';
+
+const LANGUAGES: readonly Language[] = ['uk_UA', 'cs_CZ', 'en_US'];
+const TRIP_STATUSES: readonly TripStatus[] = [
+  'scheduled',
+  'boarding',
+  'departed',
+  'arrived',
+  'cancelled',
+];
+const TICKET_STATUSES: readonly TicketStatus[] = [
+  'reserved',
+  'paid',
+  'checked_in',
+  'used',
+  'cancelled',
+  'refunded',
+];
+const CURRENCIES: readonly Currency[] = ['UAH', 'CZK', 'EUR', 'USD'];
+const FARE_CATEGORIES: readonly FareCategory[] = ['adult', 'child', 'student', 'senior'];
+const BUS_AMENITIES: readonly BusAmenity[] = [
+  'wifi',
+  'ac',
+  'toilet',
+  'usb',
+  'tv',
+  'snacks',
+  'sleeper',
+  'power',
+  'recliner',
+];
+const REFUND_DESTINATIONS: readonly RefundDestination[] = ['original_payment', 'voucher'];
+const REFUND_STATUSES: readonly RefundStatus[] = [
+  'requested',
+  'approved',
+  'processing',
+  'completed',
+  'rejected',
+];
+const TRANSACTION_STATUSES: readonly PaymentTransactionStatus[] = [
+  'draft',
+  'pending',
+  'authorized',
+  'done',
+  'cancel',
+  'error',
+  'refunded',
+];
+
+function describe(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'an array';
+  if (typeof value === 'string') return `"${value.length > 40 ? `${value.slice(0, 40)}…` : value}"`;
+  if (typeof value === 'object') return 'an object';
+  return String(value);
+}
+
+function joinPath(path: string, key: string | number): string {
+  if (typeof key === 'number') return `${path}[${key}]`;
+  return path ? `${path}.${key}` : key;
+}
+
+/**
+ * Odoo serializes empty fields as `false`
+ */
+function isAbsent(value: unknown): value is undefined | null | false {
+  return value === undefined || value === null || value === false;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Reads typed fields from one object, recording an issue for each field
+ * that doesn't match. Failed required reads return a placeholder; the
+ * caller throws before any placeholder escapes.
+ */
+class FieldReader {
+  constructor(
+    private readonly source: Record<string, unknown>,
+    private readonly path: string,
+    private readonly issues: DecodeIssue[]
+  ) {}
+
+  string(key: string): string {
+    return this.required(key, 'a string', (value) => this.readString(value));
+  }
+
+  optionalString(key: string): string | undefined {
+    return this.optional(key, 'a string', (value) => this.readString(value));
+  }
+
+  number(key: string): number {
+    return this.required(key, 'a number', (value) => this.readNumber(value));
+  }
+
+  optionalNumber(key: string): number | undefined {
+    return this.optional(key, 'a number', (value) => this.readNumber(value));
+  }
+
+  /**
+   * An ISO 8601 date/time string
+   */
+  dateTime(key: string): string {
+    return this.required(key, 'a date', (value) => this.readDateTime(value));
+  }
+
+  optionalDateTime(key: string): string | undefined {
+    return this.optional(key, 'a date', (value) => this.readDateTime(value));
+  }
+
+  /**
+   * A boolean; since Odoo sends `false` for empty fields, false and a
+   * missing field read the same
+   */
+  flag(key: string): boolean {
+    const value = this.source[key];
+    if (isAbsent(value)) return false;
+    if (value !== true) this.report(key, `should be a boolean, got ${describe(value)}`);
+    return value === true;
+  }
+
+  oneOf<T extends string>(key: string, values: readonly T[]): T {
+    return this.required(key, `one of ${values.join(', ')}`, (value) =>
+      this.readOneOf(value, values)
+    );
+  }
+
+  optionalOneOf<T extends string>(key: string, values: readonly T[]): T | undefined {
+    return this.optional(key, `one of ${values.join(', ')}`, (value) =>
+      this.readOneOf(value, values)
+    );
+  }
+
+  object<T>(key: string, read: (reader: FieldReader) => T): T {
+    return this.required(key, 'an object', (value) => this.readObject(key, value, read));
+  }
+
+  optionalObject<T>(key: string, read: (reader: FieldReader) => T): T | undefined {
+    return this.optional(key, 'an object', (value) => this.readObject(key, value, read));
+  }
+
+  /**
+   * A list of objects; an empty Odoo field (`false`) reads as an empty list
+   */
+  objectArray<T>(key: string, read: (reader: FieldReader) => T): T[] {
+    return this.list(key, (value, path) =>
+      isRecord(value)
+        ? read(new FieldReader(value, path, this.issues))
+        : this.fail(path, `should be an object, got ${describe(value)}`)
+    );
+  }
+
+  /**
+   * A list of objects that must be present; only Odoo's `false` reads as
+   * an empty list
+   */
+  requiredObjectArray<T>(key: string, read: (reader: FieldReader) => T): T[] {
+    const value = this.source[key];
+    if (value === undefined || value === null) {
+      this.report(key, 'is missing');
+      return [];
+    }
+    return this.objectArray(key, read);
+  }
+
+  integerArray(key: string): number[] {
+    return this.list(key, (value, path) =>
+      typeof value === 'number' && Number.isInteger(value)
+        ? value
+        : this.fail(path, `should be an integer, got ${describe(value)}`)
+    );
+  }
+
+  stringArray(key: string): string[] {
+    return this.list(key, (value, path) =>
+      typeof value === 'string' ? value : this.fail(path, `should be a string, got ${describe(value)}`)
+    );
+  }
+
+  /**
+   * A string-to-string map such as form fields
+   */
+  optionalStringMap(key: string): Record<string, string> | undefined {
+    return this.optional(key, 'a map of strings', (value) => {
+      if (!isRecord(value)) return undefined;
+      const entries = Object.entries(value);
+      return entries.every(([, item]) => typeof item === 'string')
+        ? (Object.fromEntries(entries) as Record<string, string>)
+        : undefined;
+    });
+  }
+
+  private report(key: string, message: string): void {
+    this.fail(joinPath(this.path, key), message);
+  }
+
+  private fail(path: string, message: string): undefined {
+    this.issues.push({ path, message });
+    return undefined;
+  }
+
+  private list<T>(key: string, readItem: (value: unknown, path: string) => T | undefined): T[] {
+    const value = this.source[key];
+    if (isAbsent(value)) return [];
+
+    if (!Array.isArray(value)) {
+      this.report(key, `should be a list, got ${describe(value)}`);
+      return [];
+    }
+    const path = joinPath(this.path, key);
+    return value.flatMap((item, index) => {
+      const result = readItem(item, joinPath(path, index));
+      return result === undefined ? [] : [result];
+    });
+  }
+
+  private required<T>(key: string, expected: string, read: (value: unknown) => T | undefined): T {
+    const value = this.source[key];
+    if (isAbsent(value)) {
+      this.report(key, 'is missing');
+      return undefined as unknown as T;
+    }
+    const result = read(value);
+    if (result === undefined) {
+      this.report(key, `should be ${expected}, got ${describe(value)}`);
+    }
+    return result as T;
+  }
+
+  private optional<T>(
+    key: string,
+    expected: string,
+    read: (value: unknown) => T | undefined
+  ): T | undefined {
+    const value = this.source[key];
+    if (isAbsent(value)) return undefined;
+
+    const result = read(value);
+    if (result === undefined) {
+      this.report(key, `should be ${expected}, got ${describe(value)}`);
+    }
+    return result;
+  }
+
+  private readString(value: unknown): string | undefined {
+    return typeof value === 'string' ? value : undefined;
+  }
+
+  private readNumber(value: unknown): number | undefined {
+    return typeof value === 'number' && Number.isFinite(value) ? value : undefined;
+  }
+
+  private readDateTime(value: unknown): string | undefined {
+    return typeof value === 'string' && !Number.isNaN(Date.parse(value)) ? value : undefined;
+  }
+
+  private readOneOf<T extends string>(value: unknown, values: readonly T[]): T | undefined {
+    return values.includes(value as T) ? (value as T) : undefined;
+  }
+
+  private readObject<T>(
+    key: string,
+    value: unknown,
+    read: (reader: FieldReader) => T
+  ): T | undefined {
+    if (!isRecord(value)) return undefined;
+    return read(new FieldReader(value, joinPath(this.path, key), this.issues));
+  }
+}
+
+/**
+ * Read a list item that must be an object
+ */
+function readItem<T>(
+  issues: DecodeIssue[],
+  read: (reader: FieldReader) => T
+): (value: unknown, path: string) => T | undefined {
+  return (value, path) => {
+    if (!isRecord(value)) {
+      issues.push({ path, message: `should be an object, got ${describe(value)}` });
+      return undefined;
+    }
+    return read(new FieldReader(value, path, issues));
+  };
+}
+
+function decode<T>(entity: string, value: unknown, read: (reader: FieldReader) => T): T {
+  const issues: DecodeIssue[] = [];
+  const result = readItem(issues, read)(value, '');
+  if (issues.length > 0) {
+    throw new InvalidResponseError(entity, issues);
+  }
+  return result as T;
+}
+
+/**
+ * An empty Odoo result may come back as `false`; a missing list is an
+ * error, not an empty one
+ */
+function decodeList<T>(entity: string, value: unknown, read: (reader: FieldReader) => T): T[] {
+  if (value === false) return [];
+  if (!Array.isArray(value)) {
+    const message = isAbsent(value) ? 'is missing' : `should be a list, got ${describe(value)}`;
+    throw new InvalidResponseError(`${entity} list`, [{ path: '', message }]);
+  }
+
+  const issues: DecodeIssue[] = [];
+  const item = readItem(issues, read);
+  const results = value.flatMap((entry, index) => {
+    const result = item(entry, joinPath('', index));
+    return result === undefined ? [] : [result];
+  });
+  if (issues.length > 0) {
+    throw new InvalidResponseError(`${entity} list`, issues);
+  }
+  return results;
+}
+
+// ============================================
+// FIELD READERS
+// ============================================
+
+function readLocation(reader: FieldReader): Location {
+  return {
+    id: reader.number('id'),
+    name: reader.string('name'),
+    city: reader.optionalString('city'),
+    country: reader.optionalString('country'),
+    address: reader.optionalString('address'),
+    latitude: reader.optionalNumber('latitude'),
+    longitude: reader.optionalNumber('longitude'),
+  };
+}
+
+function readRoute(reader: FieldReader): Route {
+  return {
+    id: reader.number('id'),
+    name: reader.string('name'),
+    origin: reader.object('origin', readLocation),
+    destination: reader.object('destination', readLocation),
+    distance: reader.optionalNumber('distance'),
+    duration: reader.optionalNumber('duration'),
+    stops: reader.objectArray('stops', readLocation),
+  };
+}
+
+function readDeckLayout(reader: FieldReader): DeckLayout {
+  return {
+    rows: reader.number('rows'),
+    seatsPerRow: reader.number('seatsPerRow'),
+    aisleAfter: reader.optionalNumber('aisleAfter'),
+  };
+}
+
+function readSeatLayout(reader: FieldReader): SeatLayout {
+  return {
+    ...readDeckLayout(reader),
+    unavailableSeats: reader.integerArray('unavailableSeats'),
+    reservedSeats: reader.integerArray('reservedSeats'),
+    driverSide: reader.optionalOneOf('driverSide', ['left', 'right'] as const),
+    doorRows: reader.integerArray('doorRows'),
+    upperDeck: reader.optionalObject('upperDeck', readDeckLayout),
+  };
+}
+
+function readSeatHold(reader: FieldReader): SeatHold {
+  return {
+    id: reader.string('id'),
+    tripId: reader.number('tripId'),
+    seats: reader.integerArray('seats'),
+    expiresAt: reader.dateTime('expiresAt'),
+  };
+}
+
+/**
+ * Older backends answer a reservation with a single `reservationId`
+ */
+function readReservationIds(reader: FieldReader): number[] {
+  const ids = reader.integerArray('reservationIds');
+  const single = reader.optionalNumber('reservationId');
+  return ids.length === 0 && single !== undefined ? [single] : ids;
+}
+
+function readTripList(reader: FieldReader): Trip[] {
+  return reader.requiredObjectArray('trips', readTrip);
+}
+
+function readSeatAvailability(reader: FieldReader): SeatAvailability {
+  return {
+    tripId: reader.number('tripId'),
+    occupiedSeats: reader.integerArray('occupiedSeats'),
+    unavailableSeats: reader.integerArray('unavailableSeats'),
+  };
+}
+
+/**
+ * Amenities the app has no icon or label for are dropped with a warning,
+ * so a new one on the backend doesn't fail the whole trip
+ */
+function readAmenities(values: string[]): BusAmenity[] {
+  return values.filter((value): value is BusAmenity => {
+    const known = BUS_AMENITIES.includes(value as BusAmenity);
+    if (!known) console.warn('Ignoring unknown bus amenity:', value);
+    return known;
+  });
+}
+
+function readBus(reader: FieldReader): Bus {
+  return {
+    id: reader.number('id'),
+    name: reader.string('name'),
+    plateNumber: reader.optionalString('plateNumber'),
+    capacity: reader.number('capacity'),
+    amenities: readAmenities(reader.stringArray('amenities')),
+    seatLayout: reader.optionalObject('seatLayout', readSeatLayout),
+  };
+}
+
+function readDiscount(reader: FieldReader): Discount {
+  return {
+    type: reader.oneOf('type', ['percentage', 'fixed'] as const),
+    value: reader.number('value'),
+    code: reader.optionalString('code'),
+    description: reader.optionalString('description'),
+  };
+}
+
+function readFareRule(reader: FieldReader): FareRule {
+  return {
+    category: reader.oneOf('category', FARE_CATEGORIES),
+    discount: reader.optionalObject('discount', readDiscount),
+    minAge: reader.optionalNumber('minAge'),
+    maxAge: reader.optionalNumber('maxAge'),
+    requiresProof: reader.flag('requiresProof'),
+  };
+}
+
+function readPrice(reader: FieldReader): Price {
+  return {
+    amount: reader.number('amount'),
+    currency: reader.oneOf('currency', CURRENCIES),
+    originalAmount: reader.optionalNumber('originalAmount'),
+    discount: reader.optionalObject('discount', readDiscount),
+  };
+}
+
+function readPromoCodeRedemption(reader: FieldReader): PromoCodeRedemption {
+  return {
+    code: reader.string('code'),
+    price: reader.object('price', readPrice),
+  };
+}
+
+function readTrip(reader: FieldReader): Trip {
+  return {
+    id: reader.number('id'),
+    route: reader.object('route', readRoute),
+    departureTime: reader.dateTime('departureTime'),
+    arrivalTime: reader.dateTime('arrivalTime'),
+    bus: reader.optionalObject('bus', readBus),
+    availableSeats: reader.number('availableSeats'),
+    totalSeats: reader.number('totalSeats'),
+    price: reader.object('price', readPrice),
+    fares: reader.objectArray('fares', readFareRule),
+    status: reader.oneOf('status', TRIP_STATUSES),
+  };
+}
+
+function readPassenger(reader: FieldReader): PassengerInfo {
+  return {
+    name: reader.string('name'),
+    email: reader.string('email'),
+    phone: reader.string('phone'),
+    documentType: reader.optionalOneOf('documentType', ['passport', 'id_card'] as const),
+    documentNumber: reader.optionalString('documentNumber'),
+    dateOfBirth: reader.optionalDateTime('dateOfBirth'),
+    fareCategory: reader.optionalOneOf('fareCategory', FARE_CATEGORIES),
+  };
+}
+
+function readTraveller(reader: FieldReader): Traveller {
+  return {
+    id: reader.number('id'),
+    name: reader.string('name'),
+    email: reader.optionalString('email'),
+    phone: reader.optionalString('phone'),
+    dateOfBirth: reader.optionalDateTime('dateOfBirth'),
+    documentType: reader.optionalOneOf('documentType', ['passport', 'id_card'] as const),
+    documentNumber: reader.optionalString('documentNumber'),
+    updatedAt: reader.dateTime('updatedAt'),
+  };
+}
+
+function readTicket(reader: FieldReader): Ticket {
+  return {
+    id: reader.number('id'),
+    ticketNumber: reader.string('ticketNumber'),
+    trip: reader.object('trip', readTrip),
+    passenger: reader.object('passenger', readPassenger),
+    seat: reader.optionalNumber('seat'),
+    price: reader.object('price', readPrice),
+    status: reader.oneOf('status', TICKET_STATUSES),
+    qrCode: reader.string('qrCode'),
+    purchasedAt: reader.dateTime('purchasedAt'),
+    checkedInAt: reader.optionalDateTime('checkedInAt'),
+    providerId: reader.optionalString('providerId'),
+  };
+}
+
+/**
+ * A replayed booking may come back without the ticket
+ */
+function readBookedTicket(reader: FieldReader): Ticket | undefined {
+  return reader.optionalObject('ticket', readTicket);
+}
+
+function readTicketChanges(reader: FieldReader): TicketChanges {
+  return {
+    tickets: reader.requiredObjectArray('tickets', readTicket),
+    deleted: reader.integerArray('deleted'),
+    cursor: reader.optionalString('cursor'),
+  };
+}
+
+function readBillingDetails(reader: FieldReader): BillingDetails {
+  return {
+    companyName: reader.string('companyName'),
+    companyId: reader.optionalString('companyId'),
+    vatId: reader.optionalString('vatId'),
+    street: reader.optionalString('street'),
+    city: reader.optionalString('city'),
+    postalCode: reader.optionalString('postalCode'),
+    country: reader.optionalString('country'),
+  };
+}
+
+function readUser(reader: FieldReader): User {
+  return {
+    id: reader.number('id'),
+    email: reader.string('email'),
+    name: reader.string('name'),
+    // Odoo partners often have no phone; an empty one isn't made-up data
+    phone: reader.optionalString('phone') ?? '',
+    language: reader.oneOf('language', LANGUAGES),
+    // Only users the server returned to a signed-in session are decoded
+    isLoggedIn: true,
+    avatar: reader.optionalString('avatar'),
+    billing: reader.optionalObject('billing', readBillingDetails),
+    createdAt: reader.dateTime('createdAt'),
+    updatedAt: reader.dateTime('updatedAt'),
+  };
+}
+
+function readBankDetails(reader: FieldReader): BankTransferDetails {
+  return {
+    accountNumber: reader.string('accountNumber'),
+    bankCode: reader.string('bankCode'),
+    iban: reader.string('iban'),
+    swift: reader.string('swift'),
+    variableSymbol: reader.string('variableSymbol'),
+    amount: reader.number('amount'),
+    currency: reader.string('currency'),
+    recipientName: reader.optionalString('recipientName'),
+    dueDate: reader.optionalDateTime('dueDate'),
+  };
+}
+
+function readPaymentResult(reader: FieldReader): PaymentResult {
+  return {
+    transactionId: reader.number('transactionId'),
+    reference: reader.string('reference'),
+    status: reader.oneOf('status', TRANSACTION_STATUSES),
+    paymentUrl: reader.optionalString('paymentUrl'),
+    amount: reader.number('amount'),
+    currency: reader.string('currency'),
+    provider: reader.optionalString('provider'),
+    confirmedAt: reader.optionalDateTime('confirmedAt'),
+    errorCode: reader.optionalString('errorCode'),
+    errorMessage: reader.optionalString('errorMessage'),
+    formData: reader.optionalStringMap('formData'),
+    method: reader.optionalOneOf('method', ['GET', 'POST'] as const),
+    bankDetails: reader.optionalObject('bankDetails', readBankDetails),
+  };
+}
+
+function readVat(reader: FieldReader): NonNullable<PaymentTransaction['vat']> {
+  return {
+    rate: reader.number('rate'),
+    amount: reader.number('amount'),
+  };
+}
+
+function readPaymentTransaction(reader: FieldReader): PaymentTransaction {
+  return {
+    transactionId: reader.number('transactionId'),
+    reference: reader.string('reference'),
+    status: reader.oneOf('status', TRANSACTION_STATUSES),
+    amount: reader.number('amount'),
+    currency: reader.oneOf('currency', CURRENCIES),
+    provider: reader.string('provider'),
+    createdAt: reader.dateTime('createdAt'),
+    confirmedAt: reader.optionalDateTime('confirmedAt'),
+    description: reader.optionalString('description'),
+    ticketNumbers: reader.stringArray('ticketNumbers'),
+    vat: reader.optionalObject('vat', readVat),
+    seller: reader.optionalObject('seller', readBillingDetails),
+    invoiceNumber: reader.optionalString('invoiceNumber'),
+  };
+}
+
+function readCancellationPolicyRule(reader: FieldReader): CancellationPolicyRule {
+  return {
+    hoursBeforeDeparture: reader.number('hoursBeforeDeparture'),
+    refundPercent: reader.number('refundPercent'),
+  };
+}
+
+function readRefundOption(reader: FieldReader): RefundOption {
+  return {
+    destination: reader.oneOf('destination', REFUND_DESTINATIONS),
+    amount: reader.number('amount'),
+  };
+}
+
+function readRefundQuote(reader: FieldReader): RefundQuote {
+  return {
+    ticketId: reader.number('ticketId'),
+    paidAmount: reader.number('paidAmount'),
+    currency: reader.string('currency'),
+    refundPercent: reader.number('refundPercent'),
+    options: reader.objectArray('options', readRefundOption),
+    rules: reader.objectArray('rules', readCancellationPolicyRule),
+    validUntil: reader.optionalDateTime('validUntil'),
+  };
+}
+
+function readRefund(reader: FieldReader): Refund {
+  return {
+    id: reader.number('id'),
+    ticketId: reader.number('ticketId'),
+    ticketNumber: reader.optionalString('ticketNumber'),
+    amount: reader.number('amount'),
+    currency: reader.string('currency'),
+    destination: reader.oneOf('destination', REFUND_DESTINATIONS),
+    status: reader.oneOf('status', REFUND_STATUSES),
+    requestedAt: reader.dateTime('requestedAt'),
+    updatedAt: reader.dateTime('updatedAt'),
+    expectedBy: reader.optionalDateTime('expectedBy'),
+    completedAt: reader.optionalDateTime('completedAt'),
+    voucherCode: reader.optionalString('voucherCode'),
+    rejectionReason: reader.optionalString('rejectionReason'),
+  };
+}
+
+// ============================================
+// DECODERS
+// ============================================
+
+export const decodeLocation = (value: unknown): Location =>
+  decode('Location', value, readLocation);
+
+export const decodeLocations = (value: unknown): Location[] =>
+  decodeList('Location', value, readLocation);
+
+export const decodeTrip = (value: unknown): Trip => decode('Trip', value, readTrip);
+
+export const decodeTrips = (value: unknown): Trip[] => decodeList('Trip', value, readTrip);
+
+export const decodeTripList = (value: unknown): Trip[] => decode('TripList', value, readTripList);
+
+export const decodeSeatAvailability = (value: unknown): SeatAvailability =>
+  decode('SeatAvailability', value, readSeatAvailability);
+
+export const decodeSeatHold = (value: unknown): SeatHold =>
+  decode('SeatHold', value, readSeatHold);
+
+export const decodeReservationIds = (value: unknown): number[] =>
+  decode('Reservation', value, readReservationIds);
+
+export const decodeTicket = (value: unknown): Ticket => decode('Ticket', value, readTicket);
+
+export const decodeTickets = (value: unknown): Ticket[] =>
+  decodeList('Ticket', value, readTicket);
+
+export const decodeBookedTicket = (value: unknown): Ticket | undefined =>
+  decode('Booking', value, readBookedTicket);
+
+export const decodeTicketChanges = (value: unknown): TicketChanges =>
+  decode('TicketChanges', value, readTicketChanges);
+
+export const decodeUser = (value: unknown): User => decode('User', value, readUser);
+
+export const decodeTraveller = (value: unknown): Traveller =>
+  decode('Traveller', value, readTraveller);
+
+export const decodeTravellers = (value: unknown): Traveller[] =>
+  decodeList('Traveller', value, readTraveller);
+
+export const decodePaymentResult = (value: unknown): PaymentResult =>
+  decode('PaymentResult', value, readPaymentResult);
+
+export const decodePromoCodeRedemption = (value: unknown): PromoCodeRedemption =>
+  decode('PromoCodeRedemption', value, readPromoCodeRedemption);
+
+export const decodePaymentTransactions = (value: unknown): PaymentTransaction[] =>
+  decodeList('PaymentTransaction', value, readPaymentTransaction);
+
+export const decodeRefundQuote = (value: unknown): RefundQuote =>
+  decode('RefundQuote', value, readRefundQuote);
+
+export const decodeRefund = (value: unknown): Refund => decode('Refund', value, readRefund);
+
+export const decodeRefunds = (value: unknown): Refund[] =>
+  decodeList('Refund', value, readRefund);
@@ -0,0 +1,209 @@
+/**
+ * BUS-Tickets - HTTP Errors
+ * Copyright (c) 2024-2026 IT Enterprise
+ */
+
+import type { ApiError } from '@/types';
+
+/**
+ * A request that failed, carrying the backend's `ApiError` fields.
+ * Used as-is for client errors without a more specific class (404, 409...).
+ */
+export class HttpError extends Error {
+  constructor(
+    message: string,
+    public readonly status: number,
+    public readonly code: string,
+    public readonly details?: Record<string, string>
+  ) {
+    super(message);
+    this.name = 'HttpError';
+  }
+
+  toApiError(): ApiError {
+    return { code: this.code, message: this.message, details: this.details };
+  }
+}
+
+/**
+ * The server could not be reached or did not answer in time
+ */
+export class NetworkError extends HttpError {
+  constructor(
+    message: string,
+    public readonly timedOut: boolean = false
+  ) {
+    super(message, 0, timedOut ? 'TIMEOUT' : 'NETWORK_ERROR');
+    this.name = 'NetworkError';
+  }
+}
+
+/**
+ * Missing or rejected credentials (401/403), after any token refresh failed
+ */
+export class AuthError extends HttpError {
+  constructor(message: string, status: number, code: string = 'UNAUTHORIZED') {
+    super(message, status, code);
+    this.name = 'AuthError';
+  }
+}
+
+/**
+ * The request was rejected as invalid; `details` maps fields to messages
+ */
+export class ValidationError extends HttpError {
+  constructor(
+    message: string,
+    status: number,
+    code: string = 'VALIDATION_ERROR',
+    details: Record<string, string> = {}
+  ) {
+    super(message, status, code, details);
+    this.name = 'ValidationError';
+  }
+}
+
+/**
+ * The server failed (5xx)
+ */
+export class ServerError extends HttpError {
+  constructor(message: string, status: number, code: string = 'SERVER_ERROR') {
+    super(message, status, code);
+    this.name = 'ServerError';
+  }
+}
+
+export interface DecodeIssue {
+  /**
+   * Dotted path of the field, e.g. `route.origin.id` or `[2].price.currency`
+   */
+  path: string;
+  message: string;
+}
+
+/**
+ * A successful response whose body doesn't match what the app expects.
+ * Raised by the decoders instead of guessing at missing or mistyped fields.
+ */
+export class InvalidResponseError extends Error {
+  constructor(
+    public readonly entity: string,
+    public readonly issues: DecodeIssue[]
+  ) {
+    super(
+      `Invalid ${entity} in server response: ` +
+        issues.map((issue) => `${issue.path || '(root)'} ${issue.message}`).join('; ')
+    );
+    this.name = 'InvalidResponseError';
+  }
+}
+
+/**
+ * The seat hold ran out before checkout finished; the seats may be gone
+ */
+export class SeatHoldExpiredError extends Error {
+  constructor(message: string = 'Seat hold expired') {
+    super(message);
+    this.name = 'SeatHoldExpiredError';
+  }
+}
+
+/**
+ * A payment can't start while an earlier one is still in progress
+ */
+export class PaymentInProgressError extends Error {
+  constructor(message: string = 'Another payment is in progress') {
+    super(message);
+    this.name = 'PaymentInProgressError';
+  }
+}
+
+export type PromoCodeRejection = 'invalid' | 'expired' | 'already_used' | 'not_applicable';
+
+/**
+ * The backend refused a promo code or voucher
+ */
+export class PromoCodeError extends Error {
+  constructor(
+    public readonly reason: PromoCodeRejection,
+    message: string = `Promo code rejected: ${reason}`
+  ) {
+    super(message);
+    this.name = 'PromoCodeError';
+  }
+}
+
+export type RefundRejection = 'not_refundable' | 'amount_changed' | 'already_requested';
+
+/**
+ * The backend refused a refund request
+ */
+export class RefundError extends Error {
+  constructor(
+    public readonly reason: RefundRejection,
+    message: string = `Refund rejected: ${reason}`
+  ) {
+    super(message);
+    this.name = 'RefundError';
+  }
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * A non-empty string field of an error body
+ */
+function readString(fields: Record<string, unknown>, key: string): string | undefined {
+  const value = fields[key];
+  return typeof value === 'string' && value ? value : undefined;
+}
+
+/**
+ * Per-field messages of an error body, keeping only string messages
+ */
+function readDetails(fields: Record<string, unknown>): Record<string, string> | undefined {
+  if (!isObject(fields.details)) return undefined;
+  return Object.fromEntries(
+    Object.entries(fields.details).filter(
+      (entry): entry is [string, string] => typeof entry[1] === 'string'
+    )
+  );
+}
+
+/**
+ * Build the typed error for a failed response. Accepts the `ApiError`
+ * envelope as well as the bare `{ message }` / `{ error: string }` bodies
+ * some endpoints still return.
+ */
+export function toHttpError(status: number, body: unknown): HttpError {
+  const fields = isObject(body) ? body : {};
+  const envelope = isObject(fields.error) ? fields.error : {};
+
+  const message =
+    readString(envelope, 'message') ??
+    readString(fields, 'message') ??
+    readString(fields, 'error') ??
+    `Request failed with status ${status}`;
+  const code = readString(envelope, 'code') ?? readString(fields, 'code');
+  const details = readDetails(envelope) ?? readDetails(fields);
+
+  if (status === 401 || status === 403) {
+    return new AuthError(message, status, code);
+  }
+  if (status === 400 || status === 422) {
+    return new ValidationError(message, status, code, details);
+  }
+  if (status >= 500) {
+    return new ServerError(message, status, code);
+  }
+  return new HttpError(message, status, code || `HTTP_${status}`, details);
+}
+
+/**
+ * Message to show for any thrown value
+ */
+export function getErrorMessage(error: unknown, fallback: string): string {
+  return error instanceof Error && error.message ? error.message : fallback;
+}
@@ -3,6 +3,45 @@
  * Copyright (c) 2024-2026 IT Enterprise
  */
 
+export { httpClient, HttpClient } from './HttpClient';
+export type { HttpClientConfig, HttpMethod, RequestOptions } from './HttpClient';
+export {
+  HttpError,
+  NetworkError,
+  AuthError,
+  ValidationError,
+  ServerError,
+  InvalidResponseError,
+  SeatHoldExpiredError,
+  PaymentInProgressError,
+  PromoCodeError,
+  RefundError,
+  getErrorMessage,
+} from './errors';
+export type { DecodeIssue, PromoCodeRejection, RefundRejection } from './errors';
+export {
+  decodeLocation,
+  decodeLocations,
+  decodeTrip,
+  decodeTrips,
+  decodeTripList,
+  decodeSeatAvailability,
+  decodeSeatHold,
+  decodeTicket,
+  decodeTickets,
+  decodeBookedTicket,
+  decodeTicketChanges,
+  decodeUser,
+  decodeTraveller,
+  decodeTravellers,
+  decodePaymentResult,
+  decodePromoCodeRedemption,
+  decodePaymentTransactions,
+  decodeRefundQuote,
+  decodeRefund,
+  decodeRefunds,
+} from './decoders';
+
 export { notificationService } from './NotificationService';
 export type { NotificationSettings, NotificationData } from './NotificationService';
 
@@ -14,3 +53,19 @@ export type { OAuthProvider } from './OAuthService';
 
 export { twoFactorService } from './TwoFactorService';
 export type { TwoFactorMethod } from './TwoFactorService';
+
+export { currencyService, RATES_STALE_AFTER_MS } from './CurrencyService';
+
+export { documentService } from './DocumentService';
+export type { DocumentAction } from './DocumentService';
+
+export {
+  paymentSessionStore,
+  canTransition,
+  isFinalStatus,
+  toPaymentStatus,
+} from './PaymentSessionStore';
+export type { PaymentSession } from './PaymentSessionStore';
+
+export { getPaymentAdapter, PAYMENT_ADAPTERS, createRedirectAdapter } from './payments';
+export type { PaymentAdapter, PaymentLaunch, PaymentReturn } from './payments';
@@ -0,0 +1,25 @@
+/**
+ * BUS-Tickets - Bank Transfer Payment Adapter
+ * Copyright (c) 2024-2026 IT Enterprise
+ */
+
+import type { PaymentAdapter } from './types';
+import { toPaymentStatus } from '../PaymentSessionStore';
+
+/**
+ * Paid from the user's own bank; the transaction stays pending until the
+ * transfer arrives, which can take days
+ */
+export const bankTransferAdapter: PaymentAdapter = {
+  getLaunch: (result) => {
+    if (!result.bankDetails) {
+      throw new Error('Bank details missing');
+    }
+    return { kind: 'bank_transfer', details: result.bankDetails };
+  },
+  parseReturnUrl: () => null,
+  mapStatus: (result) =>
+    result.status === 'draft' || result.status === 'pending'
+      ? 'awaiting_confirmation'
+      : toPaymentStatus(result.status),
+};
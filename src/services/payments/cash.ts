@@ -0,0 +1,20 @@
+/**
+ * BUS-Tickets - Cash Payment Adapter
+ * Copyright (c) 2024-2026 IT Enterprise
+ */
+
+import type { PaymentAdapter } from './types';
+import { toPaymentStatus } from '../PaymentSessionStore';
+
+/**
+ * Paid to the driver on boarding: the booking is confirmed now and the
+ * transaction settles after departure
+ */
+export const cashAdapter: PaymentAdapter = {
+  getLaunch: () => ({ kind: 'offline' }),
+  parseReturnUrl: () => null,
+  mapStatus: (result) =>
+    result.status === 'draft' || result.status === 'pending'
+      ? 'awaiting_confirmation'
+      : toPaymentStatus(result.status),
+};
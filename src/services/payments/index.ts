@@ -0,0 +1,42 @@
+/**
+ * BUS-Tickets - Payment Adapters
+ * Copyright (c) 2024-2026 IT Enterprise
+ *
+ * One adapter per gateway, keyed by `PaymentMethod`. Supporting a new
+ * gateway means adding its method, an adapter file and an entry here.
+ */
+
+import type { PaymentMethod } from '@/types';
+import type { PaymentAdapter } from './types';
+import { createRedirectAdapter } from './redirect';
+import { monobankAdapter } from './monobank';
+import { liqpayAdapter } from './liqpay';
+import { paypalAdapter } from './paypal';
+import { stripeAdapter } from './stripe';
+import { bankTransferAdapter } from './bankTransfer';
+import { cashAdapter } from './cash';
+
+export const PAYMENT_ADAPTERS: Record<PaymentMethod, PaymentAdapter> = {
+  monobank: monobankAdapter,
+  liqpay: liqpayAdapter,
+  paypal: paypalAdapter,
+  stripe: stripeAdapter,
+  bank_transfer: bankTransferAdapter,
+  cash: cashAdapter,
+};
+
+function isPaymentMethod(method: string | undefined): method is PaymentMethod {
+  return !!method && method in PAYMENT_ADAPTERS;
+}
+
+/**
+ * Gateways without an adapter yet are treated as plain redirects
+ */
+const fallbackAdapter = createRedirectAdapter({});
+
+export function getPaymentAdapter(method: string | undefined): PaymentAdapter {
+  return isPaymentMethod(method) ? PAYMENT_ADAPTERS[method] : fallbackAdapter;
+}
+
+export { createRedirectAdapter, parseReturnPath } from './redirect';
+export type { PaymentAdapter, PaymentLaunch, PaymentReturn } from './types';
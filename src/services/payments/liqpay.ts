@@ -0,0 +1,33 @@
+/**
+ * BUS-Tickets - LiqPay Payment Adapter
+ * Copyright (c) 2024-2026 IT Enterprise
+ */
+
+import { createRedirectAdapter, getReturnParams, parseReturnPath } from './redirect';
+import type { PaymentReturn } from './types';
+
+const LIQPAY_OUTCOMES: Record<string, PaymentReturn['outcome']> = {
+  success: 'success',
+  sandbox: 'success',
+  failure: 'error',
+  error: 'error',
+  reversed: 'cancelled',
+};
+
+/**
+ * LiqPay checkout takes a signed `data`/`signature` form; its result page
+ * passes the order status on, e.g. `?status=success&order_id=...`
+ */
+export const liqpayAdapter = createRedirectAdapter({
+  parseReturnUrl: (url) => {
+    const path = parseReturnPath(url);
+    if (!path) return null;
+
+    const params = getReturnParams(url);
+    const status = params.get('status');
+    return {
+      outcome: (status && LIQPAY_OUTCOMES[status]) || path.outcome,
+      reference: params.get('order_id') || path.reference,
+    };
+  },
+});
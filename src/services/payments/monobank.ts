@@ -0,0 +1,18 @@
+/**
+ * BUS-Tickets - Monobank Payment Adapter
+ * Copyright (c) 2024-2026 IT Enterprise
+ */
+
+import { createRedirectAdapter, getReturnParams, parseReturnPath } from './redirect';
+
+/**
+ * Monobank acquiring returns to `redirectUrl` unchanged but for the
+ * invoice ID; whether it was paid is only known from the backend
+ */
+export const monobankAdapter = createRedirectAdapter({
+  parseReturnUrl: (url) => {
+    const path = parseReturnPath(url);
+    if (!path) return null;
+    return { ...path, reference: getReturnParams(url).get('invoiceId') || path.reference };
+  },
+});
@@ -0,0 +1,25 @@
+/**
+ * BUS-Tickets - PayPal Payment Adapter
+ * Copyright (c) 2024-2026 IT Enterprise
+ */
+
+import { createRedirectAdapter, getReturnParams, parseReturnPath } from './redirect';
+
+/**
+ * PayPal returns with `token` and `PayerID` once the buyer approves; the
+ * cancel URL gets the `token` alone
+ */
+export const paypalAdapter = createRedirectAdapter({
+  parseReturnUrl: (url) => {
+    const path = parseReturnPath(url);
+    if (!path) return null;
+
+    const params = getReturnParams(url);
+    const token = params.get('token');
+    if (!token || path.outcome === 'cancelled' || path.outcome === 'error') return path;
+    return {
+      outcome: params.get('PayerID') ? 'success' : 'cancelled',
+      reference: token,
+    };
+  },
+});
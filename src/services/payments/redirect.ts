@@ -0,0 +1,64 @@
+/**
+ * BUS-Tickets - Redirect Payment Adapter
+ * Copyright (c) 2024-2026 IT Enterprise
+ *
+ * Base for gateways paid on their own page: the user is sent to
+ * `paymentUrl`, or the signed form in `formData`, and comes back through
+ * the app's `payment/...` deep links.
+ */
+
+import type { PaymentResult } from '@/types';
+import { toPaymentStatus } from '../PaymentSessionStore';
+import type { PaymentAdapter, PaymentLaunch, PaymentReturn } from './types';
+
+const RETURN_PATH = /payment\/(return|success|cancelled|error)/;
+
+export function getReturnParams(url: string): URLSearchParams {
+  return new URLSearchParams(url.split('?')[1]?.split('#')[0] ?? '');
+}
+
+/**
+ * The outcome the app's own return paths and parameters state
+ */
+export function parseReturnPath(url: string): PaymentReturn | null {
+  const params = getReturnParams(url);
+  if (!RETURN_PATH.test(url) && params.get('cancelled') !== 'true') return null;
+
+  const reference = params.get('ref') || params.get('reference') || undefined;
+  if (url.includes('payment/cancelled') || params.get('cancelled') === 'true') {
+    return { outcome: 'cancelled', reference };
+  }
+  if (url.includes('payment/error') || params.get('error')) {
+    return { outcome: 'error', reference };
+  }
+  if (url.includes('payment/success')) {
+    return { outcome: 'success', reference };
+  }
+  return { outcome: 'unknown', reference };
+}
+
+function getRedirectLaunch(result: PaymentResult): PaymentLaunch {
+  if (result.formData && result.method === 'POST') {
+    if (!result.paymentUrl) {
+      throw new Error('Payment form has no target URL');
+    }
+    return { kind: 'form_post', url: result.paymentUrl, fields: result.formData };
+  }
+  if (!result.paymentUrl) {
+    throw new Error('Payment page URL missing');
+  }
+  return { kind: 'redirect', url: result.paymentUrl };
+}
+
+/**
+ * Adapter for a gateway paid on its own page; `overrides` cover how the
+ * gateway words its redirects
+ */
+export function createRedirectAdapter(overrides: Partial<PaymentAdapter> = {}): PaymentAdapter {
+  return {
+    getLaunch: getRedirectLaunch,
+    parseReturnUrl: parseReturnPath,
+    mapStatus: (result) => toPaymentStatus(result.status),
+    ...overrides,
+  };
+}
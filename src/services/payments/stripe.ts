@@ -0,0 +1,29 @@
+/**
+ * BUS-Tickets - Stripe Payment Adapter
+ * Copyright (c) 2024-2026 IT Enterprise
+ */
+
+import { createRedirectAdapter, getReturnParams, parseReturnPath } from './redirect';
+
+/**
+ * Checkout returns with `session_id`; redirects after 3-D Secure add
+ * `payment_intent` and `redirect_status`
+ */
+export const stripeAdapter = createRedirectAdapter({
+  parseReturnUrl: (url) => {
+    const path = parseReturnPath(url);
+    if (!path) return null;
+
+    const params = getReturnParams(url);
+    const redirectStatus = params.get('redirect_status');
+    return {
+      outcome:
+        redirectStatus === 'succeeded'
+          ? 'success'
+          : redirectStatus === 'failed'
+          ? 'error'
+          : path.outcome,
+      reference: params.get('session_id') || params.get('payment_intent') || path.reference,
+    };
+  },
+});
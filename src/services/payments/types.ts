@@ -0,0 +1,47 @@
+/**
+ * BUS-Tickets - Payment Adapter Types
+ * Copyright (c) 2024-2026 IT Enterprise
+ */
+
+import type { BankTransferDetails, PaymentResult } from '@/types';
+import type { PaymentStatus } from '../PaymentSessionStore';
+
+/**
+ * How the user is taken to pay, once the backend has created the transaction
+ */
+export type PaymentLaunch =
+  | { kind: 'redirect'; url: string }
+  /**
+   * Gateways that take the order as a signed form (LiqPay, PayPal)
+   */
+  | { kind: 'form_post'; url: string; fields: Record<string, string> }
+  | { kind: 'bank_transfer'; details: BankTransferDetails }
+  /**
+   * Nothing to do online, e.g. cash on board
+   */
+  | { kind: 'offline' };
+
+/**
+ * What a gateway's redirect back to the app says. It's only a hint: the
+ * backend's transaction status is what counts.
+ */
+export interface PaymentReturn {
+  outcome: 'success' | 'cancelled' | 'error' | 'unknown';
+  /**
+   * Gateway reference, when the redirect carries one
+   */
+  reference?: string;
+}
+
+export interface PaymentAdapter {
+  getLaunch(result: PaymentResult): PaymentLaunch;
+  /**
+   * The return `url` as this gateway words it; null when it isn't a
+   * payment return at all
+   */
+  parseReturnUrl(url: string): PaymentReturn | null;
+  /**
+   * Session status for the backend's view of the transaction
+   */
+  mapStatus(result: PaymentResult): PaymentStatus;
+}
@@ -15,10 +15,30 @@ export interface User {
   language: Language;
   isLoggedIn: boolean;
   avatar?: string;
+  /**
+   * Company details for VAT invoices
+   */
+  billing?: BillingDetails;
   createdAt: string;
   updatedAt: string;
 }
 
+/**
+ * A company as printed on an invoice, as buyer or seller
+ */
+export interface BillingDetails {
+  companyName: string;
+  /**
+   * Company registration number (IČO, ЄДРПОУ)
+   */
+  companyId?: string;
+  vatId?: string;
+  street?: string;
+  city?: string;
+  postalCode?: string;
+  country?: string;
+}
+
 export type Language = 'uk_UA' | 'cs_CZ' | 'en_US';
 
 export interface AuthTokens {
@@ -77,6 +97,10 @@ export interface Trip {
   availableSeats: number;
   totalSeats: number;
   price: Price;
+  /**
+   * Fare categories sold on this trip; empty when the operator sends none
+   */
+  fares?: FareRule[];
   status: TripStatus;
 }
 
@@ -85,7 +109,7 @@ export type TripStatus = 'scheduled' | 'boarding' | 'departed' | 'arrived' | 'ca
 export interface Bus {
   id: number;
   name: string;
-  plateNumber: string;
+  plateNumber?: string;
   capacity: number;
   amenities: BusAmenity[];
   seatLayout?: SeatLayout;
@@ -98,6 +122,44 @@ export interface SeatLayout {
   seatsPerRow: number;
   unavailableSeats: number[];
   reservedSeats: number[];
+  /**
+   * Seats left of the aisle in each row (default: half the row, rounded up)
+   */
+  aisleAfter?: number;
+  driverSide?: 'left' | 'right';
+  /**
+   * Lower-deck rows (1-based) where the door takes the seats opposite the driver
+   */
+  doorRows?: number[];
+  /**
+   * Upper deck of a double-decker; its seats are numbered after the lower deck
+   */
+  upperDeck?: DeckLayout;
+}
+
+export interface DeckLayout {
+  rows: number;
+  seatsPerRow: number;
+  aisleAfter?: number;
+}
+
+/**
+ * Live seat state of a trip, fetched separately from the (cacheable) layout
+ */
+export interface SeatAvailability {
+  tripId: number;
+  occupiedSeats: number[];
+  unavailableSeats: number[];
+}
+
+/**
+ * Seats reserved for one customer during checkout until `expiresAt`
+ */
+export interface SeatHold {
+  id: string;
+  tripId: number;
+  seats: number[];
+  expiresAt: string;
 }
 
 // ============================================
@@ -115,18 +177,57 @@ export interface Ticket {
   qrCode: string;
   purchasedAt: string;
   checkedInAt?: string;
+  /**
+   * Bus provider that sold the ticket and handles its cancellation and
+   * refund; absent when sold by the app's own backend
+   */
+  providerId?: string;
 }
 
 export type TicketStatus = 'reserved' | 'paid' | 'checked_in' | 'used' | 'cancelled' | 'refunded';
 
+export type DocumentType = 'passport' | 'id_card';
+
 export interface PassengerInfo {
   name: string;
   email: string;
   phone: string;
-  documentType?: 'passport' | 'id_card';
+  documentType?: DocumentType;
+  documentNumber?: string;
+  /**
+   * YYYY-MM-DD; needed for age-limited fares
+   */
+  dateOfBirth?: string;
+  fareCategory?: FareCategory;
+}
+
+/**
+ * A traveller in a booking request, seated in their own seat
+ */
+export interface BookingPassenger extends PassengerInfo {
+  seat: number;
+  fareCategory: FareCategory;
+}
+
+/**
+ * A saved person from the user's traveller address book
+ */
+export interface Traveller {
+  id: number;
+  name: string;
+  email?: string;
+  phone?: string;
+  /**
+   * YYYY-MM-DD
+   */
+  dateOfBirth?: string;
+  documentType?: DocumentType;
   documentNumber?: string;
+  updatedAt: string;
 }
 
+export type TravellerInput = Omit<Traveller, 'id' | 'updatedAt'>;
+
 export interface Passenger {
   name: string;
   email: string;
@@ -146,6 +247,16 @@ export interface Price {
 
 export type Currency = 'UAH' | 'CZK' | 'EUR' | 'USD';
 
+/**
+ * Exchange rates published in the backend config: units of each currency
+ * per one unit of `base`
+ */
+export interface ExchangeRates {
+  base: Currency;
+  rates: Partial<Record<Currency, number>>;
+  updatedAt: string;
+}
+
 export interface Discount {
   type: 'percentage' | 'fixed';
   value: number;
@@ -153,7 +264,42 @@ export interface Discount {
   description?: string;
 }
 
-export type PaymentMethod = 'monobank' | 'stripe' | 'paypal' | 'liqpay' | 'cash';
+/**
+ * A promo code or voucher accepted for a booking
+ */
+export interface PromoCodeRedemption {
+  code: string;
+  /**
+   * Booking total with the code applied: `originalAmount` is the total
+   * before it and `discount` describes it
+   */
+  price: Price;
+}
+
+export type FareCategory = 'adult' | 'child' | 'student' | 'senior';
+
+/**
+ * Price and eligibility of one fare category. Ages are at departure;
+ * the backend checks eligibility again when reserving.
+ */
+export interface FareRule {
+  category: FareCategory;
+  /**
+   * Off the trip price; none for full fare
+   */
+  discount?: Discount;
+  minAge?: number;
+  /**
+   * Oldest eligible age, inclusive
+   */
+  maxAge?: number;
+  /**
+   * Proof of eligibility (e.g. a student card) shown when boarding
+   */
+  requiresProof?: boolean;
+}
+
+export type PaymentMethod = 'monobank' | 'stripe' | 'paypal' | 'liqpay' | 'bank_transfer' | 'cash';
 
 export interface PaymentRequest {
   ticketId: number;
@@ -169,6 +315,156 @@ export interface PaymentResponse {
 
 export type PaymentStatus = 'pending' | 'processing' | 'completed' | 'failed' | 'refunded';
 
+/**
+ * Odoo `payment.transaction` state
+ */
+export type PaymentTransactionStatus =
+  | 'draft'
+  | 'pending'
+  | 'authorized'
+  | 'done'
+  | 'cancel'
+  | 'error'
+  | 'refunded';
+
+export interface BankTransferDetails {
+  accountNumber: string;
+  bankCode: string;
+  iban: string;
+  swift: string;
+  variableSymbol: string;
+  amount: number;
+  currency: string;
+  /**
+   * Account holder, shown to the user and needed for EPC QR codes
+   */
+  recipientName?: string;
+  /**
+   * The reservation is cancelled if the transfer hasn't arrived by then
+   */
+  dueDate?: string;
+}
+
+export interface PaymentResult {
+  transactionId: number;
+  reference: string;
+  status: PaymentTransactionStatus;
+  paymentUrl?: string;
+  amount: number;
+  currency: string;
+  provider?: string;
+  confirmedAt?: string;
+  errorCode?: string;
+  errorMessage?: string;
+  // PayPal specific
+  formData?: Record<string, string>;
+  method?: 'GET' | 'POST';
+  // Bank transfer specific
+  bankDetails?: BankTransferDetails;
+}
+
+/**
+ * A past payment, as listed in the payment history
+ */
+export interface PaymentTransaction {
+  transactionId: number;
+  reference: string;
+  status: PaymentTransactionStatus;
+  amount: number;
+  currency: Currency;
+  /**
+   * Name of the payment provider
+   */
+  provider: string;
+  createdAt: string;
+  confirmedAt?: string;
+  description?: string;
+  ticketNumbers: string[];
+  /**
+   * VAT included in `amount`; absent when the seller doesn't charge VAT
+   */
+  vat?: {
+    rate: number;
+    amount: number;
+  };
+  /**
+   * The operator that sold the tickets and issues invoices for them
+   */
+  seller?: BillingDetails;
+  /**
+   * Number of the seller's tax document, when it has issued one
+   */
+  invoiceNumber?: string;
+}
+
+/**
+ * Where refunded money goes: back to the card or account the ticket was
+ * paid with, or onto a voucher for a later booking
+ */
+export type RefundDestination = 'original_payment' | 'voucher';
+
+export type RefundStatus = 'requested' | 'approved' | 'processing' | 'completed' | 'rejected';
+
+/**
+ * A tier of the operator's cancellation policy
+ */
+export interface CancellationPolicyRule {
+  /**
+   * Applies when cancelling at least this many hours before departure
+   */
+  hoursBeforeDeparture: number;
+  refundPercent: number;
+}
+
+export interface RefundOption {
+  destination: RefundDestination;
+  amount: number;
+}
+
+/**
+ * What cancelling a ticket right now would refund
+ */
+export interface RefundQuote {
+  ticketId: number;
+  paidAmount: number;
+  currency: string;
+  /**
+   * Share of the price refunded under the policy tier that applies now
+   */
+  refundPercent: number;
+  /**
+   * Empty when nothing can be refunded any more
+   */
+  options: RefundOption[];
+  rules: CancellationPolicyRule[];
+  /**
+   * The next, lower tier applies from then
+   */
+  validUntil?: string;
+}
+
+export interface Refund {
+  id: number;
+  ticketId: number;
+  ticketNumber?: string;
+  amount: number;
+  currency: string;
+  destination: RefundDestination;
+  status: RefundStatus;
+  requestedAt: string;
+  updatedAt: string;
+  /**
+   * When the money should reach the card or account
+   */
+  expectedBy?: string;
+  completedAt?: string;
+  /**
+   * Set once a refund to a voucher is completed
+   */
+  voucherCode?: string;
+  rejectionReason?: string;
+}
+
 // ============================================
 // CONFIG TYPES
 // ============================================
@@ -187,6 +483,7 @@ export interface AppConfig {
     termsUrl?: string;
     privacyUrl?: string;
   };
+  exchangeRates?: ExchangeRates;
 }
 
 export interface BackendConfig {
@@ -272,3 +569,12 @@ export interface ApiMeta {
   total?: number;
   totalPages?: number;
 }
+
+/**
+ * Tickets changed since a sync cursor, with the cursor to ask from next
+ */
+export interface TicketChanges {
+  tickets: Ticket[];
+  deleted: number[];
+  cursor?: string;
+}
@@ -0,0 +1,118 @@
+/**
+ * BUS-Tickets - Connection Planner Tests
+ * Copyright (c) 2024-2026 IT Enterprise
+ */
+
+import { describe, expect, it } from '@jest/globals';
+import { findConnections, isSameStation } from '../connections';
+import type { TripWithProvider } from '@/contexts/ProvidersContext';
+import type { Location } from '@/types';
+
+const PRAHA: Location = { id: 1, name: 'Florenc', city: 'Praha', latitude: 50.0896, longitude: 14.4406 };
+const BRNO: Location = { id: 2, name: 'Zvonařka', city: 'Brno', latitude: 49.1849, longitude: 16.6175 };
+const KOSICE: Location = { id: 3, name: 'AS', city: 'Košice', latitude: 48.7203, longitude: 21.2697 };
+// Another operator's stop a few hundred metres from Zvonařka
+const BRNO_GRAND: Location = { id: 90, name: 'Grand', city: 'Brno', latitude: 49.1871, longitude: 16.6151 };
+
+function trip(
+  providerId: string,
+  id: number,
+  origin: Location,
+  destination: Location,
+  departure: string,
+  arrival: string,
+  amount: number,
+  currency = 'CZK'
+): TripWithProvider {
+  return {
+    id,
+    providerId,
+    providerName: providerId,
+    route: { id, name: `${origin.city} - ${destination.city}`, origin, destination },
+    departure,
+    arrival,
+    duration: 0,
+    price: { amount, currency },
+    availableSeats: 10,
+  };
+}
+
+describe('isSameStation', () => {
+  it('matches IDs within one provider only', () => {
+    expect(isSameStation(BRNO, 'a', { ...KOSICE, id: BRNO.id }, 'a')).toBe(true);
+    expect(isSameStation(BRNO, 'a', { ...KOSICE, id: BRNO.id }, 'b')).toBe(false);
+  });
+
+  it('matches nearby stops across providers', () => {
+    expect(isSameStation(BRNO, 'a', BRNO_GRAND, 'b')).toBe(true);
+    expect(isSameStation(BRNO, 'a', PRAHA, 'b')).toBe(false);
+  });
+
+  it('matches by name when coordinates are missing', () => {
+    const plain = { id: 5, name: 'Zvonařka', city: 'BRNO' };
+    expect(isSameStation(BRNO, 'a', plain, 'b')).toBe(true);
+    expect(isSameStation(BRNO, 'a', { ...plain, name: 'Grand' }, 'b')).toBe(false);
+  });
+});
+
+describe('findConnections', () => {
+  const first = trip('a', 1, PRAHA, BRNO, '2026-11-01T08:00:00Z', '2026-11-01T10:30:00Z', 300);
+
+  it('pairs legs meeting at a station with enough time to change', () => {
+    const second = trip('b', 2, BRNO_GRAND, KOSICE, '2026-11-01T11:15:00Z', '2026-11-01T17:00:00Z', 500);
+
+    const [connection, ...rest] = findConnections([first], [second]);
+
+    expect(rest).toEqual([]);
+    expect(connection).toMatchObject({
+      id: 'a-1/b-2',
+      transferStation: BRNO,
+      transferMinutes: 45,
+      departure: first.departure,
+      arrival: second.arrival,
+      duration: 540,
+      price: { amount: 800, currency: 'CZK' },
+    });
+  });
+
+  it('changes at an intermediate stop of the first leg', () => {
+    const viaBrno = { ...first, route: { ...first.route, destination: KOSICE, stops: [BRNO] } };
+    const second = trip('b', 2, BRNO, KOSICE, '2026-11-01T12:00:00Z', '2026-11-01T17:00:00Z', 500);
+
+    expect(findConnections([viaBrno], [second])[0].transferStation).toBe(BRNO);
+  });
+
+  it('skips changes that are too short or too long', () => {
+    const tight = trip('b', 2, BRNO, KOSICE, '2026-11-01T10:45:00Z', '2026-11-01T16:00:00Z', 500);
+    const overnight = trip('b', 3, BRNO, KOSICE, '2026-11-02T06:00:00Z', '2026-11-02T11:00:00Z', 500);
+
+    expect(findConnections([first], [tight, overnight])).toEqual([]);
+    expect(findConnections([first], [overnight], { maxTransferMinutes: 24 * 60 })).toHaveLength(1);
+  });
+
+  it('skips legs that do not meet or are priced in a currency it cannot convert', () => {
+    const elsewhere = trip('b', 2, PRAHA, KOSICE, '2026-11-01T12:00:00Z', '2026-11-01T20:00:00Z', 500);
+    const inEuros = trip('b', 3, BRNO, KOSICE, '2026-11-01T12:00:00Z', '2026-11-01T17:00:00Z', 20, 'EUR');
+
+    expect(findConnections([first], [elsewhere, inEuros])).toEqual([]);
+  });
+
+  it('prices a second leg sold in another currency in the first leg’s', () => {
+    const inEuros = trip('b', 3, BRNO, KOSICE, '2026-11-01T12:00:00Z', '2026-11-01T17:00:00Z', 20, 'EUR');
+    const convert = (amount: number) => amount * 25;
+
+    const [connection] = findConnections([first], [inEuros], { convert });
+
+    expect(connection.price).toEqual({ amount: 800, currency: 'CZK' });
+  });
+
+  it('lists the earliest arrival first, then the shorter journey', () => {
+    const early = trip('a', 5, PRAHA, BRNO, '2026-11-01T06:00:00Z', '2026-11-01T08:30:00Z', 300);
+    const late = trip('b', 2, BRNO, KOSICE, '2026-11-01T18:00:00Z', '2026-11-01T23:00:00Z', 500);
+    const noon = trip('b', 3, BRNO, KOSICE, '2026-11-01T12:00:00Z', '2026-11-01T17:00:00Z', 500);
+
+    const ids = findConnections([early, first], [late, noon]).map((connection) => connection.id);
+
+    expect(ids).toEqual(['a-1/b-3', 'a-5/b-3', 'a-1/b-2', 'a-5/b-2']);
+  });
+});
@@ -0,0 +1,160 @@
+/**
+ * BUS-Tickets - Fare Category Tests
+ * Copyright (c) 2024-2026 IT Enterprise
+ */
+
+import { describe, expect, it } from '@jest/globals';
+import {
+  FULL_FARE,
+  applyDiscount,
+  combinePriceBreakdowns,
+  getAgeAt,
+  getFareRule,
+  getFareRules,
+  getPriceBreakdown,
+  validateFares,
+} from '../fares';
+import type { FareRule, PassengerInfo, Trip } from '@/types';
+
+const CHILD: FareRule = { category: 'child', maxAge: 11, discount: { type: 'percentage', value: 50 } };
+const SENIOR: FareRule = { category: 'senior', minAge: 65, discount: { type: 'fixed', value: 100 } };
+const RULES: FareRule[] = [FULL_FARE, CHILD, SENIOR];
+
+function passenger(overrides: Partial<PassengerInfo> = {}): PassengerInfo {
+  return { name: 'Olena', email: 'olena@example.com', phone: '+420123456789', ...overrides };
+}
+
+describe('applyDiscount', () => {
+  it('applies percentage and fixed discounts, rounded to cents', () => {
+    expect(applyDiscount(99.99, { type: 'percentage', value: 15 })).toBe(84.99);
+    expect(applyDiscount(100, { type: 'fixed', value: 30 })).toBe(70);
+    expect(applyDiscount(100)).toBe(100);
+  });
+
+  it('never goes below zero', () => {
+    expect(applyDiscount(20, { type: 'fixed', value: 50 })).toBe(0);
+  });
+});
+
+describe('getFareRules', () => {
+  it('always offers full fare', () => {
+    expect(getFareRules({ fares: [CHILD] } as Trip)).toEqual([FULL_FARE, CHILD]);
+    expect(getFareRules({} as Trip)).toEqual([FULL_FARE]);
+  });
+
+  it('keeps the operator’s own adult fare', () => {
+    const adult: FareRule = { category: 'adult', discount: { type: 'fixed', value: 1 } };
+    expect(getFareRules({ fares: [adult, CHILD] } as Trip)).toEqual([adult, CHILD]);
+  });
+
+  it('falls back to full fare for a category the trip does not sell', () => {
+    expect(getFareRule([FULL_FARE, CHILD], 'student')).toBe(FULL_FARE);
+  });
+});
+
+describe('getAgeAt', () => {
+  it('counts whole years up to the birthday', () => {
+    expect(getAgeAt('2015-06-15', '2026-06-14')).toBe(10);
+    expect(getAgeAt('2015-06-15', '2026-06-15')).toBe(11);
+  });
+
+  it('reads a date of birth as the calendar date west of Greenwich', () => {
+    // The suite runs in America/New_York (see jest.global-setup.js)
+    expect(getAgeAt('2015-06-16', '2026-06-15T08:00:00')).toBe(10);
+    expect(getAgeAt('2015-07-01', '2026-06-30T23:00:00')).toBe(10);
+    expect(getAgeAt('2015-06-16', '2026-06-16T08:00:00')).toBe(11);
+  });
+});
+
+describe('validateFares', () => {
+  const departure = '2026-06-15T08:00:00';
+
+  it('accepts eligible passengers', () => {
+    const passengers = [
+      passenger(),
+      passenger({ fareCategory: 'child', dateOfBirth: '2015-06-15' }),
+      passenger({ fareCategory: 'senior', dateOfBirth: '1960-01-01' }),
+    ];
+    expect(validateFares(passengers, RULES, departure)).toBeNull();
+  });
+
+  it('asks for a date of birth on an age-limited fare', () => {
+    const passengers = [passenger(), passenger({ fareCategory: 'child' })];
+    expect(validateFares(passengers, RULES, departure)).toEqual({ index: 1, field: 'dateOfBirth' });
+  });
+
+  it('rejects a passenger outside the fare’s ages on the departure date', () => {
+    const passengers = [passenger({ fareCategory: 'child', dateOfBirth: '2014-06-15' })];
+    expect(validateFares(passengers, RULES, departure)).toEqual({ index: 0, field: 'fareCategory' });
+  });
+});
+
+describe('getPriceBreakdown', () => {
+  it('prices each fare category on top of the trip discount', () => {
+    const breakdown = getPriceBreakdown(
+      { amount: 400, originalAmount: 500, currency: 'CZK' },
+      ['adult', undefined, 'child', 'senior'],
+      RULES
+    );
+
+    expect(breakdown).toEqual({
+      currency: 'CZK',
+      baseAmount: 2000,
+      tripDiscount: 400,
+      fareDiscount: 300,
+      lines: [
+        { category: 'adult', count: 2, unitAmount: 400, amount: 800 },
+        { category: 'child', count: 1, unitAmount: 200, amount: 200 },
+        { category: 'senior', count: 1, unitAmount: 300, amount: 300 },
+      ],
+      total: 1300,
+    });
+  });
+});
+
+describe('combinePriceBreakdowns', () => {
+  it('adds up legs category by category', () => {
+    const outbound = getPriceBreakdown({ amount: 400, currency: 'CZK' }, ['adult', 'child'], RULES);
+    const inbound = getPriceBreakdown({ amount: 300, currency: 'CZK' }, ['adult', 'senior'], RULES);
+
+    const combined = combinePriceBreakdowns([outbound, inbound])!;
+
+    expect(combined.lines).toEqual([
+      { category: 'adult', count: 1, unitAmount: 700, amount: 700 },
+      { category: 'child', count: 1, unitAmount: 200, amount: 200 },
+      { category: 'senior', count: 1, unitAmount: 200, amount: 200 },
+    ]);
+    expect(combined.total).toBe(outbound.total + inbound.total);
+    expect(combined.baseAmount).toBe(1400);
+  });
+
+  it('does not change the breakdowns it combines', () => {
+    const outbound = getPriceBreakdown({ amount: 400, currency: 'CZK' }, ['adult'], RULES);
+    const inbound = getPriceBreakdown({ amount: 300, currency: 'CZK' }, ['adult'], RULES);
+
+    combinePriceBreakdowns([outbound, inbound]);
+
+    expect(outbound.lines[0].amount).toBe(400);
+  });
+
+  it('converts legs priced in another currency to the first leg’s', () => {
+    const outbound = getPriceBreakdown({ amount: 400, currency: 'CZK' }, ['adult'], RULES);
+    const inbound = getPriceBreakdown({ amount: 20, currency: 'EUR' }, ['adult', 'child'], RULES);
+
+    const combined = combinePriceBreakdowns([outbound, inbound], (amount) => amount * 25);
+
+    expect(combined).toMatchObject({ currency: 'CZK', baseAmount: 1400, total: 1150 });
+    expect(combined?.lines).toEqual([
+      { category: 'adult', count: 1, unitAmount: 900, amount: 900 },
+      { category: 'child', count: 1, unitAmount: 250, amount: 250 },
+    ]);
+  });
+
+  it('cannot combine legs it cannot convert', () => {
+    const outbound = getPriceBreakdown({ amount: 400, currency: 'CZK' }, ['adult'], RULES);
+    const inbound = getPriceBreakdown({ amount: 20, currency: 'EUR' }, ['adult'], RULES);
+
+    expect(combinePriceBreakdowns([outbound, inbound])).toBeNull();
+    expect(combinePriceBreakdowns([outbound, inbound], () => null)).toBeNull();
+  });
+});
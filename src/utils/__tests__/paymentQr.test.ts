@@ -0,0 +1,89 @@
+/**
+ * BUS-Tickets - Payment QR Code Tests
+ * Copyright (c) 2024-2026 IT Enterprise
+ */
+
+import { describe, expect, it } from '@jest/globals';
+import { buildEpcQr, buildSpayd, getPaymentQrCodes, paymentMessage } from '../paymentQr';
+import type { BankTransferDetails } from '@/types';
+
+const CZK_TRANSFER: BankTransferDetails = {
+  accountNumber: '2000145399',
+  bankCode: '2010',
+  iban: 'cz65 0800 0000 1920 0014 5399',
+  swift: 'gibaczpx',
+  variableSymbol: '2026001234',
+  amount: 1499.5,
+  currency: 'CZK',
+  dueDate: '2026-11-05T12:00:00',
+};
+
+const EUR_TRANSFER: BankTransferDetails = {
+  ...CZK_TRANSFER,
+  iban: 'SK31 1200 0000 1987 4263 7541',
+  swift: 'SUBASKBX',
+  amount: 59,
+  currency: 'EUR',
+};
+
+describe('paymentMessage', () => {
+  it('carries the variable symbol', () => {
+    expect(paymentMessage(CZK_TRANSFER)).toBe('VS 2026001234');
+  });
+});
+
+describe('buildSpayd', () => {
+  it('builds a QR Platba payload', () => {
+    expect(buildSpayd(CZK_TRANSFER, 'BUS*Tickets s.r.o.')).toBe(
+      'SPD*1.0*ACC:CZ6508000000192000145399+GIBACZPX*AM:1499.50*CC:CZK*DT:20261105' +
+        '*MSG:VS 2026001234*RN:BUS%2ATickets s.r.o.*X-VS:2026001234'
+    );
+  });
+
+  it('leaves out the fields it has no value for', () => {
+    const payload = buildSpayd({ ...CZK_TRANSFER, swift: '', dueDate: undefined });
+
+    expect(payload).toBe(
+      'SPD*1.0*ACC:CZ6508000000192000145399*AM:1499.50*CC:CZK*MSG:VS 2026001234*X-VS:2026001234'
+    );
+  });
+
+  it('keeps only the digits of the variable symbol', () => {
+    expect(buildSpayd({ ...CZK_TRANSFER, variableSymbol: 'VS-12 345' })).toContain('*X-VS:12345');
+  });
+});
+
+describe('buildEpcQr', () => {
+  it('builds a SEPA credit transfer payload', () => {
+    expect(buildEpcQr(EUR_TRANSFER, 'BUS-Tickets s.r.o.').split('\n')).toEqual([
+      'BCD',
+      '002',
+      '1',
+      'SCT',
+      'SUBASKBX',
+      'BUS-Tickets s.r.o.',
+      'SK3112000000198742637541',
+      'EUR59.00',
+      '',
+      '',
+      'VS 2026001234',
+    ]);
+  });
+});
+
+describe('getPaymentQrCodes', () => {
+  it('offers SPAYD for crowns, with or without a recipient', () => {
+    expect(getPaymentQrCodes(CZK_TRANSFER).map((code) => code.format)).toEqual(['spayd']);
+  });
+
+  it('offers EPC for euros only with a recipient name', () => {
+    expect(getPaymentQrCodes(EUR_TRANSFER, 'BUS-Tickets').map((code) => code.format)).toEqual([
+      'epc',
+    ]);
+    expect(getPaymentQrCodes(EUR_TRANSFER)).toEqual([]);
+  });
+
+  it('offers nothing for other currencies', () => {
+    expect(getPaymentQrCodes({ ...CZK_TRANSFER, currency: 'UAH' }, 'BUS-Tickets')).toEqual([]);
+  });
+});
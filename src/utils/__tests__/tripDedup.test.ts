@@ -0,0 +1,93 @@
+/**
+ * BUS-Tickets - Trip Deduplication Tests
+ * Copyright (c) 2024-2026 IT Enterprise
+ */
+
+import { describe, expect, it } from '@jest/globals';
+import { dedupeTrips, isSameTrip } from '../tripDedup';
+import type { TripWithProvider } from '@/contexts/ProvidersContext';
+
+function offer(
+  providerId: string,
+  overrides: Partial<TripWithProvider> = {}
+): TripWithProvider {
+  return {
+    id: 1,
+    providerId,
+    providerName: `Provider ${providerId}`,
+    route: {
+      id: 1,
+      name: 'Praha - Brno',
+      origin: { id: 1, name: 'Florenc', city: 'Praha', latitude: 50.0896, longitude: 14.4406 },
+      destination: { id: 2, name: 'Zvonařka', city: 'Brno', latitude: 49.1849, longitude: 16.6175 },
+    },
+    departure: '2026-11-01T08:00:00Z',
+    arrival: '2026-11-01T10:30:00Z',
+    duration: 150,
+    price: { amount: 300, currency: 'CZK' },
+    availableSeats: 10,
+    bus: { name: 'Setra', plateNumber: '1AB 2345' },
+    ...overrides,
+  };
+}
+
+describe('isSameTrip', () => {
+  it('matches the same departure sold by another provider', () => {
+    expect(
+      isSameTrip(offer('a'), offer('b', { id: 77, departure: '2026-11-01T08:00:40Z' }))
+    ).toBe(true);
+  });
+
+  it('compares plates ignoring spacing and case', () => {
+    expect(isSameTrip(offer('a'), offer('b', { bus: { plateNumber: '1ab2345' } }))).toBe(true);
+    expect(isSameTrip(offer('a'), offer('b', { bus: { plateNumber: '9XY 0000' } }))).toBe(false);
+  });
+
+  it('falls back to the bus name without a plate', () => {
+    expect(isSameTrip(offer('a', { bus: { name: 'Setra' } }), offer('b', { bus: { name: 'setra' } }))).toBe(
+      true
+    );
+  });
+
+  it('never merges trips without bus info', () => {
+    expect(isSameTrip(offer('a', { bus: undefined }), offer('b', { bus: undefined }))).toBe(false);
+  });
+
+  it('keeps apart trips of one provider, other minutes or other routes', () => {
+    expect(isSameTrip(offer('a'), offer('a', { id: 2 }))).toBe(false);
+    expect(isSameTrip(offer('a'), offer('b', { departure: '2026-11-01T08:01:00Z' }))).toBe(false);
+
+    const other = offer('b');
+    other.route = { ...other.route, destination: { id: 3, name: 'AS', city: 'Košice' } };
+    expect(isSameTrip(offer('a'), other)).toBe(false);
+  });
+});
+
+describe('dedupeTrips', () => {
+  it('keeps the cheapest offer and lists the other sellers', () => {
+    const trips = [offer('a'), offer('b', { price: { amount: 250, currency: 'CZK' } }), offer('c')];
+
+    const [merged, ...rest] = dedupeTrips(trips);
+
+    expect(rest).toEqual([]);
+    expect(merged.providerId).toBe('b');
+    expect(merged.alsoSoldBy).toEqual([
+      { providerId: 'a', providerName: 'Provider a' },
+      { providerId: 'c', providerName: 'Provider c' },
+    ]);
+  });
+
+  it('prefers more free seats at the same price or in another currency', () => {
+    const roomier = offer('b', { availableSeats: 30 });
+    expect(dedupeTrips([offer('a'), roomier])[0].providerId).toBe('b');
+
+    const inEuros = offer('c', { price: { amount: 10, currency: 'EUR' } });
+    expect(dedupeTrips([offer('a'), inEuros])[0].providerId).toBe('a');
+  });
+
+  it('leaves distinct trips untouched', () => {
+    const trips = [offer('a'), offer('b', { departure: '2026-11-01T12:00:00Z' })];
+
+    expect(dedupeTrips(trips)).toEqual(trips);
+  });
+});
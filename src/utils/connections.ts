@@ -0,0 +1,190 @@
+/**
+ * BUS-Tickets - Connection Planner
+ * Copyright (c) 2024-2026 IT Enterprise
+ *
+ * Journeys with one change, for routes no single bus covers. A first leg
+ * leaving the origin and a second leg reaching the destination connect
+ * where they share a station, possibly on different providers. Each leg
+ * is booked as its own trip.
+ */
+
+import type { Currency, Location } from '@/types';
+import type { TripWithProvider } from '@/contexts/ProvidersContext';
+import type { AmountConverter } from '@/services/CurrencyService';
+
+/**
+ * Time needed to change buses at the same station
+ */
+export const MIN_TRANSFER_MINUTES = 30;
+
+/**
+ * Longer waits aren't offered as a connection
+ */
+export const MAX_TRANSFER_MINUTES = 12 * 60;
+
+/**
+ * Stops of different providers this close together count as one station
+ */
+const SAME_STATION_RADIUS_KM = 0.5;
+
+const MAX_CONNECTIONS = 20;
+
+export interface Connection {
+  /**
+   * Stable key: both legs' provider and trip IDs
+   */
+  id: string;
+  legs: [TripWithProvider, TripWithProvider];
+  /**
+   * Where the first leg is left, as the first leg's operator names it
+   */
+  transferStation: Location;
+  transferMinutes: number;
+  departure: string;
+  arrival: string;
+  /**
+   * Door to door, including the change, in minutes
+   */
+  duration: number;
+  /**
+   * Both legs, in the first leg's currency
+   */
+  price: {
+    amount: number;
+    currency: string;
+  };
+}
+
+export interface ConnectionOptions {
+  minTransferMinutes?: number;
+  maxTransferMinutes?: number;
+  /**
+   * Prices a second leg sold in another currency; without it, or when it
+   * can't, such legs aren't combined
+   */
+  convert?: AmountConverter;
+}
+
+function distanceKm(a: Location, b: Location): number {
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+  const dLat = toRadians(b.latitude! - a.latitude!);
+  const dLon = toRadians(b.longitude! - a.longitude!);
+  const h =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(a.latitude!)) * Math.cos(toRadians(b.latitude!)) * Math.sin(dLon / 2) ** 2;
+  return 6371 * 2 * Math.asin(Math.sqrt(h));
+}
+
+function hasCoordinates(location: Location): boolean {
+  return location.latitude !== undefined && location.longitude !== undefined;
+}
+
+function normalizeName(location: Location): string {
+  return `${location.city ?? ''}|${location.name}`.trim().toLowerCase();
+}
+
+/**
+ * Location IDs are only comparable within one provider; across providers a
+ * station is matched by coordinates, or by name when either has none
+ */
+export function isSameStation(
+  a: Location,
+  aProviderId: string,
+  b: Location,
+  bProviderId: string
+): boolean {
+  if (aProviderId === bProviderId && a.id === b.id) return true;
+  if (hasCoordinates(a) && hasCoordinates(b)) {
+    return distanceKm(a, b) <= SAME_STATION_RADIUS_KM;
+  }
+  return normalizeName(a) === normalizeName(b);
+}
+
+function minutesBetween(from: string, to: string): number {
+  return Math.round((new Date(to).getTime() - new Date(from).getTime()) / 60000);
+}
+
+/**
+ * Station where `first` can be left for `second`, if any. Besides the
+ * first leg's terminus and the second leg's starting point, both routes'
+ * intermediate stops are considered.
+ */
+function findTransferStation(
+  first: TripWithProvider,
+  second: TripWithProvider
+): Location | undefined {
+  const alighting = [...(first.route.stops ?? []), first.route.destination];
+  const boarding = [second.route.origin, ...(second.route.stops ?? [])];
+
+  return alighting.find((station) =>
+    boarding.some((other) =>
+      isSameStation(station, first.providerId, other, second.providerId)
+    )
+  );
+}
+
+/**
+ * Pair first legs (from the origin) with second legs (to the destination).
+ *
+ * Only the trips' end times are known, not times at intermediate stops, so
+ * the change is timed from the first leg's arrival to the second leg's
+ * departure. A bus reaches a stop after leaving its origin and before its
+ * terminus, so the real change is never shorter than that.
+ *
+ * The total is in the first leg's currency, the one the booking is
+ * charged in.
+ */
+export function findConnections(
+  firstLegs: TripWithProvider[],
+  secondLegs: TripWithProvider[],
+  options: ConnectionOptions = {}
+): Connection[] {
+  const {
+    minTransferMinutes = MIN_TRANSFER_MINUTES,
+    maxTransferMinutes = MAX_TRANSFER_MINUTES,
+    convert = () => null,
+  } = options;
+  const connections: Connection[] = [];
+
+  for (const first of firstLegs) {
+    for (const second of secondLegs) {
+      if (first.providerId === second.providerId && first.id === second.id) continue;
+      const secondAmount =
+        first.price.currency === second.price.currency
+          ? second.price.amount
+          : convert(
+              second.price.amount,
+              second.price.currency as Currency,
+              first.price.currency as Currency
+            );
+      if (secondAmount === null) continue;
+
+      const transferMinutes = minutesBetween(first.arrival, second.departure);
+      if (transferMinutes < minTransferMinutes || transferMinutes > maxTransferMinutes) continue;
+
+      const transferStation = findTransferStation(first, second);
+      if (!transferStation) continue;
+
+      connections.push({
+        id: `${first.providerId}-${first.id}/${second.providerId}-${second.id}`,
+        legs: [first, second],
+        transferStation,
+        transferMinutes,
+        departure: first.departure,
+        arrival: second.arrival,
+        duration: minutesBetween(first.departure, second.arrival),
+        price: {
+          amount: Math.round((first.price.amount + secondAmount) * 100) / 100,
+          currency: first.price.currency,
+        },
+      });
+    }
+  }
+
+  // Earliest arrival first, then the shorter journey
+  connections.sort(
+    (a, b) =>
+      new Date(a.arrival).getTime() - new Date(b.arrival).getTime() || a.duration - b.duration
+  );
+  return connections.slice(0, MAX_CONNECTIONS);
+}
@@ -0,0 +1,255 @@
+/**
+ * BUS-Tickets - Fare Categories
+ * Copyright (c) 2024-2026 IT Enterprise
+ *
+ * Per-passenger pricing. Every passenger pays the trip price (after the
+ * trip's own discount) reduced by their fare category's discount. Prices
+ * here are for display; the backend recalculates them when reserving.
+ */
+
+import type {
+  Currency,
+  Discount,
+  FareCategory,
+  FareRule,
+  PassengerInfo,
+  Price,
+  Trip,
+} from '@/types';
+import type { AmountConverter } from '@/services/CurrencyService';
+import type { PassengerFormError } from './passengers';
+
+export const FULL_FARE: FareRule = { category: 'adult' };
+
+export interface FareLine {
+  category: FareCategory;
+  count: number;
+  /**
+   * Price per passenger in this category, after all discounts
+   */
+  unitAmount: number;
+  amount: number;
+}
+
+export interface PriceBreakdown {
+  currency: Currency;
+  /**
+   * Before any discount (`Price.originalAmount` per passenger)
+   */
+  baseAmount: number;
+  /**
+   * Taken off by the trip's own `Price.discount`
+   */
+  tripDiscount: number;
+  /**
+   * Taken off by fare categories
+   */
+  fareDiscount: number;
+  lines: FareLine[];
+  total: number;
+}
+
+function roundAmount(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+/**
+ * Amount after `discount`, never below zero
+ */
+export function applyDiscount(amount: number, discount?: Discount): number {
+  if (!discount) return amount;
+
+  const discounted =
+    discount.type === 'percentage'
+      ? amount * (1 - discount.value / 100)
+      : amount - discount.value;
+  return roundAmount(Math.max(0, discounted));
+}
+
+/**
+ * Fare categories a trip can be booked with. Full fare is always offered;
+ * a trip without fares from the operator has only full fare.
+ */
+export function getFareRules(trip: Trip): FareRule[] {
+  const fares = trip.fares ?? [];
+  return fares.some((rule) => rule.category === 'adult') ? fares : [FULL_FARE, ...fares];
+}
+
+export function getFareRule(rules: FareRule[], category: FareCategory = 'adult'): FareRule {
+  return rules.find((rule) => rule.category === category) ?? FULL_FARE;
+}
+
+/**
+ * Whether the category is limited by age, so the passenger's date of birth is needed
+ */
+export function isAgeLimited(rule: FareRule): boolean {
+  return rule.minAge !== undefined || rule.maxAge !== undefined;
+}
+
+/**
+ * Year, month and day an ISO date or date-time starts with. Read from the
+ * string itself: `new Date()` takes a date-only string as UTC midnight,
+ * which is the previous day west of Greenwich.
+ */
+function toCalendarDate(value: string): [number, number, number] {
+  const match = /^(\d{4})-(\d{2})-(\d{2})/.exec(value);
+  if (match) return [Number(match[1]), Number(match[2]), Number(match[3])];
+
+  const date = new Date(value);
+  return [date.getFullYear(), date.getMonth() + 1, date.getDate()];
+}
+
+/**
+ * Age in whole years on `date`
+ */
+export function getAgeAt(dateOfBirth: string, date: string): number {
+  const [birthYear, birthMonth, birthDay] = toCalendarDate(dateOfBirth);
+  const [year, month, day] = toCalendarDate(date);
+
+  let age = year - birthYear;
+  const hadBirthday = month > birthMonth || (month === birthMonth && day >= birthDay);
+  if (!hadBirthday) age--;
+  return age;
+}
+
+/**
+ * First passenger whose fare category they aren't eligible for, or null.
+ * Ages are checked on the departure date.
+ */
+export function validateFares(
+  passengers: PassengerInfo[],
+  rules: FareRule[],
+  departureTime: string
+): PassengerFormError | null {
+  for (let index = 0; index < passengers.length; index++) {
+    const passenger = passengers[index];
+    const rule = getFareRule(rules, passenger.fareCategory);
+    if (!isAgeLimited(rule)) continue;
+
+    if (!passenger.dateOfBirth || Number.isNaN(Date.parse(passenger.dateOfBirth))) {
+      return { index, field: 'dateOfBirth' };
+    }
+
+    const age = getAgeAt(passenger.dateOfBirth, departureTime);
+    if (
+      (rule.minAge !== undefined && age < rule.minAge) ||
+      (rule.maxAge !== undefined && age > rule.maxAge)
+    ) {
+      return { index, field: 'fareCategory' };
+    }
+  }
+  return null;
+}
+
+/**
+ * Price of one passenger in `rule`'s category
+ */
+export function getFareAmount(price: Price, rule: FareRule): number {
+  return applyDiscount(price.amount, rule.discount);
+}
+
+/**
+ * Totals for a booking, one line per fare category in use
+ */
+export function getPriceBreakdown(
+  price: Price,
+  categories: Array<FareCategory | undefined>,
+  rules: FareRule[]
+): PriceBreakdown {
+  const counts = new Map<FareCategory, number>();
+  for (const category of categories) {
+    const key = category ?? 'adult';
+    counts.set(key, (counts.get(key) ?? 0) + 1);
+  }
+
+  const lines: FareLine[] = Array.from(counts, ([category, count]) => {
+    const unitAmount = getFareAmount(price, getFareRule(rules, category));
+    return { category, count, unitAmount, amount: roundAmount(unitAmount * count) };
+  });
+
+  const passengers = categories.length;
+  const baseAmount = roundAmount((price.originalAmount ?? price.amount) * passengers);
+  const afterTripDiscount = roundAmount(price.amount * passengers);
+  const total = roundAmount(lines.reduce((sum, line) => sum + line.amount, 0));
+
+  return {
+    currency: price.currency,
+    baseAmount,
+    tripDiscount: roundAmount(baseAmount - afterTripDiscount),
+    fareDiscount: roundAmount(afterTripDiscount - total),
+    lines,
+    total,
+  };
+}
+
+/**
+ * `breakdown` in `currency`, or null if `convert` can't convert it
+ */
+function convertPriceBreakdown(
+  breakdown: PriceBreakdown,
+  currency: Currency,
+  convert: AmountConverter
+): PriceBreakdown | null {
+  if (breakdown.currency === currency) return breakdown;
+
+  let convertible = true;
+  const to = (amount: number) => {
+    const converted = convert(amount, breakdown.currency, currency);
+    if (converted === null) convertible = false;
+    return converted ?? 0;
+  };
+  const converted: PriceBreakdown = {
+    currency,
+    baseAmount: to(breakdown.baseAmount),
+    tripDiscount: to(breakdown.tripDiscount),
+    fareDiscount: to(breakdown.fareDiscount),
+    lines: breakdown.lines.map((line) => ({
+      ...line,
+      unitAmount: to(line.unitAmount),
+      amount: to(line.amount),
+    })),
+    total: to(breakdown.total),
+  };
+  return convertible ? converted : null;
+}
+
+/**
+ * One breakdown for several legs booked together (a round trip or a
+ * connection). The legs are paid in one payment, in the first leg's
+ * currency; a leg sold in another (a connection across providers) is
+ * converted with `convert`. Null when a leg can't be converted.
+ */
+export function combinePriceBreakdowns(
+  breakdowns: PriceBreakdown[],
+  convert: AmountConverter = () => null
+): PriceBreakdown | null {
+  const [first, ...others] = breakdowns;
+  const rest: PriceBreakdown[] = [];
+  for (const breakdown of others) {
+    const converted = convertPriceBreakdown(breakdown, first.currency, convert);
+    if (!converted) return null;
+    rest.push(converted);
+  }
+
+  return rest.reduce((combined, next) => {
+    const lines = combined.lines.map((line) => ({ ...line }));
+    for (const line of next.lines) {
+      const existing = lines.find((current) => current.category === line.category);
+      if (existing) {
+        existing.unitAmount = roundAmount(existing.unitAmount + line.unitAmount);
+        existing.amount = roundAmount(existing.amount + line.amount);
+      } else {
+        lines.push(line);
+      }
+    }
+
+    return {
+      currency: combined.currency,
+      baseAmount: roundAmount(combined.baseAmount + next.baseAmount),
+      tripDiscount: roundAmount(combined.tripDiscount + next.tripDiscount),
+      fareDiscount: roundAmount(combined.fareDiscount + next.fareDiscount),
+      lines,
+      total: roundAmount(combined.total + next.total),
+    };
+  }, first);
+}
@@ -10,24 +10,38 @@ export interface Price {
   currency: string;
 }
 
-// Currency formatters
-const currencyFormatters: Record<string, Intl.NumberFormat> = {
-  UAH: new Intl.NumberFormat('uk-UA', { style: 'currency', currency: 'UAH' }),
-  EUR: new Intl.NumberFormat('de-DE', { style: 'currency', currency: 'EUR' }),
-  CZK: new Intl.NumberFormat('cs-CZ', { style: 'currency', currency: 'CZK' }),
-  USD: new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }),
-  PLN: new Intl.NumberFormat('pl-PL', { style: 'currency', currency: 'PLN' }),
+// Currency symbols
+const currencySymbols: Record<string, string> = {
+  CZK: 'Kč',
+  UAH: '₴',
+  EUR: '€',
+  USD: '$',
+  GBP: '£',
+  PLN: 'zł',
 };
 
+// Currencies written with the symbol after the number
+const symbolAfterAmount = new Set(['CZK', 'UAH', 'PLN']);
+
+/**
+ * Format an amount of money, grouping digits for `localeTag`
+ * (e.g. "1 250 Kč", "€12.50")
+ */
+export function formatMoney(amount: number, currency: string, localeTag = 'cs-CZ'): string {
+  const symbol = currencySymbols[currency] || currency;
+  const formatted = amount.toLocaleString(localeTag, {
+    minimumFractionDigits: 0,
+    maximumFractionDigits: 2,
+  });
+
+  return symbolAfterAmount.has(currency) ? `${formatted} ${symbol}` : `${symbol}${formatted}`;
+}
+
 /**
  * Format price with currency
  */
-export function formatPrice(price: Price): string {
-  const formatter = currencyFormatters[price.currency];
-  if (formatter) {
-    return formatter.format(price.amount);
-  }
-  return `${price.amount} ${price.currency}`;
+export function formatPrice(price: Price, localeTag?: string): string {
+  return formatMoney(price.amount, price.currency, localeTag);
 }
 
 /**
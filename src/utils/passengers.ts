@@ -0,0 +1,128 @@
+/**
+ * BUS-Tickets - Booking Passengers
+ * Copyright (c) 2024-2026 IT Enterprise
+ *
+ * Per-seat passenger forms for a booking. The first passenger is the lead:
+ * their contact details are always required, and companions may reuse them
+ * instead of entering their own.
+ */
+
+import type { BookingPassenger, PassengerInfo, Traveller, TravellerInput } from '@/types';
+
+export type PassengerField =
+  | 'name'
+  | 'email'
+  | 'phone'
+  | 'documentNumber'
+  | 'dateOfBirth'
+  | 'fareCategory';
+
+export type TravellerField = 'name' | 'email' | 'dateOfBirth' | 'documentNumber';
+
+export interface PassengerFormError {
+  index: number;
+  field: PassengerField;
+}
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export function emptyPassenger(): PassengerInfo {
+  return { name: '', email: '', phone: '' };
+}
+
+/**
+ * Whether the passenger at `index` enters their own email and phone
+ */
+export function hasOwnContact(index: number, sameContactAsLead: boolean): boolean {
+  return index === 0 || !sameContactAsLead;
+}
+
+/**
+ * First missing or invalid field, or null when every form can be submitted
+ */
+export function validatePassengers(
+  passengers: PassengerInfo[],
+  sameContactAsLead: boolean
+): PassengerFormError | null {
+  for (let index = 0; index < passengers.length; index++) {
+    const passenger = passengers[index];
+
+    if (!passenger.name.trim()) return { index, field: 'name' };
+
+    if (hasOwnContact(index, sameContactAsLead)) {
+      if (!EMAIL_PATTERN.test(passenger.email.trim())) return { index, field: 'email' };
+      if (!passenger.phone.trim()) return { index, field: 'phone' };
+    }
+
+    // A document is optional, but a number without its type can't be checked
+    if (passenger.documentNumber?.trim() && !passenger.documentType) {
+      return { index, field: 'documentNumber' };
+    }
+  }
+  return null;
+}
+
+/**
+ * Pair each form with a seat (in ascending seat order) for the booking
+ * request, copying the lead's contact details where requested
+ */
+export function toBookingPassengers(
+  passengers: PassengerInfo[],
+  seats: number[],
+  sameContactAsLead: boolean
+): BookingPassenger[] {
+  const sortedSeats = [...seats].sort((a, b) => a - b);
+  const lead = passengers[0];
+
+  return passengers.map((passenger, index) => {
+    const contact = hasOwnContact(index, sameContactAsLead) ? passenger : lead;
+    const documentNumber = passenger.documentNumber?.trim();
+
+    return {
+      seat: sortedSeats[index],
+      name: passenger.name.trim(),
+      email: contact.email.trim(),
+      phone: contact.phone.trim(),
+      fareCategory: passenger.fareCategory ?? 'adult',
+      dateOfBirth: passenger.dateOfBirth,
+      ...(documentNumber && {
+        documentType: passenger.documentType,
+        documentNumber,
+      }),
+    };
+  });
+}
+
+/**
+ * Fill a passenger form from a saved traveller. Contact details the
+ * traveller doesn't have keep what was already typed in.
+ */
+export function passengerFromTraveller(traveller: Traveller, current: PassengerInfo): PassengerInfo {
+  return {
+    name: traveller.name,
+    email: traveller.email ?? current.email,
+    phone: traveller.phone ?? current.phone,
+    documentType: traveller.documentType,
+    documentNumber: traveller.documentNumber,
+    dateOfBirth: traveller.dateOfBirth,
+    fareCategory: current.fareCategory,
+  };
+}
+
+/**
+ * First invalid field of an address book entry, or null
+ */
+export function validateTraveller(traveller: TravellerInput): TravellerField | null {
+  if (!traveller.name.trim()) return 'name';
+  if (traveller.email && !EMAIL_PATTERN.test(traveller.email.trim())) return 'email';
+
+  if (traveller.dateOfBirth) {
+    const date = new Date(traveller.dateOfBirth);
+    const isValid = DATE_PATTERN.test(traveller.dateOfBirth) && !Number.isNaN(date.getTime());
+    if (!isValid || date > new Date()) return 'dateOfBirth';
+  }
+
+  if (traveller.documentNumber?.trim() && !traveller.documentType) return 'documentNumber';
+  return null;
+}
@@ -0,0 +1,167 @@
+/**
+ * BUS-Tickets - Payment Documents
+ * Copyright (c) 2024-2026 IT Enterprise
+ *
+ * HTML for the payment receipt and VAT invoice of a transaction, printed
+ * to PDF by the document service. The texts come from the caller so the
+ * document is in the app's language.
+ */
+
+import type { BillingDetails, PaymentTransaction } from '@/types';
+import type { Translations } from '@/i18n/translations';
+
+export type PaymentDocumentKind = 'receipt' | 'invoice';
+
+export interface PaymentDocumentOptions {
+  kind: PaymentDocumentKind;
+  transaction: PaymentTransaction;
+  seller: BillingDetails;
+  /**
+   * The user's company for an invoice; for a receipt, just their name
+   */
+  buyer: BillingDetails;
+  labels: Translations['paymentHistory'];
+  formatMoney: (amount: number, currency: string) => string;
+  formatDate: (date: Date) => string;
+  issuedAt?: Date;
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function companyHtml(
+  title: string,
+  company: BillingDetails,
+  labels: Translations['paymentHistory']
+): string {
+  const lines = [
+    `<strong>${escapeHtml(company.companyName)}</strong>`,
+    company.street,
+    [company.postalCode, company.city].filter(Boolean).join(' '),
+    company.country,
+    company.companyId && `${labels.companyId}: ${company.companyId}`,
+    company.vatId && `${labels.vatId}: ${company.vatId}`,
+  ]
+    .filter((line): line is string => !!line)
+    .map((line, index) => (index === 0 ? line : escapeHtml(line)));
+
+  return `<div class="party"><h3>${escapeHtml(title)}</h3><p>${lines.join('<br>')}</p></div>`;
+}
+
+/**
+ * Whether an invoice can be made out to `billing`
+ */
+export function canIssueInvoice(billing: BillingDetails | undefined): billing is BillingDetails {
+  return !!billing?.companyName.trim();
+}
+
+export function paymentDocumentNumber(
+  kind: PaymentDocumentKind,
+  transaction: PaymentTransaction
+): string {
+  return kind === 'invoice' && transaction.invoiceNumber
+    ? transaction.invoiceNumber
+    : transaction.reference;
+}
+
+/**
+ * File name for the PDF, safe on every platform
+ */
+export function paymentDocumentFileName(
+  kind: PaymentDocumentKind,
+  transaction: PaymentTransaction
+): string {
+  const number = paymentDocumentNumber(kind, transaction).replace(/[^A-Za-z0-9_-]+/g, '-');
+  return `${kind}-${number}.pdf`;
+}
+
+export function buildPaymentDocumentHtml({
+  kind,
+  transaction,
+  seller,
+  buyer,
+  labels,
+  formatMoney,
+  formatDate,
+  issuedAt = new Date(),
+}: PaymentDocumentOptions): string {
+  const money = (amount: number) => escapeHtml(formatMoney(amount, transaction.currency));
+  const title = kind === 'invoice' ? labels.invoiceTitle : labels.receiptTitle;
+  const item = transaction.description || labels.defaultItem;
+  const ticketNumbers = transaction.ticketNumbers.length
+    ? `<br><small>${escapeHtml(labels.tickets)}: ${escapeHtml(transaction.ticketNumbers.join(', '))}</small>`
+    : '';
+
+  const meta: Array<[string, string]> = [
+    [labels.documentNumber, paymentDocumentNumber(kind, transaction)],
+    [labels.issueDate, formatDate(issuedAt)],
+    [labels.paymentDate, formatDate(new Date(transaction.confirmedAt ?? transaction.createdAt))],
+    [labels.provider, transaction.provider],
+    [labels.reference, transaction.reference],
+  ];
+
+  const vat = transaction.vat;
+  const totals = vat
+    ? `
+      <tr><td>${escapeHtml(labels.vatBase)}</td><td>${money(transaction.amount - vat.amount)}</td></tr>
+      <tr><td>${escapeHtml(labels.vat)} ${vat.rate} %</td><td>${money(vat.amount)}</td></tr>`
+    : '';
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<style>
+  body { font-family: -apple-system, Helvetica, Arial, sans-serif; color: #1f2937; margin: 32px; font-size: 13px; }
+  h1 { font-size: 22px; margin: 0 0 24px; }
+  h3 { font-size: 12px; text-transform: uppercase; color: #6b7280; margin: 0 0 6px; }
+  .parties { display: flex; gap: 32px; margin-bottom: 24px; }
+  .party { flex: 1; }
+  table { width: 100%; border-collapse: collapse; }
+  .meta td { padding: 2px 0; }
+  .meta td:first-child { color: #6b7280; width: 40%; }
+  .items { margin-top: 24px; }
+  .items th { text-align: left; border-bottom: 2px solid #1f2937; padding: 6px 0; }
+  .items td { border-bottom: 1px solid #e5e7eb; padding: 8px 0; vertical-align: top; }
+  .items .amount { text-align: right; }
+  .totals { margin-top: 16px; width: 50%; margin-left: auto; }
+  .totals td { padding: 4px 0; }
+  .totals td:last-child { text-align: right; }
+  .totals .grand td { border-top: 2px solid #1f2937; font-weight: bold; font-size: 15px; }
+  .note { margin-top: 24px; color: #6b7280; }
+</style>
+</head>
+<body>
+  <h1>${escapeHtml(title)}</h1>
+  <div class="parties">
+    ${companyHtml(labels.seller, seller, labels)}
+    ${companyHtml(labels.buyer, buyer, labels)}
+  </div>
+  <table class="meta">
+    ${meta
+      .map(([label, value]) => `<tr><td>${escapeHtml(label)}</td><td>${escapeHtml(value)}</td></tr>`)
+      .join('\n    ')}
+  </table>
+  <table class="items">
+    <tr><th>${escapeHtml(labels.item)}</th>${
+      vat ? `<th>${escapeHtml(labels.vatRate)}</th>` : ''
+    }<th class="amount">${escapeHtml(labels.total)}</th></tr>
+    <tr><td>${escapeHtml(item)}${ticketNumbers}</td>${
+      vat ? `<td>${vat.rate} %</td>` : ''
+    }<td class="amount">${money(transaction.amount)}</td></tr>
+  </table>
+  <table class="totals">${totals}
+    <tr class="grand"><td>${escapeHtml(labels.total)}</td><td>${money(transaction.amount)}</td></tr>
+  </table>
+  <p class="note">${escapeHtml(labels.alreadyPaid)}${
+    vat ? '' : `<br>${escapeHtml(labels.notVatPayer)}`
+  }</p>
+</body>
+</html>`;
+}
@@ -0,0 +1,118 @@
+/**
+ * BUS-Tickets - Payment QR Codes
+ * Copyright (c) 2024-2026 IT Enterprise
+ *
+ * QR payloads for bank transfers that banking apps can scan: SPAYD ("QR
+ * Platba") for Czech crowns, EPC (SEPA credit transfer) for euros. Other
+ * currencies have no common standard and are paid from the shown details.
+ */
+
+import type { BankTransferDetails } from '@/types';
+
+export type PaymentQrFormat = 'spayd' | 'epc';
+
+export interface PaymentQrCode {
+  format: PaymentQrFormat;
+  payload: string;
+}
+
+const SPAYD_MESSAGE_MAX = 60;
+const SPAYD_NAME_MAX = 35;
+const EPC_NAME_MAX = 70;
+const EPC_REMITTANCE_MAX = 140;
+
+function normalizeIban(iban: string): string {
+  return iban.replace(/\s+/g, '').toUpperCase();
+}
+
+function formatAmount(amount: number): string {
+  return amount.toFixed(2);
+}
+
+/**
+ * `*` separates SPAYD fields, so it's percent-encoded inside values
+ */
+function spaydValue(value: string, maxLength: number): string {
+  return value.replace(/\*/g, '%2A').slice(0, maxLength);
+}
+
+/**
+ * Due date as SPAYD wants it: YYYYMMDD
+ */
+function spaydDate(isoDate: string): string | undefined {
+  const date = new Date(isoDate);
+  if (Number.isNaN(date.getTime())) return undefined;
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}${month}${day}`;
+}
+
+/**
+ * Payment message for the recipient's statement: the variable symbol, so
+ * the transfer is matched even by banks that drop the VS field
+ */
+export function paymentMessage(details: BankTransferDetails): string {
+  return `VS ${details.variableSymbol}`;
+}
+
+/**
+ * SPAYD 1.0 payload (Czech banking association's "QR Platba")
+ */
+export function buildSpayd(details: BankTransferDetails, recipientName?: string): string {
+  const account = details.swift
+    ? `${normalizeIban(details.iban)}+${details.swift.toUpperCase()}`
+    : normalizeIban(details.iban);
+  const dueDate = details.dueDate ? spaydDate(details.dueDate) : undefined;
+
+  const fields = [
+    `ACC:${account}`,
+    `AM:${formatAmount(details.amount)}`,
+    `CC:${details.currency.toUpperCase()}`,
+    dueDate && `DT:${dueDate}`,
+    `MSG:${spaydValue(paymentMessage(details), SPAYD_MESSAGE_MAX)}`,
+    recipientName && `RN:${spaydValue(recipientName, SPAYD_NAME_MAX)}`,
+    `X-VS:${details.variableSymbol.replace(/\D/g, '').slice(0, 10)}`,
+  ].filter(Boolean);
+
+  return ['SPD', '1.0', ...fields].join('*');
+}
+
+/**
+ * EPC QR payload (version 002, UTF-8) for a SEPA credit transfer. The
+ * recipient's name is mandatory in this format.
+ */
+export function buildEpcQr(details: BankTransferDetails, recipientName: string): string {
+  return [
+    'BCD',
+    '002',
+    '1',
+    'SCT',
+    details.swift.toUpperCase(),
+    recipientName.slice(0, EPC_NAME_MAX),
+    normalizeIban(details.iban),
+    `EUR${formatAmount(details.amount)}`,
+    // Purpose and structured reference are left empty
+    '',
+    '',
+    paymentMessage(details).slice(0, EPC_REMITTANCE_MAX),
+  ].join('\n');
+}
+
+/**
+ * QR codes that fit the transfer's currency; empty when there are none
+ */
+export function getPaymentQrCodes(
+  details: BankTransferDetails,
+  recipientName?: string
+): PaymentQrCode[] {
+  switch (details.currency.toUpperCase()) {
+    case 'CZK':
+      return [{ format: 'spayd', payload: buildSpayd(details, recipientName) }];
+    case 'EUR':
+      return recipientName
+        ? [{ format: 'epc', payload: buildEpcQr(details, recipientName) }]
+        : [];
+    default:
+      return [];
+  }
+}
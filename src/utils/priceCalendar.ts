@@ -0,0 +1,150 @@
+/**
+ * BUS-Tickets - Price Calendar
+ * Copyright (c) 2024-2026 IT Enterprise
+ *
+ * Per-day summaries of a route's trips for flexible-date search: the
+ * lowest price and free seats each day, and a cheap / average / expensive
+ * level for the heatmap. Dates are local `YYYY-MM-DD` strings.
+ */
+
+import type { TripWithProvider } from '@/contexts/ProvidersContext';
+
+export type CalendarMode = 'around' | 'month';
+
+/**
+ * Days searched either side of the chosen date in `around` mode
+ */
+export const FLEXIBLE_DAYS = 3;
+
+export type PriceLevel = 'low' | 'medium' | 'high';
+
+interface Money {
+  amount: number;
+  currency: string;
+}
+
+/**
+ * Puts prices in the one currency a calendar compares them in; null when
+ * there's no rate for a price's currency
+ */
+export type PriceConverter = (price: Money) => Money | null;
+
+export interface CalendarDay {
+  date: string;
+  /**
+   * Cheapest trip with enough free seats, converted to the calendar's
+   * currency; unset when none runs, all are full or none could be converted
+   */
+  lowestPrice?: Money;
+  /**
+   * Free seats on the emptiest trip that day
+   */
+  availableSeats: number;
+  tripCount: number;
+}
+
+export function toDateKey(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+export function fromDateKey(key: string): Date {
+  const [year, month, day] = key.split('-').map(Number);
+  return new Date(year, month - 1, day);
+}
+
+function startOfToday(): Date {
+  const today = new Date();
+  today.setHours(0, 0, 0, 0);
+  return today;
+}
+
+/**
+ * Dates to search: `FLEXIBLE_DAYS` around `date`, or every day of its
+ * month. Past days are left out.
+ */
+export function getCalendarDates(mode: CalendarMode, date: Date): string[] {
+  const today = startOfToday();
+  const dates: Date[] = [];
+
+  if (mode === 'around') {
+    for (let offset = -FLEXIBLE_DAYS; offset <= FLEXIBLE_DAYS; offset++) {
+      dates.push(new Date(date.getFullYear(), date.getMonth(), date.getDate() + offset));
+    }
+  } else {
+    const daysInMonth = new Date(date.getFullYear(), date.getMonth() + 1, 0).getDate();
+    for (let day = 1; day <= daysInMonth; day++) {
+      dates.push(new Date(date.getFullYear(), date.getMonth(), day));
+    }
+  }
+
+  return dates.filter((day) => day >= today).map(toDateKey);
+}
+
+/**
+ * Weeks of `month` (Monday first) for a calendar grid, with null padding
+ * before the 1st and after the last day
+ */
+export function getMonthWeeks(month: Date): Array<Array<string | null>> {
+  const first = new Date(month.getFullYear(), month.getMonth(), 1);
+  const daysInMonth = new Date(month.getFullYear(), month.getMonth() + 1, 0).getDate();
+  const leading = (first.getDay() + 6) % 7;
+
+  const cells: Array<string | null> = Array.from({ length: leading }, () => null);
+  for (let day = 1; day <= daysInMonth; day++) {
+    cells.push(toDateKey(new Date(month.getFullYear(), month.getMonth(), day)));
+  }
+  while (cells.length % 7 !== 0) cells.push(null);
+
+  const weeks: Array<Array<string | null>> = [];
+  for (let i = 0; i < cells.length; i += 7) {
+    weeks.push(cells.slice(i, i + 7));
+  }
+  return weeks;
+}
+
+/**
+ * Summarize one day's trips from all providers. Providers may sell in
+ * different currencies, so prices are compared once `convert` has put
+ * them in one; a trip it can't convert isn't priced.
+ */
+export function summarizeDay(
+  date: string,
+  trips: TripWithProvider[],
+  passengers: number,
+  convert: PriceConverter
+): CalendarDay {
+  const prices = trips
+    .filter((trip) => trip.availableSeats >= passengers)
+    .flatMap((trip) => convert(trip.price) ?? []);
+  const lowestPrice = prices.reduce<Money | undefined>(
+    (lowest, price) => (!lowest || price.amount < lowest.amount ? price : lowest),
+    undefined
+  );
+
+  return {
+    date,
+    lowestPrice: lowestPrice && { amount: lowestPrice.amount, currency: lowestPrice.currency },
+    availableSeats: trips.reduce((most, trip) => Math.max(most, trip.availableSeats), 0),
+    tripCount: trips.length,
+  };
+}
+
+/**
+ * Heatmap level of each priced day, by thirds of the range between the
+ * cheapest and dearest day searched
+ */
+export function getPriceLevels(days: CalendarDay[]): Map<string, PriceLevel> {
+  const priced = days.filter((day) => day.lowestPrice);
+  const amounts = priced.map((day) => day.lowestPrice!.amount);
+  const min = Math.min(...amounts);
+  const range = Math.max(...amounts) - min;
+
+  const levels = new Map<string, PriceLevel>();
+  for (const day of priced) {
+    const position = range === 0 ? 0 : (day.lowestPrice!.amount - min) / range;
+    levels.set(day.date, position < 1 / 3 ? 'low' : position < 2 / 3 ? 'medium' : 'high');
+  }
+  return levels;
+}
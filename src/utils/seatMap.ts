@@ -0,0 +1,111 @@
+/**
+ * BUS-Tickets - Seat Map Layout
+ * Copyright (c) 2024-2026 IT Enterprise
+ *
+ * Turns a bus `SeatLayout` into rows of cells for rendering. Seats are
+ * numbered row by row, left to right, skipping door cells; upper deck
+ * numbers continue after the lower deck.
+ */
+
+import type { SeatLayout, DeckLayout, SeatAvailability } from '@/types';
+
+export type SeatCell =
+  | { type: 'seat'; number: number }
+  | { type: 'aisle' }
+  | { type: 'door' }
+  | { type: 'empty' };
+
+export interface SeatMapDeck {
+  deck: 'lower' | 'upper';
+  /**
+   * Driver side of the front row; only set on the lower deck
+   */
+  driverSide?: 'left' | 'right';
+  rows: SeatCell[][];
+}
+
+/**
+ * Seats per row used when a bus has no layout: a standard 2+2 coach
+ */
+const DEFAULT_SEATS_PER_ROW = 4;
+
+function getAisleAfter(deck: DeckLayout): number {
+  return deck.aisleAfter ?? Math.ceil(deck.seatsPerRow / 2);
+}
+
+function buildDeck(
+  deck: DeckLayout,
+  firstSeat: number,
+  options: { doorRows?: number[]; doorSide?: 'left' | 'right'; lastSeat?: number } = {}
+): { rows: SeatCell[][]; nextSeat: number } {
+  const aisleAfter = getAisleAfter(deck);
+  const doorRows = new Set(options.doorRows ?? []);
+  let next = firstSeat;
+
+  const rows = Array.from({ length: deck.rows }, (_, rowIndex) => {
+    const hasDoor = doorRows.has(rowIndex + 1);
+    const cells: SeatCell[] = [];
+
+    for (let column = 0; column < deck.seatsPerRow; column++) {
+      if (column === aisleAfter) {
+        cells.push({ type: 'aisle' });
+      }
+
+      const leftOfAisle = column < aisleAfter;
+      if (hasDoor && leftOfAisle === (options.doorSide === 'left')) {
+        cells.push({ type: 'door' });
+      } else if (options.lastSeat !== undefined && next > options.lastSeat) {
+        cells.push({ type: 'empty' });
+      } else {
+        cells.push({ type: 'seat', number: next++ });
+      }
+    }
+    return cells;
+  });
+
+  return { rows, nextSeat: next };
+}
+
+/**
+ * Build the decks to render. Without a layout, a 2+2 grid holding
+ * `totalSeats` seats is used.
+ */
+export function buildSeatMap(layout: SeatLayout | undefined, totalSeats: number): SeatMapDeck[] {
+  if (!layout) {
+    const { rows } = buildDeck(
+      { rows: Math.ceil(totalSeats / DEFAULT_SEATS_PER_ROW), seatsPerRow: DEFAULT_SEATS_PER_ROW },
+      1,
+      { lastSeat: totalSeats }
+    );
+    return [{ deck: 'lower', driverSide: 'left', rows }];
+  }
+
+  const driverSide = layout.driverSide ?? 'left';
+  const lower = buildDeck(layout, 1, {
+    doorRows: layout.doorRows,
+    doorSide: driverSide === 'left' ? 'right' : 'left',
+  });
+  const decks: SeatMapDeck[] = [{ deck: 'lower', driverSide, rows: lower.rows }];
+
+  if (layout.upperDeck) {
+    const upper = buildDeck(layout.upperDeck, lower.nextSeat);
+    decks.push({ deck: 'upper', rows: upper.rows });
+  }
+
+  return decks;
+}
+
+/**
+ * Seats that can't be selected: blocked in the layout or taken right now
+ */
+export function getBlockedSeats(
+  layout: SeatLayout | undefined,
+  availability: SeatAvailability | null
+): Set<number> {
+  return new Set([
+    ...(layout?.unavailableSeats ?? []),
+    ...(layout?.reservedSeats ?? []),
+    ...(availability?.unavailableSeats ?? []),
+    ...(availability?.occupiedSeats ?? []),
+  ]);
+}
@@ -0,0 +1,84 @@
+/**
+ * BUS-Tickets - Cross-Provider Trip Deduplication
+ * Copyright (c) 2024-2026 IT Enterprise
+ *
+ * Operators resell each other's coaches, so the same departure can come
+ * back from several providers. Trips on the same route, leaving at the
+ * same minute on the same bus are merged into one result.
+ */
+
+import type { TripWithProvider } from '@/contexts/ProvidersContext';
+import { isSameStation } from './connections';
+
+function departureMinute(trip: TripWithProvider): number {
+  return Math.floor(new Date(trip.departure).getTime() / 60000);
+}
+
+function normalize(value: string | undefined): string | undefined {
+  const normalized = value?.replace(/\s+/g, '').toLowerCase();
+  return normalized || undefined;
+}
+
+/**
+ * Bus IDs are provider-local, so buses are compared by plate, or by name
+ * when either has no plate. Trips without bus info are never merged.
+ */
+function isSameBus(a: TripWithProvider, b: TripWithProvider): boolean {
+  const plateA = normalize(a.bus?.plateNumber);
+  const plateB = normalize(b.bus?.plateNumber);
+  if (plateA && plateB) return plateA === plateB;
+
+  const nameA = normalize(a.bus?.name);
+  const nameB = normalize(b.bus?.name);
+  return !!nameA && nameA === nameB;
+}
+
+export function isSameTrip(a: TripWithProvider, b: TripWithProvider): boolean {
+  return (
+    a.providerId !== b.providerId &&
+    departureMinute(a) === departureMinute(b) &&
+    isSameStation(a.route.origin, a.providerId, b.route.origin, b.providerId) &&
+    isSameStation(a.route.destination, a.providerId, b.route.destination, b.providerId) &&
+    isSameBus(a, b)
+  );
+}
+
+/**
+ * Whether `a` is the better offer of the same trip: cheaper, or with more
+ * seats at the same price. Prices in different currencies aren't compared.
+ */
+function isBetterOffer(a: TripWithProvider, b: TripWithProvider): boolean {
+  if (a.price.currency === b.price.currency && a.price.amount !== b.price.amount) {
+    return a.price.amount < b.price.amount;
+  }
+  return a.availableSeats > b.availableSeats;
+}
+
+/**
+ * One result per trip: the best offer, listing the other providers
+ * selling it in `alsoSoldBy`
+ */
+export function dedupeTrips(trips: TripWithProvider[]): TripWithProvider[] {
+  const groups: TripWithProvider[][] = [];
+
+  for (const trip of trips) {
+    const group = groups.find((offers) => offers.some((offer) => isSameTrip(offer, trip)));
+    if (group) {
+      group.push(trip);
+    } else {
+      groups.push([trip]);
+    }
+  }
+
+  return groups.map((offers) => {
+    const best = offers.reduce((a, b) => (isBetterOffer(b, a) ? b : a));
+    if (offers.length === 1) return best;
+
+    return {
+      ...best,
+      alsoSoldBy: offers
+        .filter((offer) => offer !== best)
+        .map((offer) => ({ providerId: offer.providerId, providerName: offer.providerName })),
+    };
+  });
+}
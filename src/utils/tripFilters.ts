@@ -0,0 +1,226 @@
+/**
+ * BUS-Tickets - Search Result Filters
+ * Copyright (c) 2024-2026 IT Enterprise
+ *
+ * Client-side sorting and filtering of merged search results. Facet counts
+ * say how many trips each option would show given the other filters, so
+ * an option never leads to an empty list by surprise.
+ */
+
+import type { BusAmenity } from '@/types';
+import type { TripWithProvider } from '@/contexts/ProvidersContext';
+
+export type TripSort = 'departure' | 'price' | 'duration' | 'arrival';
+
+export type DepartureWindow = 'night' | 'morning' | 'afternoon' | 'evening';
+
+/**
+ * Start hour of each departure window; a window runs until the next one
+ */
+export const DEPARTURE_WINDOWS: Record<DepartureWindow, number> = {
+  night: 0,
+  morning: 6,
+  afternoon: 12,
+  evening: 18,
+};
+
+export const AMENITIES: BusAmenity[] = [
+  'wifi',
+  'ac',
+  'toilet',
+  'usb',
+  'power',
+  'tv',
+  'snacks',
+  'sleeper',
+  'recliner',
+];
+
+export const MIN_SEAT_OPTIONS = [2, 5, 10];
+
+export interface TripFilters {
+  /**
+   * Any of these; empty for any time
+   */
+  departureWindows: DepartureWindow[];
+  /**
+   * All of these
+   */
+  amenities: BusAmenity[];
+  /**
+   * Any of these; empty for every provider
+   */
+  providerIds: string[];
+  maxPrice?: number;
+  minSeats?: number;
+}
+
+export const EMPTY_FILTERS: TripFilters = {
+  departureWindows: [],
+  amenities: [],
+  providerIds: [],
+};
+
+type FilterKey = keyof TripFilters;
+
+export interface TripFacets {
+  departureWindows: Record<DepartureWindow, number>;
+  amenities: Partial<Record<BusAmenity, number>>;
+  providers: Array<{ id: string; name: string; count: number }>;
+  /**
+   * Suggested price limits with the number of trips at or below each
+   */
+  maxPrices: Array<{ amount: number; count: number }>;
+  minSeats: Array<{ seats: number; count: number }>;
+}
+
+export function getDepartureWindow(trip: TripWithProvider): DepartureWindow {
+  const hour = new Date(trip.departure).getHours();
+  if (hour >= DEPARTURE_WINDOWS.evening) return 'evening';
+  if (hour >= DEPARTURE_WINDOWS.afternoon) return 'afternoon';
+  if (hour >= DEPARTURE_WINDOWS.morning) return 'morning';
+  return 'night';
+}
+
+/**
+ * Price to compare trips by: converted to the display currency when possible,
+ * so trips sold in different currencies sort and filter together
+ */
+function comparablePrice(trip: TripWithProvider): number {
+  return (trip.displayPrice ?? trip.price).amount;
+}
+
+function hasAmenity(trip: TripWithProvider, amenity: BusAmenity): boolean {
+  return trip.bus?.amenities?.includes(amenity) ?? false;
+}
+
+/**
+ * Whether `trip` passes every filter except `ignore`
+ */
+function matches(trip: TripWithProvider, filters: TripFilters, ignore?: FilterKey): boolean {
+  if (
+    ignore !== 'departureWindows' &&
+    filters.departureWindows.length > 0 &&
+    !filters.departureWindows.includes(getDepartureWindow(trip))
+  ) {
+    return false;
+  }
+  if (
+    ignore !== 'amenities' &&
+    !filters.amenities.every((amenity) => hasAmenity(trip, amenity))
+  ) {
+    return false;
+  }
+  if (
+    ignore !== 'providerIds' &&
+    filters.providerIds.length > 0 &&
+    !filters.providerIds.includes(trip.providerId)
+  ) {
+    return false;
+  }
+  if (ignore !== 'maxPrice' && filters.maxPrice !== undefined && comparablePrice(trip) > filters.maxPrice) {
+    return false;
+  }
+  if (ignore !== 'minSeats' && filters.minSeats !== undefined && trip.availableSeats < filters.minSeats) {
+    return false;
+  }
+  return true;
+}
+
+export function filterTrips(trips: TripWithProvider[], filters: TripFilters): TripWithProvider[] {
+  return trips.filter((trip) => matches(trip, filters));
+}
+
+const time = (value: string) => new Date(value).getTime();
+
+const SORTERS: Record<TripSort, (a: TripWithProvider, b: TripWithProvider) => number> = {
+  departure: (a, b) => time(a.departure) - time(b.departure),
+  price: (a, b) => comparablePrice(a) - comparablePrice(b),
+  duration: (a, b) => a.duration - b.duration,
+  arrival: (a, b) => time(a.arrival) - time(b.arrival),
+};
+
+/**
+ * Sorted copy; ties keep departure order
+ */
+export function sortTrips(trips: TripWithProvider[], sort: TripSort): TripWithProvider[] {
+  return [...trips].sort((a, b) => SORTERS[sort](a, b) || SORTERS.departure(a, b));
+}
+
+/**
+ * Round a price limit up to a figure people would pick
+ */
+function roundPriceLimit(amount: number): number {
+  const step = amount >= 1000 ? 100 : amount >= 100 ? 10 : 1;
+  return Math.ceil(amount / step) * step;
+}
+
+export function getFacets(trips: TripWithProvider[], filters: TripFilters): TripFacets {
+  const without = (key: FilterKey) => trips.filter((trip) => matches(trip, filters, key));
+
+  const departureWindows: Record<DepartureWindow, number> = {
+    night: 0,
+    morning: 0,
+    afternoon: 0,
+    evening: 0,
+  };
+  for (const trip of without('departureWindows')) {
+    departureWindows[getDepartureWindow(trip)]++;
+  }
+
+  // Amenities narrow down: count trips that also have this one
+  const amenities: Partial<Record<BusAmenity, number>> = {};
+  const matching = filterTrips(trips, filters);
+  for (const amenity of AMENITIES) {
+    const count = matching.filter((trip) => hasAmenity(trip, amenity)).length;
+    if (count > 0 || filters.amenities.includes(amenity)) amenities[amenity] = count;
+  }
+
+  const providers = new Map<string, { id: string; name: string; count: number }>();
+  for (const trip of trips) {
+    if (!providers.has(trip.providerId)) {
+      providers.set(trip.providerId, { id: trip.providerId, name: trip.providerName, count: 0 });
+    }
+  }
+  for (const trip of without('providerIds')) {
+    providers.get(trip.providerId)!.count++;
+  }
+
+  // Limits at the quartiles of what's on offer
+  const priced = without('maxPrice');
+  const amounts = trips.map(comparablePrice).sort((a, b) => a - b);
+  const limits = new Set(
+    [0.25, 0.5, 0.75]
+      .map((quantile) => amounts[Math.floor(quantile * (amounts.length - 1))])
+      .filter((amount) => amount !== undefined && amount < amounts[amounts.length - 1])
+      .map(roundPriceLimit)
+  );
+  const maxPrices = Array.from(limits, (amount) => ({
+    amount,
+    count: priced.filter((trip) => comparablePrice(trip) <= amount).length,
+  }));
+
+  const seated = without('minSeats');
+  const minSeats = MIN_SEAT_OPTIONS.map((seats) => ({
+    seats,
+    count: seated.filter((trip) => trip.availableSeats >= seats).length,
+  }));
+
+  return {
+    departureWindows,
+    amenities,
+    providers: Array.from(providers.values()),
+    maxPrices,
+    minSeats,
+  };
+}
+
+export function countActiveFilters(filters: TripFilters): number {
+  return (
+    filters.departureWindows.length +
+    filters.amenities.length +
+    filters.providerIds.length +
+    (filters.maxPrice !== undefined ? 1 : 0) +
+    (filters.minSeats !== undefined ? 1 : 0)
+  );
+}